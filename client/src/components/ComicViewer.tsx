@@ -0,0 +1,72 @@
+import { useEffect, type MouseEvent } from 'react'
+import { getAdjacentPage, getSpreadPages } from '../utils/comic'
+
+export type ComicFitMode = 'width' | 'height'
+
+interface ComicViewerProps {
+  images: string[]
+  currentPage: number
+  onPageChange: (page: number) => void
+  fitMode: ComicFitMode
+  rightToLeft: boolean
+  spread: boolean
+}
+
+// 画像ページ表示（CBZ）: 幅/高さ合わせ、右綴じ、見開き
+function ComicViewer({ images, currentPage, onPageChange, fitMode, rightToLeft, spread }: ComicViewerProps): JSX.Element {
+  const total = images.length
+  const visiblePages = spread ? getSpreadPages(currentPage, total) : [currentPage]
+  // 右綴じの見開きは右側が先のページ
+  const displayPages = rightToLeft ? [...visiblePages].reverse() : visiblePages
+
+  const move = (direction: 1 | -1): void => {
+    const next = getAdjacentPage(currentPage, total, direction, spread)
+    if (next !== null) onPageChange(next)
+  }
+
+  // 矢印キー: 右綴じでは ← が次のページ
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return
+      if (e.key === 'ArrowLeft') {
+        move(rightToLeft ? 1 : -1)
+      } else if (e.key === 'ArrowRight') {
+        move(rightToLeft ? -1 : 1)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  // 画面の左右半分をクリックしてページ送り
+  const handleClick = (e: MouseEvent<HTMLDivElement>): void => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const clickedLeft = e.clientX - rect.left < rect.width / 2
+    move(clickedLeft === rightToLeft ? 1 : -1)
+  }
+
+  return (
+    <div className={`comic-viewer fit-${fitMode}`} onClick={handleClick}>
+      <div className={`comic-spread ${displayPages.length > 1 ? 'double' : ''}`}>
+        {displayPages.map(page => (
+          <img
+            key={page}
+            className="comic-page"
+            src={images[page - 1]}
+            alt={`p.${page}`}
+            draggable={false}
+          />
+        ))}
+      </div>
+      {/* 前後のページを先読み */}
+      <div style={{ display: 'none' }}>
+        {[visiblePages[0] - 1, visiblePages[visiblePages.length - 1] + 1, visiblePages[visiblePages.length - 1] + 2]
+          .filter(page => page >= 1 && page <= total)
+          .map(page => <img key={page} src={images[page - 1]} alt="" />)}
+      </div>
+    </div>
+  )
+}
+
+export default ComicViewer
@@ -0,0 +1,70 @@
+import type { CrawlJob } from '../types'
+import { canResumeCrawl, canSaveFetchedCrawl, crawlStatusLabel, formatBytes } from '../utils/crawlProgress'
+
+interface CrawlProgressPanelProps {
+  job: CrawlJob
+  onCancel: () => void
+  onResume: () => void
+  // 残りのページを諦めて、取得済みのページだけで保存する
+  onSaveFetched: () => void
+}
+
+// 表示する直近の取得URLの数
+const RECENT_URL_COUNT = 5
+
+// 複数ページ保存ジョブの進捗（取得したURL・バイト数・画像数・エラー）
+export default function CrawlProgressPanel({ job, onCancel, onResume, onSaveFetched }: CrawlProgressPanelProps): JSX.Element {
+  const detail = job.detail
+  const running = job.status === 'queued' || job.status === 'running'
+  const recent = detail ? detail.fetched.slice(-RECENT_URL_COUNT).reverse() : []
+
+  return (
+    <div className={`crawl-progress crawl-${job.status}`}>
+      <div className="crawl-status">
+        {job.status === 'completed' ? '✅' : job.status === 'failed' ? '⚠️' : job.status === 'cancelled' ? '⏹️' : '⏳'} {crawlStatusLabel(job)}
+      </div>
+
+      {detail && (
+        <>
+          <div className="crawl-stats">
+            <span>📄 {detail.fetched.length} / {detail.maxPages}ページ</span>
+            <span>📦 {formatBytes(detail.bytes)}</span>
+            <span>🖼️ {detail.images}枚</span>
+          </div>
+          {running && <progress value={job.progress} max={100} />}
+
+          {recent.length > 0 && (
+            <ul className="crawl-urls">
+              {recent.map(page => (
+                <li key={page.url} title={page.url}>{page.url}</li>
+              ))}
+            </ul>
+          )}
+
+          {detail.errors.length > 0 && (
+            <ul className="crawl-errors">
+              {detail.errors.map((error, index) => (
+                <li key={index} title={error.url}>{error.message}（{error.url}）</li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {(running || canResumeCrawl(job)) && (
+        <div className="crawl-actions">
+          {running ? (
+            <button className="secondary" onClick={onCancel}>⏹️ 中止</button>
+          ) : (
+            <>
+              {canSaveFetchedCrawl(job) && (
+                <button className="secondary" onClick={onSaveFetched}>💾 取得済みのページを保存</button>
+              )}
+              <button className="primary" onClick={onResume}>▶️ 再開</button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,7 +2,9 @@ import * as pdfjsLib from 'pdfjs-dist'
 import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
 import { useCallback, useEffect, useRef, useState, type MouseEvent as ReactMouseEvent } from 'react'
 import { InsertedNote, InsertNoteButton, type NoteData } from '../editor'
-import type { Clip, ClipPosition } from '../types'
+import type { Clip, ClipPosition, TocItem } from '../types'
+import { formatPageLabel, normalizePageLabels } from '../utils/pageLabels'
+import { flattenPdfOutline } from '../utils/pdfOutline'
 
 // PDF.js worker設定
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker
@@ -360,6 +362,8 @@ interface PdfViewerProps {
   onPageChange: (page: number) => void
   onTotalPagesChange?: (total: number) => void
   onPageTextExtracted?: (pageTexts: Map<number, string>) => void
+  onOutlineExtracted?: (toc: TocItem[]) => void
+  onPageLabelsLoaded?: (labels: string[] | null) => void
   viewMode: 'scroll' | 'page'
   clipMode: boolean
   onClipCapture?: (pageNum: number, imageData: string, position: ClipPosition) => void
@@ -374,9 +378,11 @@ interface PdfViewerProps {
   onDeleteNote?: (noteId: string) => Promise<void>
 }
 
-function PdfViewer({ pdfUrl, currentPage, onPageChange, onTotalPagesChange, onPageTextExtracted, viewMode, clipMode, onClipCapture, clips, onClipClick, scale, scrollContainerRef, notes, onAddNote, onSaveNote, onDeleteNote }: PdfViewerProps): JSX.Element {
+function PdfViewer({ pdfUrl, currentPage, onPageChange, onTotalPagesChange, onPageTextExtracted, onOutlineExtracted, onPageLabelsLoaded, viewMode, clipMode, onClipCapture, clips, onClipClick, scale, scrollContainerRef, notes, onAddNote, onSaveNote, onDeleteNote }: PdfViewerProps): JSX.Element {
   const [pdf, setPdf] = useState<pdfjsLib.PDFDocumentProxy | null>(null)
   const [totalPages, setTotalPages] = useState<number>(0)
+  // ページラベル（iv, 12 など）、物理ページ番号と同じならnull
+  const [pageLabels, setPageLabels] = useState<string[] | null>(null)
   const [loading, setLoading] = useState<boolean>(true)
   const [visiblePages, setVisiblePages] = useState<Record<number, boolean>>({})
   const [pageWidths, setPageWidths] = useState<Record<number, number>>({})
@@ -412,6 +418,33 @@ function PdfViewer({ pdfUrl, currentPage, onPageChange, onTotalPagesChange, onPa
           onTotalPagesChange(pdfDoc.numPages)
         }
 
+        // ページラベル（前付けのローマ数字など）
+        pdfDoc.getPageLabels()
+          .then(labels => {
+            if (!isMounted) return
+            const normalized = normalizePageLabels(labels)
+            setPageLabels(normalized)
+            if (onPageLabelsLoaded) onPageLabelsLoaded(normalized)
+          })
+          .catch(e => console.warn('Failed to read PDF page labels:', e))
+
+        // しおり（アウトライン）を目次として渡す
+        if (onOutlineExtracted) {
+          pdfDoc.getOutline()
+            .then(outline => flattenPdfOutline(outline || [], async dest => {
+              const explicit = typeof dest === 'string' ? await pdfDoc.getDestination(dest) : dest
+              const target = explicit?.[0]
+              // 移動先はページ参照か0始まりのページ番号
+              if (typeof target === 'number') return target + 1
+              if (!target) return null
+              return await pdfDoc.getPageIndex(target as Parameters<typeof pdfDoc.getPageIndex>[0]) + 1
+            }))
+            .then(toc => {
+              if (isMounted) onOutlineExtracted(toc)
+            })
+            .catch(e => console.warn('Failed to read PDF outline:', e))
+        }
+
         // テキスト抽出（現在ページ周辺）
         if (onPageTextExtracted) {
           const extractTexts = async () => {
@@ -659,7 +692,7 @@ function PdfViewer({ pdfUrl, currentPage, onPageChange, onTotalPagesChange, onPa
                 data-page={pageNum}
               >
                 <div className="pdf-page-number">
-                  <span>ページ {pageNum} / {totalPages}</span>
+                  <span>ページ {formatPageLabel(pageNum, pageLabels)} / {totalPages}</span>
                 </div>
                 <div className="pdf-page-content">
                   <PdfPage
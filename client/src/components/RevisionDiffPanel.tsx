@@ -0,0 +1,112 @@
+import axios from 'axios'
+import { useEffect, useState } from 'react'
+import type { PageDiff, RevisionInfo } from '../types'
+import { collapseUnchanged, formatRevisionDate } from '../utils/revisionDiff'
+
+interface RevisionDiffPanelProps {
+  bookId: string
+  pageNum: number
+  revisions: RevisionInfo[]
+  onClose: () => void
+}
+
+// 再取得したWebページの、現在のページと旧版との差分
+export default function RevisionDiffPanel({ bookId, pageNum, revisions, onClose }: RevisionDiffPanelProps): JSX.Element {
+  const [revisionId, setRevisionId] = useState<string>(revisions[revisions.length - 1]?.id || '')
+  const [diff, setDiff] = useState<PageDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+
+  // 再取得で旧版が増えたら最新の旧版と比較する
+  useEffect(() => {
+    setRevisionId(revisions[revisions.length - 1]?.id || '')
+  }, [revisions])
+
+  useEffect(() => {
+    if (!revisionId) return
+    let cancelled = false
+
+    const fetchDiff = async () => {
+      setLoading(true)
+      try {
+        const res = await axios.get<PageDiff>(`/api/books/${bookId}/page/${pageNum}/diff`, {
+          params: { revision: revisionId }
+        })
+        if (!cancelled) {
+          setDiff(res.data)
+          setError(null)
+        }
+      } catch (err: unknown) {
+        const axiosError = err as { response?: { data?: { error?: string } } }
+        if (!cancelled) {
+          setDiff(null)
+          setError(axiosError.response?.data?.error || '差分の取得に失敗しました')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchDiff()
+    return () => {
+      cancelled = true
+    }
+  }, [bookId, pageNum, revisionId])
+
+  const rows = diff ? (showUnchanged ? diff.blocks : collapseUnchanged(diff.blocks)) : []
+
+  return (
+    <div className="revision-diff-panel">
+      <div className="vocabulary-header">
+        <h3>🕘 変更点（p.{pageNum}）</h3>
+        <button onClick={onClose} className="close-btn">✕</button>
+      </div>
+
+      <div className="revision-diff-toolbar">
+        <select value={revisionId} onChange={e => setRevisionId(e.target.value)}>
+          {[...revisions].reverse().map(revision => (
+            <option key={revision.id} value={revision.id}>
+              {formatRevisionDate(revision.replacedAt)} の更新前（{revision.totalPages}ページ）
+            </option>
+          ))}
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={e => setShowUnchanged(e.target.checked)}
+          />
+          変更のない段落も表示
+        </label>
+      </div>
+
+      <div className="revision-diff-list">
+        {loading ? (
+          <p className="loading-text">読み込み中...</p>
+        ) : error ? (
+          <p className="error-message">{error}</p>
+        ) : diff && diff.added + diff.removed === 0 ? (
+          <p className="empty-text">このページに変更はありません</p>
+        ) : (
+          <>
+            {diff && (
+              <p className="revision-diff-summary">
+                <span className="diff-added-count">+{diff.added}</span>
+                <span className="diff-removed-count">−{diff.removed}</span>
+                {diff.oldPages.length > 0 ? `旧版 p.${diff.oldPages.join(', ')} と比較` : '旧版に対応するページはありません'}
+              </p>
+            )}
+            {rows.map((row, index) => row.type === 'skipped' ? (
+              <div key={index} className="diff-skipped">… 変更のない段落 {row.count} 件 …</div>
+            ) : (
+              <div key={index} className={`diff-block diff-${row.type}`}>
+                {row.type === 'added' ? '+ ' : row.type === 'removed' ? '− ' : ''}{row.text}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,56 @@
 import axios from 'axios'
 import { useCallback, useEffect, useRef, useState, type ChangeEvent, type DragEvent, type FormEvent, type MouseEvent } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
-import type { Book, Tag } from '../types'
+import CrawlProgressPanel from '../components/CrawlProgressPanel'
+import { nextPageMethodLabel } from '../utils/crawlProgress'
+import type { Book, CrawlJob, CrawlPreview, DuplicateBook, ReplaceSourceResult, Tag, UnmappedAnnotation, UploadJob, UploadResult } from '../types'
 
 type SortBy = 'lastRead' | 'title' | 'added'
 
+// 変換ジョブの段階ごとの表示
+const JOB_STAGE_LABELS: Record<string, string> = {
+  queued: '変換待ち...',
+  starting: '変換開始...',
+  reading: 'メタデータ読み込み中...',
+  extracting: 'ZIP展開中...',
+  converting: '変換中...',
+  splitting: 'ページ分割中...',
+  saving: '保存中...',
+  remapping: 'しおり・メモを移動中...',
+  completed: '完了!'
+}
+
+const JOB_POLL_INTERVAL = 1000
+
+// 種類ごとのバッジ・アイコン・表示名
+const BOOK_TYPE_INFO: Record<string, { badge: string; icon: string; color: string; name: string }> = {
+  epub: { badge: 'EPUB', icon: '📖', color: '#667eea', name: '' },
+  pdf: { badge: 'PDF', icon: '📄', color: '#ef4444', name: 'PDF' },
+  website: { badge: 'WEB', icon: '🌐', color: '#10b981', name: 'Webページ' },
+  markdown: { badge: 'MD', icon: '📝', color: '#8b5cf6', name: 'Markdown' },
+  text: { badge: 'TXT', icon: '📃', color: '#64748b', name: 'テキスト' },
+  html: { badge: 'HTML', icon: '🧾', color: '#f97316', name: 'HTML' },
+  docx: { badge: 'DOCX', icon: '📘', color: '#2563eb', name: 'Word' },
+  comic: { badge: 'CBZ', icon: '🖼️', color: '#db2777', name: 'コミック' }
+}
+
+const getBookTypeInfo = (book: Book) => BOOK_TYPE_INFO[book.book_type || 'epub'] || BOOK_TYPE_INFO.epub
+
+// 409 Conflict（重複）の場合は既存の本を取り出す
+const getDuplicateBook = (error: unknown): DuplicateBook | null => {
+  const axiosError = error as { response?: { status?: number; data?: { existingBook?: DuplicateBook } } }
+  return axiosError.response?.status === 409 ? axiosError.response.data?.existingBook || null : null
+}
+
+const ANNOTATION_LABELS: Record<UnmappedAnnotation['type'], string> = {
+  bookmark: 'しおり',
+  note: 'メモ',
+  clip: 'クリップ',
+  progress: '読書位置'
+}
+
+const UPLOAD_EXTENSIONS = ['epub', 'pdf', 'md', 'zip', 'cbz', 'txt', 'html', 'htm', 'docx']
+
 function Home(): JSX.Element {
   const [books, setBooks] = useState<Book[]>([])
   const [loading, setLoading] = useState<boolean>(true)
@@ -16,19 +62,34 @@ function Home(): JSX.Element {
   const [editTitle, setEditTitle] = useState<string>('')
   const [editLanguage, setEditLanguage] = useState<string>('en')
   const [editAiContext, setEditAiContext] = useState<string>('')
+  const [editAuthor, setEditAuthor] = useState<string>('')
+  const [editPublisher, setEditPublisher] = useState<string>('')
+  const [editIdentifier, setEditIdentifier] = useState<string>('')
+  const [editSeries, setEditSeries] = useState<string>('')
+  const [editSeriesIndex, setEditSeriesIndex] = useState<string>('')
+  const [editDescription, setEditDescription] = useState<string>('')
   const [coverPreview, setCoverPreview] = useState<string | null>(null)
   const [coverFile, setCoverFile] = useState<File | null>(null)
   const [uploadingCover, setUploadingCover] = useState<boolean>(false)
   const [urlInput, setUrlInput] = useState<string>('')
   const [savingUrl, setSavingUrl] = useState<boolean>(false)
+  // 重複登録の確認
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{ existingBook: DuplicateBook; importAnyway: () => void } | null>(null)
   // 複数ページ登録モーダル
   const [showMultiPageModal, setShowMultiPageModal] = useState<boolean>(false)
   const [multiPageUrl, setMultiPageUrl] = useState<string>('')
+  // next: 次ページリンクを辿る / docs: ドキュメントサイトをサイドバーの順に取得
+  const [crawlMode, setCrawlMode] = useState<'next' | 'docs'>('next')
   const [linkClass, setLinkClass] = useState<string>('')
+  const [pathPrefix, setPathPrefix] = useState<string>('')
+  const [navSelector, setNavSelector] = useState<string>('')
+  const [useSitemap, setUseSitemap] = useState<boolean>(false)
   const [ignorePaths, setIgnorePaths] = useState<string>('')
   const [maxPages, setMaxPages] = useState<number>(50)
   const [savingMultiPage, setSavingMultiPage] = useState<boolean>(false)
-  const [multiPageProgress, setMultiPageProgress] = useState<string>('')
+  const [crawlJob, setCrawlJob] = useState<CrawlJob | null>(null)
+  const [crawlPreview, setCrawlPreview] = useState<CrawlPreview | null>(null)
+  const [previewingCrawl, setPreviewingCrawl] = useState<boolean>(false)
   // タグ機能
   const [allTags, setAllTags] = useState<Tag[]>([])
   const [selectedTagFilters, setSelectedTagFilters] = useState<string[]>([])
@@ -43,7 +104,13 @@ function Home(): JSX.Element {
   const BOOKS_PER_PAGE = 10
   // タイプフィルター
   const [selectedTypeFilter, setSelectedTypeFilter] = useState<string>('all')
+  // キーワード検索（タイトル・著者・シリーズ）
+  const [searchQuery, setSearchQuery] = useState<string>('')
   const coverInputRef = useRef<HTMLInputElement>(null)
+  // ソースファイル差し替え
+  const [replacingSource, setReplacingSource] = useState<boolean>(false)
+  const sourceInputRef = useRef<HTMLInputElement>(null)
+  const crawlEventsRef = useRef<EventSource | null>(null)
   const navigate = useNavigate()
 
   useEffect(() => {
@@ -51,6 +118,9 @@ function Home(): JSX.Element {
     fetchTags()
   }, [])
 
+  // Stop following a crawl when leaving the page (the crawl itself keeps running)
+  useEffect(() => () => crawlEventsRef.current?.close(), [])
+
   const fetchBooks = async (): Promise<void> => {
     try {
       const res = await axios.get<Book[]>('/api/books')
@@ -82,10 +152,23 @@ function Home(): JSX.Element {
     }
   }
 
-  const handleUpload = async (file: File | undefined): Promise<void> => {
+  // Poll conversion job until it finishes
+  const waitForUploadJob = async <T = UploadResult>(jobId: string): Promise<T> => {
+    for (;;) {
+      const { data: job } = await axios.get<UploadJob<T>>(`/api/jobs/${jobId}`)
+      if (job.status === 'completed' && job.result) return job.result
+      if (job.status === 'failed') throw new Error(job.error || '変換に失敗しました')
+
+      const label = JOB_STAGE_LABELS[job.stage] || '変換中...'
+      setUploadProgress(job.progress > 0 ? `${label} (${job.progress}%)` : label)
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL))
+    }
+  }
+
+  const handleUpload = async (file: File | undefined, allowDuplicate: boolean = false): Promise<void> => {
     const ext = file?.name.split('.').pop()?.toLowerCase()
-    if (!file || !['epub', 'pdf', 'md', 'zip'].includes(ext || '')) {
-      alert('EPUB、PDF、Markdown、またはZIPファイルを選択してください')
+    if (!file || !UPLOAD_EXTENSIONS.includes(ext || '')) {
+      alert('EPUB、PDF、Markdown、ZIP、CBZ、テキスト、HTML、またはWordファイルを選択してください')
       return
     }
 
@@ -96,29 +179,36 @@ function Home(): JSX.Element {
     formData.append('file', file)
 
     try {
-      const progressMsg = ext === 'pdf' ? '保存中...'
-        : ext === 'md' || ext === 'zip' ? 'Markdown変換中...'
-          : '変換中...'
-      setUploadProgress(progressMsg)
-      const res = await axios.post<{ bookId: string; bookType: string }>('/api/upload', formData, {
-        headers: { 'Content-Type': 'multipart/form-data' }
+      const res = await axios.post<{ jobId: string }>('/api/upload', formData, {
+        params: allowDuplicate ? { allowDuplicate: true } : undefined,
+        headers: { 'Content-Type': 'multipart/form-data' },
+        onUploadProgress: (e) => {
+          if (e.total) setUploadProgress(`アップロード中... (${Math.round((e.loaded / e.total) * 100)}%)`)
+        }
       })
+      setUploadProgress(JOB_STAGE_LABELS.queued)
+      const result = await waitForUploadJob(res.data.jobId)
 
       setUploadProgress('完了!')
       fetchBooks()
 
       // Navigate to reader or PDF viewer
       setTimeout(() => {
-        if (res.data.bookType === 'pdf') {
-          navigate(`/pdf/${res.data.bookId}`)
+        if (result.bookType === 'pdf') {
+          navigate(`/pdf/${result.bookId}`)
         } else {
-          navigate(`/read/${res.data.bookId}`)
+          navigate(`/read/${result.bookId}`)
         }
       }, 500)
     } catch (error: unknown) {
+      const existingBook = getDuplicateBook(error)
+      if (existingBook) {
+        setDuplicatePrompt({ existingBook, importAnyway: () => handleUpload(file, true) })
+        return
+      }
       console.error('Upload failed:', error)
-      const axiosError = error as { response?: { data?: { error?: string } } }
-      alert(axiosError.response?.data?.error || 'アップロードに失敗しました')
+      const axiosError = error as { response?: { data?: { error?: string } }; message?: string }
+      alert(axiosError.response?.data?.error || axiosError.message || 'アップロードに失敗しました')
     } finally {
       setUploading(false)
       setUploadProgress('')
@@ -175,21 +265,22 @@ function Home(): JSX.Element {
       const formData = new FormData()
       formData.append('file', zipFile)
 
-      setUploadProgress('変換中...')
-      const res = await axios.post<{ bookId: string; bookType: string }>('/api/upload', formData, {
+      setUploadProgress('アップロード中...')
+      const res = await axios.post<{ jobId: string }>('/api/upload', formData, {
         headers: { 'Content-Type': 'multipart/form-data' }
       })
+      const result = await waitForUploadJob(res.data.jobId)
 
       setUploadProgress('完了!')
       fetchBooks()
 
       setTimeout(() => {
-        navigate(`/read/${res.data.bookId}`)
+        navigate(`/read/${result.bookId}`)
       }, 500)
     } catch (error: unknown) {
       console.error('Folder upload failed:', error)
-      const axiosError = error as { response?: { data?: { error?: string } } }
-      alert(axiosError.response?.data?.error || 'フォルダのアップロードに失敗しました')
+      const axiosError = error as { response?: { data?: { error?: string } }; message?: string }
+      alert(axiosError.response?.data?.error || axiosError.message || 'フォルダのアップロードに失敗しました')
     } finally {
       setUploading(false)
       setUploadProgress('')
@@ -235,17 +326,25 @@ function Home(): JSX.Element {
   const handleSaveUrl = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
     e.preventDefault()
     if (!urlInput.trim()) return
+    await saveUrl(urlInput.trim())
+  }
 
+  const saveUrl = async (url: string, allowDuplicate: boolean = false): Promise<void> => {
     setSavingUrl(true)
     try {
-      const res = await axios.post<{ bookId: string; title: string }>('/api/save-url', {
-        url: urlInput.trim()
+      const res = await axios.post<{ bookId: string; title: string }>('/api/save-url', { url }, {
+        params: allowDuplicate ? { allowDuplicate: true } : undefined
       })
       setUrlInput('')
       fetchBooks()
       // Navigate to the saved page
       navigate(`/read/${res.data.bookId}`)
     } catch (error: unknown) {
+      const existingBook = getDuplicateBook(error)
+      if (existingBook) {
+        setDuplicatePrompt({ existingBook, importAnyway: () => saveUrl(url, true) })
+        return
+      }
       console.error('Save URL failed:', error)
       const axiosError = error as { response?: { data?: { error?: string } } }
       alert(axiosError.response?.data?.error || 'URLの保存に失敗しました')
@@ -254,52 +353,142 @@ function Home(): JSX.Element {
     }
   }
 
+  // Show a crawl job update; returns true once the job has finished
+  const applyCrawlUpdate = (job: CrawlJob): boolean => {
+    setCrawlJob(job)
+    if (job.status === 'queued' || job.status === 'running') return false
+
+    setSavingMultiPage(false)
+    if (job.status !== 'completed' || !job.result) return true
+
+    fetchBooks()
+    const { bookId } = job.result
+
+    // Close modal and navigate after a short delay
+    setTimeout(() => {
+      setShowMultiPageModal(false)
+      setMultiPageUrl('')
+      setLinkClass('')
+      setIgnorePaths('')
+      setMaxPages(50)
+      setPathPrefix('')
+      setNavSelector('')
+      setUseSitemap(false)
+      setCrawlJob(null)
+      navigate(`/read/${bookId}`)
+    }, 1500)
+    return true
+  }
+
+  // Poll the crawl job when its event stream drops (server restart, pruned job)
+  const pollCrawlJob = async (jobId: string): Promise<void> => {
+    try {
+      for (;;) {
+        const { data: job } = await axios.get<CrawlJob>(`/api/crawls/${jobId}`)
+        if (applyCrawlUpdate(job)) return
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL))
+      }
+    } catch (error: unknown) {
+      console.error('Crawl progress failed:', error)
+      const axiosError = error as { response?: { data?: { error?: string } } }
+      alert(axiosError.response?.data?.error || 'クロールの進捗を取得できませんでした')
+      setSavingMultiPage(false)
+    }
+  }
+
+  // Follow a crawl job over Server-Sent Events until it finishes
+  const followCrawlJob = (jobId: string): void => {
+    crawlEventsRef.current?.close()
+    const events = new EventSource(`/api/crawls/${jobId}/events`)
+    crawlEventsRef.current = events
+
+    events.onmessage = (e: MessageEvent<string>) => {
+      if (!applyCrawlUpdate(JSON.parse(e.data) as CrawlJob)) return
+      events.close()
+      crawlEventsRef.current = null
+    }
+
+    events.onerror = () => {
+      events.close()
+      // A newer crawl has taken over the progress panel
+      if (crawlEventsRef.current !== events) return
+      crawlEventsRef.current = null
+      pollCrawlJob(jobId)
+    }
+  }
+
+  // Request body shared by the crawl and its dry-run preview
+  const multiPageRequest = () => ({
+    url: multiPageUrl.trim(),
+    mode: crawlMode,
+    ...(crawlMode === 'next'
+      ? { linkClass: linkClass.trim() || undefined }
+      : { pathPrefix: pathPrefix.trim() || undefined, navSelector: navSelector.trim() || undefined, useSitemap }),
+    ignorePaths: ignorePaths
+      .split('\n')
+      .map(p => p.trim())
+      .filter(p => p.length > 0),
+    maxPages
+  })
+
   // Save Multi-page URL
   const handleSaveMultiPageUrl = async (): Promise<void> => {
-    if (!multiPageUrl.trim() || !linkClass.trim()) {
-      alert('URLとリンクのクラス名を入力してください')
+    if (!multiPageUrl.trim()) {
+      alert('URLを入力してください')
       return
     }
 
     setSavingMultiPage(true)
-    setMultiPageProgress('ページを取得中...')
+    setCrawlJob(null)
+    setCrawlPreview(null)
     try {
-      const ignorePathsArray = ignorePaths
-        .split('\n')
-        .map(p => p.trim())
-        .filter(p => p.length > 0)
-
-      const res = await axios.post<{
-        bookId: string
-        title: string
-        totalPages: number
-        crawledUrls: string[]
-      }>('/api/save-multipage-url', {
-        url: multiPageUrl.trim(),
-        linkClass: linkClass.trim(),
-        ignorePaths: ignorePathsArray,
-        maxPages
-      })
-
-      setMultiPageProgress(`完了! ${res.data.totalPages}ページを保存しました`)
-      fetchBooks()
-
-      // Close modal and navigate after a short delay
-      setTimeout(() => {
-        setShowMultiPageModal(false)
-        setMultiPageUrl('')
-        setLinkClass('')
-        setIgnorePaths('')
-        setMaxPages(50)
-        setMultiPageProgress('')
-        navigate(`/read/${res.data.bookId}`)
-      }, 1500)
+      const res = await axios.post<{ jobId: string }>('/api/save-multipage-url', multiPageRequest())
+      followCrawlJob(res.data.jobId)
     } catch (error: unknown) {
       console.error('Save multi-page URL failed:', error)
       const axiosError = error as { response?: { data?: { error?: string } } }
       alert(axiosError.response?.data?.error || '複数ページの保存に失敗しました')
-      setMultiPageProgress('')
+      setSavingMultiPage(false)
+    }
+  }
+
+  // List the pages a crawl would fetch without saving anything
+  const handlePreviewMultiPageUrl = async (): Promise<void> => {
+    setPreviewingCrawl(true)
+    setCrawlPreview(null)
+    try {
+      const res = await axios.post<CrawlPreview>('/api/save-multipage-url/preview', multiPageRequest())
+      setCrawlPreview(res.data)
+    } catch (error: unknown) {
+      console.error('Preview multi-page URL failed:', error)
+      const axiosError = error as { response?: { data?: { error?: string } } }
+      alert(axiosError.response?.data?.error || 'プレビューに失敗しました')
     } finally {
+      setPreviewingCrawl(false)
+    }
+  }
+
+  const handleCancelCrawl = async (): Promise<void> => {
+    if (!crawlJob) return
+    try {
+      await axios.post(`/api/crawls/${crawlJob.id}/cancel`)
+    } catch (error: unknown) {
+      console.error('Cancel crawl failed:', error)
+    }
+  }
+
+  // Resume a cancelled or failed crawl as a new job
+  // saveFetched: stop following links and save the pages fetched so far
+  const handleResumeCrawl = async (saveFetched = false): Promise<void> => {
+    if (!crawlJob) return
+    setSavingMultiPage(true)
+    try {
+      const res = await axios.post<{ jobId: string }>(`/api/crawls/${crawlJob.id}/resume`, { saveFetched })
+      followCrawlJob(res.data.jobId)
+    } catch (error: unknown) {
+      console.error('Resume crawl failed:', error)
+      const axiosError = error as { response?: { data?: { error?: string } } }
+      alert(axiosError.response?.data?.error || '再開に失敗しました')
       setSavingMultiPage(false)
     }
   }
@@ -325,10 +514,19 @@ function Home(): JSX.Element {
     : sortedBooks
 
   // Filter by type (EPUB/PDF/WEB)
-  const filteredBooks = selectedTypeFilter === 'all'
+  const typeFilteredBooks = selectedTypeFilter === 'all'
     ? tagFilteredBooks
     : tagFilteredBooks.filter(book => book.book_type === selectedTypeFilter)
 
+  // Filter by keyword (title / author / series / publisher)
+  const normalizedQuery = searchQuery.trim().toLowerCase()
+  const filteredBooks = normalizedQuery
+    ? typeFilteredBooks.filter(book =>
+      [book.title, book.author, book.series, book.publisher]
+        .some(value => value?.toLowerCase().includes(normalizedQuery))
+    )
+    : typeFilteredBooks
+
   // Pagination
   const totalLibraryPages = Math.ceil(filteredBooks.length / BOOKS_PER_PAGE)
   const paginatedBooks = filteredBooks.slice(
@@ -339,10 +537,10 @@ function Home(): JSX.Element {
   // Reset to page 1 when filter changes
   useEffect(() => {
     setCurrentLibraryPage(1)
-  }, [selectedTagFilters, selectedTypeFilter, sortBy])
+  }, [selectedTagFilters, selectedTypeFilter, searchQuery, sortBy])
 
   // Open book
-  const openBook = (book: Book): void => {
+  const openBook = (book: Pick<Book, 'id' | 'book_type'>): void => {
     if (book.book_type === 'pdf') {
       navigate(`/pdf/${book.id}`)
     } else {
@@ -357,6 +555,12 @@ function Home(): JSX.Element {
     setEditTitle(book.title)
     setEditLanguage(book.language || 'en')
     setEditAiContext(book.ai_context || '')
+    setEditAuthor(book.author || '')
+    setEditPublisher(book.publisher || '')
+    setEditIdentifier(book.identifier || '')
+    setEditSeries(book.series || '')
+    setEditSeriesIndex(book.series_index != null ? String(book.series_index) : '')
+    setEditDescription(book.description || '')
     setCoverPreview(null)
     setCoverFile(null)
     // 本のタグを読み込み
@@ -502,6 +706,41 @@ function Home(): JSX.Element {
     }
   }
 
+  // Replace the book's source file (bookmarks / notes / clips / tags / progress are kept)
+  const handleReplaceSource = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!editingBook || !file) return
+    if (!confirm(`「${editingBook.title}」のソースファイルを「${file.name}」に差し替えますか？`)) return
+
+    setReplacingSource(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const res = await axios.post<{ jobId: string }>(`/api/books/${editingBook.id}/replace-source`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      })
+      const result = await waitForUploadJob<ReplaceSourceResult>(res.data.jobId)
+
+      const lines = [`差し替えました（${result.remapped}件のしおり・メモ・クリップを新しいページへ移動）`]
+      if (result.unmapped.length > 0) {
+        lines.push('', '対応するページが見つからなかったもの（元のページ番号のまま残しています）:')
+        result.unmapped.forEach(item => {
+          lines.push(`・${ANNOTATION_LABELS[item.type]} p.${item.oldPage} → p.${item.newPage}${item.text ? `: ${item.text}` : ''}`)
+        })
+      }
+      alert(lines.join('\n'))
+      fetchBooks()
+    } catch (error: unknown) {
+      console.error('Replace source failed:', error)
+      const axiosError = error as { response?: { data?: { error?: string } }; message?: string }
+      alert('差し替えに失敗しました: ' + (axiosError.response?.data?.error || axiosError.message))
+    } finally {
+      setReplacingSource(false)
+      setUploadProgress('')
+    }
+  }
+
   // Save book edits
   const saveBookEdit = async (): Promise<void> => {
     if (!editingBook) return
@@ -521,7 +760,13 @@ function Home(): JSX.Element {
       await axios.patch(`/api/books/${editingBook.id}`, {
         title: editTitle,
         language: editLanguage,
-        ai_context: editAiContext
+        ai_context: editAiContext,
+        author: editAuthor,
+        publisher: editPublisher,
+        identifier: editIdentifier,
+        series: editSeries,
+        series_index: editSeriesIndex,
+        description: editDescription
       })
       fetchBooks()
       setEditingBook(null)
@@ -560,7 +805,7 @@ function Home(): JSX.Element {
             <input
               id="file-input"
               type="file"
-              accept=".epub,.pdf,.md,.zip"
+              accept={UPLOAD_EXTENSIONS.map(e => `.${e}`).join(',')}
               onChange={handleFileSelect}
               disabled={uploading}
             />
@@ -582,7 +827,7 @@ function Home(): JSX.Element {
             ) : (
               <>
                 <div className="upload-icon">📖</div>
-                <p>EPUB / PDF / Markdown / ZIPファイルをドロップ、またはクリックして選択</p>
+                <p>EPUB / PDF / Markdown / ZIP / CBZ / TXT / HTML / DOCXファイルをドロップ、またはクリックして選択</p>
                 <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '10px' }}>
                   <button
                     onClick={(e) => {
@@ -677,6 +922,24 @@ function Home(): JSX.Element {
             </div>
           </div>
 
+          {/* キーワード検索 */}
+          <div style={{ marginBottom: '15px' }}>
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="タイトル・著者・シリーズで検索"
+              style={{
+                width: '100%',
+                maxWidth: '400px',
+                padding: '8px 12px',
+                border: '1px solid #ddd',
+                borderRadius: '6px',
+                fontSize: '0.9rem'
+              }}
+            />
+          </div>
+
           {/* タイプフィルター */}
           <div style={{ marginBottom: '15px', display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center' }}>
             <span style={{ color: '#666', fontSize: '0.9rem' }}>種類:</span>
@@ -685,7 +948,11 @@ function Home(): JSX.Element {
               { value: 'epub', label: '📖 EPUB', color: '#667eea' },
               { value: 'pdf', label: '📄 PDF', color: '#ef4444' },
               { value: 'website', label: '🌐 WEB', color: '#10b981' },
-              { value: 'markdown', label: '📝 MD', color: '#8b5cf6' }
+              { value: 'markdown', label: '📝 MD', color: '#8b5cf6' },
+              { value: 'text', label: '📃 TXT', color: '#64748b' },
+              { value: 'html', label: '🧾 HTML', color: '#f97316' },
+              { value: 'docx', label: '📘 DOCX', color: '#2563eb' },
+              { value: 'comic', label: '🖼️ コミック', color: '#db2777' }
             ].map(type => (
               <button
                 key={type.value}
@@ -852,36 +1119,32 @@ function Home(): JSX.Element {
                           }}
                         />
                         <div className="no-cover-icon">
-                          {book.book_type === 'pdf' ? '📄'
-                            : book.book_type === 'website' ? '🌐'
-                              : book.book_type === 'markdown' ? '📝'
-                                : '📖'}
+                          {getBookTypeInfo(book).icon}
                         </div>
                         {/* 左上にタイプバッジ */}
                         <div
                           className="book-type-badge"
-                          style={{
-                            background: book.book_type === 'pdf' ? '#ef4444'
-                              : book.book_type === 'website' ? '#10b981'
-                                : book.book_type === 'markdown' ? '#8b5cf6'
-                                  : '#667eea'
-                          }}
+                          style={{ background: getBookTypeInfo(book).color }}
                         >
-                          {book.book_type === 'pdf' ? 'PDF'
-                            : book.book_type === 'website' ? 'WEB'
-                              : book.book_type === 'markdown' ? 'MD'
-                                : 'EPUB'}
+                          {getBookTypeInfo(book).badge}
                         </div>
                       </div>
                       <div className="book-info">
                         <h3>{book.title}</h3>
+                        {(book.author || book.series) && (
+                          <div className="meta" style={{ fontSize: '0.8rem', marginBottom: '2px' }}>
+                            {book.author}
+                            {book.author && book.series && ' • '}
+                            {book.series && `${book.series}${book.series_index != null ? ` ${book.series_index}` : ''}`}
+                          </div>
+                        )}
                         <div className="meta">
                           {book.book_type === 'pdf'
                             ? `PDF${book.pdf_total_pages ? ` • ${book.pdf_total_pages}ページ` : ''}`
                             : book.book_type === 'website'
-                              ? 'Webページ'
-                              : book.book_type === 'markdown'
-                                ? `Markdown • ${book.total_pages}ページ`
+                              ? `Webページ${book.published_date ? ` • ${book.published_date}` : ''}`
+                              : getBookTypeInfo(book).name
+                                ? `${getBookTypeInfo(book).name} • ${book.total_pages}ページ`
                                 : `${book.total_pages}ページ`}
                           {book.current_page && book.current_page > 1 && (
                             <> • {Math.round(getProgress(book))}% 読了</>
@@ -1133,6 +1396,42 @@ function Home(): JSX.Element {
               </div>
             </div>
 
+            {/* Source File Section */}
+            {editingBook.book_type !== 'website' && (
+              <div style={{ marginBottom: '20px' }}>
+                <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                  ソースファイル
+                </label>
+                <input
+                  ref={sourceInputRef}
+                  type="file"
+                  accept={UPLOAD_EXTENSIONS.map(e => `.${e}`).join(',')}
+                  onChange={handleReplaceSource}
+                  style={{ display: 'none' }}
+                />
+                <button
+                  type="button"
+                  onClick={() => sourceInputRef.current?.click()}
+                  disabled={replacingSource}
+                  style={{
+                    padding: '8px 16px',
+                    background: '#f0f0f0',
+                    color: '#666',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: replacingSource ? 'wait' : 'pointer',
+                    fontSize: '0.85rem',
+                    width: '100%'
+                  }}
+                >
+                  {replacingSource ? (uploadProgress || '差し替え中...') : '📄 別の版に差し替える'}
+                </button>
+                <p style={{ fontSize: '0.75rem', color: '#888', marginTop: '8px' }}>
+                  しおり・メモ・クリップ・タグ・読書位置は見出しをもとに新しいページへ移動します
+                </p>
+              </div>
+            )}
+
             <div style={{ marginBottom: '15px' }}>
               <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
                 タイトル
@@ -1179,6 +1478,115 @@ function Home(): JSX.Element {
               </p>
             </div>
 
+            {/* 書誌情報 */}
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                著者
+              </label>
+              <input
+                type="text"
+                value={editAuthor}
+                onChange={(e) => setEditAuthor(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  border: '1px solid #ddd',
+                  borderRadius: '6px',
+                  fontSize: '1rem'
+                }}
+              />
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                出版社
+              </label>
+              <input
+                type="text"
+                value={editPublisher}
+                onChange={(e) => setEditPublisher(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  border: '1px solid #ddd',
+                  borderRadius: '6px',
+                  fontSize: '1rem'
+                }}
+              />
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                ISBN / 識別子
+              </label>
+              <input
+                type="text"
+                value={editIdentifier}
+                onChange={(e) => setEditIdentifier(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  border: '1px solid #ddd',
+                  borderRadius: '6px',
+                  fontSize: '1rem'
+                }}
+              />
+            </div>
+            <div style={{ marginBottom: '15px', display: 'flex', gap: '10px' }}>
+              <div style={{ flex: 1 }}>
+                <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                  シリーズ
+                </label>
+                <input
+                  type="text"
+                  value={editSeries}
+                  onChange={(e) => setEditSeries(e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '10px',
+                    border: '1px solid #ddd',
+                    borderRadius: '6px',
+                    fontSize: '1rem'
+                  }}
+                />
+              </div>
+              <div style={{ width: '90px' }}>
+                <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                  巻
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  value={editSeriesIndex}
+                  onChange={(e) => setEditSeriesIndex(e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '10px',
+                    border: '1px solid #ddd',
+                    borderRadius: '6px',
+                    fontSize: '1rem'
+                  }}
+                />
+              </div>
+            </div>
+
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                紹介文
+              </label>
+              <textarea
+                value={editDescription}
+                onChange={(e) => setEditDescription(e.target.value)}
+                rows={3}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  border: '1px solid #ddd',
+                  borderRadius: '6px',
+                  fontSize: '0.9rem',
+                  resize: 'vertical'
+                }}
+              />
+            </div>
+
             {/* AI用事前説明 */}
             <div style={{ marginBottom: '20px' }}>
               <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
@@ -1257,10 +1665,33 @@ function Home(): JSX.Element {
         <div className="modal-overlay" onClick={() => !savingMultiPage && setShowMultiPageModal(false)}>
           <div className="modal" onClick={(e) => e.stopPropagation()} style={{ maxWidth: '500px' }}>
             <h3>📑 複数ページを連結して保存</h3>
-            <p style={{ color: '#666', fontSize: '0.9rem', marginBottom: '20px' }}>
-              「次のページ」リンクを辿って複数ページを連結保存します。
+            <p style={{ color: '#666', fontSize: '0.9rem', marginBottom: '15px' }}>
+              {crawlMode === 'next'
+                ? '「次のページ」リンクを辿って複数ページを連結保存します。'
+                : 'ドキュメントサイトのページをサイドバーの順に取得し、章立ての目次付きで1冊にまとめます。'}
             </p>
 
+            <div style={{ display: 'flex', gap: '16px', marginBottom: '15px', fontSize: '0.9rem' }}>
+              <label>
+                <input
+                  type="radio"
+                  checked={crawlMode === 'next'}
+                  onChange={() => setCrawlMode('next')}
+                  disabled={savingMultiPage}
+                />
+                {' '}次ページリンクを辿る
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  checked={crawlMode === 'docs'}
+                  onChange={() => setCrawlMode('docs')}
+                  disabled={savingMultiPage}
+                />
+                {' '}ドキュメントサイト
+              </label>
+            </div>
+
             <div style={{ marginBottom: '15px' }}>
               <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
                 🔗 開始URL <span style={{ color: '#ef4444' }}>*</span>
@@ -1281,28 +1712,84 @@ function Home(): JSX.Element {
               />
             </div>
 
-            <div style={{ marginBottom: '15px' }}>
-              <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
-                🏷️ 次ページリンクのクラス名 <span style={{ color: '#ef4444' }}>*</span>
-              </label>
-              <input
-                type="text"
-                value={linkClass}
-                onChange={(e) => setLinkClass(e.target.value)}
-                placeholder="例: next-page, pagination-next, next"
-                disabled={savingMultiPage}
-                style={{
-                  width: '100%',
-                  padding: '10px',
-                  border: '1px solid #ddd',
-                  borderRadius: '6px',
-                  fontSize: '1rem'
-                }}
-              />
-              <p style={{ fontSize: '0.8rem', color: '#888', marginTop: '5px' }}>
-                「次のページ」リンクに付いているCSSクラス名を指定
-              </p>
-            </div>
+            {crawlMode === 'next' ? (
+              <div style={{ marginBottom: '15px' }}>
+                <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                  🏷️ 次ページリンクのクラス名
+                </label>
+                <input
+                  type="text"
+                  value={linkClass}
+                  onChange={(e) => setLinkClass(e.target.value)}
+                  placeholder="空欄なら自動検出（例: next-page, pagination-next）"
+                  disabled={savingMultiPage}
+                  style={{
+                    width: '100%',
+                    padding: '10px',
+                    border: '1px solid #ddd',
+                    borderRadius: '6px',
+                    fontSize: '1rem'
+                  }}
+                />
+                <p style={{ fontSize: '0.8rem', color: '#888', marginTop: '5px' }}>
+                  空欄なら rel="next"・「次へ」リンク・ページ番号・URLの連番から次のページを探します
+                </p>
+              </div>
+            ) : (
+              <>
+                <div style={{ marginBottom: '15px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                    📂 取得するパス
+                  </label>
+                  <input
+                    type="text"
+                    value={pathPrefix}
+                    onChange={(e) => setPathPrefix(e.target.value)}
+                    placeholder="例: /docs/（空欄なら開始URLのディレクトリ）"
+                    disabled={savingMultiPage}
+                    style={{
+                      width: '100%',
+                      padding: '10px',
+                      border: '1px solid #ddd',
+                      borderRadius: '6px',
+                      fontSize: '1rem'
+                    }}
+                  />
+                  <p style={{ fontSize: '0.8rem', color: '#888', marginTop: '5px' }}>
+                    このパス配下のページだけを辿ります
+                  </p>
+                </div>
+
+                <div style={{ marginBottom: '15px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
+                    🧭 サイドバーのセレクタ
+                  </label>
+                  <input
+                    type="text"
+                    value={navSelector}
+                    onChange={(e) => setNavSelector(e.target.value)}
+                    placeholder="空欄ならMkDocs・Docusaurus・Sphinxのサイドバーを自動検出"
+                    disabled={savingMultiPage}
+                    style={{
+                      width: '100%',
+                      padding: '10px',
+                      border: '1px solid #ddd',
+                      borderRadius: '6px',
+                      fontSize: '1rem'
+                    }}
+                  />
+                  <label style={{ display: 'block', marginTop: '8px', fontSize: '0.85rem', color: '#666' }}>
+                    <input
+                      type="checkbox"
+                      checked={useSitemap}
+                      onChange={(e) => setUseSitemap(e.target.checked)}
+                      disabled={savingMultiPage}
+                    />
+                    {' '}sitemap.xml のページも取得する
+                  </label>
+                </div>
+              </>
+            )}
 
             <div style={{ marginBottom: '15px' }}>
               <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '0.9rem' }}>
@@ -1350,19 +1837,35 @@ function Home(): JSX.Element {
               <span style={{ marginLeft: '10px', color: '#666', fontSize: '0.9rem' }}>ページ（最大200）</span>
             </div>
 
-            {multiPageProgress && (
-              <div style={{
-                marginBottom: '20px',
-                padding: '12px',
-                background: multiPageProgress.includes('完了') ? '#dcfce7' : '#f0f9ff',
-                borderRadius: '6px',
-                color: multiPageProgress.includes('完了') ? '#166534' : '#0369a1',
-                textAlign: 'center'
-              }}>
-                {multiPageProgress.includes('完了') ? '✅' : '⏳'} {multiPageProgress}
+            {crawlPreview && !crawlJob && (
+              <div className="crawl-progress crawl-preview">
+                <div className="crawl-status">🔍 {crawlPreview.pages.length}ページを取得予定{crawlPreview.truncated && '（以降も続きます）'}</div>
+                <ol className="crawl-urls">
+                  {crawlPreview.pages.map(page => (
+                    <li key={page.url} title={page.url}>
+                      <span className="crawl-preview-method">{nextPageMethodLabel(page.method)}</span> {page.url}
+                    </li>
+                  ))}
+                </ol>
+                {crawlPreview.errors.length > 0 && (
+                  <ul className="crawl-errors">
+                    {crawlPreview.errors.map((error, index) => (
+                      <li key={index} title={error.url}>{error.message}（{error.url}）</li>
+                    ))}
+                  </ul>
+                )}
               </div>
             )}
 
+            {crawlJob && (
+              <CrawlProgressPanel
+                job={crawlJob}
+                onCancel={handleCancelCrawl}
+                onResume={() => handleResumeCrawl()}
+                onSaveFetched={() => handleResumeCrawl(true)}
+              />
+            )}
+
             <div className="buttons">
               <button
                 className="secondary"
@@ -1371,10 +1874,19 @@ function Home(): JSX.Element {
               >
                 キャンセル
               </button>
+              {crawlMode === 'next' && (
+                <button
+                  className="secondary"
+                  onClick={handlePreviewMultiPageUrl}
+                  disabled={savingMultiPage || previewingCrawl || !multiPageUrl.trim()}
+                >
+                  {previewingCrawl ? '確認中...' : '🔍 プレビュー'}
+                </button>
+              )}
               <button
                 className="primary"
                 onClick={handleSaveMultiPageUrl}
-                disabled={savingMultiPage || !multiPageUrl.trim() || !linkClass.trim()}
+                disabled={savingMultiPage || previewingCrawl || !multiPageUrl.trim()}
                 style={{ background: '#10b981' }}
               >
                 {savingMultiPage ? '取得中...' : '連結して保存'}
@@ -1383,6 +1895,50 @@ function Home(): JSX.Element {
           </div>
         </div>
       )}
+
+      {/* 重複登録の確認モーダル */}
+      {duplicatePrompt && (
+        <div className="modal-overlay" onClick={() => setDuplicatePrompt(null)}>
+          <div className="modal" onClick={(e) => e.stopPropagation()} style={{ maxWidth: '450px' }}>
+            <h3>⚠️ 登録済みの本です</h3>
+            <p style={{ color: '#666', fontSize: '0.9rem', marginBottom: '20px' }}>
+              {duplicatePrompt.existingBook.converting
+                ? <>「{duplicatePrompt.existingBook.title}」として変換中です。</>
+                : <>
+                    「{duplicatePrompt.existingBook.title}」として
+                    {new Date(duplicatePrompt.existingBook.created_at).toLocaleDateString('ja-JP')}に登録されています。
+                  </>}
+            </p>
+            <div className="buttons">
+              <button className="secondary" onClick={() => setDuplicatePrompt(null)}>
+                キャンセル
+              </button>
+              <button
+                className="secondary"
+                onClick={() => {
+                  const { importAnyway } = duplicatePrompt
+                  setDuplicatePrompt(null)
+                  importAnyway()
+                }}
+              >
+                重複して取り込む
+              </button>
+              {!duplicatePrompt.existingBook.converting && (
+                <button
+                  className="primary"
+                  onClick={() => {
+                    const { existingBook } = duplicatePrompt
+                    setDuplicatePrompt(null)
+                    openBook(existingBook)
+                  }}
+                >
+                  既存の本を開く
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -4,10 +4,17 @@ import 'highlight.js/styles/github.css'
 import { useCallback, useEffect, useRef, useState, type MouseEvent } from 'react'
 import { Link, useParams } from 'react-router-dom'
 import AiChat from '../components/AiChat'
+import ComicViewer, { type ComicFitMode } from '../components/ComicViewer'
 import PdfViewer from '../components/PdfViewer'
+import RevisionDiffPanel from '../components/RevisionDiffPanel'
 import VocabularyPanel from '../components/VocabularyPanel'
 import { EditableContent, InsertedNote, InsertNoteButton, type NoteData } from '../editor'
-import type { Book, Bookmark, Clip, ClipPosition, Note, PageContent, TocItem, Vocabulary } from '../types'
+import type {
+  AnchorIndex, Book, Bookmark, Clip, ClipPosition, Note, PageContent, RefreshResult, RevisionInfo, TocItem, Vocabulary
+} from '../types'
+import { getAdjacentPage } from '../utils/comic'
+import { resolveContentLink } from '../utils/contentLinks'
+import { formatPageLabel, resolvePageInput } from '../utils/pageLabels'
 import { fixEpubImagePaths, openClipInNewWindow, openImageInNewWindow } from '../utils/window'
 
 // Suppress highlight.js warnings for unescaped HTML
@@ -34,9 +41,20 @@ function Reader(): JSX.Element {
   const [jumpPageInput, setJumpPageInput] = useState<string>('')
   const [viewMode, setViewMode] = useState<ViewMode>('scroll')
   const [isPdf, setIsPdf] = useState<boolean>(false)
+  // コミック（CBZ）表示
+  const [isComic, setIsComic] = useState<boolean>(false)
+  const [comicImages, setComicImages] = useState<string[]>([])
+  const [comicFitMode, setComicFitMode] = useState<ComicFitMode>('height')
+  const [comicRightToLeft, setComicRightToLeft] = useState<boolean>(false)
+  const [comicSpread, setComicSpread] = useState<boolean>(false)
   const [pdfTotalPages, setPdfTotalPages] = useState<number>(0)
   const [showAiChat, setShowAiChat] = useState<boolean>(false)
   const [pdfPageTexts, setPdfPageTexts] = useState<Map<number, string>>(new Map())
+  // PDFのページラベル（iv, 12 など）
+  const [pdfPageLabels, setPdfPageLabels] = useState<string[] | null>(null)
+  // 本文内リンクの索引（id → ページ）と脚注ポップオーバー
+  const [anchorIndex, setAnchorIndex] = useState<AnchorIndex | null>(null)
+  const [footnotePopover, setFootnotePopover] = useState<{ html: string; top: number; left: number } | null>(null)
 
   // クリップ機能
   const [clipMode, setClipMode] = useState<boolean>(false)
@@ -67,10 +85,17 @@ function Reader(): JSX.Element {
   const [vocabularies, setVocabularies] = useState<Vocabulary[]>([])
   const [activeTooltip, setActiveTooltip] = useState<string | null>(null)
 
+  // Webページの再取得と旧版との差分
+  const [revisions, setRevisions] = useState<RevisionInfo[]>([])
+  const [showRevisionDiff, setShowRevisionDiff] = useState<boolean>(false)
+  const [refreshing, setRefreshing] = useState<boolean>(false)
+
   const contentRef = useRef<HTMLDivElement>(null)
   const pageRefs = useRef<Record<number, HTMLDivElement | null>>({})
   const isScrollingToPage = useRef<boolean>(false)
   const initialPageRef = useRef<number>(1)
+  // PDFのアウトラインがサーバーに保存済みか
+  const pdfOutlineSavedRef = useRef<boolean>(false)
 
   // Fetch book info and all pages
   useEffect(() => {
@@ -97,6 +122,34 @@ function Reader(): JSX.Element {
           fetchBookmarks()
           fetchClips()
           fetchNotes()
+          fetchPdfPageTexts()
+          // 保存済みのPDFアウトライン（なければPdfViewerで読み取って保存）
+          const tocRes = await axios.get<{ toc: TocItem[] }>(`/api/books/${bookId}/toc`)
+          pdfOutlineSavedRef.current = (tocRes.data.toc || []).length > 0
+          setToc(tocRes.data.toc || [])
+          setLoading(false)
+          return
+        }
+
+        if (res.data.book_type === 'comic') {
+          setIsComic(true)
+          const comicRes = await axios.get<{ images: string[]; total: number; rightToLeft: boolean | null }>(`/api/books/${bookId}/comic`)
+          setComicImages(comicRes.data.images)
+          setTotalPages(comicRes.data.total)
+
+          // 本ごとの表示設定（なければComicInfo.xmlの綴じ方向）
+          const saved = JSON.parse(localStorage.getItem(`comic-view-${bookId}`) || '{}') as {
+            fitMode?: ComicFitMode
+            rightToLeft?: boolean
+            spread?: boolean
+          }
+          setComicFitMode(saved.fitMode || 'height')
+          setComicRightToLeft(saved.rightToLeft ?? comicRes.data.rightToLeft ?? false)
+          setComicSpread(saved.spread ?? false)
+
+          const progressRes = await axios.get<{ current_page: number }>(`/api/books/${bookId}/progress`)
+          setCurrentPage(progressRes.data.current_page || 1)
+          fetchBookmarks()
           setLoading(false)
           return
         }
@@ -105,6 +158,7 @@ function Reader(): JSX.Element {
         const pagesRes = await axios.get<{ pages: PageContent[]; total: number }>(`/api/books/${bookId}/all-pages`)
         setPages(pagesRes.data.pages)
         setTotalPages(pagesRes.data.total)
+        fetchAnchorIndex()
 
         // Determine initial page from saved progress
         const progressRes = await axios.get<{ current_page: number }>(`/api/books/${bookId}/progress`)
@@ -122,6 +176,9 @@ function Reader(): JSX.Element {
         fetchNotes()
         fetchTranslationStatus()
         fetchVocabularies()
+        if (res.data.book_type === 'website') {
+          fetchRevisions()
+        }
 
         setLoading(false)
       } catch (error) {
@@ -157,6 +214,16 @@ function Reader(): JSX.Element {
     })
   }, [loading, isPdf, pages.length])
 
+  // コミックの表示設定を保存
+  useEffect(() => {
+    if (!isComic || !bookId) return
+    localStorage.setItem(`comic-view-${bookId}`, JSON.stringify({
+      fitMode: comicFitMode,
+      rightToLeft: comicRightToLeft,
+      spread: comicSpread
+    }))
+  }, [isComic, bookId, comicFitMode, comicRightToLeft, comicSpread])
+
   // Apply syntax highlighting
   useEffect(() => {
     if (!loading && !isPdf) {
@@ -259,6 +326,24 @@ function Reader(): JSX.Element {
     return () => container.removeEventListener('click', handleImageClick)
   }, [isPdf, loading])
 
+  // 脚注ポップオーバーはスクロールかEscで閉じる
+  useEffect(() => {
+    if (!footnotePopover) return
+
+    const close = (): void => setFootnotePopover(null)
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') close()
+    }
+
+    const container = contentRef.current
+    container?.addEventListener('scroll', close, { passive: true })
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      container?.removeEventListener('scroll', close)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [footnotePopover])
+
   // 用語ツールチップの位置を動的に調整
   useEffect(() => {
     if (isPdf || !contentRef.current) return
@@ -415,6 +500,73 @@ function Reader(): JSX.Element {
     }
   }
 
+  const fetchRevisions = async (): Promise<void> => {
+    try {
+      const res = await axios.get<{ revisions: RevisionInfo[] }>(`/api/books/${bookId}/revisions`)
+      setRevisions(res.data.revisions)
+    } catch (error) {
+      console.error('Failed to fetch revisions:', error)
+    }
+  }
+
+  // 元のURLから再取得（変更があれば旧版を残し、しおり・メモ・クリップを新しいページへ移動）
+  const refreshWebsite = async (): Promise<void> => {
+    if (!confirm('元のURLから再取得しますか？\n現在の内容は旧版として残り、変更点を確認できます。')) return
+
+    setRefreshing(true)
+    try {
+      const res = await axios.post<RefreshResult>(`/api/books/${bookId}/refresh`)
+      if (!res.data.changed) {
+        alert('変更はありませんでした')
+        return
+      }
+
+      const [pagesRes, progressRes, tocRes] = await Promise.all([
+        axios.get<{ pages: PageContent[]; total: number }>(`/api/books/${bookId}/all-pages`),
+        axios.get<{ current_page: number }>(`/api/books/${bookId}/progress`),
+        axios.get<{ toc: TocItem[] }>(`/api/books/${bookId}/toc`)
+      ])
+      setPages(pagesRes.data.pages)
+      setTotalPages(pagesRes.data.total)
+      setToc(tocRes.data.toc || [])
+      fetchAnchorIndex()
+      fetchBookmarks()
+      fetchClips()
+      fetchNotes()
+      fetchTranslationStatus()
+      fetchRevisions()
+
+      const page = progressRes.data.current_page || 1
+      setCurrentPage(page)
+      requestAnimationFrame(() => scrollToPage(page, false))
+      setShowRevisionDiff(true)
+
+      const notices: string[] = []
+      if (res.data.unmapped.length > 0) {
+        notices.push(`${res.data.unmapped.length}件のしおり・メモ・クリップは対応するページが見つからず、近いページに残しました`)
+      }
+      if (res.data.droppedTranslations.length > 0) {
+        notices.push(`旧版の p.${res.data.droppedTranslations.join(', p.')} の翻訳は内容が変わったため引き継がず、旧版に残しました`)
+      }
+      if (notices.length > 0) alert(notices.join('\n'))
+    } catch (error: unknown) {
+      console.error('Refresh failed:', error)
+      const axiosError = error as { response?: { data?: { error?: string } }; message?: string }
+      alert('再取得に失敗しました: ' + (axiosError.response?.data?.error || axiosError.message))
+    } finally {
+      setRefreshing(false)
+    }
+  }
+
+  const fetchAnchorIndex = async (): Promise<void> => {
+    try {
+      const res = await axios.get<AnchorIndex>(`/api/books/${bookId}/anchors`)
+      setAnchorIndex(res.data)
+    } catch (error) {
+      console.error('Failed to fetch anchors:', error)
+    }
+  }
+
   // ノートを保存
   const saveNote = async (noteData: NoteData): Promise<void> => {
     await axios.put(`/api/notes/${noteData.id}`, {
@@ -452,6 +604,7 @@ function Reader(): JSX.Element {
     // ページを再取得して更新を反映
     const pagesRes = await axios.get<{ pages: PageContent[]; total: number }>(`/api/books/${bookId}/all-pages`)
     setPages(pagesRes.data.pages)
+    fetchAnchorIndex()
   }
 
   const scrollToPage = (page: number, smooth: boolean = true): void => {
@@ -470,13 +623,48 @@ function Reader(): JSX.Element {
     const maxPages = isPdf ? pdfTotalPages : totalPages
     if (page >= 1 && page <= maxPages) {
       setCurrentPage(page)
-      if (!isPdf && viewMode === 'scroll') {
+      if (!isPdf && !isComic && viewMode === 'scroll') {
         scrollToPage(page)
       }
       axios.post(`/api/books/${bookId}/progress`, { currentPage: page })
     }
   }
 
+  // ページ内のアンカー位置までスクロール（ページ表示の描画を待って再試行）
+  const scrollToAnchor = (page: number, anchor: string, retries: number): void => {
+    const container = viewMode === 'scroll' ? pageRefs.current[page] : contentRef.current
+    const target = container?.querySelector(`[id="${CSS.escape(anchor)}"]`)
+    if (target) {
+      target.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    } else if (retries > 0) {
+      setTimeout(() => scrollToAnchor(page, anchor, retries - 1), 100)
+    }
+  }
+
+  // 本文内リンク: ページをまたぐアンカーへ移動し、脚注はポップオーバーで表示
+  const handleContentLinkClick = (e: MouseEvent<HTMLDivElement>): void => {
+    const link = (e.target as HTMLElement).closest('a[href]')
+    const target = link && !editMode ? resolveContentLink(link, anchorIndex) : null
+    setFootnotePopover(null)
+    if (!link || !target) return
+
+    e.preventDefault()
+    if (target.type === 'footnote') {
+      const rect = link.getBoundingClientRect()
+      setFootnotePopover({
+        html: anchorIndex!.footnotes[target.id],
+        top: rect.bottom + 8,
+        left: Math.min(rect.left, window.innerWidth - 360)
+      })
+      return
+    }
+
+    goToPage(target.page)
+    if (target.anchor) {
+      requestAnimationFrame(() => scrollToAnchor(target.page, target.anchor, 10))
+    }
+  }
+
   // PDFのページ変更ハンドラ
   const handlePdfPageChange = (page: number): void => {
     setCurrentPage(page)
@@ -568,6 +756,32 @@ function Reader(): JSX.Element {
     }
   }
 
+  // サーバー側で抽出済みのPDFテキスト（ブラウザでの抽出を待たずにAIへ渡せる）
+  const fetchPdfPageTexts = async (): Promise<void> => {
+    try {
+      const res = await axios.get<{ pages: { page: number; text: string }[] }>(`/api/books/${bookId}/text`)
+      const serverTexts = res.data.pages.map(p => [p.page, p.text] as [number, string])
+      setPdfPageTexts(prev => new Map([...serverTexts, ...prev]))
+    } catch (error) {
+      console.error('Failed to fetch PDF text:', error)
+    }
+  }
+
+  // PDFのしおりを目次に使い、未保存ならサーバーへ保存
+  const handlePdfOutline = useCallback((outline: TocItem[]): void => {
+    if (outline.length === 0) return
+    setToc(outline)
+    if (pdfOutlineSavedRef.current) return
+    pdfOutlineSavedRef.current = true
+    axios.post(`/api/books/${bookId}/pdf-outline`, { toc: outline })
+      .catch(err => console.error('Failed to save PDF outline:', err))
+  }, [bookId])
+
+  // PdfViewerで抽出したテキストをサーバー側のテキストに重ねる
+  const handlePdfPageTexts = useCallback((pageTexts: Map<number, string>): void => {
+    setPdfPageTexts(prev => new Map([...prev, ...pageTexts]))
+  }, [])
+
   // PDFからクリップを受け取るコールバック
   const handleClipCapture = useCallback((pageNum: number, imageData: string, position: ClipPosition): void => {
     setClipPageNum(pageNum)
@@ -752,17 +966,23 @@ function Reader(): JSX.Element {
   }
 
   const handlePageJump = (): void => {
-    const pageNum = parseInt(jumpPageInput)
     const maxPages = isPdf ? pdfTotalPages : totalPages
-    if (pageNum >= 1 && pageNum <= maxPages) {
+    // PDFはページラベル（iv など）でも指定できる
+    const pageNum = resolvePageInput(jumpPageInput, isPdf ? pdfPageLabels : null, maxPages)
+    if (pageNum !== null) {
       goToPage(pageNum)
       setShowPageJumpModal(false)
       setJumpPageInput('')
+    } else if (isPdf && pdfPageLabels) {
+      alert(`ページラベル（${pdfPageLabels[0]} など）か、1から${maxPages}の間のページ番号を入力してください`)
     } else {
       alert(`1から${maxPages}の間で入力してください`)
     }
   }
 
+  // ページ番号の表示（PDFはページラベルを併記）
+  const pageLabel = (page: number): string => formatPageLabel(page, isPdf ? pdfPageLabels : null)
+
   // Fix image paths in content and highlight vocabularies
   const fixContent = (content: string): string => {
     const fixed = fixEpubImagePaths(content, bookId || '')
@@ -940,7 +1160,7 @@ function Reader(): JSX.Element {
                     onClick={() => goToPage(item.page)}
                   >
                     <span className="toc-title">{item.title}</span>
-                    <span className="toc-page">p.{item.page}</span>
+                    <span className="toc-page">p.{pageLabel(item.page)}</span>
                   </div>
                 ))}
               </div>
@@ -958,7 +1178,7 @@ function Reader(): JSX.Element {
                   className={`bookmark-item ${bookmark.page_num === currentPage ? 'active' : ''}`}
                   onClick={() => goToPage(bookmark.page_num)}
                 >
-                  <span className="page">p.{bookmark.page_num}</span>
+                  <span className="page">p.{pageLabel(bookmark.page_num)}</span>
                   <span className="note">{bookmark.note || '(メモなし)'}</span>
                   <button
                     className="delete"
@@ -988,7 +1208,7 @@ function Reader(): JSX.Element {
                     <img src={clip.image_data} alt="" />
                   </div>
                   <div className="clip-info">
-                    <span className="page">p.{clip.page_num}</span>
+                    <span className="page">p.{pageLabel(clip.page_num)}</span>
                     <span className="note">{clip.note || '(メモなし)'}</span>
                   </div>
                   <button
@@ -1077,7 +1297,7 @@ function Reader(): JSX.Element {
               )}
 
               {/* 編集モードボタン（EPUB/Webのみ） */}
-              {!isPdf && (
+              {!isPdf && !isComic && (
                 <button
                   className={`secondary ${editMode ? 'active' : ''}`}
                   onClick={() => setEditMode(!editMode)}
@@ -1094,7 +1314,7 @@ function Reader(): JSX.Element {
               )}
 
               {/* 翻訳保存ボタン（EPUB/Webのみ） */}
-              {!isPdf && (
+              {!isPdf && !isComic && (
                 <div className="translation-controls" style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
                   {/* 現在のページの翻訳状態 */}
                   {translatedPages.has(currentPage) ? (
@@ -1154,7 +1374,7 @@ function Reader(): JSX.Element {
               )}
 
               {/* 用語集ボタン（EPUB/Webのみ） */}
-              {!isPdf && (
+              {!isPdf && !isComic && (
                 <button
                   className={`secondary ${showVocabulary ? 'active' : ''}`}
                   onClick={() => setShowVocabulary(!showVocabulary)}
@@ -1170,45 +1390,114 @@ function Reader(): JSX.Element {
                 </button>
               )}
 
-              <div className="view-mode-toggle">
-                <button
-                  className={viewMode === 'scroll' ? 'active' : ''}
-                  onClick={() => setViewMode('scroll')}
-                  title="スクロールモード"
-                >
-                  📜
-                </button>
-                <button
-                  className={viewMode === 'page' ? 'active' : ''}
-                  onClick={() => setViewMode('page')}
-                  title="ページモード"
-                >
-                  📄
-                </button>
-              </div>
+              {/* 再取得・変更点ボタン（保存したWebページのみ） */}
+              {book?.book_type === 'website' && book.source_url && (
+                <>
+                  <button
+                    className="secondary"
+                    onClick={refreshWebsite}
+                    disabled={refreshing}
+                    title="元のURLから再取得"
+                    style={{ fontSize: '0.85rem', padding: '6px 10px' }}
+                  >
+                    {refreshing ? '⏳' : '🌐'} 再取得
+                  </button>
+                  {revisions.length > 0 && (
+                    <button
+                      className={`secondary ${showRevisionDiff ? 'active' : ''}`}
+                      onClick={() => setShowRevisionDiff(!showRevisionDiff)}
+                      title="旧版との変更点を表示"
+                      style={{
+                        fontSize: '0.85rem',
+                        padding: '6px 10px',
+                        background: showRevisionDiff ? '#667eea' : undefined,
+                        color: showRevisionDiff ? 'white' : undefined
+                      }}
+                    >
+                      🕘 変更点
+                    </button>
+                  )}
+                </>
+              )}
+
+              {isComic ? (
+                <div className="view-mode-toggle">
+                  <button
+                    className={comicFitMode === 'width' ? 'active' : ''}
+                    onClick={() => setComicFitMode('width')}
+                    title="幅に合わせる"
+                  >
+                    ↔
+                  </button>
+                  <button
+                    className={comicFitMode === 'height' ? 'active' : ''}
+                    onClick={() => setComicFitMode('height')}
+                    title="高さに合わせる"
+                  >
+                    ↕
+                  </button>
+                  <button
+                    className={comicSpread ? 'active' : ''}
+                    onClick={() => setComicSpread(!comicSpread)}
+                    title="見開き表示"
+                  >
+                    📖
+                  </button>
+                  <button
+                    className={comicRightToLeft ? 'active' : ''}
+                    onClick={() => setComicRightToLeft(!comicRightToLeft)}
+                    title={comicRightToLeft ? '右綴じ（マンガ）' : '左綴じ'}
+                  >
+                    {comicRightToLeft ? '⬅' : '➡'}
+                  </button>
+                </div>
+              ) : (
+                <div className="view-mode-toggle">
+                  <button
+                    className={viewMode === 'scroll' ? 'active' : ''}
+                    onClick={() => setViewMode('scroll')}
+                    title="スクロールモード"
+                  >
+                    📜
+                  </button>
+                  <button
+                    className={viewMode === 'page' ? 'active' : ''}
+                    onClick={() => setViewMode('page')}
+                    title="ページモード"
+                  >
+                    📄
+                  </button>
+                </div>
+              )}
             </div>
 
             <span
               className="page-info clickable"
               onClick={() => {
-                setJumpPageInput(currentPage.toString())
+                setJumpPageInput((isPdf && pdfPageLabels?.[currentPage - 1]) || currentPage.toString())
                 setShowPageJumpModal(true)
               }}
               title="クリックしてページを指定"
             >
-              {currentPage} / {displayTotalPages || '?'} ページ
+              {pageLabel(currentPage)} / {displayTotalPages || '?'} ページ
             </span>
 
             <div className="nav-buttons">
               <button
-                onClick={() => goToPage(currentPage - 1)}
+                onClick={() => goToPage(isComic
+                  ? getAdjacentPage(currentPage, totalPages, -1, comicSpread) ?? currentPage
+                  : currentPage - 1)}
                 disabled={currentPage <= 1}
               >
                 ← 前へ
               </button>
               <button
-                onClick={() => goToPage(currentPage + 1)}
-                disabled={currentPage >= displayTotalPages}
+                onClick={() => goToPage(isComic
+                  ? getAdjacentPage(currentPage, totalPages, 1, comicSpread) ?? currentPage
+                  : currentPage + 1)}
+                disabled={isComic
+                  ? getAdjacentPage(currentPage, totalPages, 1, comicSpread) === null
+                  : currentPage >= displayTotalPages}
               >
                 次へ →
               </button>
@@ -1216,9 +1505,18 @@ function Reader(): JSX.Element {
           </div>
         </div>
 
-        <div className="reader-content" ref={contentRef} onTouchEnd={handleDoubleTap}>
+        <div className="reader-content" ref={contentRef} onTouchEnd={handleDoubleTap} onClick={handleContentLinkClick}>
           {loading ? (
             <div className="loading">読み込み中</div>
+          ) : isComic ? (
+            <ComicViewer
+              images={comicImages}
+              currentPage={currentPage}
+              onPageChange={goToPage}
+              fitMode={comicFitMode}
+              rightToLeft={comicRightToLeft}
+              spread={comicSpread}
+            />
           ) : isPdf ? (
             <div className="pdf-with-notes">
               <PdfViewer
@@ -1226,7 +1524,9 @@ function Reader(): JSX.Element {
                 currentPage={currentPage}
                 onPageChange={handlePdfPageChange}
                 onTotalPagesChange={handlePdfTotalPages}
-                onPageTextExtracted={setPdfPageTexts}
+                onPageTextExtracted={handlePdfPageTexts}
+                onOutlineExtracted={handlePdfOutline}
+                onPageLabelsLoaded={setPdfPageLabels}
                 viewMode={viewMode}
                 clipMode={clipMode}
                 onClipCapture={handleClipCapture}
@@ -1461,16 +1761,18 @@ function Reader(): JSX.Element {
           <div className="modal" onClick={(e) => e.stopPropagation()}>
             <h3>📄 ページを指定して移動</h3>
             <p style={{ marginBottom: '15px', color: '#666' }}>
-              1 〜 {displayTotalPages} の間でページ番号を入力
+              {isPdf && pdfPageLabels
+                ? `ページラベル（${pdfPageLabels[0]} など）か、#を付けて 1 〜 ${displayTotalPages} のページ番号を入力`
+                : `1 〜 ${displayTotalPages} の間でページ番号を入力`}
             </p>
             <input
-              type="number"
+              type={isPdf && pdfPageLabels ? 'text' : 'number'}
               min="1"
               max={displayTotalPages}
               value={jumpPageInput}
               onChange={(e) => setJumpPageInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handlePageJump()}
-              placeholder="ページ番号"
+              placeholder={isPdf && pdfPageLabels ? 'ページラベル / #ページ番号' : 'ページ番号'}
               autoFocus
               style={{
                 width: '100%',
@@ -1531,6 +1833,16 @@ function Reader(): JSX.Element {
         />
       )}
 
+      {/* Revision Diff Panel */}
+      {showRevisionDiff && revisions.length > 0 && bookId && (
+        <RevisionDiffPanel
+          bookId={bookId}
+          pageNum={currentPage}
+          revisions={revisions}
+          onClose={() => setShowRevisionDiff(false)}
+        />
+      )}
+
       {/* Vocabulary Tooltip */}
       {activeTooltip && (
         <div
@@ -1545,6 +1857,18 @@ function Reader(): JSX.Element {
           {vocabularies.find(v => v.id === activeTooltip)?.description}
         </div>
       )}
+
+      {/* Footnote Popover */}
+      {footnotePopover && (
+        <div
+          className="footnote-popover"
+          lang={book.language || 'en'}
+          style={{ top: footnotePopover.top, left: Math.max(8, footnotePopover.left) }}
+        >
+          <button className="footnote-popover-close" onClick={() => setFootnotePopover(null)} title="閉じる">×</button>
+          <div className="content-html" dangerouslySetInnerHTML={{ __html: fixContent(footnotePopover.html) }} />
+        </div>
+      )}
     </div>
   )
 }
@@ -1,6 +1,7 @@
 import axios from 'axios'
 import { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
+import type { ExtractionRule, Feed, FeedPollResult, FreshRssSettings, FreshRssSyncResult } from '../types'
 
 interface AiSettingDisplay {
   provider: string
@@ -16,6 +17,71 @@ interface ProviderConfig {
   color: string
 }
 
+// 抽出ルールの編集フォーム（除去セレクタは1行に1つ）
+interface RuleForm {
+  id: string | null
+  host_pattern: string
+  content_selector: string
+  remove_selectors: string
+  next_page_selector: string
+}
+
+const emptyRuleForm: RuleForm = {
+  id: null,
+  host_pattern: '',
+  content_selector: '',
+  remove_selectors: '',
+  next_page_selector: ''
+}
+
+// フィード購読の編集フォーム
+interface FeedForm {
+  id: string | null
+  url: string
+  title: string
+  default_tag: string
+  entry_limit: string
+  enabled: boolean
+}
+
+const emptyFeedForm: FeedForm = {
+  id: null,
+  url: '',
+  title: '',
+  default_tag: '',
+  entry_limit: '10',
+  enabled: true
+}
+
+// FreshRSS接続の編集フォーム（ラベルはカンマ区切り、パスワードは空欄なら変更しない）
+interface FreshRssForm {
+  api_url: string
+  username: string
+  api_password: string
+  import_starred: boolean
+  import_labels: string
+  saved_label: string
+  default_tag: string
+  item_limit: string
+  enabled: boolean
+}
+
+const emptyFreshRssForm: FreshRssForm = {
+  api_url: '',
+  username: '',
+  api_password: '',
+  import_starred: true,
+  import_labels: '',
+  saved_label: 'EPUB Viewer',
+  default_tag: '',
+  item_limit: '20',
+  enabled: true
+}
+
+// SQLiteのCURRENT_TIMESTAMP（UTC）を表示用に変換
+const formatSyncedAt = (value: string | null) =>
+  value ? new Date(`${value.replace(' ', 'T')}Z`).toLocaleString('ja-JP') : '未取得'
+
 const providers: ProviderConfig[] = [
   {
     name: 'Google Gemini',
@@ -48,6 +114,17 @@ function Settings(): JSX.Element {
   const [selectedModel, setSelectedModel] = useState('')
   const [saving, setSaving] = useState(false)
   const [copied, setCopied] = useState(false)
+  const [rules, setRules] = useState<ExtractionRule[]>([])
+  const [ruleForm, setRuleForm] = useState<RuleForm | null>(null)
+  const [savingRule, setSavingRule] = useState(false)
+  const [feeds, setFeeds] = useState<Feed[]>([])
+  const [feedForm, setFeedForm] = useState<FeedForm | null>(null)
+  const [savingFeed, setSavingFeed] = useState(false)
+  const [pollingFeedId, setPollingFeedId] = useState<string | null>(null)
+  const [freshRss, setFreshRss] = useState<FreshRssSettings | null>(null)
+  const [freshRssForm, setFreshRssForm] = useState<FreshRssForm | null>(null)
+  const [savingFreshRss, setSavingFreshRss] = useState(false)
+  const [syncingFreshRss, setSyncingFreshRss] = useState(false)
 
   // Get current server URL for FreshRSS configuration
   const serverUrl = typeof window !== 'undefined' ? window.location.origin : ''
@@ -61,6 +138,9 @@ function Settings(): JSX.Element {
 
   useEffect(() => {
     fetchSettings()
+    fetchRules()
+    fetchFeeds()
+    fetchFreshRss()
   }, [])
 
   const fetchSettings = async () => {
@@ -114,6 +194,196 @@ function Settings(): JSX.Element {
     }
   }
 
+  const fetchRules = async () => {
+    try {
+      const res = await axios.get<ExtractionRule[]>('/api/extraction-rules')
+      setRules(res.data)
+    } catch (error) {
+      console.error('Failed to fetch extraction rules:', error)
+    }
+  }
+
+  const handleEditRule = (rule: ExtractionRule) => {
+    setRuleForm({
+      id: rule.id,
+      host_pattern: rule.host_pattern,
+      content_selector: rule.content_selector || '',
+      remove_selectors: rule.remove_selectors.join('\n'),
+      next_page_selector: rule.next_page_selector || ''
+    })
+  }
+
+  const handleSaveRule = async () => {
+    if (!ruleForm || !ruleForm.host_pattern.trim()) return
+
+    setSavingRule(true)
+    try {
+      const { id, ...body } = ruleForm
+      if (id) {
+        await axios.put(`/api/extraction-rules/${id}`, body)
+      } else {
+        await axios.post('/api/extraction-rules', body)
+      }
+      await fetchRules()
+      setRuleForm(null)
+    } catch (error) {
+      console.error('Failed to save extraction rule:', error)
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : null
+      alert(message ? `保存に失敗しました: ${message}` : '保存に失敗しました')
+    } finally {
+      setSavingRule(false)
+    }
+  }
+
+  const handleDeleteRule = async (ruleId: string) => {
+    if (!confirm('この抽出ルールを削除しますか？')) return
+
+    try {
+      await axios.delete(`/api/extraction-rules/${ruleId}`)
+      await fetchRules()
+    } catch (error) {
+      console.error('Failed to delete extraction rule:', error)
+    }
+  }
+
+  const fetchFeeds = async () => {
+    try {
+      const res = await axios.get<Feed[]>('/api/feeds')
+      setFeeds(res.data)
+    } catch (error) {
+      console.error('Failed to fetch feeds:', error)
+    }
+  }
+
+  const handleEditFeed = (feed: Feed) => {
+    setFeedForm({
+      id: feed.id,
+      url: feed.url,
+      title: feed.title || '',
+      default_tag: feed.default_tag || '',
+      entry_limit: String(feed.entry_limit),
+      enabled: feed.enabled
+    })
+  }
+
+  const handleSaveFeed = async () => {
+    if (!feedForm || !feedForm.url.trim()) return
+
+    setSavingFeed(true)
+    try {
+      const { id, ...body } = feedForm
+      if (id) {
+        await axios.put(`/api/feeds/${id}`, body)
+      } else {
+        await axios.post('/api/feeds', body)
+      }
+      await fetchFeeds()
+      setFeedForm(null)
+    } catch (error) {
+      console.error('Failed to save feed:', error)
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : null
+      alert(message ? `保存に失敗しました: ${message}` : '保存に失敗しました')
+    } finally {
+      setSavingFeed(false)
+    }
+  }
+
+  const handleDeleteFeed = async (feedId: string) => {
+    if (!confirm('このフィードの購読をやめますか？（保存済みの記事は残ります）')) return
+
+    try {
+      await axios.delete(`/api/feeds/${feedId}`)
+      await fetchFeeds()
+    } catch (error) {
+      console.error('Failed to delete feed:', error)
+    }
+  }
+
+  const handlePollFeed = async (feedId: string) => {
+    setPollingFeedId(feedId)
+    try {
+      const res = await axios.post<FeedPollResult>(`/api/feeds/${feedId}/poll`)
+      await fetchFeeds()
+      const { saved, errors } = res.data
+      alert(errors.length > 0
+        ? `${saved.length}件を保存しました（${errors.length}件は失敗）\n${errors.join('\n')}`
+        : saved.length > 0 ? `${saved.length}件の新着記事を保存しました` : '新着記事はありません')
+    } catch (error) {
+      console.error('Failed to poll feed:', error)
+      alert('フィードの取得に失敗しました')
+    } finally {
+      setPollingFeedId(null)
+    }
+  }
+
+  const fetchFreshRss = async () => {
+    try {
+      const res = await axios.get<FreshRssSettings | null>('/api/freshrss/settings')
+      setFreshRss(res.data)
+    } catch (error) {
+      console.error('Failed to fetch FreshRSS settings:', error)
+    }
+  }
+
+  const handleEditFreshRss = () => {
+    setFreshRssForm(freshRss ? {
+      api_url: freshRss.api_url,
+      username: freshRss.username,
+      api_password: '',
+      import_starred: freshRss.import_starred,
+      import_labels: freshRss.import_labels.join(', '),
+      saved_label: freshRss.saved_label,
+      default_tag: freshRss.default_tag || '',
+      item_limit: String(freshRss.item_limit),
+      enabled: freshRss.enabled
+    } : emptyFreshRssForm)
+  }
+
+  const handleSaveFreshRss = async () => {
+    if (!freshRssForm || !freshRssForm.api_url.trim() || !freshRssForm.username.trim()) return
+
+    setSavingFreshRss(true)
+    try {
+      const res = await axios.put<FreshRssSettings>('/api/freshrss/settings', freshRssForm)
+      setFreshRss(res.data)
+      setFreshRssForm(null)
+    } catch (error) {
+      console.error('Failed to save FreshRSS settings:', error)
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : null
+      alert(message ? `保存に失敗しました: ${message}` : '保存に失敗しました')
+    } finally {
+      setSavingFreshRss(false)
+    }
+  }
+
+  const handleDeleteFreshRss = async () => {
+    if (!confirm('FreshRSSとの接続を削除しますか？（取り込み済みの記事は残ります）')) return
+
+    try {
+      await axios.delete('/api/freshrss/settings')
+      setFreshRss(null)
+    } catch (error) {
+      console.error('Failed to delete FreshRSS settings:', error)
+    }
+  }
+
+  const handleSyncFreshRss = async () => {
+    setSyncingFreshRss(true)
+    try {
+      const res = await axios.post<FreshRssSyncResult>('/api/freshrss/sync')
+      setFreshRss(res.data.settings)
+      const { saved, errors } = res.data
+      alert(errors.length > 0
+        ? `${saved.length}件を取り込みました（${errors.length}件のエラー）\n${errors.join('\n')}`
+        : saved.length > 0 ? `${saved.length}件の記事を取り込みました` : '新しい記事はありません')
+    } catch (error) {
+      console.error('Failed to sync FreshRSS:', error)
+      alert('FreshRSSとの同期に失敗しました')
+    } finally {
+      setSyncingFreshRss(false)
+    }
+  }
+
   const isConfigured = (providerId: string) => {
     return settings.some(s => s.provider === providerId && s.configured)
   }
@@ -224,6 +494,211 @@ function Settings(): JSX.Element {
         </div>
       </section>
 
+      <section className="settings-section">
+        <h2>🧩 サイト別の抽出ルール</h2>
+        <p className="settings-description">
+          よく保存するサイトの本文の場所や、取り除く部分をCSSセレクタで指定します。
+          URL保存・複数ページ保存では、一致するルールを自動判定より先に適用します。
+        </p>
+
+        <div className="extraction-rules">
+          {rules.map(rule => (
+            <div key={rule.id} className="provider-card extraction-rule-card">
+              <div className="provider-header">
+                <span className="provider-name">{rule.host_pattern}</span>
+              </div>
+              <dl className="extraction-rule-details">
+                <dt>本文</dt>
+                <dd>{rule.content_selector ? <code>{rule.content_selector}</code> : '自動判定'}</dd>
+                <dt>除去</dt>
+                <dd>
+                  {rule.remove_selectors.length > 0
+                    ? rule.remove_selectors.map(selector => <code key={selector}>{selector}</code>)
+                    : 'なし'}
+                </dd>
+                <dt>次ページ</dt>
+                <dd>{rule.next_page_selector ? <code>{rule.next_page_selector}</code> : 'なし'}</dd>
+              </dl>
+              <div className="provider-actions">
+                <button className="edit-btn" onClick={() => handleEditRule(rule)}>
+                  編集
+                </button>
+                <button className="delete-btn" onClick={() => handleDeleteRule(rule.id)}>
+                  削除
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {ruleForm ? (
+            <div className="provider-card">
+              <div className="provider-edit">
+                <input
+                  type="text"
+                  placeholder="ホスト名（例: example.com, *.hatenablog.com）"
+                  value={ruleForm.host_pattern}
+                  onChange={e => setRuleForm({ ...ruleForm, host_pattern: e.target.value })}
+                  autoFocus
+                />
+                <input
+                  type="text"
+                  placeholder="本文のセレクタ（例: .article-body）空欄なら自動判定"
+                  value={ruleForm.content_selector}
+                  onChange={e => setRuleForm({ ...ruleForm, content_selector: e.target.value })}
+                />
+                <textarea
+                  placeholder={'取り除くセレクタ（1行に1つ）\n例: .ad-box'}
+                  value={ruleForm.remove_selectors}
+                  onChange={e => setRuleForm({ ...ruleForm, remove_selectors: e.target.value })}
+                  rows={4}
+                />
+                <input
+                  type="text"
+                  placeholder="次ページリンクのセレクタ（例: .pager a.next）"
+                  value={ruleForm.next_page_selector}
+                  onChange={e => setRuleForm({ ...ruleForm, next_page_selector: e.target.value })}
+                />
+                <div className="edit-buttons">
+                  <button className="cancel-btn" onClick={() => setRuleForm(null)}>
+                    キャンセル
+                  </button>
+                  <button
+                    className="save-btn"
+                    onClick={handleSaveRule}
+                    disabled={savingRule || !ruleForm.host_pattern.trim()}
+                    style={{ background: '#667eea' }}
+                  >
+                    {savingRule ? '保存中...' : '保存'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="provider-actions">
+              <button className="edit-btn" onClick={() => setRuleForm(emptyRuleForm)}>
+                ＋ ルールを追加
+              </button>
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="settings-section">
+        <h2>📡 フィード購読</h2>
+        <p className="settings-description">
+          RSS/Atomフィードを登録すると、新着記事を定期的に取得してライブラリに保存します。
+          1回の取得で保存するのは新しい順に上限件数までで、それより古い記事は保存しません。
+        </p>
+
+        <div className="feed-subscriptions">
+          {feeds.map(feed => (
+            <div key={feed.id} className="provider-card">
+              <div className="provider-header">
+                <span className="provider-name">{feed.title || feed.url}</span>
+                {!feed.enabled && (
+                  <span className="configured-badge" style={{ background: '#9ca3af' }}>
+                    停止中
+                  </span>
+                )}
+              </div>
+              <dl className="feed-details">
+                <dt>URL</dt>
+                <dd><code>{feed.url}</code></dd>
+                <dt>タグ</dt>
+                <dd>{feed.default_tag || 'なし'}</dd>
+                <dt>上限</dt>
+                <dd>{feed.entry_limit}件 / 回</dd>
+                <dt>最終取得</dt>
+                <dd>
+                  {formatSyncedAt(feed.last_checked_at)}
+                  {feed.last_error && <span className="feed-error">⚠️ {feed.last_error}</span>}
+                </dd>
+              </dl>
+              <div className="provider-actions">
+                <button
+                  className="edit-btn"
+                  onClick={() => handlePollFeed(feed.id)}
+                  disabled={pollingFeedId === feed.id}
+                >
+                  {pollingFeedId === feed.id ? '取得中...' : '今すぐ取得'}
+                </button>
+                <button className="edit-btn" onClick={() => handleEditFeed(feed)}>
+                  編集
+                </button>
+                <button className="delete-btn" onClick={() => handleDeleteFeed(feed.id)}>
+                  削除
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {feedForm ? (
+            <div className="provider-card">
+              <div className="provider-edit">
+                <input
+                  type="url"
+                  placeholder="フィードのURL（例: https://example.com/feed）"
+                  value={feedForm.url}
+                  onChange={e => setFeedForm({ ...feedForm, url: e.target.value })}
+                  autoFocus
+                />
+                <input
+                  type="text"
+                  placeholder="表示名（空欄ならフィードのタイトル）"
+                  value={feedForm.title}
+                  onChange={e => setFeedForm({ ...feedForm, title: e.target.value })}
+                />
+                <input
+                  type="text"
+                  placeholder="保存した記事に付けるタグ（任意）"
+                  value={feedForm.default_tag}
+                  onChange={e => setFeedForm({ ...feedForm, default_tag: e.target.value })}
+                />
+                <div className="feed-options">
+                  <label>
+                    1回の上限
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={feedForm.entry_limit}
+                      onChange={e => setFeedForm({ ...feedForm, entry_limit: e.target.value })}
+                    />
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={feedForm.enabled}
+                      onChange={e => setFeedForm({ ...feedForm, enabled: e.target.checked })}
+                    />
+                    定期取得する
+                  </label>
+                </div>
+                <div className="edit-buttons">
+                  <button className="cancel-btn" onClick={() => setFeedForm(null)}>
+                    キャンセル
+                  </button>
+                  <button
+                    className="save-btn"
+                    onClick={handleSaveFeed}
+                    disabled={savingFeed || !feedForm.url.trim()}
+                    style={{ background: '#667eea' }}
+                  >
+                    {savingFeed ? '保存中...' : '保存'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="provider-actions">
+              <button className="edit-btn" onClick={() => setFeedForm(emptyFeedForm)}>
+                ＋ フィードを追加
+              </button>
+            </div>
+          )}
+        </div>
+      </section>
+
       <section className="settings-section">
         <h2>📰 FreshRSS連携</h2>
         <p className="settings-description">
@@ -274,6 +749,150 @@ function Settings(): JSX.Element {
             </p>
           </div>
         </div>
+
+        <div className="freshrss-connector">
+          <h3>⭐ スター付き記事の自動取り込み</h3>
+          <p className="settings-description">
+            FreshRSSのGoogle Reader互換APIに接続し、スター付きや指定したラベルの記事を定期的に保存します。
+            取り込んだ記事にはFreshRSS側で保存済みラベルを付け、次回からは取り込みません。
+            FreshRSSの「プロフィール」でAPIパスワードを設定し、「認証」でAPIアクセスを許可してください。
+          </p>
+
+          {freshRss && !freshRssForm && (
+            <div className="provider-card">
+              <div className="provider-header">
+                <span className="provider-name">{freshRss.username}</span>
+                {!freshRss.enabled && (
+                  <span className="configured-badge" style={{ background: '#9ca3af' }}>
+                    停止中
+                  </span>
+                )}
+              </div>
+              <dl className="feed-details">
+                <dt>API</dt>
+                <dd><code>{freshRss.api_url}</code></dd>
+                <dt>取り込み</dt>
+                <dd>
+                  {freshRss.import_starred && <code>スター付き</code>}
+                  {freshRss.import_labels.map(label => <code key={label}>{label}</code>)}
+                </dd>
+                <dt>保存済み</dt>
+                <dd><code>{freshRss.saved_label}</code></dd>
+                <dt>タグ</dt>
+                <dd>{freshRss.default_tag || 'なし'}</dd>
+                <dt>上限</dt>
+                <dd>{freshRss.item_limit}件 / 回</dd>
+                <dt>最終同期</dt>
+                <dd>
+                  {formatSyncedAt(freshRss.last_synced_at)}
+                  {freshRss.last_error && <span className="feed-error">⚠️ {freshRss.last_error}</span>}
+                </dd>
+              </dl>
+              <div className="provider-actions">
+                <button className="edit-btn" onClick={handleSyncFreshRss} disabled={syncingFreshRss}>
+                  {syncingFreshRss ? '同期中...' : '今すぐ同期'}
+                </button>
+                <button className="edit-btn" onClick={handleEditFreshRss}>
+                  編集
+                </button>
+                <button className="delete-btn" onClick={handleDeleteFreshRss}>
+                  削除
+                </button>
+              </div>
+            </div>
+          )}
+
+          {freshRssForm ? (
+            <div className="provider-card">
+              <div className="provider-edit">
+                <input
+                  type="url"
+                  placeholder="APIのURL（例: https://rss.example.com/api/greader.php）"
+                  value={freshRssForm.api_url}
+                  onChange={e => setFreshRssForm({ ...freshRssForm, api_url: e.target.value })}
+                  autoFocus
+                />
+                <input
+                  type="text"
+                  placeholder="ユーザー名"
+                  value={freshRssForm.username}
+                  onChange={e => setFreshRssForm({ ...freshRssForm, username: e.target.value })}
+                />
+                <input
+                  type="password"
+                  placeholder={freshRss?.has_password ? 'APIパスワード（変更しない場合は空欄）' : 'APIパスワード'}
+                  value={freshRssForm.api_password}
+                  onChange={e => setFreshRssForm({ ...freshRssForm, api_password: e.target.value })}
+                />
+                <input
+                  type="text"
+                  placeholder="取り込むラベル（カンマ区切り、任意）"
+                  value={freshRssForm.import_labels}
+                  onChange={e => setFreshRssForm({ ...freshRssForm, import_labels: e.target.value })}
+                />
+                <input
+                  type="text"
+                  placeholder="取り込んだ記事に付けるFreshRSSのラベル"
+                  value={freshRssForm.saved_label}
+                  onChange={e => setFreshRssForm({ ...freshRssForm, saved_label: e.target.value })}
+                />
+                <input
+                  type="text"
+                  placeholder="保存した記事に付けるタグ（任意）"
+                  value={freshRssForm.default_tag}
+                  onChange={e => setFreshRssForm({ ...freshRssForm, default_tag: e.target.value })}
+                />
+                <div className="feed-options">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={freshRssForm.import_starred}
+                      onChange={e => setFreshRssForm({ ...freshRssForm, import_starred: e.target.checked })}
+                    />
+                    スター付きを取り込む
+                  </label>
+                  <label>
+                    1回の上限
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={freshRssForm.item_limit}
+                      onChange={e => setFreshRssForm({ ...freshRssForm, item_limit: e.target.value })}
+                    />
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={freshRssForm.enabled}
+                      onChange={e => setFreshRssForm({ ...freshRssForm, enabled: e.target.checked })}
+                    />
+                    定期同期する
+                  </label>
+                </div>
+                <div className="edit-buttons">
+                  <button className="cancel-btn" onClick={() => setFreshRssForm(null)}>
+                    キャンセル
+                  </button>
+                  <button
+                    className="save-btn"
+                    onClick={handleSaveFreshRss}
+                    disabled={savingFreshRss || !freshRssForm.api_url.trim() || !freshRssForm.username.trim()}
+                    style={{ background: '#667eea' }}
+                  >
+                    {savingFreshRss ? '保存中...' : '保存'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : !freshRss && (
+            <div className="provider-actions">
+              <button className="edit-btn" onClick={handleEditFreshRss}>
+                ＋ 接続を設定
+              </button>
+            </div>
+          )}
+        </div>
       </section>
     </div>
   )
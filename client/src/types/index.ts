@@ -7,9 +7,16 @@ export interface Book {
   pdf_total_pages?: number
   category?: string
   language: string
-  book_type?: 'epub' | 'pdf' | 'website' | 'markdown'
+  book_type?: 'epub' | 'pdf' | 'website' | 'markdown' | 'text' | 'html' | 'docx' | 'comic'
   source_url?: string
   ai_context?: string
+  author?: string | null
+  publisher?: string | null
+  identifier?: string | null
+  description?: string | null
+  series?: string | null
+  series_index?: number | null
+  published_date?: string | null
   current_page?: number
   created_at: string
   updated_at: string
@@ -60,12 +67,127 @@ export interface TocItem {
   level: number
 }
 
+// Anchor index (element id → page, footnote id → HTML)
+export interface AnchorIndex {
+  anchors: Record<string, number>
+  footnotes: Record<string, string>
+}
+
 // Page Types
 export interface PageContent {
   pageNum: number
   content: string
 }
 
+// Upload Job Types (バックグラウンド変換)
+export interface UploadResult {
+  bookId: string
+  title: string
+  bookType: 'epub' | 'pdf' | 'website' | 'markdown' | 'text' | 'html' | 'docx' | 'comic'
+  totalPages: number
+}
+
+// ソース差し替え・再取得で移動できなかったしおり・メモ・クリップ・読書位置
+export interface UnmappedAnnotation {
+  type: 'bookmark' | 'note' | 'clip' | 'progress'
+  id: string
+  oldPage: number
+  newPage: number
+  text: string | null
+}
+
+export interface ReplaceSourceResult extends UploadResult {
+  remapped: number
+  unmapped: UnmappedAnnotation[]
+}
+
+// Website Revision Types (Webページの再取得で残す旧版)
+export interface RevisionInfo {
+  id: string
+  title: string
+  totalPages: number
+  savedAt: string | null
+  replacedAt: string
+  pageMap: (number | null)[]
+}
+
+export interface RefreshResult {
+  success: boolean
+  changed: boolean
+  totalPages: number
+  revision: RevisionInfo | null
+  remapped: number
+  unmapped: UnmappedAnnotation[]
+  // Old pages whose translation no longer matches the re-fetched page (kept in the revision only)
+  droppedTranslations: number[]
+}
+
+export interface DiffBlock {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+export interface PageDiff {
+  revision: RevisionInfo
+  oldPages: number[]
+  blocks: DiffBlock[]
+  added: number
+  removed: number
+}
+
+export interface UploadJob<T = UploadResult, D = unknown> {
+  id: string
+  type: string
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  stage: string
+  progress: number
+  result: T | null
+  error: string | null
+  // ジョブ固有の進捗（複数ページ保存では CrawlProgress）
+  detail: D | null
+  createdAt: string
+  updatedAt: string
+}
+
+// Multi-page Crawl Types
+export interface CrawlProgress {
+  startUrl: string
+  maxPages: number
+  fetched: { url: string; bytes: number; images: number }[]
+  bytes: number
+  images: number
+  errors: { url: string; message: string }[]
+  // 再開したときに次に取得するURL
+  nextUrl: string | null
+}
+
+export interface MultipageSaveResult {
+  bookId: string
+  title: string
+  totalPages: number
+  crawledUrls: string[]
+}
+
+export type CrawlJob = UploadJob<MultipageSaveResult, CrawlProgress>
+
+// 保存せずに辿ったページの一覧（method: そのページへのリンクを見つけた方法）
+export interface CrawlPreview {
+  pages: { url: string; title: string; method: string | null }[]
+  nextUrl: string | null
+  truncated: boolean
+  errors: { url: string; message: string }[]
+}
+
+// Duplicate Types (409 Conflict で返される既存の本)
+export interface DuplicateBook {
+  id: string
+  title: string
+  book_type?: Book['book_type']
+  created_at: string
+  // 同じファイルがまだ変換中（本は未登録）
+  converting?: boolean
+}
+
 // Image Popup Types
 export interface ImageInfo {
   src: string
@@ -93,3 +215,58 @@ export interface Vocabulary {
   created_at?: string
   updated_at?: string
 }
+
+// Extraction Rule Types (サイト別の本文抽出ルール)
+export interface ExtractionRule {
+  id: string
+  host_pattern: string
+  content_selector: string | null
+  remove_selectors: string[]
+  next_page_selector: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+// Feed Subscription Types (RSS/Atom の購読)
+export interface Feed {
+  id: string
+  url: string
+  title: string | null
+  default_tag: string | null
+  entry_limit: number
+  enabled: boolean
+  last_checked_at: string | null
+  last_error: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface FeedPollResult {
+  feedId: string
+  saved: string[]
+  skipped: number
+  errors: string[]
+  feed: Feed
+}
+
+// FreshRSS Connector Types (Google Reader API、パスワードは返さない)
+export interface FreshRssSettings {
+  api_url: string
+  username: string
+  has_password: boolean
+  import_starred: boolean
+  import_labels: string[]
+  saved_label: string
+  default_tag: string | null
+  item_limit: number
+  enabled: boolean
+  last_synced_at: string | null
+  last_error: string | null
+}
+
+export interface FreshRssSyncResult {
+  saved: string[]
+  marked: number
+  errors: string[]
+  settings: FreshRssSettings
+}
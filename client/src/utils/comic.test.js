@@ -0,0 +1,50 @@
+/**
+ * Comic Utility Tests
+ * t-wada TDD style
+ */
+import { describe, expect, it } from 'vitest'
+import { getAdjacentPage, getSpreadPages } from './comic'
+
+describe('getSpreadPages', () => {
+  it('should show the cover alone', () => {
+    expect(getSpreadPages(1, 10)).toEqual([1])
+  })
+
+  it('should pair even and odd pages after the cover', () => {
+    expect(getSpreadPages(2, 10)).toEqual([2, 3])
+    expect(getSpreadPages(3, 10)).toEqual([2, 3])
+  })
+
+  it('should show the last page alone when total is even', () => {
+    expect(getSpreadPages(10, 10)).toEqual([10])
+  })
+
+  it('should clamp out-of-range pages', () => {
+    expect(getSpreadPages(0, 5)).toEqual([1])
+    expect(getSpreadPages(99, 5)).toEqual([4, 5])
+  })
+
+  it('should return empty array for empty books', () => {
+    expect(getSpreadPages(1, 0)).toEqual([])
+  })
+})
+
+describe('getAdjacentPage', () => {
+  it('should move one page in single mode', () => {
+    expect(getAdjacentPage(3, 10, 1, false)).toBe(4)
+    expect(getAdjacentPage(3, 10, -1, false)).toBe(2)
+  })
+
+  it('should move by spread in spread mode', () => {
+    expect(getAdjacentPage(1, 10, 1, true)).toBe(2)
+    expect(getAdjacentPage(2, 10, 1, true)).toBe(4)
+    expect(getAdjacentPage(5, 10, -1, true)).toBe(2)
+    expect(getAdjacentPage(2, 10, -1, true)).toBe(1)
+  })
+
+  it('should return null at the ends', () => {
+    expect(getAdjacentPage(1, 10, -1, true)).toBeNull()
+    expect(getAdjacentPage(10, 10, 1, false)).toBeNull()
+    expect(getAdjacentPage(8, 9, 1, true)).toBeNull()
+  })
+})
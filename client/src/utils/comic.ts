@@ -0,0 +1,43 @@
+/**
+ * Comic viewer utility functions
+ * 見開き表示のページ計算
+ */
+
+/**
+ * 指定ページを含む見開きのページ番号を取得
+ * 1ページ目（表紙）は単独、以降は 2-3, 4-5 ... の組で表示する
+ * @param page - ページ番号（1始まり）
+ * @param total - 総ページ数
+ * @returns 見開きに含まれるページ番号（読む順）
+ */
+export function getSpreadPages(page: number, total: number): number[] {
+  if (total <= 0) return []
+  const current = Math.min(Math.max(page, 1), total)
+  if (current === 1) return [1]
+  const start = current % 2 === 0 ? current : current - 1
+  return start + 1 <= total ? [start, start + 1] : [start]
+}
+
+/**
+ * 次／前に表示するページ番号を取得
+ * @param page - 現在のページ番号
+ * @param total - 総ページ数
+ * @param direction - 1: 次へ, -1: 前へ
+ * @param spread - 見開き表示かどうか
+ * @returns 移動先のページ番号（範囲外ならnull）
+ */
+export function getAdjacentPage(page: number, total: number, direction: 1 | -1, spread: boolean): number | null {
+  if (!spread) {
+    const next = page + direction
+    return next >= 1 && next <= total ? next : null
+  }
+
+  const current = getSpreadPages(page, total)
+  if (current.length === 0) return null
+  if (direction === 1) {
+    const next = current[current.length - 1] + 1
+    return next <= total ? next : null
+  }
+  const prev = current[0] - 1
+  return prev >= 1 ? getSpreadPages(prev, total)[0] : null
+}
@@ -0,0 +1,62 @@
+/**
+ * Content Link Utility Tests
+ * t-wada TDD style
+ */
+import { describe, expect, it } from 'vitest'
+import { isFootnoteRef, resolveContentLink } from './contentLinks'
+
+const link = (html) => {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  return container.firstElementChild
+}
+
+const INDEX = {
+  anchors: { intro: 1, 'chapter-2': 3, fn1: 5, 'データ': 2 },
+  footnotes: { fn1: '<p>The note.</p>' }
+}
+
+describe('isFootnoteRef', () => {
+  it('should recognize pandoc, ARIA and EPUB note references', () => {
+    expect(isFootnoteRef(link('<a class="footnote-ref" href="#fn1">1</a>'))).toBe(true)
+    expect(isFootnoteRef(link('<a role="doc-noteref" href="#fn1">1</a>'))).toBe(true)
+    expect(isFootnoteRef(link('<a epub:type="noteref" href="#n1">1</a>'))).toBe(true)
+    expect(isFootnoteRef(link('<a href="#chapter-2">2</a>'))).toBe(false)
+  })
+})
+
+describe('resolveContentLink', () => {
+  it('should jump to the page that holds the anchor', () => {
+    expect(resolveContentLink(link('<a href="#chapter-2">2</a>'), INDEX))
+      .toEqual({ type: 'page', page: 3, anchor: 'chapter-2' })
+    expect(resolveContentLink(link('<a href="#%E3%83%87%E3%83%BC%E3%82%BF">データ</a>'), INDEX))
+      .toEqual({ type: 'page', page: 2, anchor: 'データ' })
+  })
+
+  it('should open footnote references as footnotes', () => {
+    expect(resolveContentLink(link('<a class="footnote-ref" href="#fn1">1</a>'), INDEX))
+      .toEqual({ type: 'footnote', id: 'fn1' })
+  })
+
+  it('should use the page of links between ZIP notes', () => {
+    expect(resolveContentLink(link('<a href="#install" data-book-page="2">see</a>'), null))
+      .toEqual({ type: 'page', page: 2, anchor: 'install' })
+    expect(resolveContentLink(link('<a href="#" data-book-page="4">next</a>'), INDEX))
+      .toEqual({ type: 'page', page: 4, anchor: '' })
+  })
+
+  it('should open footnotes in other EPUB chapters as footnotes', () => {
+    const index = { anchors: { 'c3-n3': 3 }, footnotes: { 'c3-n3': '<p>巻末の注</p>' } }
+
+    expect(resolveContentLink(link('<a epub:type="noteref" href="#c3-n3" data-book-page="3">3</a>'), index))
+      .toEqual({ type: 'footnote', id: 'c3-n3' })
+    expect(resolveContentLink(link('<a epub:type="noteref" href="#c3-n3" data-book-page="3">3</a>'), null))
+      .toEqual({ type: 'page', page: 3, anchor: 'c3-n3' })
+  })
+
+  it('should ignore external links and unknown anchors', () => {
+    expect(resolveContentLink(link('<a href="https://example.com/#intro">x</a>'), INDEX)).toBeNull()
+    expect(resolveContentLink(link('<a href="#missing">x</a>'), INDEX)).toBeNull()
+    expect(resolveContentLink(link('<a href="#intro">x</a>'), null)).toBeNull()
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Content link utility functions
+ * 本文内のリンク（#chapter-2、脚注、ZIP内の他ノート、EPUBの他の章）をリーダー内の移動先に変換
+ */
+import type { AnchorIndex } from '../types'
+
+export type ContentLinkTarget =
+  | { type: 'footnote'; id: string }
+  | { type: 'page'; page: number; anchor: string }
+
+/**
+ * 脚注参照リンクかどうか（pandoc / DPUB-ARIA / EPUB3）
+ * @param link - リンク要素
+ * @returns 脚注参照ならtrue
+ */
+export function isFootnoteRef(link: Element): boolean {
+  return link.classList.contains('footnote-ref') ||
+    link.getAttribute('role') === 'doc-noteref' ||
+    /(^|\s)noteref(\s|$)/.test(link.getAttribute('epub:type') || '')
+}
+
+/**
+ * クリックされたリンクの移動先を決める
+ * @param link - リンク要素
+ * @param index - id → ページの索引（未取得ならnull）
+ * @returns 脚注の表示かページ移動（本の外へのリンクや索引にないidはnull）
+ */
+export function resolveContentLink(link: Element, index: AnchorIndex | null): ContentLinkTarget | null {
+  const href = link.getAttribute('href') || ''
+  if (!href.startsWith('#')) return null
+
+  let anchor: string
+  try {
+    anchor = decodeURIComponent(href.slice(1))
+  } catch {
+    anchor = href.slice(1)
+  }
+
+  if (anchor && index && isFootnoteRef(link) && index.footnotes[anchor]) {
+    return { type: 'footnote', id: anchor }
+  }
+
+  // ZIP内の他ノート・EPUBの他の章へのリンクは変換時にページが決まっている
+  const bookPage = link.getAttribute('data-book-page')
+  if (bookPage) {
+    const page = parseInt(bookPage, 10)
+    return page >= 1 ? { type: 'page', page, anchor } : null
+  }
+
+  if (!anchor || !index) return null
+  const page = index.anchors[anchor]
+  return page ? { type: 'page', page, anchor } : null
+}
@@ -0,0 +1,86 @@
+/**
+ * Crawl Progress Utility Tests
+ * t-wada TDD style
+ */
+import { describe, expect, it } from 'vitest'
+import { canResumeCrawl, canSaveFetchedCrawl, crawlStatusLabel, formatBytes, nextPageMethodLabel } from './crawlProgress'
+
+const detail = (overrides = {}) => ({
+  startUrl: 'https://example.com/1',
+  maxPages: 50,
+  fetched: [{ url: 'https://example.com/1', bytes: 2048, images: 1 }],
+  bytes: 2048,
+  images: 1,
+  errors: [],
+  nextUrl: 'https://example.com/2',
+  ...overrides
+})
+
+const job = (overrides = {}) => ({
+  id: 'job-1',
+  type: 'multipage',
+  status: 'running',
+  stage: 'crawling',
+  progress: 2,
+  result: null,
+  error: null,
+  detail: detail(),
+  createdAt: '2024-05-01T00:00:00.000Z',
+  updatedAt: '2024-05-01T00:00:01.000Z',
+  ...overrides
+})
+
+describe('formatBytes', () => {
+  it('should switch units at 1024', () => {
+    expect(formatBytes(512)).toBe('512 B')
+    expect(formatBytes(12595)).toBe('12.3 KB')
+    expect(formatBytes(4.5 * 1024 * 1024)).toBe('4.5 MB')
+  })
+})
+
+describe('crawlStatusLabel', () => {
+  it('should describe the running stage', () => {
+    expect(crawlStatusLabel(job())).toBe('ページを取得中...')
+    expect(crawlStatusLabel(job({ stage: 'images' }))).toBe('画像をダウンロード中...')
+  })
+
+  it('should describe finished jobs', () => {
+    expect(crawlStatusLabel(job({ status: 'completed', result: { bookId: 'b', title: 't', totalPages: 3, crawledUrls: [] } })))
+      .toBe('完了! 3ページを保存しました')
+    expect(crawlStatusLabel(job({ status: 'failed', error: 'No pages could be fetched' })))
+      .toBe('失敗しました: No pages could be fetched')
+    expect(crawlStatusLabel(job({ status: 'cancelled' }))).toBe('中止しました')
+  })
+})
+
+describe('canResumeCrawl', () => {
+  it('should allow resuming cancelled and failed crawls', () => {
+    expect(canResumeCrawl(job({ status: 'cancelled' }))).toBe(true)
+    expect(canResumeCrawl(job({ status: 'failed', detail: detail({ nextUrl: null }) }))).toBe(true)
+  })
+
+  it('should not allow resuming running, completed or empty crawls', () => {
+    expect(canResumeCrawl(job())).toBe(false)
+    expect(canResumeCrawl(job({ status: 'completed' }))).toBe(false)
+    expect(canResumeCrawl(job({ status: 'cancelled', detail: null }))).toBe(false)
+    expect(canResumeCrawl(job({ status: 'failed', detail: detail({ fetched: [], nextUrl: null }) }))).toBe(false)
+  })
+})
+
+describe('canSaveFetchedCrawl', () => {
+  it('should allow saving the fetched pages of stopped crawls only', () => {
+    expect(canSaveFetchedCrawl(job({ status: 'failed', error: 'Crawl stopped at https://example.com/2: HTTP 503' }))).toBe(true)
+    expect(canSaveFetchedCrawl(job({ status: 'cancelled' }))).toBe(true)
+    expect(canSaveFetchedCrawl(job())).toBe(false)
+    expect(canSaveFetchedCrawl(job({ status: 'failed', detail: detail({ fetched: [] }) }))).toBe(false)
+  })
+})
+
+describe('nextPageMethodLabel', () => {
+  it('should describe how the next page was found', () => {
+    expect(nextPageMethodLabel(null)).toBe('開始ページ')
+    expect(nextPageMethodLabel('next-link')).toBe('「次へ」リンク')
+    expect(nextPageMethodLabel('url-pattern')).toBe('URLの連番')
+    expect(nextPageMethodLabel('unknown')).toBe('unknown')
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Crawl progress utility functions
+ * 複数ページ保存ジョブの進捗表示
+ */
+import type { CrawlJob } from '../types'
+
+const CRAWL_STAGE_LABELS: Record<string, string> = {
+  queued: '待機中...',
+  starting: '開始中...',
+  crawling: 'ページを取得中...',
+  images: '画像をダウンロード中...',
+  saving: '保存中...'
+}
+
+/**
+ * バイト数の表示
+ * @param bytes - バイト数
+ * @returns "512 B" / "12.3 KB" / "4.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/**
+ * ジョブの状態の表示
+ * @param job - 複数ページ保存ジョブ
+ * @returns 状態を表す文言
+ */
+export function crawlStatusLabel(job: CrawlJob): string {
+  switch (job.status) {
+    case 'completed':
+      return `完了! ${job.result?.totalPages ?? 0}ページを保存しました`
+    case 'failed':
+      return `失敗しました: ${job.error || '不明なエラー'}`
+    case 'cancelled':
+      return '中止しました'
+    default:
+      return CRAWL_STAGE_LABELS[job.stage] || 'ページを取得中...'
+  }
+}
+
+/**
+ * 中止・失敗したジョブを再開できるか
+ * @param job - 複数ページ保存ジョブ
+ * @returns 次に取得するページが残っているか、取得済みのページがあれば true
+ */
+export function canResumeCrawl(job: CrawlJob): boolean {
+  if (job.status !== 'cancelled' && job.status !== 'failed') return false
+  return Boolean(job.detail && (job.detail.nextUrl || job.detail.fetched.length > 0))
+}
+
+/**
+ * 中止・失敗したジョブの取得済みのページだけを保存できるか
+ * @param job - 複数ページ保存ジョブ
+ * @returns 取得済みのページがあれば true
+ */
+export function canSaveFetchedCrawl(job: CrawlJob): boolean {
+  if (job.status !== 'cancelled' && job.status !== 'failed') return false
+  return Boolean(job.detail && job.detail.fetched.length > 0)
+}
+
+// 次のページを見つけた方法
+const NEXT_PAGE_METHOD_LABELS: Record<string, string> = {
+  'site-rule': '抽出ルール',
+  'link-class': '指定クラス',
+  'rel-next': 'rel="next"',
+  'next-link': '「次へ」リンク',
+  pagination: 'ページ番号',
+  'url-pattern': 'URLの連番'
+}
+
+/**
+ * 次のページを見つけた方法の表示
+ * @param method - サーバーが返した方法（開始ページはnull）
+ * @returns 表示用の文言
+ */
+export function nextPageMethodLabel(method: string | null): string {
+  if (!method) return '開始ページ'
+  return NEXT_PAGE_METHOD_LABELS[method] || method
+}
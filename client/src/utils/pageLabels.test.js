@@ -0,0 +1,59 @@
+/**
+ * Page Label Utility Tests
+ * t-wada TDD style
+ */
+import { describe, expect, it } from 'vitest'
+import { formatPageLabel, normalizePageLabels, resolvePageInput } from './pageLabels'
+
+// 表紙・前付け (i〜iii) のあとに本文 1, 2, 3
+const LABELS = ['Cover', 'i', 'ii', 'iii', '1', '2', '3']
+
+describe('normalizePageLabels', () => {
+  it('should keep labels that differ from physical numbers', () => {
+    expect(normalizePageLabels(LABELS)).toEqual(LABELS)
+  })
+
+  it('should drop missing or redundant labels', () => {
+    expect(normalizePageLabels(null)).toBeNull()
+    expect(normalizePageLabels([])).toBeNull()
+    expect(normalizePageLabels(['1', '2', '3'])).toBeNull()
+  })
+})
+
+describe('formatPageLabel', () => {
+  it('should show the label with the physical page', () => {
+    expect(formatPageLabel(3, LABELS)).toBe('ii (3)')
+    expect(formatPageLabel(5, LABELS)).toBe('1 (5)')
+  })
+
+  it('should show the physical page without labels', () => {
+    expect(formatPageLabel(3, null)).toBe('3')
+    expect(formatPageLabel(99, LABELS)).toBe('99')
+  })
+})
+
+describe('resolvePageInput', () => {
+  it('should resolve labels case-insensitively', () => {
+    expect(resolvePageInput('III', LABELS, 7)).toBe(4)
+    expect(resolvePageInput('cover', LABELS, 7)).toBe(1)
+  })
+
+  it('should prefer labels over physical numbers', () => {
+    expect(resolvePageInput('2', LABELS, 7)).toBe(6)
+  })
+
+  it('should treat # as a physical page number', () => {
+    expect(resolvePageInput('#2', LABELS, 7)).toBe(2)
+  })
+
+  it('should fall back to physical numbers', () => {
+    expect(resolvePageInput('7', LABELS, 7)).toBe(7)
+    expect(resolvePageInput('4', null, 7)).toBe(4)
+  })
+
+  it('should return null for unknown or out-of-range input', () => {
+    expect(resolvePageInput('xiv', LABELS, 7)).toBeNull()
+    expect(resolvePageInput('8', null, 7)).toBeNull()
+    expect(resolvePageInput(' ', LABELS, 7)).toBeNull()
+  })
+})
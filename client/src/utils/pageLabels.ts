@@ -0,0 +1,50 @@
+/**
+ * Page label utility functions
+ * PDFのページラベル（iv, 12 など）と物理ページ番号の変換
+ */
+
+/**
+ * pdf.js の getPageLabels() の結果を整える
+ * @param labels - ページごとのラベル（ラベルのないPDFはnull）
+ * @returns 物理ページ番号と同じだけのラベルならnull
+ */
+export function normalizePageLabels(labels: string[] | null | undefined): string[] | null {
+  if (!labels || labels.length === 0) return null
+  const meaningful = labels.some((label, index) => label.trim() !== '' && label.trim() !== String(index + 1))
+  return meaningful ? labels.map(label => label.trim()) : null
+}
+
+/**
+ * ページ番号の表示（ラベルが物理番号と異なる場合は併記）
+ * @param page - 物理ページ番号（1始まり）
+ * @param labels - ページラベル
+ * @returns "iv (4)" のような表示、ラベルがなければページ番号
+ */
+export function formatPageLabel(page: number, labels: string[] | null): string {
+  const label = labels?.[page - 1]
+  return label && label !== String(page) ? `${label} (${page})` : String(page)
+}
+
+/**
+ * ページ移動の入力を物理ページ番号に変換
+ * ラベルの一致を優先し、なければ物理ページ番号として扱う（#12 は常に物理番号）
+ * @param input - 入力文字列
+ * @param labels - ページラベル
+ * @param total - 総ページ数
+ * @returns 物理ページ番号（該当なしはnull）
+ */
+export function resolvePageInput(input: string, labels: string[] | null, total: number): number | null {
+  const value = input.trim()
+  if (!value) return null
+
+  const physical = value.startsWith('#')
+  if (!physical && labels) {
+    const index = labels.findIndex(label => label.toLowerCase() === value.toLowerCase())
+    if (index >= 0) return index + 1
+  }
+
+  const digits = physical ? value.slice(1).trim() : value
+  if (!/^\d+$/.test(digits)) return null
+  const page = parseInt(digits, 10)
+  return page >= 1 && page <= total ? page : null
+}
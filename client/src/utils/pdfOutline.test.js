@@ -0,0 +1,51 @@
+/**
+ * PDF Outline Utility Tests
+ * t-wada TDD style
+ */
+import { describe, expect, it } from 'vitest'
+import { flattenPdfOutline } from './pdfOutline'
+
+const node = (title, dest, items = []) => ({ title, dest, items })
+
+// 名前付きの移動先は辞書で、明示的な移動先は [pageIndex, ...] で解決する
+const resolvePage = async (dest) => {
+  if (typeof dest === 'string') return { intro: 1, methods: 4 }[dest] ?? null
+  return dest[0] + 1
+}
+
+describe('flattenPdfOutline', () => {
+  it('should keep nesting levels and page numbers in document order', async () => {
+    const outline = [
+      node('Introduction', 'intro', [node('Background', [1])]),
+      node('Methods', 'methods', [node('Data', [4], [node('Sources', [5])])])
+    ]
+
+    expect(await flattenPdfOutline(outline, resolvePage)).toEqual([
+      { title: 'Introduction', page: 1, level: 1 },
+      { title: 'Background', page: 2, level: 2 },
+      { title: 'Methods', page: 4, level: 1 },
+      { title: 'Data', page: 5, level: 2 },
+      { title: 'Sources', page: 6, level: 3 }
+    ])
+  })
+
+  it('should skip entries without a page but keep their children', async () => {
+    const outline = [node('Website', null, [node('Appendix', [9])]), node('Missing', 'nowhere')]
+
+    expect(await flattenPdfOutline(outline, resolvePage)).toEqual([
+      { title: 'Appendix', page: 10, level: 2 }
+    ])
+  })
+
+  it('should treat destinations that fail to resolve as missing', async () => {
+    const failing = async () => { throw new Error('bad ref') }
+
+    expect(await flattenPdfOutline([node('Broken', [0])], failing)).toEqual([])
+  })
+
+  it('should collapse whitespace in titles', async () => {
+    expect(await flattenPdfOutline([node('  Chapter\n 1 ', [0])], resolvePage)).toEqual([
+      { title: 'Chapter 1', page: 1, level: 1 }
+    ])
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * PDF outline utility functions
+ * PDFのしおり（アウトライン）を目次の形に変換
+ */
+import type { TocItem } from '../types'
+
+// pdf.js の getOutline() が返すノードのうち使う部分
+export interface PdfOutlineNode {
+  title: string
+  dest: string | unknown[] | null
+  items: PdfOutlineNode[]
+}
+
+/**
+ * アウトラインの木を階層付きの目次に平坦化
+ * ページが解決できない項目（外部リンク等）は除き、子項目は残す
+ * @param nodes - アウトラインのノード
+ * @param resolvePage - 移動先からページ番号（1始まり）を求める関数
+ * @param level - ノードの階層（1始まり）
+ * @returns 目次項目（文書順）
+ */
+export async function flattenPdfOutline(
+  nodes: PdfOutlineNode[],
+  resolvePage: (dest: string | unknown[]) => Promise<number | null>,
+  level: number = 1
+): Promise<TocItem[]> {
+  const toc: TocItem[] = []
+  for (const node of nodes) {
+    const title = node.title.replace(/\s+/g, ' ').trim()
+    let page: number | null = null
+    if (node.dest) {
+      try {
+        page = await resolvePage(node.dest)
+      } catch {
+        page = null
+      }
+    }
+    if (title && page !== null) {
+      toc.push({ title, page, level })
+    }
+    toc.push(...await flattenPdfOutline(node.items || [], resolvePage, level + 1))
+  }
+  return toc
+}
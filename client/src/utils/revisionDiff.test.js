@@ -0,0 +1,47 @@
+/**
+ * Revision Diff Utility Tests
+ * t-wada TDD style
+ */
+import { describe, expect, it } from 'vitest'
+import { collapseUnchanged, formatRevisionDate } from './revisionDiff'
+
+const same = text => ({ type: 'same', text })
+
+describe('collapseUnchanged', () => {
+  it('should keep one unchanged block of context around each change', () => {
+    const blocks = [same('a'), same('b'), same('c'), { type: 'added', text: 'x' }, same('d'), same('e'), same('f')]
+
+    expect(collapseUnchanged(blocks)).toEqual([
+      { type: 'skipped', count: 2 },
+      same('c'),
+      { type: 'added', text: 'x' },
+      same('d'),
+      { type: 'skipped', count: 2 }
+    ])
+  })
+
+  it('should not collapse anything between nearby changes', () => {
+    const blocks = [{ type: 'removed', text: 'x' }, same('a'), same('b'), { type: 'added', text: 'y' }]
+    expect(collapseUnchanged(blocks)).toEqual(blocks)
+  })
+
+  it('should collapse a page without changes into one row', () => {
+    expect(collapseUnchanged([same('a'), same('b')])).toEqual([{ type: 'skipped', count: 2 }])
+  })
+
+  it('should show all blocks when the context is large enough', () => {
+    const blocks = [same('a'), { type: 'added', text: 'x' }, same('b')]
+    expect(collapseUnchanged(blocks, 5)).toEqual(blocks)
+  })
+})
+
+describe('formatRevisionDate', () => {
+  it('should format a date in local time', () => {
+    expect(formatRevisionDate(new Date(2024, 4, 1, 9, 5).toISOString())).toBe('2024/5/1 09:05')
+  })
+
+  it('should handle missing and unparseable dates', () => {
+    expect(formatRevisionDate(null)).toBe('不明')
+    expect(formatRevisionDate('yesterday')).toBe('yesterday')
+  })
+})
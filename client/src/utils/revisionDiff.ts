@@ -0,0 +1,50 @@
+/**
+ * Revision diff utility functions
+ * 再取得したWebページの変更点表示（変更のない段落を折りたたむ）
+ */
+import type { DiffBlock } from '../types'
+
+export type DiffRow = DiffBlock | { type: 'skipped'; count: number }
+
+/**
+ * 変更のない段落の連続を折りたたむ
+ * @param blocks - サーバーが返したブロック単位の差分
+ * @param context - 変更の前後に残す変更なしの段落数
+ * @returns 表示する行（折りたたんだ部分は skipped）
+ */
+export function collapseUnchanged(blocks: DiffBlock[], context: number = 1): DiffRow[] {
+  const changed = blocks.map(block => block.type !== 'same')
+  const keep = blocks.map((_, index) => {
+    for (let offset = -context; offset <= context; offset++) {
+      if (changed[index + offset]) return true
+    }
+    return false
+  })
+
+  const rows: DiffRow[] = []
+  blocks.forEach((block, index) => {
+    if (keep[index]) {
+      rows.push(block)
+      return
+    }
+    const last = rows[rows.length - 1]
+    if (last?.type === 'skipped') {
+      last.count++
+    } else {
+      rows.push({ type: 'skipped', count: 1 })
+    }
+  })
+  return rows
+}
+
+/**
+ * 旧版の日時の表示
+ * @param iso - ISO 8601 の日時
+ * @returns "2024/5/1 12:00" のような表示（解釈できなければそのまま）
+ */
+export function formatRevisionDate(iso: string | null): string {
+  if (!iso) return '不明'
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return iso
+  return `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
@@ -442,5 +442,7 @@ export function fixEpubImagePaths(content: string, bookId: string): string {
     .replace(/src="\/home\/[^"]*\/media\//g, `src="/api/books/${bookId}/media/`)
     .replace(/src="media\//g, `src="/api/books/${bookId}/media/`)
     .replace(/src="\.\/media\//g, `src="/api/books/${bookId}/media/`)
+    // SVG内の<image>（EPUBの表紙ページなど）
+    .replace(/(<image[^>]*?\s(?:xlink:)?href=")media\//g, `$1/api/books/${bookId}/media/`)
     .replace(/max-width:\s*800px/g, 'max-width: 100%')
 }
@@ -10,10 +10,6 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:3001',
         changeOrigin: true
-      },
-      '/converted': {
-        target: 'http://localhost:3001',
-        changeOrigin: true
       }
     }
   }
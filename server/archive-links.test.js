@@ -0,0 +1,69 @@
+/**
+ * Archive Link Tests
+ * t-wada TDD style: ZIP内Markdownの画像・リンク解決
+ */
+import { describe, expect, it } from 'vitest'
+import {
+  archiveMediaUrl,
+  resolveArchivePath,
+  rewriteArchiveImagePaths,
+  rewriteArchiveLinks
+} from './archive-links'
+
+describe('resolveArchivePath', () => {
+  it('should resolve paths relative to the referencing file', () => {
+    expect(resolveArchivePath('ch1/intro.md', 'fig.png')).toBe('ch1/fig.png')
+    expect(resolveArchivePath('ch1/intro.md', './img/a%20b.png')).toBe('ch1/img/a b.png')
+    expect(resolveArchivePath('ch1/intro.md', '../ch2/setup.md')).toBe('ch2/setup.md')
+  })
+
+  it('should reject external, absolute and escaping paths', () => {
+    expect(resolveArchivePath('a.md', 'https://example.com/x.png')).toBeNull()
+    expect(resolveArchivePath('a.md', 'data:image/png;base64,AAAA')).toBeNull()
+    expect(resolveArchivePath('a.md', '/etc/passwd')).toBeNull()
+    expect(resolveArchivePath('ch1/a.md', '../../secret.png')).toBeNull()
+  })
+})
+
+describe('archiveMediaUrl', () => {
+  it('should keep folders and encode each segment', () => {
+    expect(archiveMediaUrl('b1', 'ch 1/fig#1.png')).toBe('/api/books/b1/media/ch%201/fig%231.png')
+  })
+})
+
+describe('rewriteArchiveImagePaths', () => {
+  const media = new Set(['ch1/fig.png', 'ch2/fig.png', 'attachments/diagram.svg'])
+
+  it('should keep same-named images in different folders apart', () => {
+    expect(rewriteArchiveImagePaths('<img src="fig.png" alt="a">', 'ch1/a.md', media, 'b1'))
+      .toBe('<img src="/api/books/b1/media/ch1/fig.png" alt="a">')
+    expect(rewriteArchiveImagePaths('<img alt="b" src="./fig.png">', 'ch2/b.md', media, 'b1'))
+      .toBe('<img alt="b" src="/api/books/b1/media/ch2/fig.png">')
+  })
+
+  it('should fall back to a unique file name match', () => {
+    expect(rewriteArchiveImagePaths('<img src="diagram.svg">', 'notes/c.md', media, 'b1'))
+      .toBe('<img src="/api/books/b1/media/attachments/diagram.svg">')
+  })
+
+  it('should leave unresolved and external images untouched', () => {
+    const html = '<img src="fig.png"><img src="https://example.com/x.png">'
+    expect(rewriteArchiveImagePaths(html, 'root.md', media, 'b1')).toBe(html)
+  })
+})
+
+describe('rewriteArchiveLinks', () => {
+  const pages = new Map([['01-intro.md', 1], ['guide/02-setup.md', 2]])
+
+  it('should turn links to other notes into page links with the anchor', () => {
+    expect(rewriteArchiveLinks('<a href="guide/02-setup.md#install">see</a>', '01-intro.md', pages))
+      .toBe('<a href="#install" data-book-page="2">see</a>')
+    expect(rewriteArchiveLinks('<a class="x" href="../01-intro.md">back</a>', 'guide/02-setup.md', pages))
+      .toBe('<a class="x" href="#" data-book-page="1">back</a>')
+  })
+
+  it('should leave external, in-page and unknown links untouched', () => {
+    const html = '<a href="https://example.com/a.md">x</a><a href="#top">y</a><a href="missing.md">z</a>'
+    expect(rewriteArchiveLinks(html, '01-intro.md', pages)).toBe(html)
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * Archive link utility functions
+ * ZIP内のMarkdownが参照する画像・他ノートへのリンクを、ファイルの位置から解決する
+ */
+import path from 'path';
+
+/**
+ * アーカイブ内の参照先をルートからの相対パスに解決
+ * @param fromFile - 参照元ファイルのパス（例: ch1/intro.md）
+ * @param target - href / src の値（#以降は含めない）
+ * @returns 正規化したパス（外部URL・絶対パス・ルート外はnull）
+ */
+export function resolveArchivePath(fromFile: string, target: string): string | null {
+  if (!target || /^[a-z][a-z\d+.-]*:/i.test(target) || target.startsWith('/') || target.startsWith('\\')) {
+    return null;
+  }
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(target);
+  } catch {
+    decoded = target;
+  }
+
+  const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), decoded.replace(/\\/g, '/')));
+  if (resolved === '.' || resolved === '..' || resolved.startsWith('../')) return null;
+  return resolved.replace(/^\.\//, '');
+}
+
+/**
+ * メディアファイルのURL（パスの区切りを残して各部分をエンコード）
+ * @param bookId - 書籍ID
+ * @param mediaPath - media/ からの相対パス
+ * @returns /api/books/:bookId/media/... のURL
+ */
+export function archiveMediaUrl(bookId: string, mediaPath: string): string {
+  return `/api/books/${bookId}/media/${mediaPath.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * 画像のsrcを参照元ファイルからの相対パスで解決し、メディアURLに書き換える
+ * パスで見つからない場合はファイル名が一意に一致する画像を使う
+ * @param html - pandocが出力したHTML
+ * @param fromFile - 参照元Markdownのアーカイブ内パス
+ * @param mediaFiles - アーカイブ内の画像パス
+ * @param bookId - 書籍ID
+ * @returns 書き換え後のHTML（解決できないsrcはそのまま）
+ */
+export function rewriteArchiveImagePaths(
+  html: string,
+  fromFile: string,
+  mediaFiles: Set<string>,
+  bookId: string
+): string {
+  const byName = new Map<string, string[]>();
+  for (const file of mediaFiles) {
+    const name = path.posix.basename(file).toLowerCase();
+    byName.set(name, [...(byName.get(name) || []), file]);
+  }
+
+  return html.replace(/(<img\b[^>]*?\ssrc=")([^"]+)(")/gi, (match, before: string, src: string, after: string) => {
+    const resolved = resolveArchivePath(fromFile, src.split(/[?#]/)[0]);
+    if (resolved === null) return match;
+
+    const candidates = byName.get(path.posix.basename(resolved).toLowerCase()) || [];
+    const mediaPath = mediaFiles.has(resolved) ? resolved : candidates.length === 1 ? candidates[0] : null;
+    return mediaPath ? `${before}${archiveMediaUrl(bookId, mediaPath)}${after}` : match;
+  });
+}
+
+/**
+ * 他のMarkdownファイルへのリンクを、リーダー内のページ移動リンクに書き換える
+ * [see](02-setup.md#install) → <a href="#install" data-book-page="2">
+ * @param html - pandocが出力したHTML
+ * @param fromFile - 参照元Markdownのアーカイブ内パス
+ * @param pageByFile - Markdownのアーカイブ内パス → ページ番号
+ * @returns 書き換え後のHTML（アーカイブ外・未変換のファイルへのリンクはそのまま）
+ */
+export function rewriteArchiveLinks(html: string, fromFile: string, pageByFile: Map<string, number>): string {
+  return html.replace(/(<a\b[^>]*?\s)href="([^"]*)"/gi, (match, before: string, href: string) => {
+    const hashIndex = href.indexOf('#');
+    const target = hashIndex >= 0 ? href.slice(0, hashIndex) : href;
+    const anchor = hashIndex >= 0 ? href.slice(hashIndex + 1) : '';
+    if (!/\.(md|markdown)$/i.test(target.split('?')[0])) return match;
+
+    const resolved = resolveArchivePath(fromFile, target.split('?')[0]);
+    const page = resolved === null ? undefined : pageByFile.get(resolved);
+    if (page === undefined) return match;
+
+    return `${before}href="#${anchor}" data-book-page="${page}"`;
+  });
+}
@@ -0,0 +1,164 @@
+/**
+ * Article Extractor Tests
+ * t-wada TDD style: Webページの本文・著者・公開日の推定
+ */
+import * as cheerio from 'cheerio'
+import { describe, expect, it } from 'vitest'
+import { extractByline, extractPublishedDate, findArticleRoot, linkDensity, normalizePublishedDate } from './article-extractor'
+
+const paragraph = (text, times = 1) => `<p>${Array(times).fill(text).join(' ')}</p>`
+const ARTICLE_TEXT = 'This is a sentence of the real article, with commas, clauses, and enough length to count as prose.'
+
+describe('linkDensity', () => {
+  it('should return the share of text inside links', () => {
+    const $ = cheerio.load('<div id="x">abcd<a href="/">efgh</a></div>')
+    expect(linkDensity($, $('#x')[0])).toBe(0.5)
+  })
+
+  it('should return 0 for empty elements', () => {
+    const $ = cheerio.load('<div id="x"></div>')
+    expect(linkDensity($, $('#x')[0])).toBe(0)
+  })
+})
+
+describe('findArticleRoot', () => {
+  it('should pick the article over navigation, sidebar and comments', () => {
+    const $ = cheerio.load(`<body>
+      <div class="top-links">${Array(20).fill('<a href="/x">Category link</a>').join(' ')}</div>
+      <div class="layout">
+        <div class="story-body" id="story">${paragraph(ARTICLE_TEXT, 3).repeat(6)}</div>
+        <div class="sidebar">${paragraph('Popular post, another popular post, and more of them.', 2)}</div>
+        <div class="comments">${paragraph('First comment, with a long opinion, about the article.', 3).repeat(4)}</div>
+      </div>
+    </body>`)
+
+    const $root = findArticleRoot($)
+
+    expect($root.text()).toContain('real article')
+    expect($root.text()).not.toContain('Category link')
+    expect($root.text()).not.toContain('Popular post')
+    expect($root.text()).not.toContain('First comment')
+  })
+
+  it('should penalize blocks made of links', () => {
+    const links = Array(12).fill(`<li><a href="/p">${ARTICLE_TEXT}</a></li>`).join('')
+    const $ = cheerio.load(`<body>
+      <div id="links"><ul>${links}</ul></div>
+      <div id="text">${paragraph(ARTICLE_TEXT, 2).repeat(4)}</div>
+    </body>`)
+
+    expect(findArticleRoot($).attr('id')).toBe('text')
+  })
+
+  it('should score Japanese prose by its punctuation', () => {
+    const ja = '今日は本文の段落です。読点、句点、ともに数えます。十分な長さの文章になるように書いています。'
+    const $ = cheerio.load(`<body>
+      <div id="menu-list">${Array(10).fill('<a href="/c">カテゴリ一覧へのリンク</a>').join('')}</div>
+      <div id="honbun">${paragraph(ja, 2).repeat(5)}</div>
+    </body>`)
+
+    expect(findArticleRoot($).attr('id')).toBe('honbun')
+  })
+
+  it('should prefer the known blog selectors given as hints', () => {
+    const $ = cheerio.load(`<body>
+      <section><div class="entry-content hatenablog-entry">${paragraph(ARTICLE_TEXT, 2).repeat(3)}</div></section>
+      <section><div class="x">${paragraph(ARTICLE_TEXT, 2).repeat(3)}</div></section>
+    </body>`)
+
+    expect(findArticleRoot($).hasClass('hatenablog-entry')).toBe(true)
+  })
+
+  it('should merge high scoring siblings into the article', () => {
+    const $ = cheerio.load(`<body><div id="wrap">
+      <div class="post">${paragraph(ARTICLE_TEXT, 3).repeat(5)}</div>
+      <p>A closing paragraph that sits next to the post container and reads like part of the article body.</p>
+      <div class="share"><a href="/s">Share</a></div>
+    </div></body>`)
+
+    const $root = findArticleRoot($)
+
+    expect($root.text()).toContain('closing paragraph')
+    expect($root.text()).not.toContain('Share')
+  })
+
+  it('should fall back to body when there is no article', () => {
+    const $ = cheerio.load('<body><div><span>short</span></div></body>')
+    expect(findArticleRoot($).is('body')).toBe(true)
+  })
+})
+
+describe('extractByline', () => {
+  it('should read the author meta tag first', () => {
+    const $ = cheerio.load('<head><meta name="author" content="By Jane Doe"></head><body><p class="byline">Other</p></body>')
+    expect(extractByline($)).toBe('Jane Doe')
+  })
+
+  it('should read the author from JSON-LD', () => {
+    const $ = cheerio.load(`<script type="application/ld+json">
+      {"@context":"https://schema.org","@graph":[{"@type":"NewsArticle","author":[{"@type":"Person","name":"山田 太郎"},{"name":"Bob"}]}]}
+    </script>`)
+    expect(extractByline($)).toBe('山田 太郎, Bob')
+  })
+
+  it('should read a byline element in the page', () => {
+    const $ = cheerio.load('<body><p class="byline">著者: 佐藤花子</p></body>')
+    expect(extractByline($)).toBe('佐藤花子')
+  })
+
+  it('should not strip names that start with "by"', () => {
+    const $ = cheerio.load('<body><span rel="author">Byron Smith</span></body>')
+    expect(extractByline($)).toBe('Byron Smith')
+  })
+
+  it('should ignore URLs, overly long text and broken JSON-LD', () => {
+    const $ = cheerio.load(`<head><meta property="article:author" content="https://facebook.com/someone"></head>
+      <script type="application/ld+json">{broken</script>
+      <body><div class="author">${'x'.repeat(200)}</div></body>`)
+    expect(extractByline($)).toBeNull()
+  })
+})
+
+describe('normalizePublishedDate', () => {
+  it('should keep the date of ISO timestamps without shifting time zones', () => {
+    expect(normalizePublishedDate('2024-05-01T00:30:00+09:00')).toBe('2024-05-01')
+    expect(normalizePublishedDate('2024-05-01')).toBe('2024-05-01')
+  })
+
+  it('should read Japanese and slash separated dates', () => {
+    expect(normalizePublishedDate('2024年5月1日')).toBe('2024-05-01')
+    expect(normalizePublishedDate('2024/12/3')).toBe('2024-12-03')
+  })
+
+  it('should parse RFC 2822 dates', () => {
+    expect(normalizePublishedDate('Wed, 01 May 2024 12:00:00 GMT')).toBe('2024-05-01')
+  })
+
+  it('should return null for text that is not a date', () => {
+    expect(normalizePublishedDate('yesterday-ish')).toBeNull()
+    expect(normalizePublishedDate('')).toBeNull()
+    expect(normalizePublishedDate(undefined)).toBeNull()
+  })
+})
+
+describe('extractPublishedDate', () => {
+  it('should read article:published_time', () => {
+    const $ = cheerio.load('<head><meta property="article:published_time" content="2023-11-20T08:00:00Z"></head>')
+    expect(extractPublishedDate($)).toBe('2023-11-20')
+  })
+
+  it('should read datePublished from JSON-LD', () => {
+    const $ = cheerio.load('<script type="application/ld+json">{"@type":"BlogPosting","datePublished":"2022-02-03"}</script>')
+    expect(extractPublishedDate($)).toBe('2022-02-03')
+  })
+
+  it('should fall back to time elements', () => {
+    const $ = cheerio.load('<body><article><time datetime="2021-07-04T10:00">July 4</time></article></body>')
+    expect(extractPublishedDate($)).toBe('2021-07-04')
+  })
+
+  it('should return null when the page has no date', () => {
+    const $ = cheerio.load('<body><p>no date</p></body>')
+    expect(extractPublishedDate($)).toBeNull()
+  })
+})
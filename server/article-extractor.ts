@@ -0,0 +1,285 @@
+/**
+ * Article extraction utility functions
+ * Readability方式で本文ブロックを推定する（文字量・読点/カンマ数・リンク密度・段落数・class/idの手がかり）
+ * あわせて著者（byline）と公開日を取り出す
+ */
+import * as cheerio from 'cheerio';
+
+// 既知のブログ・CMSの本文セレクタ（加点の手がかりとして使う、前ほど強い）
+export const CONTENT_HINT_SELECTORS = [
+  '.entry-content.hatenablog-entry',  // Hatena Blog actual content
+  '.hatenablog-entry',
+  '.entry.hentry .entry-content',     // Generic blog entry
+  '.post-content',
+  '.article-content',
+  'article',
+  'main',
+  '[role="main"]',
+  '.entry-content',
+  '.content',
+  '#content'
+];
+
+const POSITIVE_HINT = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story|markdown|prose|documentation/i;
+const NEGATIVE_HINT = /hidden|banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|breadcrumb|pagination|pager|popup|nav|menu/i;
+const UNLIKELY_CANDIDATE = /banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|gdpr|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+
+// 段落として数える要素（ブロック要素を含まないdivも段落扱い）
+const PARAGRAPH_SELECTOR = 'p, pre, td, blockquote, li, dd';
+const BLOCK_SELECTOR = 'p, div, pre, table, ul, ol, blockquote, section, article, h1, h2, h3, h4, h5, h6, figure, dl';
+
+// 本文とみなす最低文字数
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_ARTICLE_LENGTH = 100;
+
+interface Candidate {
+  el: cheerio.Element;
+  score: number;
+}
+
+function textLength($: cheerio.Root, el: cheerio.Element): number {
+  return $(el).text().replace(/\s+/g, ' ').trim().length;
+}
+
+/**
+ * リンク内の文字の割合
+ * @param $ - 読み込み済みの文書
+ * @param el - 対象要素
+ * @returns 0〜1（テキストがない場合は0）
+ */
+export function linkDensity($: cheerio.Root, el: cheerio.Element): number {
+  const total = textLength($, el);
+  if (total === 0) return 0;
+  const linked = $(el).find('a').toArray().reduce((sum, a) => sum + textLength($, a), 0);
+  return Math.min(linked / total, 1);
+}
+
+// class / id の手がかりによる加点・減点
+function classWeight($: cheerio.Root, el: cheerio.Element): number {
+  const hints = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+  let weight = 0;
+  if (NEGATIVE_HINT.test(hints)) weight -= 25;
+  if (POSITIVE_HINT.test(hints)) weight += 25;
+  return weight;
+}
+
+function initialScore($: cheerio.Root, el: cheerio.Element): number {
+  const tag = (el as cheerio.TagElement).name;
+  let score = classWeight($, el);
+  if (tag === 'div' || tag === 'article' || tag === 'section' || tag === 'main') score += 5;
+  else if (tag === 'pre' || tag === 'td' || tag === 'blockquote') score += 3;
+  else if (['address', 'ol', 'ul', 'dl', 'dd', 'dt', 'li', 'form'].includes(tag)) score -= 3;
+  else if (/^h[1-6]$/.test(tag) || tag === 'th') score -= 5;
+  return score;
+}
+
+// 段落1つの点数（文字量と読点・カンマの数）
+function paragraphScore(text: string): number {
+  const commas = (text.match(/[,、，。]/g) || []).length;
+  return 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+}
+
+/**
+ * 本文ブロックを推定
+ * 段落の点数を親（1/1）・祖父母（1/2）・それより上（1/(階層×3)）に加算し、リンク密度で割り引いた最高点の要素を選ぶ
+ * 手がかりセレクタに一致する要素は加点する
+ * @param $ - 読み込み済みの文書（script・nav等は除去済み）
+ * @param hints - 本文の手がかりセレクタ
+ * @returns 本文ブロック（見つからなければbody）
+ */
+export function findArticleRoot($: cheerio.Root, hints: string[] = CONTENT_HINT_SELECTORS): cheerio.Cheerio {
+  // 本文でなさそうなブロック（コメント欄・関連記事など）を候補から外す
+  $('body *').each((_, el) => {
+    const tag = (el as cheerio.TagElement).name;
+    if (tag === 'body' || tag === 'a' || $(el).closest('pre, code').length > 0) return;
+    const hintText = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+    if (UNLIKELY_CANDIDATE.test(hintText) && !MAYBE_CANDIDATE.test(hintText)) {
+      $(el).remove();
+    }
+  });
+
+  const scores = new Map<cheerio.Element, Candidate>();
+  const candidateFor = (el: cheerio.Element): Candidate => {
+    let candidate = scores.get(el);
+    if (!candidate) {
+      candidate = { el, score: initialScore($, el) };
+      scores.set(el, candidate);
+    }
+    return candidate;
+  };
+
+  const paragraphs = $(PARAGRAPH_SELECTOR).toArray()
+    .concat($('div').toArray().filter(div => $(div).children(BLOCK_SELECTOR).length === 0));
+
+  for (const paragraph of paragraphs) {
+    // 入れ子の段落は外側だけを数える
+    if ($(paragraph).parents(PARAGRAPH_SELECTOR).length > 0) continue;
+    const text = $(paragraph).text().replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    const score = paragraphScore(text);
+    $(paragraph).parents().toArray().slice(0, 5).forEach((ancestor, level) => {
+      const tag = (ancestor as cheerio.TagElement).name;
+      if (tag === 'html') return;
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      candidateFor(ancestor).score += score / divider;
+    });
+  }
+
+  // 手がかりセレクタ（前ほど強い）に一致する要素を加点
+  hints.forEach((selector, index) => {
+    $(selector).each((_, el) => {
+      if (textLength($, el) < MIN_ARTICLE_LENGTH) return;
+      candidateFor(el).score += 25 * (1 - index / (hints.length * 2));
+    });
+  });
+
+  let top: Candidate | null = null;
+  for (const candidate of scores.values()) {
+    if ((candidate.el as cheerio.TagElement).name === 'body') continue;
+    const score = candidate.score * (1 - linkDensity($, candidate.el));
+    if (!top || score > top.score) top = { el: candidate.el, score };
+  }
+
+  if (!top || textLength($, top.el) < MIN_ARTICLE_LENGTH) {
+    return $('body');
+  }
+
+  // 兄弟要素のうち点数が高いもの、リンクの少ない長い段落は本文に含める
+  const threshold = Math.max(10, top.score * 0.2);
+  const siblings = $(top.el).siblings().toArray().filter(sibling => {
+    const candidate = scores.get(sibling);
+    if (candidate && candidate.score * (1 - linkDensity($, sibling)) >= threshold) return true;
+    if ((sibling as cheerio.TagElement).name !== 'p') return false;
+    const length = textLength($, sibling);
+    return (length > 80 && linkDensity($, sibling) < 0.25) ||
+      (length > 0 && linkDensity($, sibling) === 0 && /[.。]$/.test($(sibling).text().trim()));
+  });
+  if (siblings.length === 0) {
+    return $(top.el);
+  }
+
+  const included = new Set([top.el, ...siblings]);
+  const $wrapper = $('<div></div>');
+  $(top.el).parent().children().each((_, child) => {
+    if (included.has(child)) $wrapper.append($(child).clone());
+  });
+  return $wrapper;
+}
+
+function cleanByline(value: string | undefined): string | null {
+  if (!value) return null;
+  const text = value.replace(/\s+/g, ' ').trim()
+    .replace(/^(?:(?:written |posted )?by\s+|author:\s*|(?:著者|筆者|文)\s*[:：/／]\s*)/i, '')
+    .trim();
+  if (!text || text.length > 100 || /^https?:\/\//.test(text)) return null;
+  return text;
+}
+
+// JSON-LD（schema.org の Article 等）を読む
+function readJsonLd($: cheerio.Root): Record<string, unknown>[] {
+  const items: Record<string, unknown>[] = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const data = JSON.parse($(el).html() || '');
+      const queue = Array.isArray(data) ? data : [data];
+      for (const item of queue) {
+        if (!item || typeof item !== 'object') continue;
+        items.push(item);
+        if (Array.isArray(item['@graph'])) queue.push(...item['@graph']);
+      }
+    } catch {
+      // 壊れたJSON-LDは無視
+    }
+  });
+  return items;
+}
+
+function jsonLdAuthor(author: unknown): string | null {
+  if (typeof author === 'string') return author;
+  if (Array.isArray(author)) {
+    const names = author.map(jsonLdAuthor).filter((name): name is string => !!name);
+    return names.length > 0 ? names.join(', ') : null;
+  }
+  if (author && typeof author === 'object' && typeof (author as { name?: unknown }).name === 'string') {
+    return (author as { name: string }).name;
+  }
+  return null;
+}
+
+/**
+ * 著者名（byline）を取り出す
+ * metaタグ → JSON-LD → 本文中の rel=author / .byline などの順に探す
+ * @param $ - 読み込み済みの文書（加工前）
+ * @returns 著者名（見つからなければnull）
+ */
+export function extractByline($: cheerio.Root): string | null {
+  const fromMeta = cleanByline($('meta[name="author"]').attr('content')) ||
+    cleanByline($('meta[property="article:author"]').attr('content'));
+  if (fromMeta) return fromMeta;
+
+  for (const item of readJsonLd($)) {
+    const name = cleanByline(jsonLdAuthor(item.author) || undefined);
+    if (name) return name;
+  }
+
+  const selectors = ['[itemprop="author"] [itemprop="name"]', '[itemprop="author"]', '[rel="author"]', '.byline', '.author', '.p-author', '.post-author'];
+  for (const selector of selectors) {
+    const name = cleanByline($(selector).first().text());
+    if (name) return name;
+  }
+  return null;
+}
+
+/**
+ * 日付の文字列を YYYY-MM-DD に揃える
+ * @param value - ISO 8601・RFC 2822・「2024年5月1日」形式など
+ * @returns 日付（解釈できなければnull）
+ */
+export function normalizePublishedDate(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const text = value.trim();
+
+  // 日付部分はタイムゾーン変換せずにそのまま使う
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const ja = text.match(/(\d{4})\s*[年/.]\s*(\d{1,2})\s*[月/.]\s*(\d{1,2})/);
+  if (ja) return `${ja[1]}-${ja[2].padStart(2, '0')}-${ja[3].padStart(2, '0')}`;
+
+  const parsed = new Date(text);
+  if (isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * 公開日を取り出す
+ * metaタグ → JSON-LD → time要素の順に探す
+ * @param $ - 読み込み済みの文書（加工前）
+ * @returns YYYY-MM-DD（見つからなければnull）
+ */
+export function extractPublishedDate($: cheerio.Root): string | null {
+  const metaSelectors = [
+    'meta[property="article:published_time"]',
+    'meta[name="article:published_time"]',
+    'meta[itemprop="datePublished"]',
+    'meta[name="date"]',
+    'meta[name="pubdate"]',
+    'meta[name="publish-date"]',
+    'meta[name="dc.date"]',
+    'meta[name="DC.date.issued"]'
+  ];
+  for (const selector of metaSelectors) {
+    const date = normalizePublishedDate($(selector).attr('content'));
+    if (date) return date;
+  }
+
+  for (const item of readJsonLd($)) {
+    const date = normalizePublishedDate(typeof item.datePublished === 'string' ? item.datePublished : null);
+    if (date) return date;
+  }
+
+  const $time = $('time[itemprop="datePublished"], time[pubdate], article time[datetime], time[datetime]').first();
+  return normalizePublishedDate($time.attr('datetime') || $time.text());
+}
@@ -0,0 +1,65 @@
+/**
+ * Comic Utils Tests
+ * t-wada TDD style: CBZのページ順とComicInfo.xml
+ */
+import { describe, expect, it } from 'vitest'
+import { parseComicInfo, selectComicPages } from './comic-utils'
+
+describe('selectComicPages', () => {
+  it('should sort page numbers numerically', () => {
+    expect(selectComicPages(['p10.jpg', 'p2.jpg', 'p1.jpg'])).toEqual(['p1.jpg', 'p2.jpg', 'p10.jpg'])
+  })
+
+  it('should keep folder order for multi-chapter archives', () => {
+    expect(selectComicPages(['ch2/01.png', 'ch1/02.png', 'ch10/01.png', 'ch1/01.png'])).toEqual([
+      'ch1/01.png', 'ch1/02.png', 'ch2/01.png', 'ch10/01.png'
+    ])
+  })
+
+  it('should skip non-images, directories and Mac metadata', () => {
+    expect(selectComicPages([
+      'vol1/',
+      'vol1/001.JPG',
+      'ComicInfo.xml',
+      '__MACOSX/vol1/._001.JPG',
+      'vol1/.DS_Store',
+      'vol1/._002.jpg',
+      'vol1/002.webp'
+    ])).toEqual(['vol1/001.JPG', 'vol1/002.webp'])
+  })
+})
+
+describe('parseComicInfo', () => {
+  it('should read title, writer, series and manga direction', () => {
+    const info = parseComicInfo(`<?xml version="1.0"?>
+      <ComicInfo>
+        <Title>第1話</Title>
+        <Series>テスト漫画</Series>
+        <Number>3</Number>
+        <Writer>作者 太郎</Writer>
+        <Manga>YesAndRightToLeft</Manga>
+      </ComicInfo>`)
+
+    expect(info).toEqual({
+      title: '第1話',
+      author: '作者 太郎',
+      series: 'テスト漫画',
+      seriesIndex: 3,
+      rightToLeft: true
+    })
+  })
+
+  it('should treat Manga=No as left-to-right', () => {
+    expect(parseComicInfo('<ComicInfo><Manga>No</Manga></ComicInfo>').rightToLeft).toBe(false)
+  })
+
+  it('should return nulls for missing fields', () => {
+    expect(parseComicInfo('<ComicInfo><Number>special</Number></ComicInfo>')).toEqual({
+      title: null,
+      author: null,
+      series: null,
+      seriesIndex: null,
+      rightToLeft: null
+    })
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Comic archive (CBZ) utility functions
+ * テスト可能な純粋関数として抽出
+ */
+import * as cheerio from 'cheerio';
+
+export const COMIC_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif'];
+
+export interface ComicInfo {
+  title: string | null;
+  author: string | null;
+  series: string | null;
+  seriesIndex: number | null;
+  // 右綴じ（マンガ）かどうか、ComicInfo.xmlに指定がなければnull
+  rightToLeft: boolean | null;
+}
+
+/**
+ * ZIPエントリ名からページ画像を選び、ページ順に並べる
+ * @param entryNames - ZIP内のエントリ名一覧
+ * @returns ページ順の画像エントリ名（数字は数値として比較）
+ */
+export function selectComicPages(entryNames: string[]): string[] {
+  return entryNames
+    .filter(name => {
+      if (name.endsWith('/')) return false;
+      // Mac のメタデータや隠しファイルを除外
+      const segments = name.split('/');
+      if (segments.some(s => s === '__MACOSX' || s.startsWith('.'))) return false;
+      const dot = name.lastIndexOf('.');
+      return dot >= 0 && COMIC_IMAGE_EXTENSIONS.includes(name.slice(dot).toLowerCase());
+    })
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+}
+
+/**
+ * ComicInfo.xml（ComicRack形式）から書誌情報を取得
+ * @param xml - ComicInfo.xmlの内容
+ * @returns タイトル・作者・シリーズ・綴じ方向
+ */
+export function parseComicInfo(xml: string): ComicInfo {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const text = (name: string): string | null => $(`ComicInfo > ${name}`).first().text().trim() || null;
+
+  const number = text('Number');
+  const seriesIndex = number !== null ? parseFloat(number) : NaN;
+  const manga = text('Manga');
+
+  return {
+    title: text('Title'),
+    author: text('Writer'),
+    series: text('Series'),
+    seriesIndex: isNaN(seriesIndex) ? null : seriesIndex,
+    rightToLeft: manga === null ? null : manga === 'YesAndRightToLeft'
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Command Runner Tests
+ * t-wada TDD style: argv渡し・タイムアウト・出力上限・構造化エラー
+ */
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  CommandError,
+  convertWithPandoc,
+  extractPdfText,
+  renderPdfThumbnail,
+  runCommand,
+  runTool
+} from './command-runner'
+
+// 外部ツールの代わりにnode自身を使う
+const NODE = process.execPath
+const ECHO_ARGV = 'process.stdout.write(JSON.stringify(process.argv.slice(1)))'
+
+// シェルを介すとコマンドが実行されてしまうアップロードファイル名
+const HOSTILE_NAMES = [
+  '$(touch pwned).epub',
+  '`touch pwned`.epub',
+  'book"; touch pwned; echo ".epub',
+  "book'; touch pwned; echo '.epub",
+  'book && touch pwned.epub',
+  'book | touch pwned.epub',
+  'book\ntouch pwned.epub'
+]
+
+describe('runCommand', () => {
+  let workDir
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'command-runner-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('should pass arguments as-is without shell expansion', async () => {
+    const args = ['a b', '$HOME', '"quoted"', '*.epub']
+
+    const { stdout } = await runCommand(NODE, ['-e', ECHO_ARGV, ...args])
+
+    expect(JSON.parse(stdout)).toEqual(args)
+  })
+
+  describe('hostile filenames', () => {
+    it.each(HOSTILE_NAMES)('should not execute commands embedded in %j', async (name) => {
+      const { stdout } = await runCommand(
+        NODE,
+        ['-e', ECHO_ARGV, path.join(workDir, name), `title=${name}`],
+        { cwd: workDir }
+      )
+
+      expect(JSON.parse(stdout)).toEqual([path.join(workDir, name), `title=${name}`])
+      expect(fs.existsSync(path.join(workDir, 'pwned'))).toBe(false)
+    })
+  })
+
+  it('should reject with reason "timeout" when the command runs too long', async () => {
+    const error = await runCommand(NODE, ['-e', 'setTimeout(() => {}, 10000)'], { timeoutMs: 200 })
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(CommandError)
+    expect(error.reason).toBe('timeout')
+  })
+
+  it('should reject with reason "output_limit" when output is too large', async () => {
+    const error = await runCommand(NODE, ['-e', 'process.stdout.write("x".repeat(10000))'], { maxOutputBytes: 100 })
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(CommandError)
+    expect(error.reason).toBe('output_limit')
+  })
+
+  it('should reject with exit code and stderr on failure', async () => {
+    const error = await runCommand(NODE, ['-e', 'console.error("boom"); process.exit(3)'])
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(CommandError)
+    expect(error.reason).toBe('exit')
+    expect(error.exitCode).toBe(3)
+    expect(error.stderr).toContain('boom')
+  })
+
+  it('should reject with reason "not_found" for missing commands', async () => {
+    const error = await runCommand('definitely-not-installed-tool', []).catch(e => e)
+
+    expect(error).toBeInstanceOf(CommandError)
+    expect(error.reason).toBe('not_found')
+    expect(error.message).toContain('not installed')
+  })
+})
+
+describe('runTool', () => {
+  it('should report a structured error instead of throwing synchronously', async () => {
+    // pandocの有無に関わらず、存在しない入力ファイルは失敗する
+    const error = await runTool('pandoc', ['/nonexistent/$(touch pwned).epub']).catch(e => e)
+
+    expect(error).toBeInstanceOf(CommandError)
+    expect(['not_found', 'exit']).toContain(error.reason)
+    expect(error.command).toBe('pandoc')
+  })
+})
+
+describe('conversion helpers', () => {
+  let workDir
+  let binDir
+  let originalPath
+
+  // 受け取ったargvとcwdを <tool>.json に記録し、それらしい出力を返すスタブ
+  function installStub(tool) {
+    const stubPath = path.join(binDir, tool)
+    fs.writeFileSync(stubPath, `#!${NODE}
+const fs = require('fs')
+const argv = process.argv.slice(2)
+fs.writeFileSync(${JSON.stringify(path.join(binDir, `${tool}.json`))}, JSON.stringify({ argv, cwd: process.cwd() }))
+if (${JSON.stringify(tool)} === 'pandoc') fs.writeFileSync(argv[argv.indexOf('-o') + 1], '<html><body><p>ok</p></body></html>')
+if (${JSON.stringify(tool)} === 'pdftotext') process.stdout.write('page 1\\fpage 2')
+`)
+    fs.chmodSync(stubPath, 0o755)
+  }
+
+  const received = tool => JSON.parse(fs.readFileSync(path.join(binDir, `${tool}.json`), 'utf8'))
+
+  // multerの保存名と同じく「uuid-元のファイル名」で置く
+  function uploadedFile(name) {
+    const filePath = path.join(workDir, `0f8fad5b-d9cb-469f-a165-70867728950e-${name}`)
+    fs.writeFileSync(filePath, 'dummy')
+    return filePath
+  }
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'command-runner-upload-'))
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'command-runner-bin-'))
+    for (const tool of ['pandoc', 'pdftoppm', 'pdftotext']) installStub(tool)
+    originalPath = process.env.PATH
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`
+  })
+
+  afterEach(() => {
+    process.env.PATH = originalPath
+    fs.rmSync(workDir, { recursive: true, force: true })
+    fs.rmSync(binDir, { recursive: true, force: true })
+  })
+
+  it.each(HOSTILE_NAMES)('should hand the upload %j and its title to pandoc as single arguments', async (name) => {
+    const inputPath = uploadedFile(name)
+    const outputPath = path.join(workDir, 'index.html')
+
+    await convertWithPandoc(inputPath, outputPath, { from: 'docx', toc: true, extractMedia: '.', title: name, cwd: workDir })
+
+    const { argv, cwd } = received('pandoc')
+    expect(argv).toEqual([
+      inputPath, '-f', 'docx', '-t', 'html', '--standalone', '--toc', '--extract-media=.',
+      '--metadata', `title=${name}`, '-o', outputPath
+    ])
+    expect(fs.realpathSync(cwd)).toBe(fs.realpathSync(workDir))
+    expect(fs.readFileSync(outputPath, 'utf8')).toContain('<p>ok</p>')
+    expect(fs.existsSync(path.join(workDir, 'pwned'))).toBe(false)
+  })
+
+  it.each(HOSTILE_NAMES)('should hand the PDF %j to pdftoppm and pdftotext as single arguments', async (name) => {
+    const pdfPath = uploadedFile(name.replace(/\.epub$/, '.pdf'))
+    const thumbPrefix = path.join(workDir, 'pdf-thumb')
+
+    await renderPdfThumbnail(pdfPath, thumbPrefix)
+    const text = await extractPdfText(pdfPath)
+
+    expect(received('pdftoppm').argv).toEqual(['-png', '-f', '1', '-l', '1', '-scale-to', '400', pdfPath, thumbPrefix])
+    expect(received('pdftotext').argv).toEqual(['-enc', 'UTF-8', pdfPath, '-'])
+    expect(text).toBe('page 1\fpage 2')
+    expect(fs.existsSync(path.join(workDir, 'pwned'))).toBe(false)
+  })
+
+  it('should surface a failing tool as a CommandError', async () => {
+    fs.writeFileSync(path.join(binDir, 'pandoc'), `#!${NODE}\nprocess.stderr.write('bad input'); process.exit(2)\n`)
+
+    const error = await convertWithPandoc(uploadedFile('$(touch pwned).epub'), path.join(workDir, 'out.html')).catch(e => e)
+
+    expect(error).toBeInstanceOf(CommandError)
+    expect(error.reason).toBe('exit')
+    expect(error.stderr).toContain('bad input')
+  })
+})
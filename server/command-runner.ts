@@ -0,0 +1,173 @@
+/**
+ * External command runner
+ * pandoc / pdftoppm などの外部ツールをシェルを介さずargv配列で実行する
+ */
+import { execFile } from 'child_process';
+
+export interface CommandLimits {
+  // タイムアウト（ミリ秒）
+  timeoutMs: number;
+  // stdout / stderr それぞれの上限（バイト）
+  maxOutputBytes: number;
+}
+
+export interface CommandOptions extends Partial<CommandLimits> {
+  cwd?: string;
+}
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * 失敗理由
+ * - not_found: コマンドが見つからない
+ * - timeout: タイムアウトで強制終了
+ * - output_limit: 出力サイズ上限を超過
+ * - exit: 0以外の終了コード
+ */
+export type CommandErrorReason = 'not_found' | 'timeout' | 'output_limit' | 'exit';
+
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    public readonly command: string,
+    public readonly reason: CommandErrorReason,
+    public readonly exitCode: number | null,
+    public readonly stderr: string
+  ) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+// 許可する外部ツールとその既定の制限
+export const TOOL_LIMITS = {
+  pandoc: { timeoutMs: 120000, maxOutputBytes: 10 * 1024 * 1024 },
+  pdftoppm: { timeoutMs: 30000, maxOutputBytes: 1024 * 1024 },
+  pdftotext: { timeoutMs: 120000, maxOutputBytes: 50 * 1024 * 1024 }
+} satisfies Record<string, CommandLimits>;
+
+export type ToolName = keyof typeof TOOL_LIMITS;
+
+const DEFAULT_LIMITS: CommandLimits = { timeoutMs: 60000, maxOutputBytes: 1024 * 1024 };
+
+/**
+ * コマンドをargv配列で実行（シェルを介さないため引数は展開されない）
+ * @param command - 実行ファイル名またはパス
+ * @param args - 引数の配列
+ * @param options - タイムアウト・出力上限・作業ディレクトリ
+ * @returns stdout / stderr
+ * @throws CommandError 実行に失敗した場合
+ */
+export function runCommand(command: string, args: string[], options: CommandOptions = {}): Promise<CommandResult> {
+  const { timeoutMs, maxOutputBytes } = { ...DEFAULT_LIMITS, ...options };
+
+  return new Promise((resolve, reject) => {
+    execFile(command, args, {
+      cwd: options.cwd,
+      timeout: timeoutMs,
+      maxBuffer: maxOutputBytes,
+      killSignal: 'SIGKILL',
+      shell: false,
+      windowsHide: true
+    }, (error, stdout, stderr) => {
+      if (!error) {
+        resolve({ stdout, stderr });
+        return;
+      }
+
+      const err = error as NodeJS.ErrnoException & { killed?: boolean; signal?: string | null; code?: string | number };
+      const stderrText = String(stderr || '').slice(0, 2000);
+      let reason: CommandErrorReason;
+      let message: string;
+
+      if (err.code === 'ENOENT') {
+        reason = 'not_found';
+        message = `${command} is not installed`;
+      } else if (err.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+        reason = 'output_limit';
+        message = `${command} output exceeded ${maxOutputBytes} bytes`;
+      } else if (err.killed) {
+        reason = 'timeout';
+        message = `${command} timed out after ${timeoutMs}ms`;
+      } else {
+        reason = 'exit';
+        message = `${command} exited with code ${err.code}${stderrText ? `: ${stderrText.trim()}` : ''}`;
+      }
+
+      reject(new CommandError(
+        message,
+        command,
+        reason,
+        typeof err.code === 'number' ? err.code : null,
+        stderrText
+      ));
+    });
+  });
+}
+
+/**
+ * 許可されたツールを既定の制限で実行
+ * @param tool - ツール名
+ * @param args - 引数の配列
+ * @param options - 既定値を上書きする場合に指定
+ * @returns stdout / stderr
+ * @throws CommandError 実行に失敗した場合
+ */
+export function runTool(tool: ToolName, args: string[], options: CommandOptions = {}): Promise<CommandResult> {
+  return runCommand(tool, args, { ...TOOL_LIMITS[tool], ...options });
+}
+
+export interface PandocOptions {
+  // 入力形式（省略時はpandocが拡張子から判定）。指定時はHTMLへ変換する
+  from?: string;
+  // 目次を生成する
+  toc?: boolean;
+  // 文書タイトル（--metadata title=...）
+  title?: string;
+  // 埋め込み画像の展開先（--extract-media）
+  extractMedia?: string;
+  cwd?: string;
+}
+
+/**
+ * pandocでスタンドアロンのHTMLへ変換
+ * アップロード由来のファイル名やタイトルはそれぞれ1つの引数として渡す
+ * @param inputPath - 入力ファイルのパス
+ * @param outputPath - 出力HTMLのパス
+ * @param options - 入力形式・目次・タイトル・画像の展開先
+ * @throws CommandError 変換に失敗した場合
+ */
+export async function convertWithPandoc(inputPath: string, outputPath: string, options: PandocOptions = {}): Promise<void> {
+  const args = [inputPath];
+  if (options.from) args.push('-f', options.from, '-t', 'html');
+  args.push('--standalone');
+  if (options.toc) args.push('--toc');
+  if (options.extractMedia) args.push(`--extract-media=${options.extractMedia}`);
+  if (options.title !== undefined) args.push('--metadata', `title=${options.title}`);
+  args.push('-o', outputPath);
+  await runTool('pandoc', args, { cwd: options.cwd });
+}
+
+/**
+ * pdftoppmでPDFの1ページ目を幅・高さ400px以内のPNGにする
+ * @param pdfPath - PDFのパス
+ * @param outputPrefix - 出力ファイル名の接頭辞（pdftoppmが -1.png などを付ける）
+ * @throws CommandError 変換に失敗した場合
+ */
+export async function renderPdfThumbnail(pdfPath: string, outputPrefix: string): Promise<void> {
+  await runTool('pdftoppm', ['-png', '-f', '1', '-l', '1', '-scale-to', '400', pdfPath, outputPrefix]);
+}
+
+/**
+ * pdftotextでPDFのテキストを取り出す（ページ間は改ページ文字で区切られる）
+ * @param pdfPath - PDFのパス
+ * @returns UTF-8のテキスト
+ * @throws CommandError 抽出に失敗した場合
+ */
+export async function extractPdfText(pdfPath: string): Promise<string> {
+  const { stdout } = await runTool('pdftotext', ['-enc', 'UTF-8', pdfPath, '-']);
+  return stdout;
+}
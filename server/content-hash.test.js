@@ -0,0 +1,199 @@
+/**
+ * Content Hash Tests
+ * t-wada TDD style: 登録済み・変換待ちのアップロードの重複検出
+ */
+import express from 'express'
+import fs from 'fs'
+import multer from 'multer'
+import os from 'os'
+import path from 'path'
+import request from 'supertest'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createContentHashRegistry, hashFile } from './content-hash'
+import { createJobQueue } from './job-queue'
+
+// 外部から解決できるPromise
+function deferred() {
+  let resolve
+  let reject
+  const promise = new Promise((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+describe('hashFile', () => {
+  it('should return the SHA-256 of the file contents', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'content-hash-'))
+    const filePath = path.join(dir, 'a.txt')
+    fs.writeFileSync(filePath, 'abc')
+
+    expect(await hashFile(filePath)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+})
+
+describe('createContentHashRegistry', () => {
+  const registered = { id: 'book-1', title: 'Old', book_type: 'epub', created_at: '2024-01-01 00:00:00', content_hash: 'h1' }
+
+  it('should return the registered book for a known hash', () => {
+    const registry = createContentHashRegistry(hash => (hash === 'h1' ? registered : undefined))
+
+    expect(registry.claim('h1', { id: 'new', title: 'New', created_at: 'now' })).toEqual({
+      id: 'book-1',
+      title: 'Old',
+      book_type: 'epub',
+      created_at: '2024-01-01 00:00:00'
+    })
+  })
+
+  it('should reserve an unknown hash until it is released', () => {
+    const registry = createContentHashRegistry(() => undefined)
+
+    expect(registry.claim('h2', { id: 'first', title: 'First', created_at: 'now' })).toBeNull()
+    expect(registry.claim('h2', { id: 'second', title: 'Second', created_at: 'now' })).toEqual({
+      id: 'first',
+      title: 'First',
+      book_type: undefined,
+      created_at: 'now',
+      converting: true
+    })
+
+    registry.release('h2', 'first')
+    expect(registry.claim('h2', { id: 'third', title: 'Third', created_at: 'now' })).toBeNull()
+  })
+
+  it('should not release a reservation held by another upload', () => {
+    const registry = createContentHashRegistry(() => undefined)
+    registry.claim('h3', { id: 'first', title: 'First', created_at: 'now' })
+
+    registry.release('h3', 'other')
+
+    expect(registry.claim('h3', { id: 'second', title: 'Second', created_at: 'now' })?.id).toBe('first')
+  })
+})
+
+// /api/upload と同じ手順で重複を判定し、変換ジョブが終わるまで予約するテスト用アプリ
+function createUploadApp(uploadDir, convert) {
+  const books = new Map()
+  const queue = createJobQueue()
+  const registry = createContentHashRegistry(hash => books.get(hash))
+  const upload = multer({ dest: uploadDir })
+  const app = express()
+  let nextId = 1
+
+  app.post('/api/upload', upload.single('file'), async (req, res) => {
+    const contentHash = await hashFile(req.file.path)
+    const bookId = `book-${nextId++}`
+
+    const reserved = req.query.allowDuplicate !== 'true'
+    if (reserved) {
+      const existing = registry.claim(contentHash, { id: bookId, title: req.file.originalname, created_at: 'now' })
+      if (existing) {
+        fs.unlinkSync(req.file.path)
+        return res.status(409).json({ duplicate: true, existingBook: existing })
+      }
+    }
+
+    const job = queue.enqueue('upload', async () => {
+      await convert()
+      books.set(contentHash, { id: bookId, title: req.file.originalname, book_type: 'epub', created_at: 'now' })
+      return { bookId }
+    })
+    if (reserved) {
+      const unsubscribe = queue.subscribe(job.id, ({ status }) => {
+        if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+          registry.release(contentHash, bookId)
+          unsubscribe()
+        }
+      })
+    }
+
+    res.status(202).json({ jobId: job.id, bookId })
+  })
+
+  return { app, queue }
+}
+
+describe('Duplicate upload while converting', () => {
+  let uploadDir
+
+  beforeEach(() => {
+    uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'content-hash-upload-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(uploadDir, { recursive: true, force: true })
+  })
+
+  it('should reject the second of two back-to-back uploads of the same file', async () => {
+    const conversion = deferred()
+    const { app, queue } = createUploadApp(uploadDir, () => conversion.promise)
+    const file = Buffer.from('same book')
+
+    const [first, second] = await Promise.all([
+      request(app).post('/api/upload').attach('file', file, 'book.epub'),
+      request(app).post('/api/upload').attach('file', file, 'book.epub')
+    ])
+
+    const statuses = [first.status, second.status].sort()
+    expect(statuses).toEqual([202, 409])
+    const rejected = first.status === 409 ? first : second
+    const accepted = first.status === 202 ? first : second
+    expect(rejected.body.existingBook).toMatchObject({ id: accepted.body.bookId, converting: true })
+
+    conversion.resolve()
+    await queue.idle()
+
+    const third = await request(app).post('/api/upload').attach('file', file, 'book.epub')
+    expect(third.status).toBe(409)
+    expect(third.body.existingBook).toMatchObject({ id: accepted.body.bookId, book_type: 'epub' })
+    expect(third.body.existingBook.converting).toBeUndefined()
+  })
+
+  it('should accept the file again after its conversion fails', async () => {
+    const conversion = deferred()
+    const { app, queue } = createUploadApp(uploadDir, () => conversion.promise)
+    const file = Buffer.from('broken book')
+
+    expect((await request(app).post('/api/upload').attach('file', file, 'book.epub')).status).toBe(202)
+    conversion.reject(new Error('conversion failed'))
+    await queue.idle()
+
+    const retry = await request(app).post('/api/upload').attach('file', file, 'book.epub')
+    expect(retry.status).toBe(202)
+  })
+
+  it('should accept the file again after its queued job is cancelled', async () => {
+    const conversion = deferred()
+    const { app, queue } = createUploadApp(uploadDir, () => conversion.promise)
+    const blocker = await request(app).post('/api/upload').attach('file', Buffer.from('other book'), 'other.epub')
+    const queued = await request(app).post('/api/upload').attach('file', Buffer.from('queued book'), 'book.epub')
+
+    expect(queue.cancel(queued.body.jobId)).toBe(true)
+
+    const retry = await request(app).post('/api/upload').attach('file', Buffer.from('queued book'), 'book.epub')
+    expect(retry.status).toBe(202)
+    expect(blocker.status).toBe(202)
+
+    conversion.resolve()
+    await queue.idle()
+  })
+
+  it('should not reserve the hash for an upload that allows duplicates', async () => {
+    const conversion = deferred()
+    const { app, queue } = createUploadApp(uploadDir, () => conversion.promise)
+    const file = Buffer.from('copy')
+
+    const forced = await request(app).post('/api/upload?allowDuplicate=true').attach('file', file, 'book.epub')
+    const normal = await request(app).post('/api/upload').attach('file', file, 'book.epub')
+
+    expect(forced.status).toBe(202)
+    expect(normal.status).toBe(202)
+
+    conversion.resolve()
+    await queue.idle()
+  })
+})
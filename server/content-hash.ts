@@ -0,0 +1,77 @@
+/**
+ * Duplicate upload detection
+ * アップロードされたファイルのSHA-256で重複を検出する
+ * 変換が終わるまで本は登録されないため、変換待ちのハッシュも予約しておく
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+
+// 409 Conflict で返す既存の本（converting は変換待ち・変換中のアップロード）
+export interface DuplicateBookInfo {
+  id: string;
+  title: string;
+  book_type?: string;
+  created_at: string;
+  converting?: boolean;
+}
+
+export interface ContentHashRegistry {
+  // 同じファイルが登録済みか変換待ちならその本を返し、なければ変換待ちとして予約してnullを返す
+  claim(hash: string, book: DuplicateBookInfo): DuplicateBookInfo | null;
+  // 変換ジョブの終了時（成功・失敗・中止）に予約を外す
+  release(hash: string, bookId: string): void;
+}
+
+/**
+ * ファイルのSHA-256を計算
+ * @param filePath - 対象ファイルのパス
+ * @returns 16進数のハッシュ
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * 409 Conflict で返す本の概要
+ * @param book - 既存の本
+ * @returns クライアントに返すフィールドだけを持つ概要
+ */
+export function duplicateBookInfo(book: DuplicateBookInfo): DuplicateBookInfo {
+  return { id: book.id, title: book.title, book_type: book.book_type, created_at: book.created_at };
+}
+
+/**
+ * 登録済みの本と変換待ちのアップロードをまとめて重複判定するレジストリを作成
+ * claim は同期的に判定と予約を行うので、同じファイルが続けて送られても片方だけが通る
+ * @param findBookByContentHash - 登録済みの本をハッシュで探す関数
+ * @returns claim / release を持つレジストリ
+ */
+export function createContentHashRegistry(
+  findBookByContentHash: (hash: string) => DuplicateBookInfo | undefined
+): ContentHashRegistry {
+  const pending = new Map<string, DuplicateBookInfo>();
+
+  return {
+    claim(hash: string, book: DuplicateBookInfo): DuplicateBookInfo | null {
+      const existing = findBookByContentHash(hash);
+      if (existing) return duplicateBookInfo(existing);
+
+      const converting = pending.get(hash);
+      if (converting) return { ...duplicateBookInfo(converting), converting: true };
+
+      pending.set(hash, book);
+      return null;
+    },
+
+    release(hash: string, bookId: string): void {
+      // 別のアップロードが持つ予約は外さない
+      if (pending.get(hash)?.id === bookId) pending.delete(hash);
+    }
+  };
+}
@@ -2,7 +2,11 @@ import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { Book, BookInput, Bookmark, Clip, ClipPosition, ReadingProgress } from './types';
+import { normalizeSourceUrl } from './multipage-utils';
+import type {
+  Book, BookInput, BookMetadata, Bookmark, Clip, ClipPosition, ExtractionRule, ExtractionRuleInput, Feed, FeedEntry, FeedInput,
+  FreshRssSettings, FreshRssSettingsInput, GReaderItem, ReadingProgress
+} from './types';
 
 // ルートディレクトリ（コンパイル後は server/dist/ にあるため2階層上）
 const ROOT_DIR = path.join(__dirname, '../..');
@@ -111,6 +115,48 @@ try {
   // Column already exists
 }
 
+// Migration: Add bibliographic metadata columns (author, publisher, ISBN, series...)
+for (const column of [
+  'author TEXT',
+  'publisher TEXT',
+  'identifier TEXT',
+  'description TEXT',
+  'series TEXT',
+  'series_index REAL',
+  'published_date TEXT'
+]) {
+  try {
+    db.exec(`ALTER TABLE books ADD COLUMN ${column}`);
+  } catch (e) {
+    // Column already exists
+  }
+}
+
+// Migration: Add content_hash column for duplicate upload detection (SHA-256 of the original file)
+try {
+  db.exec(`ALTER TABLE books ADD COLUMN content_hash TEXT`);
+} catch (e) {
+  // Column already exists
+}
+db.exec(`CREATE INDEX IF NOT EXISTS idx_books_content_hash ON books(content_hash)`);
+
+// Migration: Add normalized_source_url column so saved URLs are looked up through an index
+try {
+  db.exec(`ALTER TABLE books ADD COLUMN normalized_source_url TEXT`);
+} catch (e) {
+  // Column already exists
+}
+db.exec(`CREATE INDEX IF NOT EXISTS idx_books_normalized_source_url ON books(normalized_source_url)`);
+db.transaction(() => {
+  const rows = db.prepare(
+    'SELECT id, source_url FROM books WHERE source_url IS NOT NULL AND normalized_source_url IS NULL'
+  ).all() as { id: string; source_url: string }[];
+  const backfill = db.prepare('UPDATE books SET normalized_source_url = ? WHERE id = ?');
+  for (const row of rows) {
+    backfill.run(normalizeSourceUrl(row.source_url), row.id);
+  }
+})();
+
 // Tags table
 db.exec(`
   CREATE TABLE IF NOT EXISTS tags (
@@ -169,6 +215,17 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_notes_page ON notes(book_id, page_num);
 `);
 
+// Page texts table (PDFのページごとの本文、サーバー側で抽出)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS page_texts (
+    book_id TEXT NOT NULL,
+    page_num INTEGER NOT NULL,
+    text TEXT NOT NULL DEFAULT '',
+    PRIMARY KEY (book_id, page_num),
+    FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+  );
+`);
+
 // Vocabularies table (用語集)
 db.exec(`
   CREATE TABLE IF NOT EXISTS vocabularies (
@@ -189,19 +246,96 @@ try {
   // Column already exists, ignore error
 }
 
+// Extraction rules table (サイトごとの本文抽出ルール)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS extraction_rules (
+    id TEXT PRIMARY KEY,
+    host_pattern TEXT NOT NULL,
+    content_selector TEXT,
+    remove_selectors TEXT NOT NULL DEFAULT '[]',
+    next_page_selector TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+// Feed subscriptions table (RSS/Atom の購読と取得済みの記事)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS feeds (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    title TEXT,
+    default_tag TEXT,
+    entry_limit INTEGER NOT NULL DEFAULT 10,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    last_checked_at DATETIME,
+    last_error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS feed_entries (
+    feed_id TEXT NOT NULL,
+    entry_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    title TEXT,
+    book_id TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (feed_id, entry_id)
+  );
+`);
+
+// FreshRSS connector tables (Google Reader API の接続設定と取り込み済みの記事)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS freshrss_settings (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    api_url TEXT NOT NULL,
+    username TEXT NOT NULL,
+    api_password TEXT NOT NULL,
+    import_starred INTEGER NOT NULL DEFAULT 1,
+    import_labels TEXT NOT NULL DEFAULT '[]',
+    saved_label TEXT NOT NULL,
+    default_tag TEXT,
+    item_limit INTEGER NOT NULL DEFAULT 20,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    last_synced_at DATETIME,
+    last_error TEXT,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS freshrss_items (
+    item_id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    title TEXT,
+    book_id TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
 // Books
 export function addBook(
   id: string,
   title: string,
   originalFilename: string,
   totalPages: number,
-  bookType: 'epub' | 'pdf' | 'markdown' = 'epub'
+  bookType: 'epub' | 'pdf' | 'markdown' | 'text' | 'html' | 'docx' | 'comic' = 'epub',
+  metadata: BookMetadata = {}
 ): { id: string; title: string; originalFilename: string; totalPages: number; bookType: string } {
   const stmt = db.prepare(`
-    INSERT INTO books (id, title, original_filename, total_pages, book_type)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO books (id, title, original_filename, total_pages, book_type,
+      author, publisher, identifier, description, series, series_index, published_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
-  stmt.run(id, title, originalFilename, totalPages, bookType);
+  stmt.run(
+    id, title, originalFilename, totalPages, bookType,
+    metadata.author ?? null,
+    metadata.publisher ?? null,
+    metadata.identifier ?? null,
+    metadata.description ?? null,
+    metadata.series ?? null,
+    metadata.series_index ?? null,
+    metadata.published_date ?? null
+  );
   return { id, title, originalFilename, totalPages, bookType };
 }
 
@@ -209,13 +343,17 @@ export function addWebsiteBook(
   id: string,
   title: string,
   sourceUrl: string,
-  totalPages: number
+  totalPages: number,
+  metadata: BookMetadata = {}
 ): { id: string; title: string; sourceUrl: string; totalPages: number; bookType: string } {
   const stmt = db.prepare(`
-    INSERT INTO books (id, title, source_url, total_pages, book_type)
-    VALUES (?, ?, ?, ?, 'website')
+    INSERT INTO books (id, title, source_url, normalized_source_url, total_pages, book_type, author, published_date)
+    VALUES (?, ?, ?, ?, ?, 'website', ?, ?)
   `);
-  stmt.run(id, title, sourceUrl, totalPages);
+  stmt.run(
+    id, title, sourceUrl, normalizeSourceUrl(sourceUrl), totalPages,
+    metadata.author ?? null, metadata.published_date ?? null
+  );
   return { id, title, sourceUrl, totalPages, bookType: 'website' };
 }
 
@@ -242,11 +380,18 @@ export function getBook(id: string): Book | undefined {
 export function deleteBook(id: string): void {
   const stmt = db.prepare('DELETE FROM books WHERE id = ?');
   stmt.run(id);
+  db.prepare('DELETE FROM page_texts WHERE book_id = ?').run(id);
 }
 
-export function updateBook(id: string, { title, language, ai_context }: BookInput): Book | null {
+// Metadata columns that can be edited through updateBook
+const METADATA_COLUMNS: (keyof BookMetadata)[] = [
+  'author', 'publisher', 'identifier', 'description', 'series', 'series_index', 'published_date'
+];
+
+export function updateBook(id: string, input: BookInput): Book | null {
+  const { title, language, ai_context } = input;
   const updates: string[] = [];
-  const values: (string | undefined)[] = [];
+  const values: (string | number | null | undefined)[] = [];
 
   if (title !== undefined) {
     updates.push('title = ?');
@@ -260,6 +405,14 @@ export function updateBook(id: string, { title, language, ai_context }: BookInpu
     updates.push('ai_context = ?');
     values.push(ai_context);
   }
+  for (const column of METADATA_COLUMNS) {
+    const value = input[column];
+    if (value !== undefined) {
+      updates.push(`${column} = ?`);
+      // Empty strings clear the field
+      values.push(value === '' ? null : value);
+    }
+  }
 
   if (updates.length === 0) return null;
 
@@ -379,6 +532,104 @@ export function updatePdfTotalPages(bookId: string, pdfTotalPages: number): void
   stmt.run(pdfTotalPages, bookId);
 }
 
+// Duplicate detection
+export function setBookContentHash(bookId: string, contentHash: string): void {
+  const stmt = db.prepare('UPDATE books SET content_hash = ? WHERE id = ?');
+  stmt.run(contentHash, bookId);
+}
+
+export function findBookByContentHash(contentHash: string): Book | undefined {
+  const stmt = db.prepare('SELECT * FROM books WHERE content_hash = ? ORDER BY created_at LIMIT 1');
+  return stmt.get(contentHash) as Book | undefined;
+}
+
+// Compare normalized URLs so tracking params / fragments don't create duplicates
+export function findBookBySourceUrl(url: string): Book | undefined {
+  const stmt = db.prepare('SELECT * FROM books WHERE normalized_source_url = ? ORDER BY created_at LIMIT 1');
+  return stmt.get(normalizeSourceUrl(url)) as Book | undefined;
+}
+
+// Move bookmarks / notes / clips / progress to the pages they land on after a book's pages were rebuilt
+// (runs inside the caller's transaction)
+function moveAnnotations(id: string, mapPage: (pageNum: number) => number): void {
+  const moveBookmark = db.prepare('UPDATE bookmarks SET page_num = ? WHERE id = ?');
+  const moveNote = db.prepare('UPDATE notes SET page_num = ? WHERE id = ?');
+  const moveClip = db.prepare('UPDATE clips SET page_num = ? WHERE id = ?');
+  const moveProgress = db.prepare('UPDATE reading_progress SET current_page = ? WHERE book_id = ?');
+
+  for (const bookmark of getBookmarks(id)) {
+    moveBookmark.run(mapPage(bookmark.page_num), bookmark.id);
+  }
+  for (const note of getNotes(id)) {
+    moveNote.run(mapPage(note.page_num), note.id);
+  }
+  for (const clip of getClips(id)) {
+    moveClip.run(mapPage(clip.page_num), clip.id);
+  }
+  const progress = getProgress(id);
+  if (progress) {
+    moveProgress.run(mapPage(progress.current_page), id);
+  }
+}
+
+// Replace a book's source file: update the row and move its annotations in one transaction
+export function replaceBookSource(
+  id: string,
+  source: { originalFilename: string; totalPages: number; bookType: string; contentHash: string },
+  mapPage: (pageNum: number) => number
+): void {
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE books SET original_filename = ?, total_pages = ?, book_type = ?, content_hash = ?,
+        pdf_total_pages = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(source.originalFilename, source.totalPages, source.bookType, source.contentHash, id);
+    moveAnnotations(id, mapPage);
+  })();
+}
+
+// Re-fetched web page: update the page count and metadata and move its annotations in one transaction
+export function refreshWebsiteBook(
+  id: string,
+  source: { totalPages: number; metadata: BookMetadata },
+  mapPage: (pageNum: number) => number
+): void {
+  db.transaction(() => {
+    // Author and date edited by the user win over the re-fetched ones
+    db.prepare(`
+      UPDATE books SET total_pages = ?, author = COALESCE(author, ?), published_date = COALESCE(published_date, ?),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(source.totalPages, source.metadata.author ?? null, source.metadata.published_date ?? null, id);
+    moveAnnotations(id, mapPage);
+  })();
+}
+
+// Page Texts
+export interface PageTextRecord {
+  page_num: number;
+  text: string;
+}
+
+// Replace all page texts of a book (texts[0] is page 1)
+export function savePageTexts(bookId: string, texts: string[]): void {
+  const insert = db.prepare('INSERT INTO page_texts (book_id, page_num, text) VALUES (?, ?, ?)');
+  db.transaction(() => {
+    db.prepare('DELETE FROM page_texts WHERE book_id = ?').run(bookId);
+    texts.forEach((text, index) => insert.run(bookId, index + 1, text));
+  })();
+}
+
+export function getPageText(bookId: string, pageNum: number): PageTextRecord | undefined {
+  const stmt = db.prepare('SELECT page_num, text FROM page_texts WHERE book_id = ? AND page_num = ?');
+  return stmt.get(bookId, pageNum) as PageTextRecord | undefined;
+}
+
+export function getPageTexts(bookId: string): PageTextRecord[] {
+  const stmt = db.prepare('SELECT page_num, text FROM page_texts WHERE book_id = ? ORDER BY page_num');
+  return stmt.all(bookId) as PageTextRecord[];
+}
+
 // Tags
 export interface TagRecord {
   id: string;
@@ -587,6 +838,182 @@ export function importVocabularies(items: { term: string; description: string; i
   return result;
 }
 
+// Extraction rules
+type ExtractionRuleRow = Omit<ExtractionRule, 'remove_selectors'> & { remove_selectors: string };
+
+function toExtractionRule(row: ExtractionRuleRow): ExtractionRule {
+  return { ...row, remove_selectors: JSON.parse(row.remove_selectors) as string[] };
+}
+
+export function getExtractionRules(): ExtractionRule[] {
+  const stmt = db.prepare('SELECT * FROM extraction_rules ORDER BY host_pattern');
+  return (stmt.all() as ExtractionRuleRow[]).map(toExtractionRule);
+}
+
+export function getExtractionRule(id: string): ExtractionRule | undefined {
+  const stmt = db.prepare('SELECT * FROM extraction_rules WHERE id = ?');
+  const row = stmt.get(id) as ExtractionRuleRow | undefined;
+  return row ? toExtractionRule(row) : undefined;
+}
+
+export function addExtractionRule(input: ExtractionRuleInput): ExtractionRule {
+  const id = uuidv4();
+  const stmt = db.prepare(`
+    INSERT INTO extraction_rules (id, host_pattern, content_selector, remove_selectors, next_page_selector)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  stmt.run(id, input.host_pattern, input.content_selector, JSON.stringify(input.remove_selectors), input.next_page_selector);
+  return getExtractionRule(id)!;
+}
+
+export function updateExtractionRule(id: string, input: ExtractionRuleInput): ExtractionRule | undefined {
+  const stmt = db.prepare(`
+    UPDATE extraction_rules
+    SET host_pattern = ?, content_selector = ?, remove_selectors = ?, next_page_selector = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  stmt.run(input.host_pattern, input.content_selector, JSON.stringify(input.remove_selectors), input.next_page_selector, id);
+  return getExtractionRule(id);
+}
+
+export function deleteExtractionRule(id: string): void {
+  const stmt = db.prepare('DELETE FROM extraction_rules WHERE id = ?');
+  stmt.run(id);
+}
+
+// Feeds
+type FeedRow = Omit<Feed, 'enabled'> & { enabled: number };
+
+function toFeed(row: FeedRow): Feed {
+  return { ...row, enabled: row.enabled === 1 };
+}
+
+export function getFeeds(): Feed[] {
+  const stmt = db.prepare('SELECT * FROM feeds ORDER BY created_at, url');
+  return (stmt.all() as FeedRow[]).map(toFeed);
+}
+
+export function getFeed(id: string): Feed | undefined {
+  const stmt = db.prepare('SELECT * FROM feeds WHERE id = ?');
+  const row = stmt.get(id) as FeedRow | undefined;
+  return row ? toFeed(row) : undefined;
+}
+
+export function addFeed(input: FeedInput): Feed {
+  const id = uuidv4();
+  const stmt = db.prepare(`
+    INSERT INTO feeds (id, url, title, default_tag, entry_limit, enabled)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(id, input.url, input.title, input.default_tag, input.entry_limit, input.enabled ? 1 : 0);
+  return getFeed(id)!;
+}
+
+export function updateFeed(id: string, input: FeedInput): Feed | undefined {
+  const stmt = db.prepare(`
+    UPDATE feeds
+    SET url = ?, title = ?, default_tag = ?, entry_limit = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  stmt.run(input.url, input.title, input.default_tag, input.entry_limit, input.enabled ? 1 : 0, id);
+  return getFeed(id);
+}
+
+export function deleteFeed(id: string): void {
+  db.prepare('DELETE FROM feeds WHERE id = ?').run(id);
+  db.prepare('DELETE FROM feed_entries WHERE feed_id = ?').run(id);
+}
+
+// Record the result of a poll; the feed's own title only fills an empty title
+export function recordFeedPoll(id: string, result: { title: string | null; error: string | null }): void {
+  const stmt = db.prepare(`
+    UPDATE feeds
+    SET title = COALESCE(title, ?), last_error = ?, last_checked_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  stmt.run(result.title, result.error, id);
+}
+
+export function hasFeedEntry(feedId: string, entryId: string): boolean {
+  const stmt = db.prepare('SELECT 1 FROM feed_entries WHERE feed_id = ? AND entry_id = ?');
+  return stmt.get(feedId, entryId) !== undefined;
+}
+
+export function addFeedEntry(feedId: string, entry: FeedEntry, bookId: string | null): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO feed_entries (feed_id, entry_id, url, title, book_id)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  stmt.run(feedId, entry.id, entry.url, entry.title || null, bookId);
+}
+
+// FreshRSS connector
+type FreshRssSettingsRow = Omit<FreshRssSettings, 'import_starred' | 'import_labels' | 'enabled'> & {
+  import_starred: number;
+  import_labels: string;
+  enabled: number;
+};
+
+export function getFreshRssSettings(): FreshRssSettings | undefined {
+  const stmt = db.prepare('SELECT * FROM freshrss_settings WHERE id = 1');
+  const row = stmt.get() as FreshRssSettingsRow | undefined;
+  if (!row) return undefined;
+  return {
+    ...row,
+    import_starred: row.import_starred === 1,
+    import_labels: JSON.parse(row.import_labels) as string[],
+    enabled: row.enabled === 1
+  };
+}
+
+// Save the connection settings; a null password keeps the stored one
+export function saveFreshRssSettings(input: FreshRssSettingsInput): FreshRssSettings {
+  const stmt = db.prepare(`
+    INSERT INTO freshrss_settings (id, api_url, username, api_password, import_starred, import_labels,
+      saved_label, default_tag, item_limit, enabled, updated_at)
+    VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(id) DO UPDATE SET
+      api_url = excluded.api_url,
+      username = excluded.username,
+      api_password = CASE WHEN ? IS NULL THEN freshrss_settings.api_password ELSE excluded.api_password END,
+      import_starred = excluded.import_starred,
+      import_labels = excluded.import_labels,
+      saved_label = excluded.saved_label,
+      default_tag = excluded.default_tag,
+      item_limit = excluded.item_limit,
+      enabled = excluded.enabled,
+      last_error = NULL,
+      updated_at = CURRENT_TIMESTAMP
+  `);
+  stmt.run(
+    input.api_url, input.username, input.api_password ?? '', input.import_starred ? 1 : 0,
+    JSON.stringify(input.import_labels), input.saved_label, input.default_tag, input.item_limit,
+    input.enabled ? 1 : 0, input.api_password
+  );
+  return getFreshRssSettings()!;
+}
+
+export function deleteFreshRssSettings(): void {
+  db.prepare('DELETE FROM freshrss_settings').run();
+}
+
+export function recordFreshRssSync(error: string | null): void {
+  const stmt = db.prepare('UPDATE freshrss_settings SET last_error = ?, last_synced_at = CURRENT_TIMESTAMP WHERE id = 1');
+  stmt.run(error);
+}
+
+export function hasFreshRssItem(itemId: string): boolean {
+  return db.prepare('SELECT 1 FROM freshrss_items WHERE item_id = ?').get(itemId) !== undefined;
+}
+
+export function addFreshRssItem(item: GReaderItem, bookId: string): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO freshrss_items (item_id, url, title, book_id)
+    VALUES (?, ?, ?, ?)
+  `);
+  stmt.run(item.id, item.url, item.title || null, bookId);
+}
+
 // Default export for backward compatibility
 export default {
   addBook,
@@ -596,6 +1023,14 @@ export default {
   deleteBook,
   updateBook,
   updatePdfTotalPages,
+  setBookContentHash,
+  findBookByContentHash,
+  findBookBySourceUrl,
+  replaceBookSource,
+  refreshWebsiteBook,
+  savePageTexts,
+  getPageText,
+  getPageTexts,
   addBookmark,
   getBookmarks,
   deleteBookmark,
@@ -625,5 +1060,24 @@ export default {
   addVocabulary,
   updateVocabulary,
   deleteVocabulary,
-  importVocabularies
+  importVocabularies,
+  getExtractionRules,
+  getExtractionRule,
+  addExtractionRule,
+  updateExtractionRule,
+  deleteExtractionRule,
+  getFeeds,
+  getFeed,
+  addFeed,
+  updateFeed,
+  deleteFeed,
+  recordFeedPoll,
+  hasFeedEntry,
+  addFeedEntry,
+  getFreshRssSettings,
+  saveFreshRssSettings,
+  deleteFreshRssSettings,
+  recordFreshRssSync,
+  hasFreshRssItem,
+  addFreshRssItem
 };
@@ -0,0 +1,250 @@
+/**
+ * Documentation-site Crawler Tests
+ * t-wada TDD style: サイドバーの階層・プレフィックス配下の幅優先取得・目次
+ */
+import http from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  crawlDocsPages,
+  createDocsCrawlState,
+  defaultPathPrefix,
+  extractNavTree,
+  orderDocsPages,
+  parseSitemapUrls,
+  toDocsPageUrl
+} from './docs-crawler'
+
+// MkDocs 風のサイドバー（リンクのない章の見出しを含む）
+const sidebar = `<nav class="md-nav md-nav--primary"><ul class="md-nav__list">
+  <li><a href="/docs/">Home</a></li>
+  <li><label>Guide</label>
+    <nav class="md-nav"><ul>
+      <li><a href="/docs/guide/install/">Install</a></li>
+      <li><a href="/docs/guide/usage/#basics">Usage</a>
+        <ul><li><a href="/docs/guide/advanced/">Advanced</a></li></ul>
+      </li>
+    </ul></nav>
+  </li>
+  <li><a href="https://github.com/example/project">GitHub</a></li>
+</ul></nav>`
+
+const page = (title, body = '') => `<html><head><title>${title}</title></head><body>
+  ${sidebar}<article><h1>${title}</h1>${body}</article>
+  <a href="/blog/">Blog</a>
+</body></html>`
+
+// ドキュメントサイトを返すHTTPサーバー
+let server
+let baseUrl
+let requests
+let failing
+
+const site = {
+  '/docs/': page('Home', '<a href="/docs/faq/">FAQ</a>'),
+  '/docs/guide/install/': page('Install'),
+  '/docs/guide/usage/': page('Usage'),
+  '/docs/guide/advanced/': page('Advanced'),
+  '/docs/faq/': page('FAQ'),
+  '/docs/hidden/': page('Hidden'),
+  '/blog/': page('Blog')
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests.push(req.url)
+    if (req.url === '/docs/sitemap.xml') {
+      res.writeHead(200, { 'Content-Type': 'application/xml' })
+      res.end(`<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>${baseUrl}/docs/hidden/</loc></url><url><loc>${baseUrl}/blog/</loc></url></urlset>`)
+      return
+    }
+    if (failing.includes(req.url) || !site[req.url]) {
+      res.writeHead(404)
+      res.end()
+      return
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+    res.end(site[req.url])
+  })
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${server.address().port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  requests = []
+  failing = []
+})
+
+const deps = (overrides = {}) => ({
+  fetchHtml: async (url, signal) => {
+    const response = await fetch(url, { signal })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    return response.text()
+  },
+  parsePage: html => ({
+    content: html,
+    images: [],
+    title: html.match(/<title>(.*?)<\/title>/)[1],
+    byline: null,
+    publishedDate: null
+  }),
+  ...overrides
+})
+
+const titles = state => state.pages.map(p => p.title)
+
+describe('defaultPathPrefix / toDocsPageUrl', () => {
+  it('should use the directory of the start page', () => {
+    expect(defaultPathPrefix('https://example.com/docs/intro.html')).toBe('/docs/')
+    expect(defaultPathPrefix('https://example.com/docs/')).toBe('/docs/')
+  })
+
+  it('should keep pages under the prefix and drop fragments', () => {
+    const state = { startUrl: 'https://example.com/docs/', pathPrefix: '/docs/', ignorePaths: ['/docs/old/'] }
+
+    expect(toDocsPageUrl('guide/#top', 'https://example.com/docs/', state)).toBe('https://example.com/docs/guide/')
+    expect(toDocsPageUrl('/blog/', 'https://example.com/docs/', state)).toBeNull()
+    expect(toDocsPageUrl('https://other.example.com/docs/', 'https://example.com/docs/', state)).toBeNull()
+    expect(toDocsPageUrl('/docs/assets/logo.png', 'https://example.com/docs/', state)).toBeNull()
+    expect(toDocsPageUrl('/docs/old/page/', 'https://example.com/docs/', state)).toBeNull()
+  })
+})
+
+describe('extractNavTree', () => {
+  it('should read chapter order and nesting from the sidebar', () => {
+    const state = { startUrl: 'https://example.com/docs/', pathPrefix: '/docs/', ignorePaths: [], navSelector: null }
+
+    expect(extractNavTree(page('Home'), 'https://example.com/docs/', state)).toEqual([
+      { title: 'Home', url: 'https://example.com/docs/', children: [] },
+      {
+        title: 'Guide',
+        url: null,
+        children: [
+          { title: 'Install', url: 'https://example.com/docs/guide/install/', children: [] },
+          {
+            title: 'Usage',
+            url: 'https://example.com/docs/guide/usage/',
+            children: [{ title: 'Advanced', url: 'https://example.com/docs/guide/advanced/', children: [] }]
+          }
+        ]
+      }
+    ])
+  })
+
+  it('should use the given sidebar selector', () => {
+    const html = `<nav><ul><li><a href="/docs/a/">Top nav</a></li></ul></nav>
+      <div class="sidebar"><ul><li><a href="/docs/b/">Sidebar</a></li></ul></div>`
+    const state = { startUrl: 'https://example.com/docs/', pathPrefix: '/docs/', ignorePaths: [] }
+
+    expect(extractNavTree(html, 'https://example.com/docs/', { ...state, navSelector: null })[0].title).toBe('Top nav')
+    expect(extractNavTree(html, 'https://example.com/docs/', { ...state, navSelector: '.sidebar' })[0].title).toBe('Sidebar')
+  })
+})
+
+describe('parseSitemapUrls', () => {
+  it('should list the page locations', () => {
+    const xml = `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <url><loc> https://example.com/docs/ </loc><lastmod>2024-01-01</lastmod></url>
+      <url><loc>https://example.com/docs/faq/</loc></url></urlset>`
+
+    expect(parseSitemapUrls(xml)).toEqual(['https://example.com/docs/', 'https://example.com/docs/faq/'])
+  })
+})
+
+describe('crawlDocsPages', () => {
+  it('should fetch pages under the prefix breadth-first, nav links first', async () => {
+    const state = await crawlDocsPages(createDocsCrawlState({ startUrl: `${baseUrl}/docs/`, maxPages: 50 }), deps(), new AbortController().signal)
+
+    expect(titles(state)).toEqual(['Home', 'Install', 'Usage', 'Advanced', 'FAQ'])
+    expect(requests).not.toContain('/blog/')
+    expect(state.nextUrl).toBeNull()
+  })
+
+  it('should add pages listed in sitemap.xml', async () => {
+    const state = await crawlDocsPages(
+      createDocsCrawlState({ startUrl: `${baseUrl}/docs/`, useSitemap: true, maxPages: 50 }),
+      deps(),
+      new AbortController().signal
+    )
+
+    expect(titles(state)).toContain('Hidden')
+    expect(requests).not.toContain('/blog/')
+  })
+
+  it('should skip pages that fail and keep crawling', async () => {
+    failing = ['/docs/guide/install/']
+
+    const state = await crawlDocsPages(createDocsCrawlState({ startUrl: `${baseUrl}/docs/`, maxPages: 50 }), deps(), new AbortController().signal)
+
+    expect(titles(state)).toEqual(['Home', 'Usage', 'Advanced', 'FAQ'])
+    expect(state.errors).toEqual([{ url: `${baseUrl}/docs/guide/install/`, message: 'HTTP 404' }])
+  })
+
+  it('should stop at maxPages and resume from the queue', async () => {
+    const state = createDocsCrawlState({ startUrl: `${baseUrl}/docs/`, maxPages: 2 })
+    await crawlDocsPages(state, deps(), new AbortController().signal)
+
+    expect(titles(state)).toEqual(['Home', 'Install'])
+    expect(state.nextUrl).toBe(`${baseUrl}/docs/guide/usage/`)
+
+    state.maxPages = 50
+    await crawlDocsPages(state, deps(), new AbortController().signal)
+
+    expect(titles(state)).toEqual(['Home', 'Install', 'Usage', 'Advanced', 'FAQ'])
+    expect(requests.filter(url => url === '/docs/')).toHaveLength(1)
+  })
+
+  it('should reject when aborted and keep the pages fetched so far', async () => {
+    const controller = new AbortController()
+    const state = createDocsCrawlState({ startUrl: `${baseUrl}/docs/`, maxPages: 50 })
+
+    await expect(crawlDocsPages(state, deps({ delayMs: 1000, onProgress: () => controller.abort() }), controller.signal))
+      .rejects.toThrow()
+
+    expect(titles(state)).toEqual(['Home'])
+    expect(state.queue[0]).toBe(`${baseUrl}/docs/guide/install/`)
+  })
+})
+
+describe('orderDocsPages', () => {
+  const crawled = (url, title) => ({ url, title, content: '', images: [], byline: null, publishedDate: null, bytes: 0 })
+  const nav = [
+    { title: 'Home', url: 'https://example.com/docs/', children: [] },
+    {
+      title: 'Guide',
+      url: null,
+      children: [
+        { title: 'Install', url: 'https://example.com/docs/install/', children: [] },
+        { title: 'Missing', url: 'https://example.com/docs/missing/', children: [] }
+      ]
+    }
+  ]
+
+  it('should order pages by the nav and build a nested TOC', () => {
+    const pages = [
+      crawled('https://example.com/docs/faq/', 'FAQ'),
+      crawled('https://example.com/docs/install/', 'Install page'),
+      crawled('https://example.com/docs/', 'Home page')
+    ]
+
+    const result = orderDocsPages(nav, pages)
+
+    expect(result.pages.map(p => p.title)).toEqual(['Home page', 'Install page', 'FAQ'])
+    expect(result.toc).toEqual([
+      { page: 1, level: 1, title: 'Home' },
+      { page: 2, level: 1, title: 'Guide' },
+      { page: 2, level: 2, title: 'Install' },
+      { page: 3, level: 1, title: 'FAQ' }
+    ])
+  })
+
+  it('should drop chapters without any fetched page', () => {
+    const result = orderDocsPages(nav, [crawled('https://example.com/docs/', 'Home page')])
+
+    expect(result.toc).toEqual([{ page: 1, level: 1, title: 'Home' }])
+  })
+})
@@ -0,0 +1,326 @@
+/**
+ * Documentation-site crawler
+ * MkDocs・Docusaurus・Sphinx などのドキュメントサイトを、パスのプレフィックス配下で幅優先に取得し、
+ * サイドバーのナビゲーションから章の順序と階層を取り出す
+ */
+import * as cheerio from 'cheerio';
+import { setTimeout as sleep } from 'timers/promises';
+import type { CrawledPage, CrawlDeps, CrawlState, ParsedPage } from './multipage-crawler';
+import { normalizeUrl, shouldIgnorePath } from './multipage-utils';
+import type { TocItem } from './types';
+
+// ナビゲーションの項目（リンクのない見出しは url が null）
+export interface NavNode {
+  title: string;
+  url: string | null;
+  children: NavNode[];
+}
+
+export interface DocsCrawlState extends Omit<CrawlState, 'mode' | 'linkClass'> {
+  mode: 'docs';
+  // このパス配下のページだけを取得する（例: /docs/）
+  pathPrefix: string;
+  // サイドバーのセレクタ（nullなら既知のテーマから探す）
+  navSelector: string | null;
+  // sitemap.xml のURLも取得候補に加えるか
+  useSitemap: boolean;
+  sitemapLoaded: boolean;
+  // 取得待ちのURL（幅優先）
+  queue: string[];
+  // 最初にナビゲーションが見つかったページのナビゲーション
+  nav: NavNode[];
+}
+
+export type DocsCrawlDeps = Omit<CrawlDeps, 'parsePage' | 'onProgress'> & {
+  parsePage(html: string, url: string): ParsedPage;
+  onProgress?(state: DocsCrawlState): void;
+};
+
+// 既知のドキュメントテーマのサイドバー（上から順に試す）
+export const DEFAULT_NAV_SELECTORS = [
+  'nav.md-nav--primary', // MkDocs Material
+  '.theme-doc-sidebar-menu', // Docusaurus
+  '.wy-menu-vertical', // Sphinx (Read the Docs theme)
+  '.sphinxsidebarwrapper', // Sphinx (alabaster etc.)
+  '.bs-sidebar', // MkDocs
+  'aside nav',
+  'nav'
+];
+
+// ページではないファイルへのリンク
+const ASSET_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|css|js|json|xml|txt|pdf|zip|gz|tar|mp4|mp3|woff2?|ttf)$/i;
+
+/**
+ * 開始URLから既定のパスのプレフィックスを決める
+ * @param url - 開始URL
+ * @returns 開始ページのあるディレクトリ（例: /docs/intro.html → /docs/）
+ */
+export function defaultPathPrefix(url: string): string {
+  const { pathname } = new URL(url);
+  return pathname.slice(0, pathname.lastIndexOf('/') + 1);
+}
+
+/**
+ * リンクを取得候補のURLにする（フラグメントを除く）
+ * @param href - リンク（相対または絶対）
+ * @param pageUrl - リンクのあるページのURL
+ * @param state - 開始URL・プレフィックス・無視するパス
+ * @returns プレフィックス配下のページのURL（対象外ならnull）
+ */
+export function toDocsPageUrl(
+  href: string,
+  pageUrl: string,
+  state: Pick<DocsCrawlState, 'startUrl' | 'pathPrefix' | 'ignorePaths'>
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(href, pageUrl);
+  } catch {
+    return null;
+  }
+  url.hash = '';
+
+  if (url.origin !== new URL(state.startUrl).origin) return null;
+  if (!url.pathname.startsWith(state.pathPrefix)) return null;
+  if (ASSET_EXTENSIONS.test(url.pathname)) return null;
+  if (shouldIgnorePath(url.pathname, state.ignorePaths)) return null;
+  return normalizeUrl(url.href);
+}
+
+/**
+ * sitemap.xml に載っているURLを取り出す
+ * @param xml - sitemap.xml の内容
+ * @returns <url><loc> のURL
+ */
+export function parseSitemapUrls(xml: string): string[] {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  return $('url > loc').map((_, el) => $(el).text().trim()).get().filter(Boolean);
+}
+
+/**
+ * サイドバーのリストを項目の木にする
+ * @param html - ページのHTML
+ * @param pageUrl - ページのURL（相対リンクの解決に使う）
+ * @param state - 開始URL・プレフィックス・無視するパス・サイドバーのセレクタ
+ * @returns 項目の木（サイドバーが見つからなければ空配列）
+ */
+export function extractNavTree(
+  html: string,
+  pageUrl: string,
+  state: Pick<DocsCrawlState, 'startUrl' | 'pathPrefix' | 'ignorePaths' | 'navSelector'>
+): NavNode[] {
+  const $ = cheerio.load(html);
+
+  // 直近の祖先の li が owner である要素だけを選ぶ（入れ子のリストの中身を除く）
+  const ownedBy = (owner: cheerio.Element | undefined) =>
+    (_: number, el: cheerio.Element) => $(el).parents('li').get(0) === owner;
+
+  function parseItem(li: cheerio.Element): NavNode | null {
+    const $li = $(li);
+    const $link = $li.find('a[href]').filter(ownedBy(li)).first();
+    const $label = $li.clone();
+    $label.find('ul, ol').remove();
+    const title = ($link.text() || $label.text()).replace(/\s+/g, ' ').trim();
+
+    const href = $link.attr('href');
+    const url = href ? toDocsPageUrl(href, pageUrl, state) : null;
+    const children = $li.find('ul, ol').filter(ownedBy(li)).toArray().flatMap(parseList);
+
+    // プレフィックス外へのリンクは、子に対象のページがなければ除く
+    if (!title || (!url && children.length === 0)) return null;
+    return { title, url, children };
+  }
+
+  function parseList(list: cheerio.Element): NavNode[] {
+    return $(list).children('li').toArray()
+      .map(parseItem)
+      .filter((node): node is NavNode => node !== null);
+  }
+
+  const selectors = state.navSelector ? [state.navSelector] : DEFAULT_NAV_SELECTORS;
+  for (const selector of selectors) {
+    for (const root of $(selector).toArray()) {
+      const $root = $(root);
+      const rootItem = $root.parents('li').get(0);
+      const lists = $root.is('ul, ol') ? [root] : $root.find('ul, ol').filter(ownedBy(rootItem)).toArray();
+      const nodes = lists.flatMap(parseList);
+      if (nodes.length > 0) return nodes;
+    }
+  }
+  return [];
+}
+
+/**
+ * ページのリンクから取得候補のURLを集める
+ * @param html - ページのHTML
+ * @param pageUrl - ページのURL
+ * @param state - 開始URL・プレフィックス・無視するパス
+ * @returns プレフィックス配下のページのURL（重複なし、ページ内の順）
+ */
+export function collectDocsLinks(
+  html: string,
+  pageUrl: string,
+  state: Pick<DocsCrawlState, 'startUrl' | 'pathPrefix' | 'ignorePaths'>
+): string[] {
+  const $ = cheerio.load(html);
+  const urls = $('a[href]').toArray()
+    .map(el => toDocsPageUrl($(el).attr('href') || '', pageUrl, state))
+    .filter((url): url is string => url !== null);
+  return [...new Set(urls)];
+}
+
+/**
+ * ドキュメントサイトのクロールの初期状態を作る
+ * @param options - 開始URL・プレフィックス・サイドバーのセレクタ・sitemap の利用・無視するパス・最大ページ数
+ * @returns まだ1ページも取得していない状態
+ */
+export function createDocsCrawlState(options: {
+  startUrl: string;
+  pathPrefix?: string | null;
+  navSelector?: string | null;
+  useSitemap?: boolean;
+  ignorePaths?: string[];
+  maxPages: number;
+}): DocsCrawlState {
+  const startUrl = normalizeUrl(options.startUrl);
+  return {
+    mode: 'docs',
+    startUrl,
+    pathPrefix: options.pathPrefix || defaultPathPrefix(startUrl),
+    navSelector: options.navSelector || null,
+    useSitemap: Boolean(options.useSitemap),
+    sitemapLoaded: false,
+    ignorePaths: options.ignorePaths || [],
+    maxPages: options.maxPages,
+    pages: [],
+    visited: [],
+    queue: [startUrl],
+    nextUrl: startUrl,
+    nav: [],
+    errors: []
+  };
+}
+
+/**
+ * ナビゲーションの順（深さ優先）でURLを並べる
+ * @param nodes - ナビゲーションの項目
+ * @returns リンクのある項目のURL
+ */
+function navUrls(nodes: NavNode[]): string[] {
+  return nodes.flatMap(node => [...(node.url ? [node.url] : []), ...navUrls(node.children)]);
+}
+
+/**
+ * プレフィックス配下のページを幅優先で取得する
+ * ナビゲーションのリンクを先に、本文中のリンクを後に取得待ちへ加える。取得に失敗したページは飛ばして続ける
+ * @param state - クロールの状態（取得したページを追加していく）
+ * @param deps - 取得・解析の処理
+ * @param signal - 中止用のシグナル（中止されたら AbortError で reject）
+ * @returns 更新したクロールの状態
+ */
+export async function crawlDocsPages(state: DocsCrawlState, deps: DocsCrawlDeps, signal: AbortSignal): Promise<DocsCrawlState> {
+  const enqueue = (urls: string[]): void => {
+    for (const url of urls) {
+      if (!state.visited.includes(url) && !state.queue.includes(url)) state.queue.push(url);
+    }
+  };
+
+  // sitemap.xml はプレフィックス直下、なければサイトのルートを探す
+  if (state.useSitemap && !state.sitemapLoaded) {
+    const candidates = [...new Set([`${state.pathPrefix}sitemap.xml`, '/sitemap.xml'])]
+      .map(pathname => new URL(pathname, state.startUrl).href);
+    let lastError: { url: string; message: string } | null = null;
+    for (const sitemapUrl of candidates) {
+      try {
+        const xml = await deps.fetchHtml(sitemapUrl, signal);
+        enqueue(parseSitemapUrls(xml)
+          .map(url => toDocsPageUrl(url, sitemapUrl, state))
+          .filter((url): url is string => url !== null));
+        lastError = null;
+        break;
+      } catch (error) {
+        signal.throwIfAborted();
+        lastError = { url: sitemapUrl, message: (error as Error).message || String(error) };
+      }
+    }
+    if (lastError) state.errors.push(lastError);
+    state.sitemapLoaded = true;
+    deps.onProgress?.(state);
+  }
+
+  while (state.queue.length > 0 && state.pages.length < state.maxPages) {
+    signal.throwIfAborted();
+    const url = state.queue[0];
+
+    if (!state.visited.includes(url)) {
+      let html: string | null = null;
+      try {
+        html = await deps.fetchHtml(url, signal);
+      } catch (error) {
+        signal.throwIfAborted();
+        state.errors.push({ url, message: (error as Error).message || String(error) });
+      }
+
+      state.visited.push(url);
+      if (html !== null) {
+        const page: CrawledPage = { ...deps.parsePage(html, url), url, bytes: Buffer.byteLength(html) };
+        state.pages.push(page);
+        if (state.nav.length === 0) {
+          state.nav = extractNavTree(html, url, state);
+          enqueue(navUrls(state.nav));
+        }
+        enqueue(collectDocsLinks(html, url, state));
+      }
+    }
+
+    state.queue.shift();
+    state.nextUrl = state.queue[0] ?? null;
+    deps.onProgress?.(state);
+
+    // Small delay to be polite to servers
+    if (state.queue.length > 0 && state.pages.length < state.maxPages && deps.delayMs) {
+      await sleep(deps.delayMs, undefined, { signal });
+    }
+  }
+  return state;
+}
+
+/**
+ * 取得したページをナビゲーションの順に並べ、階層のある目次を作る
+ * リンクのない見出しは最初の子のページを指す。ナビゲーションにないページは取得順に末尾へ加える
+ * @param nav - ナビゲーションの項目
+ * @param pages - 取得したページ
+ * @returns 並べ替えたページと目次（page は1始まり）
+ */
+export function orderDocsPages(nav: NavNode[], pages: CrawledPage[]): { pages: CrawledPage[]; toc: TocItem[] } {
+  const byUrl = new Map(pages.map(page => [page.url, page]));
+  const ordered: CrawledPage[] = [];
+  const toc: TocItem[] = [];
+
+  function walk(nodes: NavNode[], level: number): void {
+    for (const node of nodes) {
+      const page = node.url ? byUrl.get(node.url) : undefined;
+      const entryIndex = toc.length;
+      const firstPage = ordered.length + 1;
+
+      if (page) {
+        const placed = ordered.indexOf(page);
+        if (placed < 0) ordered.push(page);
+        toc.push({ page: placed < 0 ? ordered.length : placed + 1, level, title: node.title });
+      }
+      walk(node.children, level + 1);
+      if (!page && ordered.length >= firstPage) {
+        toc.splice(entryIndex, 0, { page: firstPage, level, title: node.title });
+      }
+    }
+  }
+
+  walk(nav, 1);
+  for (const page of pages) {
+    if (!ordered.includes(page)) {
+      ordered.push(page);
+      toc.push({ page: ordered.length, level: 1, title: page.title });
+    }
+  }
+  return { pages: ordered, toc };
+}
@@ -0,0 +1,373 @@
+/**
+ * EPUB Parser Tests
+ * t-wada TDD style: spine / nav / NCX の解析
+ */
+import AdmZip from 'adm-zip'
+import { describe, expect, it } from 'vitest'
+import {
+  extractChapterBody,
+  parseContainerXml,
+  parseNavDocument,
+  parseNcx,
+  parseOpf,
+  readEpub,
+  readEpubMetadata,
+  resolveEpubPath,
+  rewriteChapterLinks
+} from './epub-parser'
+import { buildAnchorIndex } from './page-anchors'
+
+const CONTAINER_XML = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`
+
+function chapter(body) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><head><title>t</title></head><body>${body}</body></html>`
+}
+
+// テスト用のEPUBをメモリ上に組み立てる
+function buildEpub({ opf, files }) {
+  const zip = new AdmZip()
+  zip.addFile('mimetype', Buffer.from('application/epub+zip'))
+  zip.addFile('META-INF/container.xml', Buffer.from(CONTAINER_XML))
+  zip.addFile('OEBPS/content.opf', Buffer.from(opf))
+  for (const [name, content] of Object.entries(files)) {
+    zip.addFile(name, Buffer.isBuffer(content) ? content : Buffer.from(content))
+  }
+  return zip.toBuffer()
+}
+
+const EPUB3_OPF = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>テスト本</dc:title>
+    <dc:language>ja</dc:language>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="c1" href="Text/ch1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="blank" href="Text/blank.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c2" href="Text/ch2.xhtml" media-type="application/xhtml+xml"/>
+    <item id="img" href="Images/fig 1.png" media-type="image/png"/>
+    <item id="css" href="Styles/style.css" media-type="text/css"/>
+  </manifest>
+  <spine>
+    <itemref idref="c1"/>
+    <itemref idref="blank"/>
+    <itemref idref="c2"/>
+  </spine>
+</package>`
+
+const EPUB3_NAV = `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<body>
+  <nav epub:type="landmarks"><ol><li><a href="Text/ch2.xhtml">Landmark</a></li></ol></nav>
+  <nav epub:type="toc">
+    <ol>
+      <li><a href="Text/ch1.xhtml">第1章</a>
+        <ol><li><a href="Text/ch1.xhtml#s1">1.1 節</a></li></ol>
+      </li>
+      <li><a href="Text/blank.xhtml">扉</a></li>
+      <li><a href="Text/ch2.xhtml">第2章</a></li>
+    </ol>
+  </nav>
+</body>
+</html>`
+
+describe('resolveEpubPath', () => {
+  it('should resolve path relative to the base file', () => {
+    expect(resolveEpubPath('OEBPS/Text/ch1.xhtml', '../Images/a.png')).toBe('OEBPS/Images/a.png')
+  })
+
+  it('should strip fragment and decode percent-encoding', () => {
+    expect(resolveEpubPath('OEBPS/content.opf', 'Text/ch%201.xhtml#top')).toBe('OEBPS/Text/ch 1.xhtml')
+  })
+
+  it('should return null for paths escaping the archive root', () => {
+    expect(resolveEpubPath('OEBPS/content.opf', '../../etc/passwd')).toBeNull()
+  })
+
+  it('should return null for external URLs', () => {
+    expect(resolveEpubPath('OEBPS/content.opf', 'https://example.com/a.png')).toBeNull()
+  })
+})
+
+describe('parseContainerXml', () => {
+  it('should return rootfile full-path', () => {
+    expect(parseContainerXml(CONTAINER_XML)).toBe('OEBPS/content.opf')
+  })
+
+  it('should return null when rootfile is missing', () => {
+    expect(parseContainerXml('<container/>')).toBeNull()
+  })
+})
+
+describe('parseOpf', () => {
+  it('should read manifest, spine and nav location', () => {
+    const pkg = parseOpf(EPUB3_OPF, 'OEBPS/content.opf')
+
+    expect(pkg.metadata.title).toBe('テスト本')
+    expect(pkg.metadata.language).toBe('ja')
+    expect(pkg.spine.map(s => s.idref)).toEqual(['c1', 'blank', 'c2'])
+    expect(pkg.manifest.get('c1').href).toBe('OEBPS/Text/ch1.xhtml')
+    expect(pkg.navHref).toBe('OEBPS/nav.xhtml')
+  })
+
+  it('should find NCX from spine toc attribute', () => {
+    const opf = `<package><manifest>
+      <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+      <item id="c1" href="c1.html" media-type="application/xhtml+xml"/>
+    </manifest><spine toc="ncx"><itemref idref="c1" linear="no"/></spine></package>`
+
+    const pkg = parseOpf(opf, 'content.opf')
+
+    expect(pkg.ncxHref).toBe('toc.ncx')
+    expect(pkg.spine[0].linear).toBe(false)
+  })
+})
+
+describe('parseOpf metadata', () => {
+  it('should read EPUB3 creators with refined roles, publisher, ISBN and series', () => {
+    const opf = `<package version="3.0"><metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:title>  吾輩は猫である </dc:title>
+      <dc:creator id="ill">挿絵 太郎</dc:creator>
+      <meta refines="#ill" property="role" scheme="marc:relators">ill</meta>
+      <dc:creator id="a1">夏目 漱石</dc:creator>
+      <meta refines="#a1" property="role" scheme="marc:relators">aut</meta>
+      <dc:publisher>青空文庫</dc:publisher>
+      <dc:identifier id="uid">urn:uuid:1234</dc:identifier>
+      <dc:identifier>urn:isbn:9784003101018</dc:identifier>
+      <dc:description>&lt;p&gt;猫の&lt;b&gt;視点&lt;/b&gt;で語る&lt;/p&gt;</dc:description>
+      <meta property="belongs-to-collection" id="c01">漱石全集</meta>
+      <meta refines="#c01" property="group-position">2</meta>
+    </metadata><manifest/><spine/></package>`
+
+    const { metadata } = parseOpf(opf, 'content.opf')
+
+    expect(metadata).toEqual({
+      title: '吾輩は猫である',
+      language: null,
+      author: '夏目 漱石',
+      publisher: '青空文庫',
+      identifier: '9784003101018',
+      description: '猫の 視点 で語る',
+      series: '漱石全集',
+      seriesIndex: 2
+    })
+  })
+
+  it('should read EPUB2 opf:role / opf:scheme and calibre series', () => {
+    const opf = `<package version="2.0"><metadata>
+      <dc:creator opf:role="aut">Author One</dc:creator>
+      <dc:creator opf:role="aut">Author Two</dc:creator>
+      <dc:creator opf:role="edt">Editor</dc:creator>
+      <dc:identifier opf:scheme="ISBN">978-4-00-310101-8</dc:identifier>
+      <meta name="calibre:series" content="My Series"/>
+      <meta name="calibre:series_index" content="1.5"/>
+    </metadata><manifest/><spine/></package>`
+
+    const { metadata } = parseOpf(opf, 'content.opf')
+
+    expect(metadata.author).toBe('Author One, Author Two')
+    expect(metadata.identifier).toBe('978-4-00-310101-8')
+    expect(metadata.series).toBe('My Series')
+    expect(metadata.seriesIndex).toBe(1.5)
+  })
+
+  it('should return nulls when metadata is missing', () => {
+    const { metadata } = parseOpf('<package><manifest/><spine/></package>', 'content.opf')
+
+    expect(metadata.author).toBeNull()
+    expect(metadata.identifier).toBeNull()
+    expect(metadata.series).toBeNull()
+    expect(metadata.seriesIndex).toBeNull()
+  })
+})
+
+describe('parseNavDocument', () => {
+  it('should read toc nav with nesting levels', () => {
+    const points = parseNavDocument(EPUB3_NAV, 'OEBPS/nav.xhtml')
+
+    expect(points).toEqual([
+      { title: '第1章', href: 'OEBPS/Text/ch1.xhtml', level: 1 },
+      { title: '1.1 節', href: 'OEBPS/Text/ch1.xhtml#s1', level: 2 },
+      { title: '扉', href: 'OEBPS/Text/blank.xhtml', level: 1 },
+      { title: '第2章', href: 'OEBPS/Text/ch2.xhtml', level: 1 }
+    ])
+  })
+})
+
+describe('parseNcx', () => {
+  it('should read nested navPoints', () => {
+    const ncx = `<ncx><navMap>
+      <navPoint id="n1"><navLabel><text>Chapter 1</text></navLabel><content src="Text/ch1.xhtml"/>
+        <navPoint id="n2"><navLabel><text>Section</text></navLabel><content src="Text/ch1.xhtml#sec"/></navPoint>
+      </navPoint>
+      <navPoint id="n3"><navLabel><text>Chapter 2</text></navLabel><content src="Text/ch2.xhtml"/></navPoint>
+    </navMap></ncx>`
+
+    expect(parseNcx(ncx, 'OEBPS/toc.ncx')).toEqual([
+      { title: 'Chapter 1', href: 'OEBPS/Text/ch1.xhtml', level: 1 },
+      { title: 'Section', href: 'OEBPS/Text/ch1.xhtml#sec', level: 2 },
+      { title: 'Chapter 2', href: 'OEBPS/Text/ch2.xhtml', level: 1 }
+    ])
+  })
+})
+
+describe('extractChapterBody', () => {
+  it('should rewrite image paths to media/ and drop scripts', () => {
+    const body = extractChapterBody(
+      chapter('<p>本文</p><img src="../Images/fig%201.png"/><script>alert(1)</script>'),
+      'OEBPS/Text/ch1.xhtml'
+    )
+
+    expect(body).toContain('src="media/OEBPS/Images/fig 1.png"')
+    expect(body).toContain('本文')
+    expect(body).not.toContain('script')
+  })
+
+  it('should rewrite svg image references', () => {
+    const body = extractChapterBody(
+      chapter('<svg><image xlink:href="../Images/cover.jpg"/></svg>'),
+      'OEBPS/Text/cover.xhtml'
+    )
+
+    expect(body).toContain('media/OEBPS/Images/cover.jpg')
+  })
+})
+
+describe('rewriteChapterLinks', () => {
+  const pageByHref = new Map([['OEBPS/Text/ch1.xhtml', 1], ['OEBPS/Text/ch2.xhtml', 2]])
+
+  it('should turn links to other chapter files into in-book page links', () => {
+    const body = '<a href="ch2.xhtml#sec">次の節</a><a class="x" href="../Text/ch2.xhtml">第2章</a>'
+
+    expect(rewriteChapterLinks(body, 'OEBPS/Text/ch1.xhtml', pageByHref))
+      .toBe('<a href="#c2-sec" data-book-page="2">次の節</a><a class="x" href="#" data-book-page="2">第2章</a>')
+  })
+
+  it('should prefix ids with the chapter number and qualify links within the chapter', () => {
+    const body = '<p id="fn1">注</p><a name="old">旧</a><a href="#fn1">1</a><a href="#">空</a>'
+
+    expect(rewriteChapterLinks(body, 'OEBPS/Text/ch2.xhtml', pageByHref))
+      .toBe('<p id="c2-fn1">注</p><a name="c2-old">旧</a><a href="#c2-fn1" data-book-page="2">1</a><a href="#">空</a>')
+  })
+
+  it('should leave external and unknown links and inline SVG ids alone', () => {
+    const body = '<a href="https://example.com/">外部</a><a href="missing.xhtml#a">不明</a><svg><linearGradient id="g"></linearGradient></svg>'
+
+    expect(rewriteChapterLinks(body, 'OEBPS/Text/ch1.xhtml', pageByHref)).toBe(body)
+  })
+})
+
+describe('readEpub', () => {
+  it('should create one page per non-empty spine item with toc from nav', () => {
+    const epub = buildEpub({
+      opf: EPUB3_OPF,
+      files: {
+        'OEBPS/nav.xhtml': EPUB3_NAV,
+        'OEBPS/Text/ch1.xhtml': chapter('<h1>第1章</h1><p>はじめに</p><img src="../Images/fig%201.png"/>'),
+        'OEBPS/Text/blank.xhtml': chapter('   '),
+        'OEBPS/Text/ch2.xhtml': chapter('<h1>第2章</h1><p>つづき</p>'),
+        'OEBPS/Images/fig 1.png': Buffer.from([0x89, 0x50, 0x4e, 0x47])
+      }
+    })
+
+    const result = readEpub(epub)
+
+    expect(result.chapters).toHaveLength(2)
+    expect(result.chapters[0]).toContain('はじめに')
+    expect(result.chapters[1]).toContain('つづき')
+    expect(result.toc).toEqual([
+      { page: 1, level: 1, title: '第1章' },
+      { page: 1, level: 2, title: '1.1 節', anchor: 'c1-s1' },
+      { page: 2, level: 1, title: '扉' },
+      { page: 2, level: 1, title: '第2章' }
+    ])
+    expect(result.media.map(m => m.path)).toEqual(['OEBPS/Images/fig 1.png'])
+  })
+
+  it('should keep cross-file footnotes and same ids in different chapters apart', () => {
+    const opf = `<package><manifest>
+      <item id="c1" href="ch1.xhtml" media-type="application/xhtml+xml"/>
+      <item id="c2" href="ch2.xhtml" media-type="application/xhtml+xml"/>
+      <item id="notes" href="notes.xhtml" media-type="application/xhtml+xml"/>
+    </manifest><spine><itemref idref="c1"/><itemref idref="c2"/><itemref idref="notes"/></spine></package>`
+    const epub = buildEpub({
+      opf,
+      files: {
+        'OEBPS/ch1.xhtml': chapter('<p>本文<a epub:type="noteref" href="notes.xhtml#n3">3</a></p><p id="fn1">第1章の注</p>'),
+        'OEBPS/ch2.xhtml': chapter('<p><a href="#fn1">1</a></p><p id="fn1">第2章の注</p>'),
+        'OEBPS/notes.xhtml': chapter('<aside epub:type="footnote" id="n3"><p>巻末の注</p></aside>')
+      }
+    })
+
+    const { chapters } = readEpub(epub)
+    const index = buildAnchorIndex(chapters)
+
+    expect(chapters[0]).toContain('<a epub:type="noteref" href="#c3-n3" data-book-page="3">3</a>')
+    expect(index.footnotes['c3-n3']).toBe('<p>巻末の注</p>')
+    expect(chapters[1]).toContain('<a href="#c2-fn1" data-book-page="2">1</a>')
+    expect(index.anchors['c1-fn1']).toBe(1)
+    expect(index.anchors['c2-fn1']).toBe(2)
+  })
+
+  it('should fall back to NCX when there is no nav document', () => {
+    const opf = `<package><manifest>
+      <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+      <item id="c1" href="c1.html" media-type="application/xhtml+xml"/>
+      <item id="c2" href="c2.html" media-type="application/xhtml+xml"/>
+    </manifest><spine toc="ncx"><itemref idref="c1"/><itemref idref="c2"/></spine></package>`
+    const ncx = `<ncx><navMap>
+      <navPoint><navLabel><text>One</text></navLabel><content src="c1.html"/></navPoint>
+      <navPoint><navLabel><text>Two</text></navLabel><content src="c2.html#x"/></navPoint>
+    </navMap></ncx>`
+
+    const result = readEpub(buildEpub({
+      opf,
+      files: {
+        'OEBPS/toc.ncx': ncx,
+        'OEBPS/c1.html': chapter('<p>one</p>'),
+        'OEBPS/c2.html': chapter('<p>two</p>')
+      }
+    }))
+
+    expect(result.toc).toEqual([
+      { page: 1, level: 1, title: 'One' },
+      { page: 2, level: 1, title: 'Two', anchor: 'c2-x' }
+    ])
+  })
+
+  it('should throw when container.xml is missing', () => {
+    const zip = new AdmZip()
+    zip.addFile('foo.txt', Buffer.from('x'))
+
+    expect(() => readEpub(zip.toBuffer())).toThrow(/container\.xml/)
+  })
+
+  it('should throw when spine has no readable content', () => {
+    const opf = '<package><manifest/><spine/></package>'
+
+    expect(() => readEpub(buildEpub({ opf, files: {} }))).toThrow(/no readable content/)
+  })
+})
+
+describe('readEpubMetadata', () => {
+  it('should read metadata without converting chapters', () => {
+    const metadata = readEpubMetadata(buildEpub({ opf: EPUB3_OPF, files: {} }))
+
+    expect(metadata.title).toBe('テスト本')
+    expect(metadata.language).toBe('ja')
+  })
+
+  it('should return null for non-EPUB input', () => {
+    const zip = new AdmZip()
+    zip.addFile('foo.txt', Buffer.from('x'))
+
+    expect(readEpubMetadata(zip.toBuffer())).toBeNull()
+  })
+})
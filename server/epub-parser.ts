@@ -0,0 +1,510 @@
+/**
+ * EPUB parsing utility functions
+ * OPFのspineとnav/NCXを直接読み、章単位のページと目次を組み立てる
+ */
+import AdmZip from 'adm-zip';
+import * as cheerio from 'cheerio';
+import path from 'path';
+import type { TocItem } from './types';
+
+export interface EpubManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties: string[];
+}
+
+export interface EpubSpineItem {
+  idref: string;
+  linear: boolean;
+}
+
+export interface EpubMetadata {
+  title: string | null;
+  language: string | null;
+  author: string | null;
+  publisher: string | null;
+  identifier: string | null;
+  description: string | null;
+  series: string | null;
+  seriesIndex: number | null;
+}
+
+export interface EpubPackage {
+  opfPath: string;
+  metadata: EpubMetadata;
+  manifest: Map<string, EpubManifestItem>;
+  spine: EpubSpineItem[];
+  navHref: string | null;
+  ncxHref: string | null;
+}
+
+export interface EpubNavPoint {
+  title: string;
+  href: string;
+  level: number;
+}
+
+export interface EpubMediaFile {
+  path: string;
+  data: Buffer;
+}
+
+// page は章（chapters）の番号、anchor はリンク先のid（#以降）
+export interface EpubTocItem extends TocItem {
+  anchor?: string;
+}
+
+export interface EpubConversion {
+  pkg: EpubPackage;
+  chapters: string[];
+  toc: EpubTocItem[];
+  media: EpubMediaFile[];
+}
+
+const MEDIA_TYPE_PREFIXES = ['image/', 'audio/', 'video/'];
+
+/**
+ * EPUB内の相対パスをZIPルートからのパスに解決
+ * @param baseHref - 基準となるファイルのパス（ZIPルートから）
+ * @param relative - 解決する相対パス
+ * @returns ZIPルートからのパス。外部URLやルート外を指す場合はnull
+ */
+export function resolveEpubPath(baseHref: string, relative: string): string | null {
+  if (!relative || /^[a-z][a-z0-9+.-]*:/i.test(relative) || relative.startsWith('//')) {
+    return null;
+  }
+
+  let target = relative.split('#')[0].split('?')[0];
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep the raw value when it isn't valid percent-encoding
+  }
+  if (!target) return null;
+
+  const joined = target.startsWith('/')
+    ? path.posix.normalize(target.slice(1))
+    : path.posix.normalize(path.posix.join(path.posix.dirname(baseHref), target));
+
+  if (joined === '..' || joined.startsWith('../') || path.posix.isAbsolute(joined)) {
+    return null;
+  }
+  return joined === '.' ? null : joined;
+}
+
+/**
+ * META-INF/container.xml からOPFファイルのパスを取得
+ * @param xml - container.xmlの内容
+ * @returns OPFのパス、見つからない場合はnull
+ */
+export function parseContainerXml(xml: string): string | null {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const fullPath = $('rootfile').first().attr('full-path');
+  return fullPath ? fullPath.trim() : null;
+}
+
+// dc:* 要素のテキストを取得（名前空間プレフィックスの有無どちらにも対応）
+function dcValues($: cheerio.Root, name: string): cheerio.Cheerio {
+  return $('metadata').find(`dc\\:${name}, ${name}`);
+}
+
+function cleanText(value: string | undefined): string | null {
+  const text = (value || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return text || null;
+}
+
+/**
+ * OPFの<metadata>から書誌情報を取得
+ * @param $ - OPFを読み込んだcheerioインスタンス
+ * @returns タイトル・著者・出版社・ISBN・紹介文・シリーズ
+ */
+function parseOpfMetadata($: cheerio.Root): EpubMetadata {
+  const $meta = $('metadata');
+
+  // 著者: role が aut のもの（EPUB3 は refines で指定）を優先し、複数なら連結
+  const creators = dcValues($, 'creator').toArray().map(el => {
+    const $el = $(el);
+    const id = $el.attr('id');
+    const refinedRole = id
+      ? $meta.find(`meta[refines="#${id}"][property="role"]`).first().text().trim()
+      : '';
+    return { name: cleanText($el.text()), role: $el.attr('opf:role') || refinedRole || 'aut' };
+  }).filter(c => c.name);
+  const authors = creators.filter(c => c.role === 'aut');
+  const author = (authors.length > 0 ? authors : creators).map(c => c.name).join(', ') || null;
+
+  // 識別子: ISBNがあればそれを、なければ最初の識別子
+  const identifiers = dcValues($, 'identifier').toArray().map(el => ({
+    value: cleanText($(el).text()),
+    scheme: ($(el).attr('opf:scheme') || '').toLowerCase()
+  })).filter(i => i.value);
+  const isbn = identifiers.find(i => i.scheme === 'isbn' || /^urn:isbn:/i.test(i.value || ''));
+  const identifierRaw = (isbn || identifiers[0])?.value || null;
+  const identifier = identifierRaw ? identifierRaw.replace(/^urn:isbn:/i, '') : null;
+
+  // シリーズ: EPUB3 belongs-to-collection、または Calibre の calibre:series
+  let series: string | null = null;
+  let seriesIndex: number | null = null;
+  const $collection = $meta.find('meta[property="belongs-to-collection"]').first();
+  if ($collection.length > 0) {
+    series = cleanText($collection.text());
+    const collectionId = $collection.attr('id');
+    if (collectionId) {
+      const position = $meta.find(`meta[refines="#${collectionId}"][property="group-position"]`).first().text();
+      seriesIndex = position ? parseFloat(position) : null;
+    }
+  } else {
+    series = cleanText($meta.find('meta[name="calibre:series"]').attr('content'));
+    const index = $meta.find('meta[name="calibre:series_index"]').attr('content');
+    seriesIndex = index ? parseFloat(index) : null;
+  }
+  if (seriesIndex !== null && isNaN(seriesIndex)) seriesIndex = null;
+
+  return {
+    title: cleanText(dcValues($, 'title').first().text()),
+    language: cleanText(dcValues($, 'language').first().text()),
+    author,
+    publisher: cleanText(dcValues($, 'publisher').first().text()),
+    identifier,
+    description: cleanText(dcValues($, 'description').first().text()),
+    series,
+    seriesIndex
+  };
+}
+
+/**
+ * OPF (package document) を解析
+ * @param xml - OPFの内容
+ * @param opfPath - OPFのZIPルートからのパス
+ * @returns manifest / spine / nav・NCXの場所
+ */
+export function parseOpf(xml: string, opfPath: string): EpubPackage {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  const manifest = new Map<string, EpubManifestItem>();
+  $('manifest > item').each((_, el) => {
+    const $el = $(el);
+    const id = $el.attr('id');
+    const href = $el.attr('href');
+    if (!id || !href) return;
+
+    const resolved = resolveEpubPath(opfPath, href);
+    if (!resolved) return;
+
+    manifest.set(id, {
+      id,
+      href: resolved,
+      mediaType: ($el.attr('media-type') || '').trim(),
+      properties: ($el.attr('properties') || '').split(/\s+/).filter(Boolean)
+    });
+  });
+
+  const spine: EpubSpineItem[] = [];
+  $('spine > itemref').each((_, el) => {
+    const idref = $(el).attr('idref');
+    if (idref && manifest.has(idref)) {
+      spine.push({ idref, linear: $(el).attr('linear') !== 'no' });
+    }
+  });
+
+  const items = [...manifest.values()];
+  const navItem = items.find(item => item.properties.includes('nav'));
+
+  const ncxId = $('spine').attr('toc');
+  const ncxItem = (ncxId && manifest.get(ncxId)) ||
+    items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+
+  return {
+    opfPath,
+    metadata: parseOpfMetadata($),
+    manifest,
+    spine,
+    navHref: navItem ? navItem.href : null,
+    ncxHref: ncxItem ? ncxItem.href : null
+  };
+}
+
+/**
+ * EPUB3のナビゲーション文書 (nav epub:type="toc") を解析
+ * @param html - nav文書の内容
+ * @param navHref - nav文書のZIPルートからのパス
+ * @returns 階層レベル付きの目次エントリ
+ */
+export function parseNavDocument(html: string, navHref: string): EpubNavPoint[] {
+  const $ = cheerio.load(html);
+  const navs = $('nav').toArray();
+  const tocNav = navs.find(nav => ($(nav).attr('epub:type') || '').split(/\s+/).includes('toc')) || navs[0];
+  if (!tocNav) return [];
+
+  const points: EpubNavPoint[] = [];
+
+  const walk = (list: cheerio.Cheerio, level: number): void => {
+    list.children('li').each((_, li) => {
+      const $li = $(li);
+      const $link = $li.children('a, span').first();
+      const title = $link.text().replace(/\s+/g, ' ').trim();
+      const href = $link.attr('href');
+      const resolved = href ? resolveEpubPath(navHref, href) : null;
+
+      if (title && resolved) {
+        const fragment = href && href.includes('#') ? `#${href.split('#')[1]}` : '';
+        points.push({ title, href: resolved + fragment, level });
+      }
+
+      const $nested = $li.children('ol, ul').first();
+      if ($nested.length > 0) {
+        walk($nested, level + 1);
+      }
+    });
+  };
+
+  walk($(tocNav).children('ol, ul').first(), 1);
+  return points;
+}
+
+/**
+ * EPUB2のNCX (toc.ncx) を解析
+ * @param xml - NCXの内容
+ * @param ncxHref - NCXのZIPルートからのパス
+ * @returns 階層レベル付きの目次エントリ
+ */
+export function parseNcx(xml: string, ncxHref: string): EpubNavPoint[] {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const points: EpubNavPoint[] = [];
+
+  const walk = (parent: cheerio.Cheerio, level: number): void => {
+    parent.children('navPoint').each((_, np) => {
+      const $np = $(np);
+      const title = $np.children('navLabel').first().find('text').first().text().replace(/\s+/g, ' ').trim();
+      const src = $np.children('content').first().attr('src');
+      const resolved = src ? resolveEpubPath(ncxHref, src) : null;
+
+      if (title && resolved) {
+        const fragment = src && src.includes('#') ? `#${src.split('#')[1]}` : '';
+        points.push({ title, href: resolved + fragment, level });
+      }
+
+      walk($np, level + 1);
+    });
+  };
+
+  walk($('navMap').first(), 1);
+  return points;
+}
+
+/**
+ * 章のXHTMLからbodyを取り出し、画像などのパスを media/ 配下に書き換える
+ * @param xhtml - 章ファイルの内容
+ * @param chapterHref - 章ファイルのZIPルートからのパス
+ * @returns 書き換え後のbody HTML
+ */
+export function extractChapterBody(xhtml: string, chapterHref: string): string {
+  const $ = cheerio.load(xhtml);
+  $('script').remove();
+
+  const toMediaPath = (value: string | undefined): string | null => {
+    if (!value) return null;
+    const resolved = resolveEpubPath(chapterHref, value);
+    return resolved ? `media/${resolved}` : null;
+  };
+
+  $('img[src], video[src], audio[src], source[src]').each((_, el) => {
+    const mediaPath = toMediaPath($(el).attr('src'));
+    if (mediaPath) $(el).attr('src', mediaPath);
+  });
+
+  $('image').each((_, el) => {
+    for (const attr of ['href', 'xlink:href']) {
+      const mediaPath = toMediaPath($(el).attr(attr));
+      if (mediaPath) $(el).attr(attr, mediaPath);
+    }
+  });
+
+  return ($('body').html() || '').trim();
+}
+
+/**
+ * 章のidを本全体で一意にする（章ごとに c<章番号>- を付ける）
+ * 章をまたいで同じid（fn1 など）が使われていても、リンクと脚注が別の章を指さないようにする
+ * @param page - 章の番号
+ * @param id - 章ファイル内のid
+ * @returns ページ内で使うid
+ */
+export function chapterAnchor(page: number, id: string): string {
+  return `c${page}-${id}`;
+}
+
+// リンクの#以降をidとして読む
+function decodeFragment(fragment: string): string {
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+}
+
+/**
+ * 章内のidに章番号を付け、章ファイルへのリンクをリーダー内のページ移動リンクに書き換える
+ * <a href="ch2.xhtml#sec"> → <a href="#c2-sec" data-book-page="2">
+ * <a href="#fn1">（章1内） → <a href="#c1-fn1" data-book-page="1">
+ * @param body - 章のbody HTML
+ * @param chapterHref - 章ファイルのZIPルートからのパス
+ * @param pageByHref - 章ファイルのパス → 章の番号
+ * @returns 書き換え後のbody HTML（本の外・spine外のファイルへのリンクはそのまま）
+ */
+export function rewriteChapterLinks(body: string, chapterHref: string, pageByHref: Map<string, number>): string {
+  const $ = cheerio.load(body);
+  const ownPage = pageByHref.get(chapterHref);
+  if (!ownPage) return body;
+
+  // インラインSVG内のid（グラデーション等）は url(#...) で参照されるので変えない
+  $('[id], a[name]').filter((_, el) => $(el).closest('svg').length === 0).each((_, el) => {
+    const $el = $(el);
+    const id = $el.attr('id');
+    if (id) $el.attr('id', chapterAnchor(ownPage, id));
+    const name = $el.is('a') ? $el.attr('name') : undefined;
+    if (name) $el.attr('name', chapterAnchor(ownPage, name));
+  });
+
+  $('a[href]').each((_, el) => {
+    const href = $(el).attr('href') || '';
+    const hashIndex = href.indexOf('#');
+    const anchor = hashIndex >= 0 ? decodeFragment(href.slice(hashIndex + 1)) : '';
+    if (href.startsWith('#') && !anchor) return;
+
+    let page: number | undefined = ownPage;
+    if (!href.startsWith('#')) {
+      const target = resolveEpubPath(chapterHref, href);
+      page = target ? pageByHref.get(target) : undefined;
+    }
+    if (!page) return;
+
+    $(el).attr('href', `#${anchor ? chapterAnchor(page, anchor) : ''}`);
+    $(el).attr('data-book-page', String(page));
+  });
+  return ($('body').html() || '').trim();
+}
+
+// 本文テキストも画像もない章（空の区切りページ等）はページにしない
+function isEmptyChapter(body: string): boolean {
+  const $ = cheerio.load(body);
+  return $.root().text().trim() === '' && $('img, svg, image, video, audio').length === 0;
+}
+
+function readZipText(zip: AdmZip, entryPath: string): string | null {
+  const entry = zip.getEntry(entryPath);
+  return entry && !entry.isDirectory ? entry.getData().toString('utf8') : null;
+}
+
+// container.xml → OPF の順に辿って package document を読む
+function openPackage(zip: AdmZip): EpubPackage {
+  const containerXml = readZipText(zip, 'META-INF/container.xml');
+  if (!containerXml) {
+    throw new Error('Invalid EPUB: META-INF/container.xml not found');
+  }
+
+  const opfPath = parseContainerXml(containerXml);
+  const opfXml = opfPath ? readZipText(zip, opfPath) : null;
+  if (!opfPath || !opfXml) {
+    throw new Error('Invalid EPUB: package document not found');
+  }
+
+  return parseOpf(opfXml, opfPath);
+}
+
+/**
+ * EPUBの書誌情報だけを読み込む
+ * @param source - EPUBファイルのパスまたは内容
+ * @returns 書誌情報、OPFが読めない場合はnull
+ */
+export function readEpubMetadata(source: string | Buffer): EpubMetadata | null {
+  try {
+    return openPackage(new AdmZip(source)).metadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * EPUBを読み込み、spine順の章と目次に変換
+ * @param source - EPUBファイルのパスまたは内容
+ * @returns 章のbody HTML、ページ番号付き目次、メディアファイル
+ */
+export function readEpub(source: string | Buffer): EpubConversion {
+  const zip = new AdmZip(source);
+  const readText = (entryPath: string): string | null => readZipText(zip, entryPath);
+  const pkg = openPackage(zip);
+
+  // Build one page per spine item, remembering which page each file landed on
+  const chapters: string[] = [];
+  const chapterHrefs: string[] = [];
+  const pageByHref = new Map<string, number>();
+  const pendingHrefs: string[] = [];
+
+  for (const itemref of pkg.spine) {
+    const item = pkg.manifest.get(itemref.idref);
+    if (!item || !/x?html/.test(item.mediaType)) continue;
+
+    const xhtml = readText(item.href);
+    if (xhtml === null) continue;
+
+    const body = extractChapterBody(xhtml, item.href);
+    pendingHrefs.push(item.href);
+    if (isEmptyChapter(body)) continue;
+
+    chapters.push(body);
+    chapterHrefs.push(item.href);
+    // Empty chapters point at the next real page
+    for (const href of pendingHrefs) {
+      pageByHref.set(href, chapters.length);
+    }
+    pendingHrefs.length = 0;
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('Invalid EPUB: spine has no readable content');
+  }
+
+  for (const href of pendingHrefs) {
+    pageByHref.set(href, chapters.length);
+  }
+
+  // Ids get a per-chapter prefix and links between chapter files become in-book page links
+  chapters.forEach((body, index) => {
+    chapters[index] = rewriteChapterLinks(body, chapterHrefs[index], pageByHref);
+  });
+
+  // Prefer the EPUB3 nav document, then the EPUB2 NCX
+  let navPoints: EpubNavPoint[] = [];
+  const navXhtml = pkg.navHref ? readText(pkg.navHref) : null;
+  if (navXhtml && pkg.navHref) {
+    navPoints = parseNavDocument(navXhtml, pkg.navHref);
+  }
+  if (navPoints.length === 0 && pkg.ncxHref) {
+    const ncxXml = readText(pkg.ncxHref);
+    if (ncxXml) navPoints = parseNcx(ncxXml, pkg.ncxHref);
+  }
+
+  const toc: EpubTocItem[] = [];
+  for (const point of navPoints) {
+    const [href, anchor] = point.href.split('#');
+    const page = pageByHref.get(href);
+    if (page) {
+      toc.push(anchor
+        ? { page, level: point.level, title: point.title, anchor: chapterAnchor(page, decodeFragment(anchor)) }
+        : { page, level: point.level, title: point.title });
+    }
+  }
+
+  const media: EpubMediaFile[] = [];
+  for (const item of pkg.manifest.values()) {
+    if (!MEDIA_TYPE_PREFIXES.some(prefix => item.mediaType.startsWith(prefix))) continue;
+    const entry = zip.getEntry(item.href);
+    if (entry && !entry.isDirectory) {
+      media.push({ path: item.href, data: entry.getData() });
+    }
+  }
+
+  return { pkg, chapters, toc, media };
+}
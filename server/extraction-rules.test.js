@@ -0,0 +1,95 @@
+/**
+ * Extraction Rule Tests
+ * t-wada TDD style: サイト別の本文抽出ルール
+ */
+import { describe, expect, it } from 'vitest'
+import { findExtractionRule, isValidSelector, matchesHostPattern, parseExtractionRuleInput } from './extraction-rules'
+
+const rule = (id, host_pattern) => ({
+  id, host_pattern, content_selector: null, remove_selectors: [], next_page_selector: null
+})
+
+describe('matchesHostPattern', () => {
+  it('should match the host and its subdomains', () => {
+    expect(matchesHostPattern('example.com', 'example.com')).toBe(true)
+    expect(matchesHostPattern('example.com', 'www.example.com')).toBe(true)
+    expect(matchesHostPattern('Example.com', 'BLOG.EXAMPLE.COM')).toBe(true)
+  })
+
+  it('should not match other hosts that merely end with the same text', () => {
+    expect(matchesHostPattern('example.com', 'badexample.com')).toBe(false)
+    expect(matchesHostPattern('example.com', 'example.com.evil.test')).toBe(false)
+  })
+
+  it('should treat * as a wildcard within the host name', () => {
+    expect(matchesHostPattern('*.hatenablog.com', 'foo.hatenablog.com')).toBe(true)
+    expect(matchesHostPattern('*.hatenablog.com', 'hatenablog.com')).toBe(false)
+    expect(matchesHostPattern('blog.*.jp', 'blog.example.jp')).toBe(true)
+    expect(matchesHostPattern('blog.*.jp', 'news.example.jp')).toBe(false)
+  })
+
+  it('should not match with an empty pattern', () => {
+    expect(matchesHostPattern('', 'example.com')).toBe(false)
+  })
+})
+
+describe('findExtractionRule', () => {
+  const rules = [rule('generic', '*.example.com'), rule('specific', 'news.example.com'), rule('other', 'other.org')]
+
+  it('should pick the most specific matching rule', () => {
+    expect(findExtractionRule(rules, 'https://news.example.com/a/1').id).toBe('specific')
+    expect(findExtractionRule(rules, 'https://blog.example.com/a/1').id).toBe('generic')
+  })
+
+  it('should return null when nothing matches or the URL is invalid', () => {
+    expect(findExtractionRule(rules, 'https://example.net/')).toBeNull()
+    expect(findExtractionRule(rules, 'not a url')).toBeNull()
+  })
+})
+
+describe('isValidSelector', () => {
+  it('should accept selectors cheerio can parse', () => {
+    expect(isValidSelector('.post-body')).toBe(true)
+    expect(isValidSelector('#main article > .content, .entry')).toBe(true)
+  })
+
+  it('should reject broken selectors', () => {
+    expect(isValidSelector('a[')).toBe(false)
+  })
+})
+
+describe('parseExtractionRuleInput', () => {
+  it('should trim values and accept newline separated remove selectors', () => {
+    const result = parseExtractionRuleInput({
+      host_pattern: ' News.Example.com ',
+      content_selector: ' .article-body ',
+      remove_selectors: '.ad\n\n  .related  \n',
+      next_page_selector: ''
+    })
+
+    expect(result).toEqual({
+      rule: {
+        host_pattern: 'news.example.com',
+        content_selector: '.article-body',
+        remove_selectors: ['.ad', '.related'],
+        next_page_selector: null
+      }
+    })
+  })
+
+  it('should accept remove selectors as an array', () => {
+    const result = parseExtractionRuleInput({ host_pattern: 'example.com', remove_selectors: ['.ad', ' ', '.share'] })
+    expect(result.rule.remove_selectors).toEqual(['.ad', '.share'])
+  })
+
+  it('should require a bare host pattern', () => {
+    expect(parseExtractionRuleInput({})).toHaveProperty('error')
+    expect(parseExtractionRuleInput({ host_pattern: 'https://example.com/' })).toHaveProperty('error')
+    expect(parseExtractionRuleInput({ host_pattern: 'a[' })).toHaveProperty('error')
+  })
+
+  it('should report invalid selectors', () => {
+    expect(parseExtractionRuleInput({ host_pattern: 'example.com', next_page_selector: 'a[' }))
+      .toEqual({ error: 'Invalid selector: a[' })
+  })
+})
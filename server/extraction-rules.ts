@@ -0,0 +1,93 @@
+/**
+ * Extraction rule utility functions
+ * サイトごとの本文抽出ルール（本文セレクタ・除去セレクタ・次ページセレクタ）をURLに当てはめる
+ */
+import * as cheerio from 'cheerio';
+import type { ExtractionRule, ExtractionRuleInput } from './types';
+
+/**
+ * ホスト名がパターンに一致するか
+ * "example.com" はサブドメイン（www.example.com 等）にも一致し、"*" は任意の文字列に一致する
+ * @param pattern - ホスト名のパターン（例: "example.com", "*.hatenablog.com", "blog.*.jp"）
+ * @param hostname - URLのホスト名
+ * @returns 一致すればtrue
+ */
+export function matchesHostPattern(pattern: string, hostname: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase().replace(/\.$/, '');
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!normalizedPattern) return false;
+
+  if (normalizedPattern.includes('*')) {
+    const source = normalizedPattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*');
+    return new RegExp(`^${source}$`).test(host);
+  }
+  return host === normalizedPattern || host.endsWith(`.${normalizedPattern}`);
+}
+
+/**
+ * URLに当てはまるルールを選ぶ（複数一致する場合はワイルドカードを除いて最も長いパターン）
+ * @param rules - 登録済みのルール
+ * @param url - 保存するページのURL
+ * @returns 一致したルール（なければnull）
+ */
+export function findExtractionRule(rules: ExtractionRule[], url: string): ExtractionRule | null {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return null;
+  }
+
+  const specificity = (rule: ExtractionRule) => rule.host_pattern.replace(/\*/g, '').length;
+  return rules
+    .filter(rule => matchesHostPattern(rule.host_pattern, hostname))
+    .sort((a, b) => specificity(b) - specificity(a))[0] || null;
+}
+
+/**
+ * CSSセレクタとして解釈できるか
+ * @param selector - セレクタ
+ * @returns 解釈できればtrue
+ */
+export function isValidSelector(selector: string): boolean {
+  try {
+    cheerio.load('').root().find(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * APIから受け取ったルールを検証して整える
+ * @param body - リクエストボディ
+ * @returns 整えたルール、またはエラーメッセージ
+ */
+export function parseExtractionRuleInput(body: Record<string, unknown>): { rule: ExtractionRuleInput } | { error: string } {
+  const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+  const hostPattern = text(body.host_pattern).toLowerCase();
+  if (!/^[a-z0-9*._-]+$/.test(hostPattern)) {
+    return { error: 'host_pattern must be a hostname such as "example.com" or "*.example.com"' };
+  }
+
+  // 除去セレクタは配列でも改行区切りの文字列でも受け付ける
+  const removeSelectors = (Array.isArray(body.remove_selectors)
+    ? body.remove_selectors.map(text)
+    : text(body.remove_selectors).split('\n').map(line => line.trim())
+  ).filter(Boolean);
+
+  const rule: ExtractionRuleInput = {
+    host_pattern: hostPattern,
+    content_selector: text(body.content_selector) || null,
+    remove_selectors: removeSelectors,
+    next_page_selector: text(body.next_page_selector) || null
+  };
+
+  for (const selector of [rule.content_selector, rule.next_page_selector, ...rule.remove_selectors]) {
+    if (selector && !isValidSelector(selector)) {
+      return { error: `Invalid selector: ${selector}` };
+    }
+  }
+  return { rule };
+}
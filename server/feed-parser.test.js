@@ -0,0 +1,128 @@
+/**
+ * Feed Parser Tests
+ * t-wada TDD style: RSS / Atom フィードの解析と購読設定の検証
+ */
+import { describe, expect, it } from 'vitest'
+import { parseFeed, parseFeedInput } from './feed-parser'
+
+describe('parseFeed', () => {
+  it('should read RSS 2.0 items newest first', () => {
+    const xml = `<?xml version="1.0"?>
+      <rss version="2.0"><channel>
+        <title>Example Blog</title>
+        <link>https://example.com/</link>
+        <item>
+          <title>Older</title>
+          <link>https://example.com/older</link>
+          <guid>https://example.com/older</guid>
+          <pubDate>Mon, 01 Jan 2024 09:00:00 GMT</pubDate>
+        </item>
+        <item>
+          <title>Newer</title>
+          <link>https://example.com/newer</link>
+          <guid isPermaLink="false">post-2</guid>
+          <pubDate>Tue, 02 Jan 2024 09:00:00 GMT</pubDate>
+        </item>
+      </channel></rss>`
+
+    expect(parseFeed(xml, 'https://example.com/feed.xml')).toEqual({
+      title: 'Example Blog',
+      entries: [
+        { id: 'post-2', url: 'https://example.com/newer', title: 'Newer', published: '2024-01-02T09:00:00.000Z' },
+        { id: 'https://example.com/older', url: 'https://example.com/older', title: 'Older', published: '2024-01-01T09:00:00.000Z' }
+      ]
+    })
+  })
+
+  it('should read Atom entries with their alternate link', () => {
+    const xml = `<feed xmlns="http://www.w3.org/2005/Atom">
+        <title>Atom Site</title>
+        <entry>
+          <id>tag:example.com,2024:1</id>
+          <title>First</title>
+          <link rel="replies" href="/first/comments"/>
+          <link href="/first"/>
+          <updated>2024-03-01T00:00:00Z</updated>
+        </entry>
+      </feed>`
+
+    expect(parseFeed(xml, 'https://example.com/atom.xml')).toEqual({
+      title: 'Atom Site',
+      entries: [
+        { id: 'tag:example.com,2024:1', url: 'https://example.com/first', title: 'First', published: '2024-03-01T00:00:00.000Z' }
+      ]
+    })
+  })
+
+  it('should read RSS 1.0 items next to the channel', () => {
+    const xml = `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <channel rdf:about="https://example.jp/"><title>RDF Site</title></channel>
+        <item rdf:about="https://example.jp/entry/1">
+          <title>記事1</title>
+          <link>https://example.jp/entry/1</link>
+          <dc:date>2024-05-01T12:00:00+09:00</dc:date>
+        </item>
+      </rdf:RDF>`
+
+    const feed = parseFeed(xml, 'https://example.jp/rss')
+
+    expect(feed.title).toBe('RDF Site')
+    expect(feed.entries).toEqual([
+      { id: 'https://example.jp/entry/1', url: 'https://example.jp/entry/1', title: '記事1', published: '2024-05-01T03:00:00.000Z' }
+    ])
+  })
+
+  it('should keep document order when some entries have no date', () => {
+    const xml = `<rss><channel><title>T</title>
+        <item><link>https://example.com/a</link></item>
+        <item><link>https://example.com/b</link><pubDate>Tue, 02 Jan 2024 09:00:00 GMT</pubDate></item>
+      </channel></rss>`
+
+    expect(parseFeed(xml, 'https://example.com/feed').entries.map(e => e.url))
+      .toEqual(['https://example.com/a', 'https://example.com/b'])
+  })
+
+  it('should drop entries without an http link', () => {
+    const xml = `<rss><channel><title>T</title>
+        <item><title>no link</title></item>
+        <item><link>mailto:someone@example.com</link></item>
+      </channel></rss>`
+
+    expect(parseFeed(xml, 'https://example.com/feed').entries).toEqual([])
+  })
+
+  it('should reject documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body>Not a feed</body></html>', 'https://example.com/'))
+      .toThrow('Not an RSS or Atom feed')
+  })
+})
+
+describe('parseFeedInput', () => {
+  it('should trim values and apply defaults', () => {
+    expect(parseFeedInput({ url: ' https://example.com/feed ', default_tag: ' news ' })).toEqual({
+      feed: {
+        url: 'https://example.com/feed',
+        title: null,
+        default_tag: 'news',
+        entry_limit: 10,
+        enabled: true
+      }
+    })
+  })
+
+  it('should accept an entry limit and the enabled flag', () => {
+    const result = parseFeedInput({ url: 'https://example.com/feed', entry_limit: '3', enabled: false })
+    expect(result.feed).toMatchObject({ entry_limit: 3, enabled: false })
+  })
+
+  it('should require an http(s) URL', () => {
+    expect(parseFeedInput({})).toHaveProperty('error')
+    expect(parseFeedInput({ url: 'ftp://example.com/feed' })).toHaveProperty('error')
+  })
+
+  it('should reject entry limits out of range', () => {
+    expect(parseFeedInput({ url: 'https://example.com/feed', entry_limit: 0 })).toHaveProperty('error')
+    expect(parseFeedInput({ url: 'https://example.com/feed', entry_limit: 1.5 })).toHaveProperty('error')
+    expect(parseFeedInput({ url: 'https://example.com/feed', entry_limit: 101 })).toHaveProperty('error')
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Feed parser utility functions
+ * RSS 2.0 / RSS 1.0 (RDF) / Atom のフィードから記事の一覧を取り出す
+ */
+import * as cheerio from 'cheerio';
+import { isValidHttpUrl, resolveUrl } from './multipage-utils';
+import type { FeedEntry, FeedInput } from './types';
+
+export const DEFAULT_ENTRY_LIMIT = 10;
+export const MAX_ENTRY_LIMIT = 100;
+
+export interface ParsedFeed {
+  title: string | null;
+  entries: FeedEntry[];
+}
+
+/**
+ * 日付文字列をISO形式にする
+ * @param value - RFC 822（RSS）やISO 8601（Atom）の日付
+ * @returns ISO形式の日時、解釈できなければnull
+ */
+function toIsoDate(value: string): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * フィードのXMLを解析する
+ * 記事は公開日時の新しい順（日時のない記事があれば文書順のまま）に並べる
+ * @param xml - フィードのXML
+ * @param feedUrl - フィードのURL（相対リンクの解決に使う）
+ * @returns フィードのタイトルと記事の一覧
+ * @throws RSS / Atom でない場合
+ */
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const root = $.root().children().first();
+  const rootName = (root.get(0) as cheerio.TagElement | undefined)?.tagName?.toLowerCase() || '';
+
+  // 名前空間付きの要素名（dc:date など）はセレクタ用にエスケープする
+  const childText = (el: cheerio.Element | cheerio.Cheerio, name: string): string =>
+    $(el).children(name.replace(':', '\\:')).first().text().replace(/\s+/g, ' ').trim();
+
+  let title: string | null;
+  let entries: FeedEntry[];
+
+  if (rootName === 'feed') {
+    // Atom
+    title = childText(root, 'title') || null;
+    entries = root.children('entry').toArray().map(el => {
+      const links = $(el).children('link').toArray();
+      const alternate = links.find(link => ['', 'alternate'].includes($(link).attr('rel') || '')) || links[0];
+      const href = alternate ? $(alternate).attr('href') || '' : '';
+      const url = href ? resolveUrl(href, feedUrl) : null;
+      return {
+        id: childText(el, 'id') || url || '',
+        url: url || '',
+        title: childText(el, 'title'),
+        published: toIsoDate(childText(el, 'published') || childText(el, 'updated'))
+      };
+    });
+  } else if (rootName === 'rss' || rootName === 'rdf:rdf') {
+    // RSS 2.0（channel内のitem）と RSS 1.0（channelと並ぶitem）
+    title = childText(root.find('channel').first(), 'title') || null;
+    entries = root.find('item').toArray().map(el => {
+      const guid = childText(el, 'guid');
+      const guidIsLink = $(el).children('guid').attr('isPermaLink') !== 'false' && isValidHttpUrl(guid);
+      const link = childText(el, 'link') || (guidIsLink ? guid : '');
+      const url = link ? resolveUrl(link, feedUrl) : null;
+      return {
+        id: guid || $(el).attr('rdf:about') || url || '',
+        url: url || '',
+        title: childText(el, 'title'),
+        published: toIsoDate(childText(el, 'pubDate') || childText(el, 'dc:date'))
+      };
+    });
+  } else {
+    throw new Error('Not an RSS or Atom feed');
+  }
+
+  entries = entries.filter(entry => entry.id && isValidHttpUrl(entry.url));
+  if (entries.every(entry => entry.published)) {
+    entries.sort((a, b) => b.published!.localeCompare(a.published!));
+  }
+  return { title, entries };
+}
+
+/**
+ * APIから受け取った購読設定を検証して整える
+ * @param body - リクエストボディ
+ * @returns 整えた購読設定、またはエラーメッセージ
+ */
+export function parseFeedInput(body: Record<string, unknown>): { feed: FeedInput } | { error: string } {
+  const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+  const url = text(body.url);
+  if (!isValidHttpUrl(url)) {
+    return { error: 'url must be an http(s) URL' };
+  }
+
+  let entryLimit = DEFAULT_ENTRY_LIMIT;
+  if (body.entry_limit !== undefined && body.entry_limit !== null && body.entry_limit !== '') {
+    entryLimit = Number(body.entry_limit);
+    if (!Number.isInteger(entryLimit) || entryLimit < 1 || entryLimit > MAX_ENTRY_LIMIT) {
+      return { error: `entry_limit must be an integer between 1 and ${MAX_ENTRY_LIMIT}` };
+    }
+  }
+
+  return {
+    feed: {
+      url,
+      title: text(body.title) || null,
+      default_tag: text(body.default_tag) || null,
+      entry_limit: entryLimit,
+      enabled: body.enabled === undefined ? true : Boolean(body.enabled)
+    }
+  };
+}
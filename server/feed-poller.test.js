@@ -0,0 +1,178 @@
+/**
+ * Feed Poller Tests
+ * t-wada TDD style: フィードの新着記事の保存と上限
+ */
+import http from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { createFeedPoller } from './feed-poller'
+
+// フィクスチャのフィードを返すHTTPサーバー
+let server
+let baseUrl
+let feedItems
+let feedRequests
+
+function rssXml(items) {
+  return `<?xml version="1.0"?><rss version="2.0"><channel><title>Fixture Feed</title>${items.map(n => `
+    <item>
+      <title>Post ${n}</title>
+      <link>${baseUrl}/posts/${n}</link>
+      <guid>post-${n}</guid>
+      <pubDate>${new Date(Date.UTC(2024, 0, n)).toUTCString()}</pubDate>
+    </item>`).join('')}
+  </channel></rss>`
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === '/feed.xml') {
+      feedRequests++
+      res.writeHead(200, { 'Content-Type': 'application/rss+xml' })
+      res.end(rssXml(feedItems))
+    } else {
+      res.writeHead(404)
+      res.end('Not found')
+    }
+  })
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${server.address().port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  feedItems = [1, 2, 3]
+  feedRequests = 0
+})
+
+const feed = (overrides = {}) => ({
+  id: 'feed-1',
+  url: `${baseUrl}/feed.xml`,
+  title: null,
+  default_tag: null,
+  entry_limit: 10,
+  enabled: true,
+  last_checked_at: null,
+  last_error: null,
+  ...overrides
+})
+
+// DBと保存処理の代わりに呼び出しを記録する
+function createDeps({ feeds = [], failUrls = [] } = {}) {
+  const known = new Map()
+  const saved = []
+  const polls = []
+  return {
+    known,
+    saved,
+    polls,
+    listFeeds: () => feeds,
+    isKnownEntry: (feedId, entryId) => known.has(`${feedId}:${entryId}`),
+    saveEntry: async (f, entry) => {
+      if (failUrls.includes(entry.url)) throw new Error('fetch failed')
+      saved.push(entry.url)
+      return `book-${entry.id}`
+    },
+    markEntry: (feedId, entry, bookId) => known.set(`${feedId}:${entry.id}`, bookId),
+    recordPoll: (feedId, result) => polls.push({ feedId, ...result })
+  }
+}
+
+describe('createFeedPoller', () => {
+  it('should save new entries newest first and record the feed title', async () => {
+    const deps = createDeps()
+    const poller = createFeedPoller(deps)
+
+    const result = await poller.pollFeed(feed())
+
+    expect(result).toEqual({ feedId: 'feed-1', saved: ['book-post-3', 'book-post-2', 'book-post-1'], skipped: 0, errors: [] })
+    expect(deps.saved).toEqual([`${baseUrl}/posts/3`, `${baseUrl}/posts/2`, `${baseUrl}/posts/1`])
+    expect(deps.polls).toEqual([{ feedId: 'feed-1', title: 'Fixture Feed', error: null }])
+  })
+
+  it('should only save entries it has not seen before', async () => {
+    const deps = createDeps()
+    const poller = createFeedPoller(deps)
+    await poller.pollFeed(feed())
+
+    feedItems = [1, 2, 3, 4]
+    const result = await poller.pollFeed(feed())
+
+    expect(result.saved).toEqual(['book-post-4'])
+    expect(deps.saved).toHaveLength(4)
+  })
+
+  it('should save at most entry_limit entries and skip the older ones for good', async () => {
+    const deps = createDeps()
+    const poller = createFeedPoller(deps)
+
+    const first = await poller.pollFeed(feed({ entry_limit: 2 }))
+    const second = await poller.pollFeed(feed({ entry_limit: 2 }))
+
+    expect(first).toMatchObject({ saved: ['book-post-3', 'book-post-2'], skipped: 1 })
+    expect(deps.known.get('feed-1:post-1')).toBeNull()
+    expect(second).toMatchObject({ saved: [], skipped: 0 })
+  })
+
+  it('should retry entries that failed to save on the next poll', async () => {
+    const deps = createDeps({ failUrls: [`${baseUrl}/posts/2`] })
+    const poller = createFeedPoller(deps)
+
+    const result = await poller.pollFeed(feed())
+
+    expect(result.saved).toEqual(['book-post-3', 'book-post-1'])
+    expect(result.errors).toEqual([`${baseUrl}/posts/2: fetch failed`])
+    expect(deps.known.has('feed-1:post-2')).toBe(false)
+    expect(deps.polls[0].error).toBe(`${baseUrl}/posts/2: fetch failed`)
+  })
+
+  it('should record an error when the feed cannot be fetched', async () => {
+    const deps = createDeps()
+    const poller = createFeedPoller(deps)
+
+    const result = await poller.pollFeed(feed({ url: `${baseUrl}/missing.xml` }))
+
+    expect(result).toEqual({ feedId: 'feed-1', saved: [], skipped: 0, errors: ['Failed to fetch feed: 404 Not Found'] })
+    expect(deps.polls).toEqual([{ feedId: 'feed-1', title: null, error: 'Failed to fetch feed: 404 Not Found' }])
+  })
+
+  it('should share a running poll of the same feed', async () => {
+    const deps = createDeps()
+    const poller = createFeedPoller(deps)
+
+    const [a, b] = await Promise.all([poller.pollFeed(feed()), poller.pollFeed(feed())])
+
+    expect(a).toBe(b)
+    expect(feedRequests).toBe(1)
+    expect(deps.saved).toHaveLength(3)
+  })
+
+  it('should poll different feeds one after another', async () => {
+    const deps = createDeps()
+    const events = []
+    const saveEntry = deps.saveEntry
+    deps.saveEntry = async (f, entry) => {
+      events.push(`start ${f.id}`)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      events.push(`end ${f.id}`)
+      return saveEntry(f, entry)
+    }
+    const poller = createFeedPoller(deps)
+    feedItems = [1]
+
+    await Promise.all([poller.pollFeed(feed()), poller.pollFeed(feed({ id: 'feed-2' }))])
+
+    expect(events).toEqual(['start feed-1', 'end feed-1', 'start feed-2', 'end feed-2'])
+  })
+
+  it('should poll only enabled feeds', async () => {
+    const deps = createDeps({ feeds: [feed(), feed({ id: 'feed-2', enabled: false })] })
+    const poller = createFeedPoller(deps)
+
+    const results = await poller.pollAll()
+
+    expect(results.map(r => r.feedId)).toEqual(['feed-1'])
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Feed poller
+ * 購読中のRSS/Atomフィードを定期的に取得し、新着記事を保存する
+ */
+import { parseFeed } from './feed-parser';
+import type { Feed, FeedEntry, FeedPollResult } from './types';
+
+export interface FeedPollerDeps {
+  // 購読中のフィード
+  listFeeds(): Feed[];
+  // 取得済みの記事か
+  isKnownEntry(feedId: string, entryId: string): boolean;
+  // 記事を保存して本のIDを返す
+  saveEntry(feed: Feed, entry: FeedEntry): Promise<string>;
+  // 記事を取得済みとして記録する（上限を超えて保存しなかった記事はbookIdがnull）
+  markEntry(feedId: string, entry: FeedEntry, bookId: string | null): void;
+  // 取得結果を記録する（フィードのタイトルとエラー）
+  recordPoll(feedId: string, result: { title: string | null; error: string | null }): void;
+}
+
+export interface FeedPollerOptions {
+  // 定期取得の間隔（ミリ秒）、0なら定期取得しない
+  intervalMs?: number;
+  // フィード取得のタイムアウト（ミリ秒）
+  timeoutMs?: number;
+}
+
+export interface FeedPoller {
+  pollFeed(feed: Feed): Promise<FeedPollResult>;
+  pollAll(): Promise<FeedPollResult[]>;
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * フィードのXMLを取得
+ * @param url - フィードのURL
+ * @param timeoutMs - タイムアウト（ミリ秒）
+ * @returns レスポンスの本文
+ */
+async function fetchFeed(url: string, timeoutMs: number): Promise<string> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; EPUB Viewer feed reader)',
+        'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.8'
+      }
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch feed: ${response.status} ${response.statusText}`);
+    }
+    return await response.text();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * フィードの定期取得を作成
+ * 1回の取得で保存するのは新着のうち新しい順に entry_limit 件まで。残りは保存せずに取得済みとする
+ * 保存に失敗した記事は取得済みにせず、次回の取得で再び保存を試みる
+ * @param deps - DB・保存処理とのつなぎ
+ * @param options - 取得間隔とタイムアウト
+ * @returns pollFeed / pollAll / start / stop を持つポーラー
+ */
+export function createFeedPoller(
+  deps: FeedPollerDeps,
+  { intervalMs = 0, timeoutMs = 30000 }: FeedPollerOptions = {}
+): FeedPoller {
+  const inFlight = new Map<string, Promise<FeedPollResult>>();
+  // 別のフィードに同じ記事があっても二重に保存しないよう、取得は1つずつ順に行う
+  let chain: Promise<unknown> = Promise.resolve();
+  let timer: NodeJS.Timeout | null = null;
+  let pollingAll = false;
+
+  async function run(feed: Feed): Promise<FeedPollResult> {
+    const result: FeedPollResult = { feedId: feed.id, saved: [], skipped: 0, errors: [] };
+
+    let parsed;
+    try {
+      parsed = parseFeed(await fetchFeed(feed.url, timeoutMs), feed.url);
+    } catch (error) {
+      const message = (error as Error).message || String(error);
+      deps.recordPoll(feed.id, { title: null, error: message });
+      result.errors.push(message);
+      return result;
+    }
+
+    // 同じ記事がフィード内に重複していても1回だけ扱う
+    const seen = new Set<string>();
+    const fresh = parsed.entries.filter(entry => {
+      if (seen.has(entry.id) || deps.isKnownEntry(feed.id, entry.id)) return false;
+      seen.add(entry.id);
+      return true;
+    });
+
+    for (const entry of fresh.slice(0, feed.entry_limit)) {
+      try {
+        const bookId = await deps.saveEntry(feed, entry);
+        deps.markEntry(feed.id, entry, bookId);
+        result.saved.push(bookId);
+      } catch (error) {
+        result.errors.push(`${entry.url}: ${(error as Error).message || String(error)}`);
+      }
+    }
+    for (const entry of fresh.slice(feed.entry_limit)) {
+      deps.markEntry(feed.id, entry, null);
+      result.skipped++;
+    }
+
+    deps.recordPoll(feed.id, { title: parsed.title, error: result.errors[0] ?? null });
+    return result;
+  }
+
+  // 同じフィードの取得が重なった場合は待機中・実行中の結果を共有する
+  function pollFeed(feed: Feed): Promise<FeedPollResult> {
+    const running = inFlight.get(feed.id);
+    if (running) return running;
+
+    const promise = chain.then(() => run(feed)).finally(() => inFlight.delete(feed.id));
+    chain = promise.catch(() => undefined);
+    inFlight.set(feed.id, promise);
+    return promise;
+  }
+
+  // 有効なフィードをすべて取得する
+  async function pollAll(): Promise<FeedPollResult[]> {
+    const results: FeedPollResult[] = [];
+    for (const feed of deps.listFeeds().filter(f => f.enabled)) {
+      results.push(await pollFeed(feed));
+    }
+    return results;
+  }
+
+  function start(): void {
+    if (timer || intervalMs <= 0) return;
+    timer = setInterval(() => {
+      if (pollingAll) return;
+      pollingAll = true;
+      pollAll()
+        .catch(error => console.error('Feed poll error:', error))
+        .finally(() => {
+          pollingAll = false;
+        });
+    }, intervalMs);
+    timer.unref();
+  }
+
+  function stop(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+  }
+
+  return { pollFeed, pollAll, start, stop };
+}
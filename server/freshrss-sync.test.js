@@ -0,0 +1,255 @@
+/**
+ * FreshRSS Sync Tests
+ * t-wada TDD style: Google Reader 互換APIからの取り込みと保存済みラベル
+ */
+import http from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { createFreshRssSync, greaderStreamIds, parseFreshRssSettingsInput } from './freshrss-sync'
+
+// FreshRSS の greader.php の代わりをするモックサーバー
+let server
+let apiUrl
+let items
+let editTagRequests
+let streamRequests
+
+const AUTH = 'alice/0123456789abcdef'
+const STARRED = 'user/-/state/com.google/starred'
+const SAVED = 'user/-/label/EPUB Viewer'
+
+const item = (n, categories = [STARRED]) => ({
+  id: `tag:google.com,2005:reader/item/000000000000000${n}`,
+  title: `Item ${n}`,
+  canonical: [{ href: `https://example.com/articles/${n}` }],
+  categories
+})
+
+function readBody(req) {
+  return new Promise(resolve => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => resolve(new URLSearchParams(data)))
+  })
+}
+
+beforeAll(async () => {
+  server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, 'http://localhost')
+    const path = url.pathname.replace(/^\/api\/greader\.php/, '')
+
+    if (path === '/accounts/ClientLogin') {
+      const body = await readBody(req)
+      if (body.get('Email') === 'alice' && body.get('Passwd') === 'secret') {
+        res.end(`SID=${AUTH}\nLSID=null\nAuth=${AUTH}\n`)
+      } else {
+        res.writeHead(401, 'Unauthorized')
+        res.end('Error=BadAuthentication')
+      }
+      return
+    }
+
+    if (req.headers.authorization !== `GoogleLogin auth=${AUTH}`) {
+      res.writeHead(401, 'Unauthorized')
+      res.end('Unauthorized!')
+      return
+    }
+
+    if (path.startsWith('/reader/api/0/stream/contents/')) {
+      const streamId = decodeURIComponent(path.slice('/reader/api/0/stream/contents/'.length))
+      streamRequests.push({ streamId, n: url.searchParams.get('n'), xt: url.searchParams.get('xt') })
+      const n = Number(url.searchParams.get('n'))
+      res.setHeader('Content-Type', 'application/json')
+      res.end(JSON.stringify({ items: items.filter(i => i.categories.includes(streamId)).slice(0, n) }))
+    } else if (path === '/reader/api/0/token') {
+      res.end('edit-token-123\n')
+    } else if (path === '/reader/api/0/edit-tag' && req.method === 'POST') {
+      const body = await readBody(req)
+      editTagRequests.push({ ids: body.getAll('i'), add: body.get('a'), token: body.get('T') })
+      res.end('OK')
+    } else {
+      res.writeHead(404, 'Not Found')
+      res.end()
+    }
+  })
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+  apiUrl = `http://127.0.0.1:${server.address().port}/api/greader.php`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  items = [item(1), item(2)]
+  editTagRequests = []
+  streamRequests = []
+})
+
+const settings = (overrides = {}) => ({
+  api_url: apiUrl,
+  username: 'alice',
+  api_password: 'secret',
+  import_starred: true,
+  import_labels: [],
+  saved_label: 'EPUB Viewer',
+  default_tag: null,
+  item_limit: 20,
+  enabled: true,
+  last_synced_at: null,
+  last_error: null,
+  ...overrides
+})
+
+// DBと保存処理の代わりに呼び出しを記録する
+function createDeps(current = settings(), { failUrls = [] } = {}) {
+  const imported = new Map()
+  const syncs = []
+  return {
+    imported,
+    syncs,
+    getSettings: () => current,
+    isImportedItem: id => imported.has(id),
+    saveItem: async (s, i) => {
+      if (failUrls.includes(i.url)) throw new Error('fetch failed')
+      return `book-${i.title}`
+    },
+    markImportedItem: (i, bookId) => imported.set(i.id, bookId),
+    recordSync: error => syncs.push(error)
+  }
+}
+
+describe('createFreshRssSync', () => {
+  it('should import starred items and label them as saved on FreshRSS', async () => {
+    const deps = createDeps()
+
+    const result = await createFreshRssSync(deps).syncNow()
+
+    expect(result).toEqual({ saved: ['book-Item 1', 'book-Item 2'], marked: 2, errors: [] })
+    expect(streamRequests).toEqual([{ streamId: STARRED, n: '20', xt: SAVED }])
+    expect(editTagRequests).toEqual([{ ids: [item(1).id, item(2).id], add: SAVED, token: 'edit-token-123' }])
+    expect(deps.syncs).toEqual([null])
+  })
+
+  it('should import labelled items and take each item once across streams', async () => {
+    items = [item(1, [STARRED, 'user/-/label/Read later']), item(3, ['user/-/label/Read later'])]
+    const deps = createDeps(settings({ import_labels: ['Read later'] }))
+
+    const result = await createFreshRssSync(deps).syncNow()
+
+    expect(streamRequests.map(r => r.streamId)).toEqual([STARRED, 'user/-/label/Read later'])
+    expect(result.saved).toEqual(['book-Item 1', 'book-Item 3'])
+  })
+
+  it('should skip items that already carry the saved label', async () => {
+    items = [item(1, [STARRED, SAVED]), item(2)]
+    const deps = createDeps()
+
+    const result = await createFreshRssSync(deps).syncNow()
+
+    expect(result.saved).toEqual(['book-Item 2'])
+    expect(editTagRequests[0].ids).toEqual([item(2).id])
+  })
+
+  it('should only label items imported earlier without saving them again', async () => {
+    const deps = createDeps()
+    deps.imported.set(item(1).id, 'book-old')
+
+    const result = await createFreshRssSync(deps).syncNow()
+
+    expect(result).toEqual({ saved: ['book-Item 2'], marked: 2, errors: [] })
+  })
+
+  it('should import at most item_limit items per sync', async () => {
+    items = [item(1), item(2), item(3)]
+    const deps = createDeps(settings({ item_limit: 2 }))
+
+    const result = await createFreshRssSync(deps).syncNow()
+
+    expect(streamRequests[0].n).toBe('2')
+    expect(result.saved).toHaveLength(2)
+  })
+
+  it('should leave items that failed to save unlabelled', async () => {
+    const deps = createDeps(settings(), { failUrls: ['https://example.com/articles/1'] })
+
+    const result = await createFreshRssSync(deps).syncNow()
+
+    expect(result.saved).toEqual(['book-Item 2'])
+    expect(result.errors).toEqual(['https://example.com/articles/1: fetch failed'])
+    expect(editTagRequests[0].ids).toEqual([item(2).id])
+    expect(deps.syncs).toEqual(['https://example.com/articles/1: fetch failed'])
+  })
+
+  it('should record a login failure', async () => {
+    const deps = createDeps(settings({ api_password: 'wrong' }))
+
+    const result = await createFreshRssSync(deps).syncNow()
+
+    expect(result).toEqual({ saved: [], marked: 0, errors: ['FreshRSS login failed: FreshRSS API error: 401 Unauthorized'] })
+    expect(deps.syncs).toEqual(['FreshRSS login failed: FreshRSS API error: 401 Unauthorized'])
+  })
+
+  it('should refuse to sync without settings', async () => {
+    const deps = createDeps(undefined)
+    deps.getSettings = () => undefined
+
+    await expect(createFreshRssSync(deps).syncNow()).rejects.toThrow('FreshRSS is not configured')
+  })
+
+  it('should share a running sync', async () => {
+    const sync = createFreshRssSync(createDeps())
+
+    const [a, b] = await Promise.all([sync.syncNow(), sync.syncNow()])
+
+    expect(a).toBe(b)
+    expect(streamRequests).toHaveLength(1)
+  })
+})
+
+describe('greaderStreamIds', () => {
+  it('should list the starred stream and label streams', () => {
+    expect(greaderStreamIds({ import_starred: true, import_labels: ['Tech', 'Read later'] }))
+      .toEqual([STARRED, 'user/-/label/Tech', 'user/-/label/Read later'])
+    expect(greaderStreamIds({ import_starred: false, import_labels: ['Tech'] }))
+      .toEqual(['user/-/label/Tech'])
+  })
+})
+
+describe('parseFreshRssSettingsInput', () => {
+  it('should trim values and apply defaults', () => {
+    expect(parseFreshRssSettingsInput({
+      api_url: ' https://rss.example.com/api/greader.php/ ',
+      username: ' alice ',
+      api_password: 'secret',
+      import_labels: 'Tech, Read later\n'
+    })).toEqual({
+      settings: {
+        api_url: 'https://rss.example.com/api/greader.php',
+        username: 'alice',
+        api_password: 'secret',
+        import_starred: true,
+        import_labels: ['Tech', 'Read later'],
+        saved_label: 'EPUB Viewer',
+        default_tag: null,
+        item_limit: 20,
+        enabled: true
+      }
+    })
+  })
+
+  it('should keep the stored password when none is given', () => {
+    const result = parseFreshRssSettingsInput({ api_url: 'https://rss.example.com/api/greader.php', username: 'alice' })
+    expect(result.settings.api_password).toBeNull()
+  })
+
+  it('should reject incomplete settings', () => {
+    expect(parseFreshRssSettingsInput({ username: 'alice' })).toHaveProperty('error')
+    expect(parseFreshRssSettingsInput({ api_url: 'https://rss.example.com/api/greader.php' })).toHaveProperty('error')
+    expect(parseFreshRssSettingsInput({
+      api_url: 'https://rss.example.com/api/greader.php', username: 'alice', import_starred: false
+    })).toHaveProperty('error')
+    expect(parseFreshRssSettingsInput({
+      api_url: 'https://rss.example.com/api/greader.php', username: 'alice', item_limit: 0
+    })).toHaveProperty('error')
+  })
+})
@@ -0,0 +1,285 @@
+/**
+ * FreshRSS connector
+ * Google Reader 互換API（FreshRSS の greader.php）からスター付き・ラベル付きの記事を取り込む
+ */
+import { isValidHttpUrl } from './multipage-utils';
+import type { FreshRssSettings, FreshRssSettingsInput, FreshRssSyncResult, GReaderItem } from './types';
+
+export const DEFAULT_SAVED_LABEL = 'EPUB Viewer';
+export const DEFAULT_ITEM_LIMIT = 20;
+export const MAX_ITEM_LIMIT = 100;
+
+const STARRED_STREAM = 'user/-/state/com.google/starred';
+
+/**
+ * ラベルのストリームID
+ * @param label - ラベル名
+ * @returns "user/-/label/<ラベル名>"
+ */
+export function labelStreamId(label: string): string {
+  return `user/-/label/${label}`;
+}
+
+/**
+ * 設定から取り込むストリームIDの一覧を作る
+ * @param settings - 接続設定
+ * @returns スター付き・各ラベルのストリームID
+ */
+export function greaderStreamIds(settings: Pick<FreshRssSettingsInput, 'import_starred' | 'import_labels'>): string[] {
+  return [
+    ...(settings.import_starred ? [STARRED_STREAM] : []),
+    ...settings.import_labels.map(labelStreamId)
+  ];
+}
+
+/**
+ * APIから受け取った接続設定を検証して整える
+ * @param body - リクエストボディ
+ * @returns 整えた接続設定、またはエラーメッセージ
+ */
+export function parseFreshRssSettingsInput(body: Record<string, unknown>): { settings: FreshRssSettingsInput } | { error: string } {
+  const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+  const apiUrl = text(body.api_url).replace(/\/+$/, '');
+  if (!isValidHttpUrl(apiUrl)) {
+    return { error: 'api_url must be an http(s) URL such as https://rss.example.com/api/greader.php' };
+  }
+  const username = text(body.username);
+  if (!username) {
+    return { error: 'username is required' };
+  }
+
+  // ラベルは配列でも改行・カンマ区切りの文字列でも受け付ける
+  const labels = (Array.isArray(body.import_labels)
+    ? body.import_labels.map(text)
+    : text(body.import_labels).split(/[\n,]/).map(label => label.trim())
+  ).filter(Boolean);
+  const importStarred = body.import_starred === undefined ? true : Boolean(body.import_starred);
+  if (!importStarred && labels.length === 0) {
+    return { error: 'Choose starred items or at least one label to import' };
+  }
+
+  let itemLimit = DEFAULT_ITEM_LIMIT;
+  if (body.item_limit !== undefined && body.item_limit !== null && body.item_limit !== '') {
+    itemLimit = Number(body.item_limit);
+    if (!Number.isInteger(itemLimit) || itemLimit < 1 || itemLimit > MAX_ITEM_LIMIT) {
+      return { error: `item_limit must be an integer between 1 and ${MAX_ITEM_LIMIT}` };
+    }
+  }
+
+  return {
+    settings: {
+      api_url: apiUrl,
+      username,
+      api_password: text(body.api_password) || null,
+      import_starred: importStarred,
+      import_labels: labels,
+      saved_label: text(body.saved_label) || DEFAULT_SAVED_LABEL,
+      default_tag: text(body.default_tag) || null,
+      item_limit: itemLimit,
+      enabled: body.enabled === undefined ? true : Boolean(body.enabled)
+    }
+  };
+}
+
+interface GReaderStreamItem {
+  id?: string;
+  title?: string;
+  canonical?: { href?: string }[];
+  alternate?: { href?: string }[];
+  categories?: string[];
+}
+
+export interface GReaderClient {
+  listItems(streamId: string, count: number, excludeStreamId?: string): Promise<GReaderItem[]>;
+  addLabel(itemIds: string[], label: string): Promise<void>;
+}
+
+/**
+ * Google Reader 互換APIのクライアントを作成（最初の呼び出しでログインする）
+ * @param settings - APIのURLと認証情報
+ * @param timeoutMs - 各リクエストのタイムアウト（ミリ秒）
+ * @returns 記事の一覧取得とラベル付けを行うクライアント
+ */
+export function createGReaderClient(
+  { api_url, username, api_password }: Pick<FreshRssSettings, 'api_url' | 'username' | 'api_password'>,
+  timeoutMs = 30000
+): GReaderClient {
+  let auth: Promise<string> | null = null;
+
+  async function send(pathname: string, init: { method?: string; headers?: Record<string, string>; body?: URLSearchParams } = {}): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(`${api_url}${pathname}`, { ...init, signal: controller.signal });
+      const body = await response.text();
+      if (!response.ok) {
+        throw new Error(`FreshRSS API error: ${response.status} ${response.statusText}`);
+      }
+      return body;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  function login(): Promise<string> {
+    auth ??= send('/accounts/ClientLogin', {
+      method: 'POST',
+      body: new URLSearchParams({ Email: username, Passwd: api_password })
+    }).then(body => {
+      const token = body.match(/^Auth=(.+)$/m)?.[1].trim();
+      if (!token) throw new Error('no Auth token in response');
+      return token;
+    }).catch(error => {
+      auth = null;
+      throw new Error(`FreshRSS login failed: ${(error as Error).message}`);
+    });
+    return auth;
+  }
+
+  async function authorized(pathname: string, init: { method?: string; body?: URLSearchParams } = {}): Promise<string> {
+    const token = await login();
+    return send(pathname, { ...init, headers: { Authorization: `GoogleLogin auth=${token}` } });
+  }
+
+  async function listItems(streamId: string, count: number, excludeStreamId?: string): Promise<GReaderItem[]> {
+    const params = new URLSearchParams({ n: String(count), output: 'json' });
+    if (excludeStreamId) params.set('xt', excludeStreamId);
+    const path = streamId.split('/').map(encodeURIComponent).join('/');
+    const body = await authorized(`/reader/api/0/stream/contents/${path}?${params}`);
+
+    const items = (JSON.parse(body) as { items?: GReaderStreamItem[] }).items || [];
+    return items
+      .map(item => ({
+        id: item.id || '',
+        title: item.title || '',
+        url: item.canonical?.[0]?.href || item.alternate?.[0]?.href || '',
+        categories: item.categories || []
+      }))
+      .filter(item => item.id && isValidHttpUrl(item.url));
+  }
+
+  async function addLabel(itemIds: string[], label: string): Promise<void> {
+    const editToken = (await authorized('/reader/api/0/token')).trim();
+    const body = new URLSearchParams({ a: labelStreamId(label), T: editToken });
+    itemIds.forEach(id => body.append('i', id));
+    await authorized('/reader/api/0/edit-tag', { method: 'POST', body });
+  }
+
+  return { listItems, addLabel };
+}
+
+export interface FreshRssSyncDeps {
+  // 保存済みの接続設定（未設定ならundefined）
+  getSettings(): FreshRssSettings | undefined;
+  // 取り込み済みの記事か
+  isImportedItem(itemId: string): boolean;
+  // 記事を保存して本のIDを返す
+  saveItem(settings: FreshRssSettings, item: GReaderItem): Promise<string>;
+  // 記事を取り込み済みとして記録する
+  markImportedItem(item: GReaderItem, bookId: string): void;
+  // 同期の結果を記録する
+  recordSync(error: string | null): void;
+}
+
+export interface FreshRssSyncOptions {
+  // 定期同期の間隔（ミリ秒）、0なら定期同期しない
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+export interface FreshRssSync {
+  syncNow(): Promise<FreshRssSyncResult>;
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * FreshRSS との同期を作成
+ * 取り込んだ記事には FreshRSS 側で保存済みラベルを付け、次回からは一覧で除外する
+ * ラベル付けに失敗した記事は取り込み済みとして記録し、次回の同期でラベル付けだけをやり直す
+ * @param deps - DB・保存処理とのつなぎ
+ * @param options - 同期間隔とタイムアウト
+ * @returns syncNow / start / stop を持つ同期処理
+ */
+export function createFreshRssSync(
+  deps: FreshRssSyncDeps,
+  { intervalMs = 0, timeoutMs = 30000 }: FreshRssSyncOptions = {}
+): FreshRssSync {
+  let running: Promise<FreshRssSyncResult> | null = null;
+  let timer: NodeJS.Timeout | null = null;
+
+  async function run(): Promise<FreshRssSyncResult> {
+    const result: FreshRssSyncResult = { saved: [], marked: 0, errors: [] };
+    const settings = deps.getSettings();
+    if (!settings) {
+      throw new Error('FreshRSS is not configured');
+    }
+
+    const client = createGReaderClient(settings, timeoutMs);
+    const savedStreamId = labelStreamId(settings.saved_label);
+    const toMark: string[] = [];
+
+    try {
+      // 複数のストリームに同じ記事があっても1回だけ扱う
+      const items = new Map<string, GReaderItem>();
+      for (const streamId of greaderStreamIds(settings)) {
+        for (const item of await client.listItems(streamId, settings.item_limit, savedStreamId)) {
+          if (!item.categories.includes(savedStreamId)) items.set(item.id, item);
+        }
+      }
+
+      let imported = 0;
+      for (const item of items.values()) {
+        if (deps.isImportedItem(item.id)) {
+          toMark.push(item.id);
+          continue;
+        }
+        if (imported >= settings.item_limit) continue;
+        imported++;
+        try {
+          const bookId = await deps.saveItem(settings, item);
+          deps.markImportedItem(item, bookId);
+          result.saved.push(bookId);
+          toMark.push(item.id);
+        } catch (error) {
+          result.errors.push(`${item.url}: ${(error as Error).message || String(error)}`);
+        }
+      }
+
+      if (toMark.length > 0) {
+        await client.addLabel(toMark, settings.saved_label);
+        result.marked = toMark.length;
+      }
+    } catch (error) {
+      result.errors.push((error as Error).message || String(error));
+    }
+
+    deps.recordSync(result.errors[0] ?? null);
+    return result;
+  }
+
+  // 同期が重なった場合は実行中の結果を共有する
+  function syncNow(): Promise<FreshRssSyncResult> {
+    running ??= run().finally(() => {
+      running = null;
+    });
+    return running;
+  }
+
+  function start(): void {
+    if (timer || intervalMs <= 0) return;
+    timer = setInterval(() => {
+      if (running || !deps.getSettings()?.enabled) return;
+      syncNow().catch(error => console.error('FreshRSS sync error:', error));
+    }, intervalMs);
+    timer.unref();
+  }
+
+  function stop(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+  }
+
+  return { syncNow, start, stop };
+}
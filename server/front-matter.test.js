@@ -0,0 +1,72 @@
+/**
+ * Front Matter Tests
+ * t-wada TDD style: MarkdownのYAMLフロントマター
+ */
+import { describe, expect, it } from 'vitest'
+import { mergeFrontMatter, parseFrontMatter } from './front-matter'
+
+describe('parseFrontMatter', () => {
+  it('should read title, author, tags, language and date', () => {
+    const md = `---
+title: "Rust: 所有権メモ"
+author: 山田 太郎
+tags: [rust, "memory safety"]
+language: ja-JP
+date: 2024-05-01
+---
+# 本文
+`
+    const { data, body } = parseFrontMatter(md)
+
+    expect(data).toEqual({
+      title: 'Rust: 所有権メモ',
+      author: '山田 太郎',
+      tags: ['rust', 'memory safety'],
+      language: 'ja',
+      date: '2024-05-01'
+    })
+    expect(body).toBe('# 本文\n')
+  })
+
+  it('should read block lists and comma separated tags', () => {
+    const block = parseFrontMatter('---\ntags:\n  - notes\n  - "#reading"\nauthor:\n  - A\n  - B\n---\ntext')
+    expect(block.data.tags).toEqual(['notes', 'reading'])
+    expect(block.data.author).toBe('A, B')
+
+    const commas = parseFrontMatter('---\ntags: go, web , go\nlang: EN\n---\n')
+    expect(commas.data.tags).toEqual(['go', 'web'])
+    expect(commas.data.language).toBe('en')
+  })
+
+  it('should ignore comments and unknown keys', () => {
+    const { data } = parseFrontMatter("---\n# draft\ntitle: 'Hello' \nslug: hello\nlayout: post # comment\n...\nBody")
+    expect(data.title).toBe('Hello')
+  })
+
+  it('should leave documents without front matter untouched', () => {
+    const md = '# Title\n\n---\n\ntext'
+    const { data, body } = parseFrontMatter(md)
+
+    expect(data).toEqual({ title: null, author: null, tags: [], language: null, date: null })
+    expect(body).toBe(md)
+  })
+
+  it('should handle a BOM and CRLF line endings', () => {
+    const { data, body } = parseFrontMatter('\ufeff---\r\ntitle: Windows\r\n---\r\nbody')
+    expect(data.title).toBe('Windows')
+    expect(body).toBe('body')
+  })
+})
+
+describe('mergeFrontMatter', () => {
+  it('should take the first value of each field and collect all tags', () => {
+    const empty = { title: null, author: null, tags: [], language: null, date: null }
+    const merged = mergeFrontMatter([
+      { ...empty, tags: ['a'] },
+      { ...empty, title: 'Part 1', language: 'ja', tags: ['b', 'a'] },
+      { ...empty, title: 'Part 2', author: 'Writer', language: 'en' }
+    ])
+
+    expect(merged).toEqual({ title: 'Part 1', author: 'Writer', tags: ['a', 'b'], language: 'ja', date: null })
+  })
+})
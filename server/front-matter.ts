@@ -0,0 +1,125 @@
+/**
+ * Markdown front matter utility functions
+ * ノートで使うYAMLフロントマター（title / author / tags / language / date）を読む
+ * 対応するのはスカラー・引用符付き文字列・[a, b] と "- a" 形式のリストのみ
+ */
+
+export interface FrontMatter {
+  title: string | null;
+  author: string | null;
+  tags: string[];
+  // 主言語サブタグ（ja-JP → ja）
+  language: string | null;
+  date: string | null;
+}
+
+type YamlValue = string | string[];
+
+const EMPTY_FRONT_MATTER: FrontMatter = { title: null, author: null, tags: [], language: null, date: null };
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed.endsWith(trimmed[0])) {
+    return trimmed.slice(1, -1);
+  }
+  // 引用符なしの値は行末コメントを除く
+  return trimmed.replace(/\s+#.*$/, '');
+}
+
+function parseInlineList(value: string): string[] {
+  return value.slice(1, -1).split(',').map(unquote).filter(item => item !== '');
+}
+
+/**
+ * フロントマターの行を key → 値 に分解
+ * @param yaml - 区切り線を除いたフロントマター
+ * @returns キー（小文字）ごとの値
+ */
+function parseYamlSubset(yaml: string): Map<string, YamlValue> {
+  const values = new Map<string, YamlValue>();
+  let listKey: string | null = null;
+
+  for (const line of yaml.split('\n')) {
+    if (line.trim() === '' || line.trim().startsWith('#')) continue;
+
+    const listItem = line.match(/^\s+-\s+(.*)$|^-\s+(.*)$/);
+    if (listItem && listKey) {
+      const current = values.get(listKey);
+      const items = Array.isArray(current) ? current : [];
+      items.push(unquote(listItem[1] ?? listItem[2]));
+      values.set(listKey, items);
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) {
+      listKey = null;
+      continue;
+    }
+    const key = pair[1].toLowerCase();
+    const raw = pair[2].trim();
+    if (raw === '') {
+      // 続く "- item" 行をリストとして読む
+      listKey = key;
+      values.set(key, []);
+    } else {
+      listKey = null;
+      values.set(key, raw.startsWith('[') && raw.endsWith(']') ? parseInlineList(raw) : unquote(raw));
+    }
+  }
+  return values;
+}
+
+function asText(value: YamlValue | undefined): string | null {
+  if (value === undefined) return null;
+  const text = Array.isArray(value) ? value.join(', ') : value;
+  return text.trim() || null;
+}
+
+/**
+ * Markdown先頭のフロントマターを読み取る
+ * @param markdown - Markdownの内容
+ * @returns フロントマターの値と、フロントマターを除いた本文
+ */
+export function parseFrontMatter(markdown: string): { data: FrontMatter; body: string } {
+  const text = markdown.replace(/^\ufeff/, '').replace(/\r\n?/g, '\n');
+  const match = text.match(/^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+  if (!match) {
+    return { data: { ...EMPTY_FRONT_MATTER }, body: markdown };
+  }
+
+  const values = parseYamlSubset(match[1]);
+  const tagsValue = values.get('tags');
+  const tags = Array.isArray(tagsValue)
+    ? tagsValue
+    : (tagsValue || '').split(',').map(tag => tag.trim());
+  const language = asText(values.get('language') ?? values.get('lang'));
+
+  return {
+    data: {
+      title: asText(values.get('title')),
+      author: asText(values.get('author')),
+      tags: [...new Set(tags.map(tag => tag.replace(/^#/, '').trim()).filter(tag => tag !== ''))],
+      language: language ? language.split(/[-_]/)[0].toLowerCase() : null,
+      date: asText(values.get('date'))
+    },
+    body: text.slice(match[0].length)
+  };
+}
+
+/**
+ * 複数ファイル（ZIP内のノート）のフロントマターを本1冊分にまとめる
+ * @param items - ファイル順のフロントマター
+ * @returns 最初に見つかった title / author / language / date と、全ファイルのタグ
+ */
+export function mergeFrontMatter(items: FrontMatter[]): FrontMatter {
+  const first = <K extends 'title' | 'author' | 'language' | 'date'>(key: K): string | null =>
+    items.find(item => item[key] !== null)?.[key] ?? null;
+  return {
+    title: first('title'),
+    author: first('author'),
+    tags: [...new Set(items.flatMap(item => item.tags))],
+    language: first('language'),
+    date: first('date')
+  };
+}
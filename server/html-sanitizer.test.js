@@ -0,0 +1,134 @@
+/**
+ * HTML Sanitizer Tests
+ * t-wada TDD style: 取り込み・翻訳・編集HTMLのサニタイズ
+ */
+import { describe, expect, it } from 'vitest'
+import { isSafeUrl, sanitizeHtml, sanitizePageHtml } from './html-sanitizer'
+
+describe('isSafeUrl', () => {
+  it('should allow relative, http(s), mailto and tel URLs', () => {
+    expect(isSafeUrl('media/a.png')).toBe(true)
+    expect(isSafeUrl('#fn1')).toBe(true)
+    expect(isSafeUrl('https://example.com/')).toBe(true)
+    expect(isSafeUrl('mailto:a@example.com')).toBe(true)
+  })
+
+  it('should reject script schemes even when obfuscated', () => {
+    expect(isSafeUrl('javascript:alert(1)')).toBe(false)
+    expect(isSafeUrl(' JaVaScRiPt:alert(1)')).toBe(false)
+    expect(isSafeUrl('java\tscript:alert(1)')).toBe(false)
+    expect(isSafeUrl('vbscript:msgbox(1)')).toBe(false)
+    expect(isSafeUrl('data:text/html,<script>alert(1)</script>')).toBe(false)
+  })
+
+  it('should allow data images only where images are expected', () => {
+    expect(isSafeUrl('data:image/png;base64,AAAA', true)).toBe(true)
+    expect(isSafeUrl('data:image/png;base64,AAAA')).toBe(false)
+  })
+})
+
+describe('sanitizeHtml', () => {
+  // よく知られたXSSの手口
+  const vectors = [
+    '<script>alert(1)</script>',
+    '<img src=x onerror=alert(1)>',
+    '<svg onload=alert(1)>',
+    '<svg><script>alert(1)</script></svg>',
+    '<svg><animate attributeName="href" values="javascript:alert(1)"/></svg>',
+    '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+    '<svg><foreignObject><img src=x onerror=alert(1)></foreignObject></svg>',
+    '<math><mtext><img src=x onerror=alert(1)></mtext></math>',
+    '<a href="javascript:alert(1)">x</a>',
+    '<a href="&#106;avascript:alert(1)">x</a>',
+    '<a href="jav&#x09;ascript:alert(1)">x</a>',
+    '<iframe src="javascript:alert(1)"></iframe>',
+    '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+    '<object data="javascript:alert(1)"></object>',
+    '<embed src="javascript:alert(1)">',
+    '<form action="javascript:alert(1)"><button>x</button></form>',
+    '<details open ontoggle=alert(1)>',
+    '<body onload=alert(1)>',
+    '<div style="background:url(javascript:alert(1))">x</div>',
+    '<div style="width: expression(alert(1))">x</div>',
+    '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+    '<base href="javascript:alert(1)//">',
+    '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+    '<style>@import "javascript:alert(1)";</style>',
+    '<template><img src=x onerror=alert(1)></template>',
+    '<video><source onerror="alert(1)"></video>',
+    '<!--<img src=x onerror=alert(1)>-->'
+  ]
+
+  it.each(vectors)('should neutralize %s', (vector) => {
+    const result = sanitizeHtml(vector)
+    expect(result).not.toMatch(/<script|<iframe|<object|<embed|<form|<style|<base|<meta|<template|<foreignObject|<animate/i)
+    expect(result).not.toMatch(/\son\w+\s*=/i)
+    expect(result).not.toMatch(/javascript:|vbscript:|expression\(/i)
+  })
+
+  it('should keep ruby and code highlighting classes', () => {
+    const html = '<p><ruby>漢字<rp>(</rp><rt>かんじ</rt><rp>)</rp></ruby></p>' +
+      '<pre class="sourceCode python"><code class="sourceCode python"><span class="kw">def</span></code></pre>'
+    expect(sanitizeHtml(html)).toBe(html)
+  })
+
+  it('should keep MathML and SVG', () => {
+    const math = '<math display="block"><semantics><mrow><msup><mi>x</mi><mn>2</mn></msup></mrow>' +
+      '<annotation encoding="application/x-tex">x^2</annotation></semantics></math>'
+    const svg = '<svg viewBox="0 0 10 10" preserveAspectRatio="none"><path d="M0 0L10 10" stroke="#000"></path>' +
+      '<use xlink:href="#p"></use></svg>'
+    expect(sanitizeHtml(math)).toBe(math)
+    expect(sanitizeHtml(svg)).toBe(svg)
+  })
+
+  it('should keep links, images, tables and reader attributes', () => {
+    const html = '<a href="#fn1" class="footnote-ref" id="fnref1" role="doc-noteref"><sup>1</sup></a>' +
+      '<a href="#install" data-book-page="2">see</a>' +
+      '<img src="data:image/png;base64,AAAA" alt="a" width="10">' +
+      '<table><tbody><tr><td colspan="2" style="text-align: right">1</td></tr></tbody></table>' +
+      '<aside epub:type="footnote" id="n1"><p>note</p></aside>'
+    expect(sanitizeHtml(html)).toBe(html)
+  })
+
+  it('should unwrap unknown elements but keep their text', () => {
+    expect(sanitizeHtml('<font color="red">red <b>bold</b></font>')).toBe('red <b>bold</b>')
+  })
+
+  it('should protect the opener of links opened in a new tab', () => {
+    expect(sanitizeHtml('<a href="https://example.com" target="_blank">x</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>')
+  })
+})
+
+describe('sanitizePageHtml', () => {
+  it('should keep title, charset, viewport and styles in the head', () => {
+    const page = `<!DOCTYPE html>
+<html lang="ja" onclick="alert(1)">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width">
+  <meta http-equiv="refresh" content="0;url=https://evil.example">
+  <title>Chapter</title>
+  <style>body { color: #333; }</style>
+  <script src="https://evil.example/x.js"></script>
+  <base href="https://evil.example/">
+</head>
+<body onload="alert(1)">
+  <h1>Chapter</h1>
+  <script>alert(1)</script>
+</body>
+</html>`
+
+    const result = sanitizePageHtml(page)
+
+    expect(result).toMatch(/^<!DOCTYPE html>/)
+    expect(result).toContain('<html lang="ja">')
+    expect(result).toContain('<meta charset="UTF-8">')
+    expect(result).toContain('<meta name="viewport" content="width=device-width">')
+    expect(result).toContain('<title>Chapter</title>')
+    expect(result).toContain('<style>body { color: #333; }</style>')
+    expect(result).toContain('<body>')
+    expect(result).toContain('<h1>Chapter</h1>')
+    expect(result).not.toMatch(/<script|<base|refresh|onload|onclick/)
+  })
+})
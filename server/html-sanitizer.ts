@@ -0,0 +1,208 @@
+/**
+ * HTML sanitizer
+ * 取り込んだ本・Webページ・翻訳・編集のHTMLから、スクリプトを実行できる要素や属性を取り除く
+ * 許可リスト方式で、MathML・SVG・ルビ・コードハイライトのclassは残す
+ */
+import * as cheerio from 'cheerio';
+
+type Namespace = 'html' | 'svg' | 'math';
+
+const HTML_TAGS = new Set([
+  'a', 'abbr', 'address', 'article', 'aside', 'audio', 'b', 'bdi', 'bdo', 'big', 'blockquote', 'br',
+  'caption', 'center', 'cite', 'code', 'col', 'colgroup', 'data', 'dd', 'del', 'details', 'dfn', 'div',
+  'dl', 'dt', 'em', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'main', 'mark', 'nav', 'ol', 'p', 'picture', 'pre',
+  'q', 'rb', 'rp', 'rt', 'rtc', 'ruby', 's', 'samp', 'section', 'small', 'source', 'span', 'strike',
+  'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr',
+  'track', 'tt', 'u', 'ul', 'var', 'video', 'wbr'
+]);
+
+const SVG_TAGS = new Set([
+  'svg', 'a', 'circle', 'clippath', 'defs', 'desc', 'ellipse', 'g', 'image', 'line', 'lineargradient',
+  'marker', 'mask', 'path', 'pattern', 'polygon', 'polyline', 'radialgradient', 'rect', 'stop', 'switch',
+  'symbol', 'text', 'textpath', 'title', 'tspan', 'use', 'view',
+  'filter', 'feblend', 'fecolormatrix', 'fecomponenttransfer', 'fecomposite', 'feconvolvematrix',
+  'fediffuselighting', 'fedisplacementmap', 'fedistantlight', 'fedropshadow', 'feflood', 'fefunca',
+  'fefuncb', 'fefuncg', 'fefuncr', 'fegaussianblur', 'feimage', 'femerge', 'femergenode', 'femorphology',
+  'feoffset', 'fepointlight', 'fespecularlighting', 'fespotlight', 'fetile', 'feturbulence'
+]);
+
+const MATH_TAGS = new Set([
+  'math', 'annotation', 'maction', 'menclose', 'merror', 'mfenced', 'mfrac', 'mi', 'mlabeledtr',
+  'mmultiscripts', 'mn', 'mo', 'mover', 'mpadded', 'mphantom', 'mprescripts', 'mroot', 'mrow', 'ms',
+  'mspace', 'msqrt', 'mstyle', 'msub', 'msubsup', 'msup', 'mtable', 'mtd', 'mtext', 'mtr', 'munder',
+  'munderover', 'none', 'semantics'
+]);
+
+// 許可リストにない要素のうち、中身ごと捨てるもの（それ以外は中身だけ残す）
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript', 'noembed',
+  'noframes', 'template', 'form', 'input', 'button', 'select', 'option', 'textarea', 'base', 'link',
+  'meta', 'title', 'head', 'xmp', 'plaintext', 'portal'
+]);
+
+const GLOBAL_ATTRS = new Set([
+  'id', 'class', 'title', 'lang', 'xml:lang', 'dir', 'style', 'role', 'tabindex', 'hidden', 'translate',
+  'epub:type', 'align', 'valign', 'width', 'height'
+]);
+
+const TAG_ATTRS: Record<string, string[]> = {
+  a: ['href', 'name', 'target', 'rel', 'hreflang', 'type'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'loading', 'decoding'],
+  source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  video: ['src', 'poster', 'controls', 'loop', 'muted', 'preload', 'playsinline'],
+  audio: ['src', 'controls', 'loop', 'muted', 'preload'],
+  track: ['src', 'kind', 'srclang', 'label', 'default'],
+  td: ['colspan', 'rowspan', 'headers', 'scope', 'abbr'],
+  th: ['colspan', 'rowspan', 'headers', 'scope', 'abbr'],
+  col: ['span'],
+  colgroup: ['span'],
+  table: ['border', 'cellpadding', 'cellspacing', 'summary'],
+  ol: ['start', 'type', 'reversed'],
+  ul: ['type'],
+  li: ['value'],
+  time: ['datetime'],
+  data: ['value'],
+  del: ['cite', 'datetime'],
+  ins: ['cite', 'datetime'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  details: ['open']
+};
+
+// URLとして解釈される属性
+const URL_ATTRS = new Set(['href', 'src', 'xlink:href', 'poster', 'cite', 'action', 'formaction', 'background']);
+// data:image/* を許可する要素
+const IMAGE_TAGS = new Set(['img', 'source', 'image', 'feimage']);
+
+const SAFE_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+const UNSAFE_CSS = /expression\s*\(|javascript:|vbscript:|behavior\s*:|-moz-binding/i;
+
+/**
+ * URLが安全か（javascript: などのスキームを拒否）
+ * @param value - 属性値（実体参照はデコード済み）
+ * @param allowImageData - data:image/* を許可するか
+ * @returns 相対URL・http(s)・mailto・tel ならtrue
+ */
+export function isSafeUrl(value: string, allowImageData: boolean = false): boolean {
+  // ブラウザはスキーム中の空白・制御文字を無視する
+  const normalized = value.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z\d+.-]*):/);
+  if (!scheme) return true;
+  if (SAFE_SCHEMES.has(scheme[1])) return true;
+  return allowImageData && /^data:image\/(png|jpe?g|gif|webp|bmp|avif|svg\+xml)[;,]/.test(normalized);
+}
+
+function isAllowedAttribute(ns: Namespace, tag: string, attr: string, value: string): boolean {
+  if (attr.startsWith('on')) return false;
+
+  // SVG・MathMLは表示用の属性が多いので、イベントとURL以外は残す
+  const known = ns !== 'html' ||
+    GLOBAL_ATTRS.has(attr) || attr.startsWith('data-') || attr.startsWith('aria-') ||
+    (TAG_ATTRS[tag] || []).includes(attr);
+  if (!known) return false;
+
+  if (URL_ATTRS.has(attr)) return isSafeUrl(value, IMAGE_TAGS.has(tag));
+  if (attr === 'srcset') return value.split(',').every(candidate => isSafeUrl(candidate.trim().split(/\s+/)[0] || ''));
+  if (attr === 'style') return !UNSAFE_CSS.test(value);
+  if (ns !== 'html' && /^(values|from|to|by|attributename)$/.test(attr)) return false;
+  return true;
+}
+
+function sanitizeAttributes($el: cheerio.Cheerio, el: cheerio.TagElement, ns: Namespace, tag: string): void {
+  for (const [name, value] of Object.entries(el.attribs || {})) {
+    if (!isAllowedAttribute(ns, tag, name.toLowerCase(), value)) {
+      $el.removeAttr(name);
+    }
+  }
+  // 新しいタブで開くリンクから元のページを操作させない
+  if (tag === 'a' && $el.attr('target') === '_blank') {
+    $el.attr('rel', 'noopener noreferrer');
+  }
+}
+
+function sanitizeChildren($: cheerio.Root, parent: cheerio.Element, ns: Namespace): void {
+  const children = [...((parent as cheerio.TagElement).children || [])];
+  for (const node of children) {
+    if (node.type === 'text') continue;
+    if (node.type !== 'tag' && node.type !== 'script' && node.type !== 'style') {
+      // コメント・CDATA・処理命令
+      $(node).remove();
+      continue;
+    }
+
+    const el = node as cheerio.TagElement;
+    const tag = el.name.toLowerCase();
+    const childNs: Namespace = tag === 'svg' ? 'svg' : tag === 'math' ? 'math' : ns;
+    const allowed = childNs === 'svg' ? SVG_TAGS : childNs === 'math' ? MATH_TAGS : HTML_TAGS;
+    const $el = $(el);
+
+    if (!allowed.has(tag)) {
+      // SVG・MathML内の未知の要素（foreignObject・animate 等）は中身ごと捨てる
+      if (childNs !== 'html' || DROP_WITH_CONTENT.has(tag) || node.type !== 'tag') {
+        $el.remove();
+      } else {
+        sanitizeChildren($, el, childNs);
+        $el.replaceWith($el.contents());
+      }
+      continue;
+    }
+
+    sanitizeAttributes($el, el, childNs, tag);
+    sanitizeChildren($, el, childNs);
+  }
+}
+
+function sanitizeHead($: cheerio.Root): void {
+  $('head').contents().each((_, node) => {
+    if (node.type === 'text') return;
+    const $node = $(node);
+    const el = node as cheerio.TagElement;
+    const tag = el.name?.toLowerCase();
+    const attribs = el.attribs || {};
+
+    if (tag === 'title' || (tag === 'style' && !UNSAFE_CSS.test($node.text()))) {
+      el.attribs = {};
+    } else if (tag === 'meta' && (attribs.charset || (attribs.name && attribs.content !== undefined))) {
+      // http-equiv（refresh 等）は残さない
+      el.attribs = attribs.charset ? { charset: attribs.charset } : { name: attribs.name, content: attribs.content };
+    } else if (tag === 'link' && attribs.rel?.toLowerCase() === 'stylesheet' && attribs.href && isSafeUrl(attribs.href)) {
+      el.attribs = { rel: 'stylesheet', href: attribs.href };
+    } else {
+      $node.remove();
+    }
+  });
+}
+
+/**
+ * HTML断片をサニタイズ（本文・脚注など）
+ * @param html - HTML断片
+ * @returns 許可リストの要素・属性だけを残したHTML
+ */
+export function sanitizeHtml(html: string): string {
+  const $ = cheerio.load(html);
+  sanitizeChildren($, $('body')[0], 'html');
+  return $('body').html() || '';
+}
+
+/**
+ * ページのHTML文書をサニタイズ
+ * headはtitle・meta・style・スタイルシートのlinkのみ、bodyは sanitizeHtml と同じ規則
+ * @param html - ページのHTML（DOCTYPE付きの文書）
+ * @returns サニタイズ後のHTML文書
+ */
+export function sanitizePageHtml(html: string): string {
+  const $ = cheerio.load(html);
+  sanitizeHead($);
+  sanitizeChildren($, $('body')[0], 'html');
+
+  for (const selector of ['html', 'body']) {
+    const el = $(selector)[0] as cheerio.TagElement;
+    for (const [name, value] of Object.entries(el.attribs || {})) {
+      const attr = name.toLowerCase();
+      const keep = ['lang', 'xml:lang', 'dir', 'class'].includes(attr) || (selector === 'html' && attr.startsWith('xmlns'));
+      if (!keep || UNSAFE_CSS.test(value)) $(el).removeAttr(name);
+    }
+  }
+  return $.html();
+}
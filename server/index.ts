@@ -1,5 +1,4 @@
 import * as cheerio from 'cheerio';
-import { execSync } from 'child_process';
 import cors from 'cors';
 import express, { Request, Response } from 'express';
 import fs from 'fs';
@@ -7,8 +6,45 @@ import multer, { FileFilterCallback } from 'multer';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import db from './database';
-import { isValidHttpUrl, normalizeClassSelector, normalizeUrl, resolveUrl, shouldIgnorePath } from './multipage-utils';
-import type { ClipPosition, PagesInfo, TocItem, WebsiteMetadata } from './types';
+import { resolveArchivePath, rewriteArchiveImagePaths, rewriteArchiveLinks } from './archive-links';
+import { extractByline, extractPublishedDate, findArticleRoot, normalizePublishedDate } from './article-extractor';
+import { parseComicInfo, selectComicPages } from './comic-utils';
+import { CommandError, convertWithPandoc, extractPdfText, renderPdfThumbnail } from './command-runner';
+import { createContentHashRegistry, duplicateBookInfo, hashFile } from './content-hash';
+import { crawlDocsPages, createDocsCrawlState, orderDocsPages, type DocsCrawlState } from './docs-crawler';
+import { readEpub, readEpubMetadata } from './epub-parser';
+import { findExtractionRule, parseExtractionRuleInput } from './extraction-rules';
+import { parseFeedInput } from './feed-parser';
+import { createFeedPoller } from './feed-poller';
+import { createFreshRssSync, parseFreshRssSettingsInput } from './freshrss-sync';
+import { mergeFrontMatter, parseFrontMatter, type FrontMatter } from './front-matter';
+import { sanitizePageHtml } from './html-sanitizer';
+import { createJobQueue, type JobReporter } from './job-queue';
+import { decodeText, escapeHtml, findHtmlCharset, splitPdfTextPages, textToHtml } from './text-import';
+import { crawlPages, createCrawlState, findNextPage, toCrawlProgress, type CrawlState, type NextPageMethod, type ParsedPage } from './multipage-crawler';
+import { isValidHttpUrl, isValidMaxPages, MAX_CRAWL_PAGES, normalizeUrl } from './multipage-utils';
+import { buildAnchorIndex, type AnchorIndex } from './page-anchors';
+import { buildPageMap, extractPageHeadings } from './page-remap';
+import { DEFAULT_PAGE_CHAR_BUDGET, paginateSections, remapPageLinks, remapTocPages, splitSectionBySize } from './page-splitter';
+import { createMediaHandler, parsePageNum, registerParamValidation } from './route-params';
+import { diffTextBlocks, extractTextBlocks, findRevisionPages } from './revision-diff';
+import type {
+  BookMetadata,
+  ClipPosition,
+  CrawlPreview,
+  ExtractionRule,
+  FreshRssSettings,
+  Job,
+  MultipageSaveResponse,
+  PagesInfo,
+  RefreshResponse,
+  ReplaceSourceResponse,
+  RevisionInfo,
+  TocItem,
+  UnmappedAnnotation,
+  UploadResponse,
+  WebsiteMetadata
+} from './types';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -30,6 +66,8 @@ const ROOT_DIR = path.join(__dirname, '../..');
 app.use(cors());
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ limit: '50mb', extended: true }));
+// :bookId / :pageNum are joined into file paths, so they are validated before any handler
+registerParamValidation(app);
 
 // ===== AI Helper Functions =====
 interface AiResponse {
@@ -152,8 +190,9 @@ async function generateClipDescription(imageContext: string, bookTitle: string):
   const response = await callAi(prompt);
   return response || '';
 }
-app.use('/uploads', express.static(path.join(ROOT_DIR, 'uploads')));
-app.use('/converted', express.static(path.join(ROOT_DIR, 'converted')));
+
+// uploads/ and converted/ are not served as static files: they hold files taken verbatim from
+// uploaded EPUB/ZIP/HTML, and book media goes through /api/books/:bookId/media/* with a script-free CSP
 
 // Serve static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -172,7 +211,8 @@ const storage = multer.diskStorage({
     cb(null, uploadsDir);
   },
   filename: (_req, file, cb) => {
-    const uniqueName = `${uuidv4()}-${file.originalname}`;
+    // Only the base name is kept so a crafted filename cannot leave uploads/
+    const uniqueName = `${uuidv4()}-${path.basename(file.originalname.replace(/\\/g, '/'))}`;
     cb(null, uniqueName);
   }
 });
@@ -181,55 +221,16 @@ const upload = multer({
   storage,
   fileFilter: (_req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
     const ext = path.extname(file.originalname).toLowerCase();
-    if (['.epub', '.pdf', '.md', '.zip'].includes(ext)) {
+    if (['.epub', '.pdf', '.md', '.zip', '.cbz', '.txt', '.html', '.htm', '.docx'].includes(ext)) {
       cb(null, true);
     } else {
-      cb(new Error('Only EPUB, PDF, Markdown, and ZIP files are allowed'));
+      cb(new Error('Only EPUB, PDF, Markdown, ZIP, CBZ, TXT, HTML, and DOCX files are allowed'));
     }
   }
 });
 
-// Split HTML content into pages
-function splitIntoPages(htmlContent: string, bookDir: string): string[] {
-  // Extract head section
-  const headMatch = htmlContent.match(/<head>([\s\S]*?)<\/head>/i);
-  const headContent = headMatch ? headMatch[1] : '';
-
-  // Extract body content
-  const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
-  const bodyContent = bodyMatch ? bodyMatch[1] : htmlContent;
-
-  // Extract TOC (table of contents)
-  const tocMatch = bodyContent.match(/<nav[^>]*id="TOC"[^>]*>([\s\S]*?)<\/nav>/i);
-  const tocContent = tocMatch ? tocMatch[0] : '';
-
-  // Remove TOC from body for splitting
-  let contentWithoutToc = bodyContent.replace(/<nav[^>]*id="TOC"[^>]*>[\s\S]*?<\/nav>/i, '');
-
-  // Split by major sections (h1, h2) or chapter markers
-  const sectionRegex = /(<(?:section|div)[^>]*class="[^"]*level1[^"]*"[^>]*>[\s\S]*?<\/(?:section|div)>)|(<h1[^>]*>[\s\S]*?)(?=<h1|$)/gi;
-  let sections = contentWithoutToc.match(sectionRegex);
-
-  // If no sections found, split by h2 or create single page
-  if (!sections || sections.length === 0) {
-    const h2Regex = /<h2[^>]*>[\s\S]*?(?=<h2|$)/gi;
-    sections = contentWithoutToc.match(h2Regex);
-  }
-
-  // If still no sections, treat entire content as one page
-  if (!sections || sections.length === 0) {
-    sections = [contentWithoutToc];
-  }
-
-  // Create pages directory
-  const pagesDir = path.join(bookDir, 'pages');
-  fs.mkdirSync(pagesDir, { recursive: true });
-
-  // Save TOC
-  fs.writeFileSync(path.join(bookDir, 'toc.html'), tocContent);
-
-  // Add custom styles
-  const customStyles = `
+// Page template shared by EPUB / Markdown conversions
+const pageStyles = `
     <style>
       body { 
         font-family: 'Noto Sans JP', 'Hiragino Sans', sans-serif;
@@ -255,25 +256,71 @@ function splitIntoPages(htmlContent: string, bookDir: string): string[] {
       h1, h2, h3 { color: #2c3e50; }
       a { color: #3498db; }
     </style>
-  `;
+`;
 
-  // Save each page
-  const pages = sections.map((section, index) => {
-    const pageHtml = `<!DOCTYPE html>
+function renderPageHtml(body: string, headContent: string = ''): string {
+  return `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   ${headContent}
-  ${customStyles}
+  ${pageStyles}
 </head>
 <body>
-  ${section}
+  ${body}
 </body>
 </html>`;
+}
+
+// Every page write goes through the sanitizer: imported, translated and edited HTML
+// is rendered in the app's origin, which also holds the AI API keys
+function writePageFile(pagePath: string, html: string): void {
+  fs.writeFileSync(pagePath, sanitizePageHtml(html));
+}
+
+// Character budget per page; longer sections are split at paragraph boundaries
+const pageCharBudget = parseInt(process.env.PAGE_CHAR_BUDGET || '', 10) || DEFAULT_PAGE_CHAR_BUDGET;
+
+// Split HTML content into pages
+function splitIntoPages(htmlContent: string, bookDir: string): string[] {
+  // Extract head section
+  const headMatch = htmlContent.match(/<head>([\s\S]*?)<\/head>/i);
+  const headContent = headMatch ? headMatch[1] : '';
+
+  // Extract body content
+  const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+  const bodyContent = bodyMatch ? bodyMatch[1] : htmlContent;
+
+  // Remove the pandoc TOC from body for splitting (it is never served, so it is not kept)
+  let contentWithoutToc = bodyContent.replace(/<nav[^>]*id="TOC"[^>]*>[\s\S]*?<\/nav>/i, '');
+
+  // Split by major sections (h1, h2) or chapter markers
+  const sectionRegex = /(<(?:section|div)[^>]*class="[^"]*level1[^"]*"[^>]*>[\s\S]*?<\/(?:section|div)>)|(<h1[^>]*>[\s\S]*?)(?=<h1|$)/gi;
+  let sections = contentWithoutToc.match(sectionRegex);
+
+  // If no sections found, split by h2 or create single page
+  if (!sections || sections.length === 0) {
+    const h2Regex = /<h2[^>]*>[\s\S]*?(?=<h2|$)/gi;
+    sections = contentWithoutToc.match(h2Regex);
+  }
+
+  // If still no sections, treat entire content as one page
+  if (!sections || sections.length === 0) {
+    sections = [contentWithoutToc];
+  }
+
+  // Split oversized sections (e.g. chapters without sub-headings)
+  const pageSections = sections.flatMap(section => splitSectionBySize(section, pageCharBudget));
+
+  // Create pages directory
+  const pagesDir = path.join(bookDir, 'pages');
+  fs.mkdirSync(pagesDir, { recursive: true });
 
+  // Save each page
+  const pages = pageSections.map((section, index) => {
     const pageFile = `page-${index + 1}.html`;
-    fs.writeFileSync(path.join(pagesDir, pageFile), pageHtml);
+    writePageFile(path.join(pagesDir, pageFile), renderPageHtml(section, headContent));
     return pageFile;
   });
 
@@ -286,9 +333,51 @@ function splitIntoPages(htmlContent: string, bookDir: string): string[] {
   return pages;
 }
 
+// Convert EPUB by reading the OPF spine and nav/NCX directly (one page per spine item)
+function convertEpubNative(epubPath: string, bookDir: string): { pages: string[]; text: string } {
+  const { chapters, toc, media } = readEpub(epubPath);
+
+  const mediaDir = path.join(bookDir, 'media');
+  for (const file of media) {
+    const mediaPath = path.join(mediaDir, file.path);
+    fs.mkdirSync(path.dirname(mediaPath), { recursive: true });
+    fs.writeFileSync(mediaPath, file.data);
+  }
+
+  const pagesDir = path.join(bookDir, 'pages');
+  fs.mkdirSync(pagesDir, { recursive: true });
+
+  // Long chapters span several pages
+  const { pages: splitBodies, sectionStarts } = paginateSections(chapters, pageCharBudget);
+  const pageBodies = remapPageLinks(splitBodies, sectionStarts);
+  const pages = pageBodies.map((body, index) => {
+    const pageFile = `page-${index + 1}.html`;
+    writePageFile(path.join(pagesDir, pageFile), renderPageHtml(body));
+    return pageFile;
+  });
+
+  // TOC comes from the book's own navigation document
+  const pagesInfo: PagesInfo = { total: pages.length, pages };
+  if (toc.length > 0) {
+    pagesInfo.toc = remapTocPages(toc, pageBodies, sectionStarts);
+  }
+  fs.writeFileSync(path.join(bookDir, 'pages.json'), JSON.stringify(pagesInfo));
+
+  const text = chapters.join('\n').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return { pages, text };
+}
+
 // Helper: Fix image paths in HTML content for markdown
-function fixMarkdownImagePaths(content: string, bookId: string): string {
-  return content
+// Inside a ZIP, sources are resolved relative to the markdown file first
+function fixMarkdownImagePaths(
+  content: string,
+  bookId: string,
+  archive?: { mdPath: string; mediaFiles: Set<string> }
+): string {
+  const resolved = archive
+    ? rewriteArchiveImagePaths(content, archive.mdPath, archive.mediaFiles, bookId)
+    : content;
+  return resolved
     // HTML img tags: src="images/foo.png" or src="./images/foo.png"
     .replace(/src="(?:\.\/)?(?:images|img|media|assets)\/([^"]+)"/g,
       `src="/api/books/${bookId}/media/$1"`)
@@ -298,7 +387,12 @@ function fixMarkdownImagePaths(content: string, bookId: string): string {
 }
 
 // Helper: Process ZIP file and extract markdown with images
-async function processZipFile(zipPath: string, bookDir: string, bookId: string): Promise<{ pages: string[]; title: string }> {
+async function processZipFile(
+  zipPath: string,
+  bookDir: string,
+  bookId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ pages: string[]; title: string; toc: TocItem[]; frontMatter: FrontMatter }> {
   const AdmZip = (await import('adm-zip')).default;
   const zip = new AdmZip(zipPath);
   const zipEntries = zip.getEntries();
@@ -308,40 +402,43 @@ async function processZipFile(zipPath: string, bookDir: string, bookId: string):
   fs.mkdirSync(mediaDir, { recursive: true });
   fs.mkdirSync(pagesDir, { recursive: true });
 
-  // Find markdown files and image files
-  const mdFiles: { name: string; content: string }[] = [];
-  const imageFiles: { name: string; data: Buffer }[] = [];
+  // Find markdown files and image files (paths relative to the archive root)
+  const mdFiles: { name: string; content: string; frontMatter: FrontMatter }[] = [];
+  const imageFiles = new Set<string>();
 
   for (const entry of zipEntries) {
-    const entryName = entry.entryName;
-    // Skip Mac metadata
-    if (entryName.startsWith('__MACOSX/') || entryName.startsWith('._')) continue;
+    if (entry.isDirectory) continue;
+    const entryName = resolveArchivePath('', entry.entryName);
+    // Skip Mac metadata and entries outside the archive root
+    if (!entryName || entryName.startsWith('__MACOSX/') || path.posix.basename(entryName).startsWith('._')) continue;
 
-    if (/\.md$/i.test(entryName) && !entry.isDirectory) {
+    if (/\.md$/i.test(entryName)) {
+      const content = entry.getData().toString('utf8');
       mdFiles.push({
-        name: path.basename(entryName),
-        content: entry.getData().toString('utf8')
-      });
-    } else if (/\.(png|jpg|jpeg|gif|webp|svg)$/i.test(entryName) && !entry.isDirectory) {
-      imageFiles.push({
-        name: path.basename(entryName),
-        data: entry.getData()
+        name: entryName,
+        content,
+        frontMatter: parseFrontMatter(content).data
       });
+    } else if (/\.(png|jpg|jpeg|gif|webp|svg)$/i.test(entryName)) {
+      // Folder structure is kept so ch1/fig.png and ch2/fig.png stay apart
+      const mediaPath = path.join(mediaDir, entryName);
+      fs.mkdirSync(path.dirname(mediaPath), { recursive: true });
+      fs.writeFileSync(mediaPath, entry.getData());
+      imageFiles.add(entryName);
     }
   }
 
   // Sort markdown files naturally
   mdFiles.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
 
-  // Save images to media directory
-  for (const img of imageFiles) {
-    fs.writeFileSync(path.join(mediaDir, img.name), img.data);
-  }
-
-  // Get title from first markdown file or ZIP name
+  // Get title from front matter, first markdown file or ZIP name
+  const frontMatter = mergeFrontMatter(mdFiles.map(md => md.frontMatter));
+  const fileTitle = (md: { name: string; frontMatter: FrontMatter }): string =>
+    md.frontMatter.title || path.basename(md.name, path.extname(md.name)).replace(/[-_]/g, ' ');
   const title = mdFiles.length > 0
-    ? path.basename(mdFiles[0].name, '.md').replace(/[-_]/g, ' ')
+    ? mdFiles[0].frontMatter.title || frontMatter.title || fileTitle(mdFiles[0])
     : 'Untitled';
+  const toc: TocItem[] = [];
 
   // Convert each markdown to HTML page
   const pages: string[] = [];
@@ -373,69 +470,133 @@ async function processZipFile(zipPath: string, bookDir: string, bookId: string):
     </style>
   `;
 
+  // Convert each markdown file first so links can point at pages of later files
+  const converted: { md: typeof mdFiles[number]; body: string }[] = [];
   for (let i = 0; i < mdFiles.length; i++) {
     const md = mdFiles[i];
-    const pageNum = i + 1;
-    const tempMdPath = path.join(bookDir, `temp-${pageNum}.md`);
-    const tempHtmlPath = path.join(bookDir, `temp-${pageNum}.html`);
+    const tempMdPath = path.join(bookDir, `temp-${i + 1}.md`);
+    const tempHtmlPath = path.join(bookDir, `temp-${i + 1}.html`);
 
     fs.writeFileSync(tempMdPath, md.content);
 
     try {
-      execSync(`pandoc "${tempMdPath}" -o "${tempHtmlPath}" --standalone`, { stdio: 'pipe' });
+      await convertWithPandoc(tempMdPath, tempHtmlPath);
       let htmlContent = fs.readFileSync(tempHtmlPath, 'utf8');
 
-      // Fix image paths
-      htmlContent = fixMarkdownImagePaths(htmlContent, bookId);
+      // Fix image paths relative to this file
+      htmlContent = fixMarkdownImagePaths(htmlContent, bookId, { mdPath: md.name, mediaFiles: imageFiles });
 
-      // Extract body and wrap with styles
+      // Extract body
       const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
-      const bodyContent = bodyMatch ? bodyMatch[1] : htmlContent;
+      converted.push({ md, body: bodyMatch ? bodyMatch[1] : htmlContent });
 
-      const pageHtml = `<!DOCTYPE html>
+      // Cleanup temp files
+      fs.unlinkSync(tempMdPath);
+      fs.unlinkSync(tempHtmlPath);
+    } catch (e) {
+      console.error(`Failed to convert ${md.name}:`, e);
+      fs.unlinkSync(tempMdPath);
+    }
+    onProgress?.(i + 1, mdFiles.length);
+  }
+
+  // Links between notes become in-reader page links
+  const pageByFile = new Map(converted.map(({ md }, index) => [md.name, index + 1]));
+
+  converted.forEach(({ md, body }, index) => {
+    const pageHtml = `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${md.name}</title>
+  <title>${escapeHtml(fileTitle(md))}</title>
   ${customStyles}
 </head>
 <body>
-  ${bodyContent}
+  ${rewriteArchiveLinks(body, md.name, pageByFile)}
 </body>
 </html>`;
 
-      const pageFile = `page-${pageNum}.html`;
-      fs.writeFileSync(path.join(pagesDir, pageFile), pageHtml);
-      pages.push(pageFile);
+    const pageFile = `page-${index + 1}.html`;
+    writePageFile(path.join(pagesDir, pageFile), pageHtml);
+    pages.push(pageFile);
+    toc.push({ page: pages.length, level: 1, title: fileTitle(md) });
+  });
 
-      // Cleanup temp files
-      fs.unlinkSync(tempMdPath);
-      fs.unlinkSync(tempHtmlPath);
-    } catch (e) {
-      console.error(`Failed to convert ${md.name}:`, e);
-      fs.unlinkSync(tempMdPath);
-    }
+  // Per-file titles become the TOC when the notes carry front matter titles
+  const hasFileTitles = mdFiles.some(md => md.frontMatter.title !== null);
+  return { pages, title, toc: hasFileTitles ? toc : [], frontMatter };
+}
+
+// Helper: Process comic archive (CBZ) into ordered page images
+async function processComicArchive(
+  cbzPath: string,
+  bookDir: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ pages: string[]; comicInfo: ReturnType<typeof parseComicInfo> | null }> {
+  const AdmZip = (await import('adm-zip')).default;
+  const zip = new AdmZip(cbzPath);
+  const entries = zip.getEntries();
+
+  const mediaDir = path.join(bookDir, 'media');
+  const pagesDir = path.join(bookDir, 'pages');
+  fs.mkdirSync(mediaDir, { recursive: true });
+  fs.mkdirSync(pagesDir, { recursive: true });
+
+  const infoEntry = entries.find(e => /(^|\/)ComicInfo\.xml$/i.test(e.entryName));
+  const comicInfo = infoEntry ? parseComicInfo(infoEntry.getData().toString('utf8')) : null;
+
+  const pageEntries = selectComicPages(entries.map(e => e.entryName));
+  const digits = Math.max(4, String(pageEntries.length).length);
+
+  // Images are renamed to zero-padded page numbers so media/ sorts in page order
+  const images: string[] = [];
+  const pages = pageEntries.map((entryName, index) => {
+    const imageFile = `${String(index + 1).padStart(digits, '0')}${path.extname(entryName).toLowerCase()}`;
+    fs.writeFileSync(path.join(mediaDir, imageFile), zip.getEntry(entryName)!.getData());
+    images.push(imageFile);
+
+    // HTML page keeps the generic page endpoints working
+    const pageFile = `page-${index + 1}.html`;
+    fs.writeFileSync(
+      path.join(pagesDir, pageFile),
+      renderPageHtml(`<img src="media/${imageFile}" alt="p.${index + 1}">`)
+    );
+    onProgress?.(index + 1, pageEntries.length);
+    return pageFile;
+  });
+
+  const pagesInfo: PagesInfo = { total: pages.length, pages, images };
+  if (comicInfo?.rightToLeft !== null && comicInfo?.rightToLeft !== undefined) {
+    pagesInfo.rightToLeft = comicInfo.rightToLeft;
   }
+  fs.writeFileSync(path.join(bookDir, 'pages.json'), JSON.stringify(pagesInfo));
 
-  return { pages, title };
+  return { pages, comicInfo };
 }
 
 // Helper: Process single Markdown file
-async function processMarkdownFile(mdPath: string, bookDir: string, bookId: string, originalFilename: string): Promise<{ pages: string[]; title: string }> {
+async function processMarkdownFile(
+  mdPath: string,
+  bookDir: string,
+  bookId: string,
+  originalFilename: string
+): Promise<{ pages: string[]; title: string; frontMatter: FrontMatter }> {
   const mediaDir = path.join(bookDir, 'media');
   const pagesDir = path.join(bookDir, 'pages');
   fs.mkdirSync(mediaDir, { recursive: true });
   fs.mkdirSync(pagesDir, { recursive: true });
 
-  const title = path.basename(originalFilename, '.md')
+  // Front matter title wins over the filename
+  const { data: frontMatter } = parseFrontMatter(fs.readFileSync(mdPath, 'utf8'));
+  const title = frontMatter.title || path.basename(originalFilename, '.md')
     .replace(/[-_]/g, ' ')
     .replace(/([a-z])([A-Z])/g, '$1 $2');
 
   const tempHtmlPath = path.join(bookDir, 'temp.html');
 
   try {
-    execSync(`pandoc "${mdPath}" -o "${tempHtmlPath}" --standalone --toc`, { stdio: 'pipe' });
+    await convertWithPandoc(mdPath, tempHtmlPath, { toc: true });
     let htmlContent = fs.readFileSync(tempHtmlPath, 'utf8');
 
     // Fix image paths
@@ -447,192 +608,662 @@ async function processMarkdownFile(mdPath: string, bookDir: string, bookId: stri
     // Cleanup
     fs.unlinkSync(tempHtmlPath);
 
-    return { pages, title };
+    return { pages, title, frontMatter };
   } catch (e) {
     console.error('Failed to convert markdown:', e);
     throw new Error('Failed to convert Markdown. Make sure pandoc is installed.');
   }
 }
 
-// Upload and convert EPUB to HTML, or store PDF
-app.post('/api/upload', upload.single('file'), async (req: Request, res: Response) => {
-  try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No file uploaded' });
+// Helper: Convert TXT / HTML / DOCX into pages via pandoc and splitIntoPages
+async function convertDocumentFile(
+  filePath: string,
+  ext: string,
+  bookDir: string,
+  fallbackTitle: string
+): Promise<{ pages: string[]; title: string; bookType: 'text' | 'html' | 'docx'; text: string }> {
+  const outputHtml = path.join(bookDir, 'index.html');
+  let bookType: 'text' | 'html' | 'docx';
+  let title = fallbackTitle;
+  let htmlContent: string;
+
+  if (ext === '.txt') {
+    // Plain text is escaped and wrapped in paragraphs (no markup to interpret)
+    bookType = 'text';
+    htmlContent = textToHtml(decodeText(fs.readFileSync(filePath)), title);
+  } else if (ext === '.docx') {
+    bookType = 'docx';
+    try {
+      // Run inside bookDir so extracted images are referenced as media/...
+      await convertWithPandoc(filePath, outputHtml, { from: 'docx', toc: true, extractMedia: '.', title, cwd: bookDir });
+    } catch (e) {
+      console.error('Failed to convert DOCX:', (e as Error).message);
+      throw new Error('Failed to convert DOCX. Make sure pandoc is installed.');
     }
+    htmlContent = fs.readFileSync(outputHtml, 'utf8');
+  } else {
+    bookType = 'html';
+    // pandoc expects UTF-8 input, so decode the original charset first
+    const raw = fs.readFileSync(filePath);
+    const source = decodeText(raw, findHtmlCharset(raw));
+    title = cheerio.load(source)('title').first().text().trim() || title;
+
+    const sourceHtml = path.join(bookDir, 'source.html');
+    fs.writeFileSync(sourceHtml, source);
+    try {
+      await convertWithPandoc(sourceHtml, outputHtml, { from: 'html', toc: true, title });
+    } catch (e) {
+      console.error('Failed to convert HTML:', (e as Error).message);
+      throw new Error('Failed to convert HTML. Make sure pandoc is installed.');
+    } finally {
+      fs.unlinkSync(sourceHtml);
+    }
+    htmlContent = fs.readFileSync(outputHtml, 'utf8');
+  }
 
-    const filePath = req.file.path;
-    // ファイル名をUTF-8にデコード（multerはlatin1でエンコードする）
-    const originalFilename = decodeFilename(req.file.originalname);
-    const ext = path.extname(originalFilename).toLowerCase();
-    const bookId = uuidv4();
-    const bookDir = path.join(convertedDir, bookId);
-
-    // Get title from filename
-    const bookTitle = path.basename(originalFilename, ext)
-      .replace(/[-_]/g, ' ')
-      .replace(/([a-z])([A-Z])/g, '$1 $2');
-
-    // Handle Markdown upload
-    if (ext === '.md') {
-      fs.mkdirSync(bookDir, { recursive: true });
+  const pages = splitIntoPages(htmlContent, bookDir);
+  const text = htmlContent.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return { pages, title, bookType, text };
+}
 
-      try {
-        const { pages, title } = await processMarkdownFile(filePath, bookDir, bookId, originalFilename);
+// Conversion jobs run outside the request with limited concurrency
+const conversionQueue = createJobQueue({
+  concurrency: Math.max(1, parseInt(process.env.CONVERSION_CONCURRENCY || '1', 10) || 1)
+});
 
-        // Save to database
-        db.addBook(bookId, title, originalFilename, pages.length, 'markdown');
+// Uploaded files already registered or still waiting for conversion (duplicate detection)
+const uploadHashes = createContentHashRegistry(db.findBookByContentHash);
 
-        // Auto-suggest tags
-        const mdContent = fs.readFileSync(filePath, 'utf8');
-        suggestTags(title, mdContent).then(tagIds => {
+// Extract PDF text per page in the background, then auto-suggest tags from it
+function queuePdfTextExtraction(bookId: string, autoTag?: { title: string; fallback: string }): void {
+  conversionQueue.enqueue('pdf-text', async report => {
+    let text = '';
+    try {
+      report('extracting', 10);
+      const pdfPath = path.join(convertedDir, bookId, 'document.pdf');
+      const pageTexts = splitPdfTextPages(await extractPdfText(pdfPath));
+      report('saving', 90);
+      db.savePageTexts(bookId, pageTexts);
+      text = pageTexts.join('\n');
+      return { bookId, pages: pageTexts.length };
+    } finally {
+      if (autoTag) {
+        suggestTags(autoTag.title, text.trim() || autoTag.fallback).then(tagIds => {
           tagIds.forEach(tagId => db.addTagToBook(bookId, tagId));
         }).catch(e => console.error('Auto-tag error:', e));
-
-        // Cleanup
-        fs.unlinkSync(filePath);
-
-        return res.json({
-          success: true,
-          bookId,
-          title,
-          bookType: 'markdown',
-          totalPages: pages.length
-        });
-      } catch (error) {
-        fs.unlinkSync(filePath);
-        return res.status(500).json({ error: (error as Error).message });
       }
     }
+  });
+}
+
+// Link tags by name, creating the ones that don't exist yet
+function linkTagsByName(bookId: string, names: string[]): void {
+  const allTags = db.getAllTags();
+  for (const name of names) {
+    let tag = allTags.find(t => t.name.toLowerCase() === name.toLowerCase());
+    if (!tag) {
+      tag = db.createTag(name);
+      allTags.push(tag);
+    }
+    db.addTagToBook(bookId, tag.id);
+  }
+}
 
-    // Handle ZIP upload (Markdown + images)
-    if (ext === '.zip') {
-      fs.mkdirSync(bookDir, { recursive: true });
+// Apply Markdown front matter language and tags to a newly imported book
+function applyFrontMatter(upload: PendingUpload, frontMatter: FrontMatter): void {
+  if (upload.replaceSource) return;
 
-      try {
-        const { pages, title } = await processZipFile(filePath, bookDir, bookId);
+  if (frontMatter.language) {
+    db.updateBook(upload.bookId, { language: frontMatter.language });
+  }
+  linkTagsByName(upload.bookId, frontMatter.tags);
+}
 
-        if (pages.length === 0) {
-          fs.rmSync(bookDir, { recursive: true });
-          fs.unlinkSync(filePath);
-          return res.status(400).json({ error: 'No Markdown files found in ZIP' });
-        }
+interface PendingUpload {
+  filePath: string;
+  originalFilename: string;
+  ext: string;
+  bookId: string;
+  bookDir: string;
+  bookTitle: string;
+  // Converting a replacement source for an existing book (keep its row, title and tags)
+  replaceSource?: boolean;
+}
 
-        // Save pages.json
-        fs.writeFileSync(
-          path.join(bookDir, 'pages.json'),
-          JSON.stringify({ total: pages.length, pages })
-        );
+// Index element ids and footnotes across pages (no-op for PDFs, which have no pages.json)
+function indexPageAnchors(bookDir: string): AnchorIndex | null {
+  const pagesPath = path.join(bookDir, 'pages.json');
+  if (!fs.existsSync(pagesPath)) return null;
 
-        // Save to database
-        db.addBook(bookId, title, originalFilename, pages.length, 'markdown');
+  const pagesInfo: PagesInfo = JSON.parse(fs.readFileSync(pagesPath, 'utf8'));
+  const pages = pagesInfo.pages.map(pageFile => {
+    const pagePath = path.join(bookDir, 'pages', pageFile);
+    return fs.existsSync(pagePath) ? fs.readFileSync(pagePath, 'utf8') : '';
+  });
+  const index = buildAnchorIndex(pages);
+  fs.writeFileSync(pagesPath, JSON.stringify({ ...pagesInfo, ...index }));
+  return index;
+}
 
-        // Auto-suggest tags
-        suggestTags(title, originalFilename).then(tagIds => {
-          tagIds.forEach(tagId => db.addTagToBook(bookId, tagId));
-        }).catch(e => console.error('Auto-tag error:', e));
+// Save a freshly converted book and auto-suggest tags (async, don't wait)
+// tagSource null: tags are suggested later (after PDF text extraction)
+function recordConvertedBook(
+  upload: PendingUpload,
+  title: string,
+  totalPages: number,
+  bookType: Exclude<UploadResponse['bookType'], 'website'>,
+  tagSource: string | null,
+  metadata: BookMetadata = {}
+): void {
+  indexPageAnchors(upload.bookDir);
+  if (upload.replaceSource) return;
+
+  db.addBook(upload.bookId, title, upload.originalFilename, totalPages, bookType, metadata);
+  if (tagSource === null) return;
+  suggestTags(title, tagSource).then(tagIds => {
+    tagIds.forEach(tagId => db.addTagToBook(upload.bookId, tagId));
+  }).catch(e => console.error('Auto-tag error:', e));
+}
 
-        // Cleanup
-        fs.unlinkSync(filePath);
+// Convert an uploaded file into a book (runs inside a conversion job)
+async function convertUpload(upload: PendingUpload, report: JobReporter): Promise<UploadResponse> {
+  const { filePath, originalFilename, ext, bookId, bookDir, bookTitle } = upload;
 
-        return res.json({
-          success: true,
-          bookId,
-          title,
-          bookType: 'markdown',
-          totalPages: pages.length
-        });
-      } catch (error) {
-        if (fs.existsSync(bookDir)) fs.rmSync(bookDir, { recursive: true });
-        fs.unlinkSync(filePath);
-        return res.status(500).json({ error: (error as Error).message });
-      }
-    }
+  // Handle Markdown upload
+  if (ext === '.md') {
+    fs.mkdirSync(bookDir, { recursive: true });
+
+    try {
+      report('converting', 10);
+      const { pages, title, frontMatter } = await processMarkdownFile(filePath, bookDir, bookId, originalFilename);
+
+      // Save to database
+      report('saving', 90);
+      recordConvertedBook(upload, title, pages.length, 'markdown', fs.readFileSync(filePath, 'utf8'), {
+        author: frontMatter.author,
+        published_date: normalizePublishedDate(frontMatter.date)
+      });
+      applyFrontMatter(upload, frontMatter);
 
-    if (ext === '.pdf') {
-      // Handle PDF upload
-      fs.mkdirSync(bookDir, { recursive: true });
+      // Cleanup
+      fs.unlinkSync(filePath);
 
-      // Copy PDF to book directory (use copy+delete instead of rename for cross-device support)
-      const pdfPath = path.join(bookDir, 'document.pdf');
-      fs.copyFileSync(filePath, pdfPath);
+      return {
+        success: true,
+        bookId,
+        title,
+        bookType: 'markdown',
+        totalPages: pages.length
+      };
+    } catch (error) {
+      if (fs.existsSync(bookDir)) fs.rmSync(bookDir, { recursive: true });
       fs.unlinkSync(filePath);
+      throw error;
+    }
+  }
+
+  // Handle ZIP upload (Markdown + images)
+  if (ext === '.zip') {
+    fs.mkdirSync(bookDir, { recursive: true });
+
+    try {
+      report('extracting', 5);
+      const { pages, title, toc, frontMatter } = await processZipFile(filePath, bookDir, bookId, (done, total) => {
+        report('converting', 10 + (done / total) * 80);
+      });
+
+      if (pages.length === 0) {
+        throw new Error('No Markdown files found in ZIP');
+      }
+
+      // Save pages.json
+      report('saving', 90);
+      const pagesInfo: PagesInfo = { total: pages.length, pages };
+      if (toc.length > 0) {
+        pagesInfo.toc = toc;
+      }
+      fs.writeFileSync(path.join(bookDir, 'pages.json'), JSON.stringify(pagesInfo));
 
-      // Save to database (PDF has 1 "page" in our system, actual pages handled by viewer)
-      db.addBook(bookId, bookTitle, originalFilename, 1, 'pdf');
+      // Save to database
+      recordConvertedBook(upload, title, pages.length, 'markdown', originalFilename, {
+        author: frontMatter.author,
+        published_date: normalizePublishedDate(frontMatter.date)
+      });
+      applyFrontMatter(upload, frontMatter);
 
-      // Auto-suggest tags (async, don't wait)
-      suggestTags(bookTitle, originalFilename).then(tagIds => {
-        tagIds.forEach(tagId => db.addTagToBook(bookId, tagId));
-      }).catch(e => console.error('Auto-tag error:', e));
+      // Cleanup
+      fs.unlinkSync(filePath);
 
-      return res.json({
+      return {
         success: true,
         bookId,
-        title: bookTitle,
-        bookType: 'pdf',
-        totalPages: 1
-      });
+        title,
+        bookType: 'markdown',
+        totalPages: pages.length
+      };
+    } catch (error) {
+      if (fs.existsSync(bookDir)) fs.rmSync(bookDir, { recursive: true });
+      fs.unlinkSync(filePath);
+      throw error;
     }
+  }
 
-    // Handle EPUB upload (existing logic)
-    const epubPath = filePath;
-    const mediaDir = path.join(bookDir, 'media');
-    const outputHtml = path.join(bookDir, 'index.html');
-
-    // Create directories
+  // Handle comic archive (CBZ) upload
+  if (ext === '.cbz') {
     fs.mkdirSync(bookDir, { recursive: true });
-    fs.mkdirSync(mediaDir, { recursive: true });
-
-    // Convert EPUB to HTML using pandoc
-    const pandocCmd = `pandoc "${epubPath}" --standalone --extract-media="${mediaDir}" --toc --metadata title="${bookTitle}" -o "${outputHtml}"`;
 
     try {
-      execSync(pandocCmd, { stdio: 'pipe' });
-    } catch (pandocError) {
-      console.error('Pandoc error:', (pandocError as Error).message);
-      return res.status(500).json({ error: 'Failed to convert EPUB. Make sure pandoc is installed.' });
+      report('extracting', 5);
+      const { pages, comicInfo } = await processComicArchive(filePath, bookDir, (done, total) => {
+        report('extracting', 5 + (done / total) * 85);
+      });
+
+      if (pages.length === 0) {
+        throw new Error('No images found in CBZ');
+      }
+
+      // Save to database
+      report('saving', 90);
+      const title = comicInfo?.title || bookTitle;
+      recordConvertedBook(upload, title, pages.length, 'comic', originalFilename, {
+        author: comicInfo?.author,
+        series: comicInfo?.series,
+        series_index: comicInfo?.seriesIndex
+      });
+
+      // Cleanup
+      fs.unlinkSync(filePath);
+
+      return {
+        success: true,
+        bookId,
+        title,
+        bookType: 'comic',
+        totalPages: pages.length
+      };
+    } catch (error) {
+      if (fs.existsSync(bookDir)) fs.rmSync(bookDir, { recursive: true });
+      fs.unlinkSync(filePath);
+      throw error;
     }
+  }
 
-    // Read HTML and split into pages
-    const htmlContent = fs.readFileSync(outputHtml, 'utf8');
+  // Handle plain text / HTML / Word upload
+  if (['.txt', '.html', '.htm', '.docx'].includes(ext)) {
+    fs.mkdirSync(bookDir, { recursive: true });
 
-    // Extract TOC and body
-    const pages = splitIntoPages(htmlContent, bookDir);
+    try {
+      report('converting', 10);
+      const { pages, title, bookType, text } = await convertDocumentFile(filePath, ext, bookDir, bookTitle);
+
+      // Save to database
+      report('saving', 90);
+      recordConvertedBook(upload, title, pages.length, bookType, text);
 
-    // Save book info to database
-    db.addBook(bookId, bookTitle, originalFilename, pages.length, 'epub');
+      // Cleanup
+      fs.unlinkSync(filePath);
 
-    // Auto-suggest tags based on content (async, don't wait)
-    suggestTags(bookTitle, htmlContent).then(tagIds => {
-      tagIds.forEach(tagId => db.addTagToBook(bookId, tagId));
-    }).catch(e => console.error('Auto-tag error:', e));
+      return {
+        success: true,
+        bookId,
+        title,
+        bookType,
+        totalPages: pages.length
+      };
+    } catch (error) {
+      if (fs.existsSync(bookDir)) fs.rmSync(bookDir, { recursive: true });
+      fs.unlinkSync(filePath);
+      throw error;
+    }
+  }
 
-    // Clean up original epub
-    fs.unlinkSync(epubPath);
+  if (ext === '.pdf') {
+    // Handle PDF upload
+    report('saving', 50);
+    fs.mkdirSync(bookDir, { recursive: true });
 
-    res.json({
+    // Copy PDF to book directory (use copy+delete instead of rename for cross-device support)
+    const pdfPath = path.join(bookDir, 'document.pdf');
+    fs.copyFileSync(filePath, pdfPath);
+    fs.unlinkSync(filePath);
+
+    // Save to database (PDF has 1 "page" in our system, actual pages handled by viewer)
+    recordConvertedBook(upload, bookTitle, 1, 'pdf', null);
+    if (!upload.replaceSource) {
+      queuePdfTextExtraction(bookId, { title: bookTitle, fallback: originalFilename });
+    }
+
+    return {
       success: true,
       bookId,
       title: bookTitle,
-      bookType: 'epub',
-      totalPages: pages.length
-    });
-  } catch (error) {
-    console.error('Upload error:', error);
-    res.status(500).json({ error: (error as Error).message });
+      bookType: 'pdf',
+      totalPages: 1
+    };
   }
-});
 
-// ===== Website Scraping =====
+  // Handle EPUB upload (existing logic)
+  const epubPath = filePath;
+  const mediaDir = path.join(bookDir, 'media');
+  const outputHtml = path.join(bookDir, 'index.html');
 
-// Use global fetch Response type
-type FetchResponse = Awaited<ReturnType<typeof fetch>>;
+  // Create directories
+  fs.mkdirSync(bookDir, { recursive: true });
+  fs.mkdirSync(mediaDir, { recursive: true });
 
-// Helper: Fetch with timeout
-async function fetchWithTimeout(url: string, timeout = 30000): Promise<FetchResponse> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  // Bibliographic metadata from the OPF (title, author, publisher, ISBN, series)
+  report('reading', 5);
+  const epubMetadata = readEpubMetadata(epubPath);
+  const epubTitle = epubMetadata?.title || bookTitle;
+
+  let pages: string[];
+  let htmlContent: string;
+
+  try {
+    // Read spine and nav/NCX directly
+    report('converting', 20);
+    const converted = convertEpubNative(epubPath, bookDir);
+    pages = converted.pages;
+    htmlContent = converted.text;
+  } catch (nativeError) {
+    // Fall back to pandoc for EPUBs we can't parse ourselves
+    console.warn('Native EPUB conversion failed, falling back to pandoc:', (nativeError as Error).message);
+    fs.rmSync(bookDir, { recursive: true, force: true });
+    fs.mkdirSync(mediaDir, { recursive: true });
+
+    try {
+      report('converting', 30);
+      await convertWithPandoc(epubPath, outputHtml, { toc: true, extractMedia: mediaDir, title: bookTitle });
+    } catch (pandocError) {
+      console.error('Pandoc error:', (pandocError as Error).message);
+      fs.rmSync(bookDir, { recursive: true, force: true });
+      fs.unlinkSync(epubPath);
+      if (pandocError instanceof CommandError && pandocError.reason === 'timeout') {
+        throw new Error('EPUB conversion timed out.');
+      }
+      throw new Error('Failed to convert EPUB. Make sure pandoc is installed.');
+    }
+
+    // Read HTML and split into pages
+    report('splitting', 70);
+    htmlContent = fs.readFileSync(outputHtml, 'utf8');
+
+    // Extract TOC and body
+    pages = splitIntoPages(htmlContent, bookDir);
+  }
+
+  // Save book info to database
+  report('saving', 90);
+  const metadata = {
+    author: epubMetadata?.author,
+    publisher: epubMetadata?.publisher,
+    identifier: epubMetadata?.identifier,
+    description: epubMetadata?.description,
+    series: epubMetadata?.series,
+    series_index: epubMetadata?.seriesIndex
+  };
+  recordConvertedBook(upload, epubTitle, pages.length, 'epub', htmlContent, metadata);
+  // dc:language may carry a region (en-US); keep the primary subtag only
+  const epubLanguage = epubMetadata?.language?.split(/[-_]/)[0].toLowerCase();
+  if (epubLanguage && !upload.replaceSource) {
+    db.updateBook(bookId, { language: epubLanguage });
+  }
+
+  // Clean up original epub
+  fs.unlinkSync(epubPath);
+
+  return {
+    success: true,
+    bookId,
+    title: epubTitle,
+    bookType: 'epub',
+    totalPages: pages.length,
+    metadata
+  };
+}
+
+// Upload EPUB/PDF/Markdown/ZIP and queue its conversion
+app.post('/api/upload', upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const contentHash = await hashFile(req.file.path);
+
+    // ファイル名をUTF-8にデコード（multerはlatin1でエンコードする）
+    const originalFilename = decodeFilename(req.file.originalname);
+    const ext = path.extname(originalFilename).toLowerCase();
+    const bookId = uuidv4();
+
+    // Get title from filename
+    const bookTitle = path.basename(originalFilename, ext)
+      .replace(/[-_]/g, ' ')
+      .replace(/([a-z])([A-Z])/g, '$1 $2');
+
+    // Reject re-uploads of the same file, including ones still being converted, unless explicitly allowed.
+    // The hash stays reserved until the conversion job ends
+    const reserved = req.query.allowDuplicate !== 'true';
+    if (reserved) {
+      const existing = uploadHashes.claim(contentHash, {
+        id: bookId,
+        title: bookTitle,
+        created_at: new Date().toISOString()
+      });
+      if (existing) {
+        fs.unlinkSync(req.file.path);
+        return res.status(409).json({
+          error: existing.converting ? 'This file is already being converted' : 'This file has already been uploaded',
+          duplicate: true,
+          existingBook: existing
+        });
+      }
+    }
+
+    const pendingUpload: PendingUpload = {
+      filePath: req.file.path,
+      originalFilename,
+      ext,
+      bookId,
+      bookDir: path.join(convertedDir, bookId),
+      bookTitle
+    };
+
+    const job = conversionQueue.enqueue('upload', async report => {
+      const result = await convertUpload(pendingUpload, report);
+      db.setBookContentHash(bookId, contentHash);
+      return result;
+    });
+    if (reserved) {
+      const unsubscribe = conversionQueue.subscribe(job.id, ({ status }) => {
+        if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+          uploadHashes.release(contentHash, bookId);
+          unsubscribe();
+        }
+      });
+    }
+
+    res.status(202).json({
+      success: true,
+      jobId: job.id,
+      bookId,
+      status: job.status
+    });
+  } catch (error) {
+    console.error('Upload error:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Headings of each converted page (original text for translated pages), or null for PDFs
+function readPageHeadings(bookDir: string): string[][] | null {
+  const pagesPath = path.join(bookDir, 'pages.json');
+  if (!fs.existsSync(pagesPath)) return null;
+
+  const pagesInfo: PagesInfo = JSON.parse(fs.readFileSync(pagesPath, 'utf8'));
+  const headings: string[][] = [];
+  for (let i = 1; i <= pagesInfo.total; i++) {
+    const originalPath = path.join(bookDir, 'pages', `page-${i}.original.html`);
+    const pagePath = fs.existsSync(originalPath) ? originalPath : path.join(bookDir, 'pages', `page-${i}.html`);
+    headings.push(fs.existsSync(pagePath) ? extractPageHeadings(fs.readFileSync(pagePath, 'utf8')) : []);
+  }
+  return headings;
+}
+
+interface AnnotationMoves {
+  // Old page number - 1 → new page number (null when unknown, or for PDFs)
+  pageMap: (number | null)[] | null;
+  mapPage: (pageNum: number) => number;
+  remapped: number;
+  unmapped: UnmappedAnnotation[];
+}
+
+// Work out where bookmarks, notes, clips and progress land when a book's pages change
+function planAnnotationMoves(
+  bookId: string,
+  oldHeadings: string[][] | null,
+  newHeadings: string[][] | null
+): AnnotationMoves {
+  // PDF pages are numbered by the viewer, so PDF → PDF keeps page numbers as they are
+  const pageMap = oldHeadings && newHeadings ? buildPageMap(oldHeadings, newHeadings) : null;
+  const findPage = (pageNum: number): number | null => {
+    if (!oldHeadings && !newHeadings) return pageNum;
+    return pageMap?.[pageNum - 1] ?? null;
+  };
+  const fallbackPage = (pageNum: number): number =>
+    newHeadings ? Math.min(Math.max(pageNum, 1), newHeadings.length) : pageNum;
+
+  const unmapped: UnmappedAnnotation[] = [];
+  let remapped = 0;
+  const track = (type: UnmappedAnnotation['type'], id: string, pageNum: number, text: string | null): void => {
+    if (findPage(pageNum) !== null) {
+      remapped++;
+    } else {
+      unmapped.push({ type, id, oldPage: pageNum, newPage: fallbackPage(pageNum), text });
+    }
+  };
+  db.getBookmarks(bookId).forEach(b => track('bookmark', b.id, b.page_num, b.note));
+  db.getNotes(bookId).forEach(n => track('note', n.id, n.page_num, n.content));
+  db.getClips(bookId).forEach(c => track('clip', c.id, c.page_num, c.note));
+  const progress = db.getProgress(bookId);
+  if (progress) track('progress', bookId, progress.current_page, null);
+
+  return {
+    pageMap,
+    mapPage: pageNum => findPage(pageNum) ?? fallbackPage(pageNum),
+    remapped,
+    unmapped
+  };
+}
+
+// Swap in the converted replacement and move annotations to the matching new pages
+function applyReplacedSource(upload: PendingUpload, converted: UploadResponse, contentHash: string): ReplaceSourceResponse {
+  const { bookId } = upload;
+  const bookDir = path.join(convertedDir, bookId);
+  const moves = planAnnotationMoves(bookId, readPageHeadings(bookDir), readPageHeadings(upload.bookDir));
+
+  // Keep a custom cover, then swap directories
+  if (fs.existsSync(bookDir)) {
+    for (const file of fs.readdirSync(bookDir)) {
+      if (file.startsWith('custom-cover')) {
+        fs.copyFileSync(path.join(bookDir, file), path.join(upload.bookDir, file));
+      }
+    }
+    const previousDir = `${upload.bookDir}.old`;
+    fs.renameSync(bookDir, previousDir);
+    fs.renameSync(upload.bookDir, bookDir);
+    fs.rmSync(previousDir, { recursive: true, force: true });
+  } else {
+    fs.renameSync(upload.bookDir, bookDir);
+  }
+
+  // Page texts belong to the old PDF
+  if (converted.bookType === 'pdf') {
+    queuePdfTextExtraction(bookId);
+  } else {
+    db.savePageTexts(bookId, []);
+  }
+
+  db.replaceBookSource(bookId, {
+    originalFilename: upload.originalFilename,
+    totalPages: converted.totalPages,
+    bookType: converted.bookType,
+    contentHash
+  }, moves.mapPage);
+
+  return {
+    ...converted,
+    title: upload.bookTitle,
+    remapped: moves.remapped,
+    unmapped: moves.unmapped
+  };
+}
+
+// Replace a book's source file (new edition / corrected PDF) keeping bookmarks, notes, tags and progress
+app.post('/api/books/:bookId/replace-source', upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const { bookId } = req.params;
+    const book = db.getBook(bookId);
+    if (!book) {
+      fs.unlinkSync(req.file.path);
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const contentHash = await hashFile(req.file.path);
+    const originalFilename = decodeFilename(req.file.originalname);
+
+    const pendingUpload: PendingUpload = {
+      filePath: req.file.path,
+      originalFilename,
+      ext: path.extname(originalFilename).toLowerCase(),
+      bookId,
+      // Convert beside the current files; they are only swapped once conversion succeeds
+      bookDir: path.join(convertedDir, `.replace-${uuidv4()}`),
+      bookTitle: book.title,
+      replaceSource: true
+    };
+
+    const job = conversionQueue.enqueue('replace-source', async report => {
+      const converted = await convertUpload(pendingUpload, report);
+      report('remapping', 95);
+      return applyReplacedSource(pendingUpload, converted, contentHash);
+    });
+
+    res.status(202).json({
+      success: true,
+      jobId: job.id,
+      bookId,
+      status: job.status
+    });
+  } catch (error) {
+    console.error('Replace source error:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Get background job status (stage / progress / result)
+app.get('/api/jobs/:jobId', (req: Request, res: Response) => {
+  const job = conversionQueue.getJob<UploadResponse>(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  res.json(job);
+});
+
+// ===== Website Scraping =====
+
+// Use global fetch Response type
+type FetchResponse = Awaited<ReturnType<typeof fetch>>;
+
+// Helper: Fetch with timeout (signal lets a cancelled job abort the request too)
+async function fetchWithTimeout(url: string, timeout = 30000, signal?: AbortSignal): Promise<FetchResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  signal?.addEventListener('abort', () => controller.abort(), { once: true });
 
   try {
     const response = await fetch(url, {
@@ -690,56 +1321,47 @@ function extractMetadata(html: string, baseUrl: string): WebsiteMetadata {
     description,
     ogImage: resolveUrl(ogImage),
     favicon: resolveUrl(favicon),
-    siteName
+    siteName,
+    byline: extractByline($),
+    publishedDate: extractPublishedDate($)
   };
 }
 
 // Helper: Extract and clean article content
-function extractArticleContent(html: string, baseUrl: string): { content: string; images: string[] } {
+function extractArticleContent(
+  html: string,
+  baseUrl: string,
+  rule: ExtractionRule | null = null
+): { content: string; images: string[] } {
   const $ = cheerio.load(html);
   const images: string[] = [];
 
-  // Remove unwanted elements (common across blog platforms)
-  $([
-    'script', 'style', 'nav', 'header', 'footer', 'aside', 'iframe', 'noscript',
-    '.ads', '.advertisement', '.sidebar', '.menu', '.navigation',
-    '.comment', '.comments', '#comments', '.social-share', '.share-buttons', '.related-posts',
-    // Blog platform common: footers, modules, subscribe buttons
-    '.hatena-module', '.hatena-urllist', '#box2', '.entry-footer-section', '.entry-footer-modules',
-    '.hatena-star-container', '.hatena-bookmark-button-frame', '.subscribe-button', '.reader-button',
-    '.page-footer', '.ad-label', '.ad-content', '.google-afc-user-container', '.sentry-error-embed',
-    '.entry-reactions', '.customized-footer', '.hatena-asin-detail'
-  ].join(', ')).remove();
-
-  // Find main content - try specific selectors first, then generic ones
-  // More specific selectors (with multiple classes) take priority to avoid matching wrong elements
-  const contentSelectors = [
-    '.entry-content.hatenablog-entry',  // Hatena Blog actual content
-    '.hatenablog-entry',
-    '.entry.hentry .entry-content',     // Generic blog entry
-    '.post-content',
-    '.article-content',
-    'article',
-    'main',
-    '[role="main"]',
-    '.entry-content',
-    '.content',
-    '#content',
-    'body'
-  ];
-
-  let $content = $('');
-  for (const selector of contentSelectors) {
-    $content = $(selector).first();
-    // Skip if empty or too short (likely wrong element like ad container)
-    if ($content.length > 0 && $content.text().trim().length > 100) {
-      break;
-    }
-  }
-
-  // Fallback to body if nothing found
-  if ($content.length === 0 || $content.text().trim().length < 100) {
-    $content = $('body');
+  // Per-site rule comes first: its remove selectors, then its content selector
+  if (rule && rule.remove_selectors.length > 0) {
+    $(rule.remove_selectors.join(', ')).remove();
+  }
+  const $ruleContent = rule?.content_selector ? $(rule.content_selector).first() : $('');
+
+  let $content: cheerio.Cheerio;
+  if ($ruleContent.length > 0 && $ruleContent.text().trim().length > 0) {
+    // The user chose this block, so only drop non-content elements inside it
+    $ruleContent.find('script, style, iframe, noscript').remove();
+    $content = $ruleContent;
+  } else {
+    // Remove unwanted elements (common across blog platforms)
+    $([
+      'script', 'style', 'nav', 'header', 'footer', 'aside', 'iframe', 'noscript',
+      '.ads', '.advertisement', '.sidebar', '.menu', '.navigation',
+      '.comment', '.comments', '#comments', '.social-share', '.share-buttons', '.related-posts',
+      // Blog platform common: footers, modules, subscribe buttons
+      '.hatena-module', '.hatena-urllist', '#box2', '.entry-footer-section', '.entry-footer-modules',
+      '.hatena-star-container', '.hatena-bookmark-button-frame', '.subscribe-button', '.reader-button',
+      '.page-footer', '.ad-label', '.ad-content', '.google-afc-user-container', '.sentry-error-embed',
+      '.entry-reactions', '.customized-footer', '.hatena-asin-detail'
+    ].join(', ')).remove();
+
+    // Find main content by scoring candidate blocks; the known blog selectors act as hints
+    $content = findArticleRoot($);
   }
 
   // Process images - collect and update src
@@ -878,8 +1500,8 @@ function splitContentByHeadings(content: string, _title: string): string[] {
   const h2Count = $('h2').length;
 
   if (h1Count === 0 && h2Count === 0) {
-    // No headings, return as single page
-    return [modifiedContent];
+    // No headings, split by size only
+    return splitSectionBySize(modifiedContent, pageCharBudget);
   }
 
   // Split by h1 and h2 tags
@@ -887,7 +1509,7 @@ function splitContentByHeadings(content: string, _title: string): string[] {
   const parts = modifiedContent.split(headingRegex);
 
   if (parts.length <= 1) {
-    return [modifiedContent];
+    return splitSectionBySize(modifiedContent, pageCharBudget);
   }
 
   const sections: string[] = [];
@@ -919,10 +1541,11 @@ function splitContentByHeadings(content: string, _title: string): string[] {
 
   // If we only got one or no sections, return the full content
   if (sections.length <= 1) {
-    return [modifiedContent];
+    return splitSectionBySize(modifiedContent, pageCharBudget);
   }
 
-  return sections;
+  // Split oversized sections at paragraph boundaries
+  return sections.flatMap(section => splitSectionBySize(section, pageCharBudget));
 }
 
 // FreshRSS integration - receive article from FreshRSS share button
@@ -1038,148 +1661,323 @@ app.get('/api/freshrss/share', async (req: Request, res: Response) => {
 });
 
 // Multi-page crawl and save
-app.post('/api/save-multipage-url', async (req: Request, res: Response) => {
-  try {
-    const { url, linkClass, ignorePaths = [], maxPages = 50 } = req.body as {
-      url: string;
-      linkClass: string;
-      ignorePaths?: string[];
-      maxPages?: number;
-    };
+// Multi-page crawls run as cancellable jobs. The crawl state of a cancelled or failed job
+// is kept so the crawl can resume from the page it stopped at.
+const crawlQueue = createJobQueue({ concurrency: 1 });
+const crawlStates = new Map<string, CrawlState | DocsCrawlState>();
+const CRAWL_DELAY_MS = Math.max(0, parseInt(process.env.CRAWL_DELAY_MS || '500', 10) || 0);
+// A dry-run preview follows at most this many pages
+const PREVIEW_MAX_PAGES = 10;
+
+// Fetch a page of a crawl (any non-2xx status is an error)
+async function fetchCrawlPage(pageUrl: string, signal: AbortSignal): Promise<string> {
+  const response = await fetchWithTimeout(pageUrl, 30000, signal);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
 
-    if (!url || typeof url !== 'string') {
-      return res.status(400).json({ error: 'URL is required' });
-    }
+// The site rule's next-page selector wins over linkClass; with neither, the next page is detected automatically
+function findCrawlNextPage(
+  html: string,
+  pageUrl: string,
+  linkClass: string | null,
+  extractionRules: ExtractionRule[]
+): { url: string; method: NextPageMethod } | null {
+  return findNextPage(html, pageUrl, {
+    linkClass,
+    nextPageSelector: findExtractionRule(extractionRules, pageUrl)?.next_page_selector
+  });
+}
 
-    if (!linkClass || typeof linkClass !== 'string') {
-      return res.status(400).json({ error: 'linkClass is required (e.g., "next-page")' });
-    }
+// Validate a save-multipage-url body and build the initial crawl state
+function parseMultipageRequest(body: {
+  url?: unknown;
+  // 'next' follows next-page links, 'docs' crawls a documentation site under pathPrefix
+  mode?: 'next' | 'docs';
+  linkClass?: string;
+  pathPrefix?: string;
+  navSelector?: string;
+  useSitemap?: boolean;
+  ignorePaths?: string[];
+  maxPages?: unknown;
+}): { state: CrawlState | DocsCrawlState } | { error: string } {
+  const { url, mode = 'next', linkClass, pathPrefix, navSelector, useSitemap, ignorePaths = [], maxPages = 50 } = body;
 
-    // Validate URL using helper function
-    if (!isValidHttpUrl(url)) {
-      return res.status(400).json({ error: 'Invalid URL format' });
+  if (!url || typeof url !== 'string') {
+    return { error: 'URL is required' };
+  }
+
+  // Validate URL using helper function
+  if (!isValidHttpUrl(url)) {
+    return { error: 'Invalid URL format' };
+  }
+
+  if (!isValidMaxPages(maxPages)) {
+    return { error: `maxPages must be an integer from 1 to ${MAX_CRAWL_PAGES}` };
+  }
+
+  if (mode === 'docs') {
+    if (pathPrefix && (typeof pathPrefix !== 'string' || !pathPrefix.startsWith('/'))) {
+      return { error: 'pathPrefix must be a path starting with "/" (e.g., "/docs/")' };
     }
+    const state = createDocsCrawlState({ startUrl: url, pathPrefix, navSelector, useSitemap, ignorePaths, maxPages });
+    if (!new URL(state.startUrl).pathname.startsWith(state.pathPrefix)) {
+      return { error: `URL must be under pathPrefix ${state.pathPrefix}` };
+    }
+    return { state };
+  }
+  if (mode !== 'next') {
+    return { error: 'mode must be "next" or "docs"' };
+  }
 
-    const visitedUrls = new Set<string>();
-    const allPages: Array<{ url: string; content: string; images: string[]; title: string }> = [];
-    let currentUrl = url;
+  // Without linkClass (or a site rule) the next page is detected automatically
+  if (linkClass !== undefined && linkClass !== null && typeof linkClass !== 'string') {
+    return { error: 'linkClass must be a string (e.g., "next-page")' };
+  }
+  return { state: createCrawlState({ startUrl: url, linkClass: linkClass?.trim(), ignorePaths, maxPages }) };
+}
 
-    console.log(`Starting multi-page crawl from: ${url}`);
-    console.log(`Link class: ${linkClass}`);
-    console.log(`Ignore paths: ${ignorePaths.join(', ')}`);
+// Crawl from state.nextUrl (or the docs queue), then save the fetched pages as one book
+// saveFetched: save the pages fetched so far without following any more links
+function enqueueCrawl(state: CrawlState | DocsCrawlState, saveFetched = false): Job<MultipageSaveResponse> {
+  const job = crawlQueue.enqueue<MultipageSaveResponse>('multipage', async (report, signal) => {
+    const extractionRules = db.getExtractionRules();
+    const reportCrawl = (s: CrawlState | DocsCrawlState) => report('crawling', (s.pages.length / s.maxPages) * 80, toCrawlProgress(s));
+
+    const parsePage = (html: string, pageUrl: string): ParsedPage => {
+      const metadata = extractMetadata(html, pageUrl);
+      const { content, images } = extractArticleContent(html, pageUrl, findExtractionRule(extractionRules, pageUrl));
+      return { content, images, title: metadata.title, byline: metadata.byline, publishedDate: metadata.publishedDate };
+    };
 
-    // Crawl pages
-    while (currentUrl && allPages.length < maxPages) {
-      // Normalize URL using helper function
-      const normalizedUrl = normalizeUrl(currentUrl);
+    reportCrawl(state);
 
-      // Skip if already visited
-      if (visitedUrls.has(normalizedUrl)) {
-        console.log(`Already visited: ${normalizedUrl}`);
-        break;
-      }
+    if (saveFetched) {
+      console.log(`Saving ${state.pages.length} fetched pages of the ${state.mode} crawl from: ${state.startUrl}`);
+    } else if (state.mode === 'docs') {
+      console.log(`Starting docs crawl from: ${state.nextUrl} (${state.pages.length} pages fetched so far)`);
+      await crawlDocsPages(state, { fetchHtml: fetchCrawlPage, parsePage, delayMs: CRAWL_DELAY_MS, onProgress: reportCrawl }, signal);
+    } else {
+      console.log(`Starting next crawl from: ${state.nextUrl} (${state.pages.length} pages fetched so far)`);
+      await crawlPages(state, {
+        fetchHtml: fetchCrawlPage,
+        parsePage: (html, pageUrl) => ({
+          ...parsePage(html, pageUrl),
+          nextUrl: findCrawlNextPage(html, pageUrl, state.linkClass, extractionRules)?.url ?? null
+        }),
+        delayMs: CRAWL_DELAY_MS,
+        onProgress: reportCrawl
+      }, signal);
+    }
+
+    if (state.pages.length === 0) {
+      throw new Error(state.errors[0] ? `No pages could be fetched: ${state.errors[0].message}` : 'No pages could be fetched');
+    }
+    // A next-page crawl that stopped on a fetch error fails with its state kept, so it can resume from that URL
+    if (!saveFetched && state.mode === 'next' && state.nextUrl && state.pages.length < state.maxPages) {
+      const lastError = state.errors[state.errors.length - 1];
+      throw new Error(`Crawl stopped at ${state.nextUrl}: ${lastError ? lastError.message : 'fetch failed'}`);
+    }
+
+    console.log(`Crawled ${state.pages.length} pages`);
+    // Docs sites are saved in sidebar order with the sidebar as the TOC
+    let toc: TocItem[] = [];
+    if (state.mode === 'docs') {
+      const ordered = orderDocsPages(state.nav, state.pages);
+      state.pages = ordered.pages;
+      toc = ordered.toc;
+    }
+    const result = await saveCrawledBook(state, toc, report, signal);
+    crawlStates.delete(job.id);
+    return result;
+  });
 
-      // Check if URL should be ignored using helper function
-      const urlPath = new URL(normalizedUrl).pathname;
-      if (shouldIgnorePath(urlPath, ignorePaths)) {
-        console.log(`Ignoring path: ${normalizedUrl}`);
-        break;
-      }
+  // Forget states whose jobs were pruned from the queue
+  for (const jobId of crawlStates.keys()) {
+    if (!crawlQueue.getJob(jobId)) crawlStates.delete(jobId);
+  }
+  crawlStates.set(job.id, state);
+  return job;
+}
 
-      visitedUrls.add(normalizedUrl);
-      console.log(`Fetching page ${allPages.length + 1}: ${normalizedUrl}`);
+app.post('/api/save-multipage-url', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseMultipageRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
 
-      try {
-        const response = await fetchWithTimeout(normalizedUrl);
-        if (!response.ok) {
-          console.log(`Failed to fetch: ${response.status}`);
-          break;
-        }
+    const job = enqueueCrawl(parsed.state);
 
-        const html = await response.text();
-        const metadata = extractMetadata(html, normalizedUrl);
-        const { content, images } = extractArticleContent(html, normalizedUrl);
+    // Follow progress at /api/crawls/:jobId/events (or poll /api/crawls/:jobId)
+    res.status(202).json({
+      success: true,
+      jobId: job.id,
+      status: job.status
+    });
+  } catch (error) {
+    console.error('Save multipage URL error:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-        allPages.push({
-          url: normalizedUrl,
-          content,
-          images,
-          title: metadata.title
-        });
+// Dry run: follow next-page links without saving anything, listing the URLs a crawl would fetch
+app.post('/api/save-multipage-url/preview', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseMultipageRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { state } = parsed;
+    if (state.mode !== 'next') {
+      return res.status(400).json({ error: 'Preview is only available for next-page crawls' });
+    }
+
+    state.maxPages = Math.min(state.maxPages, PREVIEW_MAX_PAGES);
+    const extractionRules = db.getExtractionRules();
+    const methods = new Map<string, NextPageMethod>();
+
+    // Stop fetching when the client goes away
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    await crawlPages(state, {
+      fetchHtml: fetchCrawlPage,
+      parsePage: (html, pageUrl) => {
+        const next = findCrawlNextPage(html, pageUrl, state.linkClass, extractionRules);
+        if (next) methods.set(normalizeUrl(next.url), next.method);
+        const { title } = extractMetadata(html, pageUrl);
+        return { content: '', images: [], title, byline: null, publishedDate: null, nextUrl: next?.url ?? null };
+      },
+      delayMs: CRAWL_DELAY_MS
+    }, controller.signal);
+
+    const preview: CrawlPreview = {
+      pages: state.pages.map(page => ({ url: page.url, title: page.title, method: methods.get(page.url) ?? null })),
+      nextUrl: state.nextUrl,
+      truncated: state.nextUrl !== null && state.pages.length >= state.maxPages,
+      errors: state.errors
+    };
+    res.json(preview);
+  } catch (error) {
+    console.error('Preview multipage URL error:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-        // Find next page link
-        const $ = cheerio.load(html);
-        let nextUrl: string | null = null;
-
-        // Look for the link with the specified class using helper function
-        const classSelector = normalizeClassSelector(linkClass);
-
-        const nextLink = $(`a${classSelector}`).first();
-        if (nextLink.length > 0) {
-          const href = nextLink.attr('href');
-          if (href) {
-            // Use helper function to resolve URL
-            nextUrl = resolveUrl(href, normalizedUrl);
-            if (nextUrl) {
-              console.log(`Found next page: ${nextUrl}`);
-            } else {
-              console.log(`Invalid next URL: ${href}`);
-            }
-          }
-        }
+// Get crawl job status (detail holds the crawl progress)
+app.get('/api/crawls/:jobId', (req: Request, res: Response) => {
+  const job = crawlQueue.getJob<MultipageSaveResponse>(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  res.json(job);
+});
 
-        // Also try rel="next" as a fallback
-        if (!nextUrl) {
-          const relNext = $('a[rel="next"]').first();
-          if (relNext.length > 0) {
-            const href = relNext.attr('href');
-            if (href) {
-              // Use helper function to resolve URL
-              nextUrl = resolveUrl(href, normalizedUrl);
-              if (nextUrl) {
-                console.log(`Found next page via rel="next": ${nextUrl}`);
-              } else {
-                console.log(`Invalid next URL: ${href}`);
-              }
-            }
-          }
-        }
+// Stream crawl job updates as Server-Sent Events until the job finishes
+app.get('/api/crawls/:jobId/events', (req: Request, res: Response) => {
+  const job = crawlQueue.getJob<MultipageSaveResponse>(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
 
-        currentUrl = nextUrl || '';
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
 
-        // Small delay to be polite to servers
-        if (currentUrl) {
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-      } catch (e) {
-        console.error(`Error fetching ${normalizedUrl}:`, (e as Error).message);
-        break;
-      }
-    }
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+  let unsubscribe = (): void => undefined;
+  const close = (): void => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
 
-    if (allPages.length === 0) {
-      return res.status(400).json({ error: 'No pages could be fetched' });
+  const send = (current: Job<unknown>): void => {
+    res.write(`data: ${JSON.stringify(current)}\n\n`);
+    if (current.status === 'completed' || current.status === 'failed' || current.status === 'cancelled') {
+      close();
+      res.end();
     }
+  };
 
-    console.log(`Crawled ${allPages.length} pages`);
+  unsubscribe = crawlQueue.subscribe(job.id, send);
+  req.on('close', close);
+  send(job);
+});
 
-    // Create book directory
-    const bookId = uuidv4();
-    const bookDir = path.join(convertedDir, bookId);
-    const mediaDir = path.join(bookDir, 'media');
-    const pagesDir = path.join(bookDir, 'pages');
+// Cancel a queued or running crawl (the fetched pages are kept for resume)
+app.post('/api/crawls/:jobId/cancel', (req: Request, res: Response) => {
+  const job = crawlQueue.getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (!crawlQueue.cancel(job.id)) {
+    return res.status(409).json({ error: `Crawl cannot be cancelled (status: ${job.status})` });
+  }
+  res.json({ success: true });
+});
 
-    fs.mkdirSync(bookDir, { recursive: true });
-    fs.mkdirSync(mediaDir, { recursive: true });
-    fs.mkdirSync(pagesDir, { recursive: true });
+// Resume a cancelled or failed crawl from the page it stopped at, as a new job
+app.post('/api/crawls/:jobId/resume', (req: Request, res: Response) => {
+  const job = crawlQueue.getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (job.status !== 'cancelled' && job.status !== 'failed') {
+    return res.status(409).json({ error: `Only cancelled or failed crawls can be resumed (this one is ${job.status})` });
+  }
+  const state = crawlStates.get(job.id);
+  if (!state) {
+    return res.status(409).json({ error: 'Crawl has already been resumed' });
+  }
 
+  // saveFetched: give up on the remaining pages (e.g. a next page that keeps failing) and save what was fetched
+  const saveFetched = req.body?.saveFetched === true;
+  if (saveFetched && state.pages.length === 0) {
+    return res.status(409).json({ error: 'No pages have been fetched yet' });
+  }
+
+  crawlStates.delete(job.id);
+  const resumed = enqueueCrawl(state, saveFetched);
+  res.status(202).json({
+    success: true,
+    jobId: resumed.id,
+    status: resumed.status
+  });
+});
+
+// Turn the pages of a finished crawl into a website book
+async function saveCrawledBook(
+  state: CrawlState | DocsCrawlState,
+  toc: TocItem[],
+  report: JobReporter,
+  signal: AbortSignal
+): Promise<MultipageSaveResponse> {
+  // Create book directory
+  const bookId = uuidv4();
+  const bookDir = path.join(convertedDir, bookId);
+  const mediaDir = path.join(bookDir, 'media');
+  const pagesDir = path.join(bookDir, 'pages');
+
+  fs.mkdirSync(bookDir, { recursive: true });
+  fs.mkdirSync(mediaDir, { recursive: true });
+  fs.mkdirSync(pagesDir, { recursive: true });
+
+  try {
     // Collect all images and download them
+    const totalImages = new Set(state.pages.flatMap(page => page.images)).size;
     let imageIndex = 0;
     const imageMap = new Map<string, string>(); // original URL -> local path
 
-    for (const page of allPages) {
+    for (const page of state.pages) {
       for (const imgUrl of page.images) {
         if (!imageMap.has(imgUrl)) {
+          signal.throwIfAborted();
           try {
             const ext = path.extname(new URL(imgUrl).pathname) || '.jpg';
             const localPath = `media/${imageIndex}${ext}`;
@@ -1187,16 +1985,20 @@ app.post('/api/save-multipage-url', async (req: Request, res: Response) => {
             await downloadImage(imgUrl, imgPath);
             imageMap.set(imgUrl, localPath);
             imageIndex++;
+            report('images', 80 + (imageMap.size / totalImages) * 15, toCrawlProgress(state));
           } catch (e) {
             console.log(`Failed to download image: ${imgUrl}`);
+            signal.throwIfAborted();
           }
         }
       }
     }
 
+    report('saving', 95, toCrawlProgress(state));
+
     // Create HTML pages
     const pageFiles: string[] = [];
-    const firstPage = allPages[0];
+    const firstPage = state.pages[0];
     const bookTitle = firstPage.title;
 
     // Custom styles (same as save-url)
@@ -1245,17 +2047,8 @@ app.post('/api/save-multipage-url', async (req: Request, res: Response) => {
       </style>
     `;
 
-    const highlightScript = `
-      <script src="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/highlight.min.js"></script>
-      <script>
-        document.addEventListener('DOMContentLoaded', function() {
-          hljs.highlightAll();
-        });
-      </script>
-    `;
-
-    for (let i = 0; i < allPages.length; i++) {
-      const page = allPages[i];
+    for (let i = 0; i < state.pages.length; i++) {
+      const page = state.pages[i];
       const pageNum = i + 1;
 
       // Fix image paths in content
@@ -1291,247 +2084,641 @@ app.post('/api/save-multipage-url', async (req: Request, res: Response) => {
   <h1>${page.title}</h1>
   ${fixedContent}
   <div class="page-source">
-    Page ${pageNum} of ${allPages.length} | Source: <a href="${page.url}" target="_blank">${page.url}</a>
+    Page ${pageNum} of ${state.pages.length} | Source: <a href="${page.url}" target="_blank">${page.url}</a>
   </div>
-  ${highlightScript}
 </body>
 </html>`;
 
       const pageFile = `page-${pageNum}.html`;
-      fs.writeFileSync(path.join(pagesDir, pageFile), pageHtml);
+      writePageFile(path.join(pagesDir, pageFile), pageHtml);
       pageFiles.push(pageFile);
     }
 
     // Save pages index
-    fs.writeFileSync(
-      path.join(bookDir, 'pages.json'),
-      JSON.stringify({ total: pageFiles.length, pages: pageFiles })
-    );
+    const pagesInfo: PagesInfo = { total: pageFiles.length, pages: pageFiles };
+    if (toc.length > 0) {
+      pagesInfo.toc = toc;
+    }
+    fs.writeFileSync(path.join(bookDir, 'pages.json'), JSON.stringify(pagesInfo));
+    indexPageAnchors(bookDir);
 
     // Save metadata
     fs.writeFileSync(
       path.join(bookDir, 'metadata.json'),
       JSON.stringify({
         title: bookTitle,
-        sourceUrl: url,
-        crawledPages: allPages.map(p => p.url),
-        linkClass,
-        ignorePaths,
+        sourceUrl: state.startUrl,
+        crawledPages: state.pages.map(p => p.url),
+        ...(state.mode === 'docs' ? { mode: state.mode, pathPrefix: state.pathPrefix } : { linkClass: state.linkClass }),
+        ignorePaths: state.ignorePaths,
         savedAt: new Date().toISOString()
       })
     );
 
     // Save to database
-    db.addWebsiteBook(bookId, bookTitle, url, pageFiles.length);
+    db.addWebsiteBook(bookId, bookTitle, state.startUrl, pageFiles.length, {
+      author: firstPage.byline,
+      published_date: firstPage.publishedDate
+    });
 
     // Auto-suggest tags
     const webTag = db.getAllTags().find(t => t.name === 'web');
     if (webTag) {
       db.addTagToBook(bookId, webTag.id);
     }
-
-    res.json({
-      success: true,
-      bookId,
-      title: bookTitle,
-      bookType: 'website',
-      totalPages: pageFiles.length,
-      crawledUrls: allPages.map(p => p.url)
-    });
+
+    return {
+      success: true,
+      bookId,
+      title: bookTitle,
+      bookType: 'website',
+      totalPages: pageFiles.length,
+      crawledUrls: state.pages.map(p => p.url)
+    };
+  } catch (error) {
+    fs.rmSync(bookDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+// Turn a fetched web page into book pages under bookDir (shared by save-url and refresh)
+async function buildWebsitePages(
+  bookDir: string,
+  url: string,
+  html: string
+): Promise<{ metadata: WebsiteMetadata; totalPages: number; content: string }> {
+  // Extract metadata
+  const metadata = extractMetadata(html, url);
+  console.log(`Metadata: ${JSON.stringify(metadata)}`);
+
+  // Extract content and images
+  const { content, images } = extractArticleContent(html, url, findExtractionRule(db.getExtractionRules(), url));
+
+  // Create book directory
+  const mediaDir = path.join(bookDir, 'media');
+  const pagesDir = path.join(bookDir, 'pages');
+
+  fs.mkdirSync(bookDir, { recursive: true });
+  fs.mkdirSync(mediaDir, { recursive: true });
+  fs.mkdirSync(pagesDir, { recursive: true });
+
+  // Download images
+  console.log(`Downloading ${images.length} images...`);
+  for (let i = 0; i < images.length; i++) {
+    const imgUrl = images[i];
+    const ext = path.extname(new URL(imgUrl).pathname) || '.jpg';
+    const imgPath = path.join(mediaDir, `${i}${ext}`);
+    await downloadImage(imgUrl, imgPath);
+  }
+
+  // Download OG image as cover
+  if (metadata.ogImage) {
+    const coverExt = path.extname(new URL(metadata.ogImage).pathname) || '.jpg';
+    const coverPath = path.join(bookDir, `custom-cover${coverExt}`);
+    await downloadImage(metadata.ogImage, coverPath);
+  }
+
+  // Fix image paths in content (update extensions)
+  let fixedContent = content;
+  for (let i = 0; i < images.length; i++) {
+    const imgUrl = images[i];
+    const ext = path.extname(new URL(imgUrl).pathname) || '.jpg';
+    fixedContent = fixedContent.replace(new RegExp(`media/${i}\\.img`, 'g'), `media/${i}${ext}`);
+  }
+
+  // Split content by h1/h2 headings
+  const contentSections = splitContentByHeadings(fixedContent, metadata.title);
+  const totalPages = contentSections.length;
+  console.log(`Split into ${totalPages} pages`);
+
+  // Create page HTML template with highlight.js
+  const customStyles = `
+      <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/styles/github.min.css">
+      <style>
+        body { 
+          font-family: 'Noto Sans JP', 'Hiragino Sans', sans-serif;
+          line-height: 1.8;
+          max-width: 800px;
+          margin: 0 auto;
+          padding: 20px;
+          background: #fafafa;
+          color: #333;
+        }
+        img { max-width: 100%; height: auto; display: block; margin: 1em auto; }
+        pre { 
+          padding: 0;
+          overflow-x: auto;
+          border-radius: 5px;
+          margin: 1em 0;
+        }
+        pre code { 
+          display: block;
+          padding: 15px;
+          font-family: 'Consolas', 'Monaco', monospace;
+          font-size: 0.9em;
+        }
+        code { 
+          background: #f4f4f4; 
+          padding: 2px 6px;
+          border-radius: 3px;
+          font-family: 'Consolas', 'Monaco', monospace;
+        }
+        h1, h2, h3 { color: #2c3e50; }
+        a { color: #3498db; }
+        blockquote { border-left: 4px solid #3498db; margin: 1em 0; padding-left: 1em; color: #666; }
+      </style>
+  `;
+
+  // Save each page
+  const pageFiles: string[] = [];
+  for (let i = 0; i < contentSections.length; i++) {
+    const pageNum = i + 1;
+    const isFirstPage = i === 0;
+    const sectionContent = contentSections[i];
+
+    const pageHtml = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${metadata.title}</title>
+  ${customStyles}
+</head>
+<body>
+  ${isFirstPage ? `<h1>${metadata.title}</h1>` : ''}
+  ${isFirstPage && metadata.siteName ? `<p style="color: #666; font-size: 0.9em;">Source: ${metadata.siteName}</p>` : ''}
+  ${isFirstPage ? '<hr>' : ''}
+  ${sectionContent}
+  ${pageNum === totalPages ? `<hr><p style="color: #666; font-size: 0.9em;">Original: <a href="${url}" target="_blank">${url}</a></p>` : ''}
+</body>
+</html>`;
+
+    const pageFile = `page-${pageNum}.html`;
+    writePageFile(path.join(pagesDir, pageFile), pageHtml);
+    pageFiles.push(pageFile);
+  }
+
+  // Save pages index
+  fs.writeFileSync(
+    path.join(bookDir, 'pages.json'),
+    JSON.stringify({ total: totalPages, pages: pageFiles })
+  );
+  indexPageAnchors(bookDir);
+
+  // Save metadata
+  fs.writeFileSync(
+    path.join(bookDir, 'metadata.json'),
+    JSON.stringify({ ...metadata, sourceUrl: url, savedAt: new Date().toISOString() })
+  );
+
+  return { metadata, totalPages, content: fixedContent };
+}
+
+// Save a fetched web page as a new website book (shared by save-url and feed subscriptions)
+async function saveWebsiteBook(
+  url: string,
+  html: string
+): Promise<{ bookId: string; metadata: WebsiteMetadata; totalPages: number }> {
+  // Build the pages
+  const bookId = uuidv4();
+  const bookDir = path.join(convertedDir, bookId);
+  const { metadata, totalPages, content } = await buildWebsitePages(bookDir, url, html);
+
+  // Save to database
+  db.addWebsiteBook(bookId, metadata.title, url, totalPages, {
+    author: metadata.byline,
+    published_date: metadata.publishedDate
+  });
+
+  // Auto-suggest tags based on content (async, don't wait)
+  // Add 'web' tag automatically for websites
+  const webTag = db.getAllTags().find(t => t.name === 'web');
+  if (webTag) {
+    db.addTagToBook(bookId, webTag.id);
+  }
+  suggestTags(metadata.title, content).then(tagIds => {
+    tagIds.forEach(tagId => db.addTagToBook(bookId, tagId));
+  }).catch(e => console.error('Auto-tag error:', e));
+
+  return { bookId, metadata, totalPages };
+}
+
+// Save website URL
+app.post('/api/save-url', async (req: Request, res: Response) => {
+  try {
+    const { url } = req.body;
+
+    if (!url || typeof url !== 'string') {
+      return res.status(400).json({ error: 'URL is required' });
+    }
+
+    // Validate URL
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(url);
+      if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
+        throw new Error('Invalid protocol');
+      }
+    } catch {
+      return res.status(400).json({ error: 'Invalid URL format' });
+    }
+
+    // Reject URLs that are already saved unless explicitly allowed
+    if (req.query.allowDuplicate !== 'true') {
+      const existing = db.findBookBySourceUrl(url);
+      if (existing) {
+        return res.status(409).json({
+          error: 'This URL has already been saved',
+          duplicate: true,
+          existingBook: duplicateBookInfo(existing)
+        });
+      }
+    }
+
+    // Fetch the page
+    console.log(`Fetching URL: ${url}`);
+    const response = await fetchWithTimeout(url);
+
+    if (!response.ok) {
+      return res.status(400).json({ error: `Failed to fetch URL: ${response.status} ${response.statusText}` });
+    }
+
+    const html = await response.text();
+    const { bookId, metadata, totalPages } = await saveWebsiteBook(url, html);
+
+    res.json({
+      success: true,
+      bookId,
+      title: metadata.title,
+      bookType: 'website',
+      totalPages,
+      metadata
+    });
+  } catch (error) {
+    console.error('Save URL error:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// ===== Feed Subscriptions =====
+
+// Save an article found by a feed or FreshRSS through the save-url pipeline and tag it
+async function saveArticleUrl(url: string, tagName: string | null): Promise<string> {
+  // Articles already in the library are linked (and still tagged) instead of being saved twice
+  const existing = db.findBookBySourceUrl(url);
+  if (existing) {
+    if (tagName) {
+      linkTagsByName(existing.id, [tagName]);
+    }
+    return existing.id;
+  }
+
+  const response = await fetchWithTimeout(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+  }
+
+  const { bookId } = await saveWebsiteBook(url, await response.text());
+  if (tagName) {
+    linkTagsByName(bookId, [tagName]);
+  }
+  console.log(`Saved article: ${url}`);
+  return bookId;
+}
+
+const feedPoller = createFeedPoller({
+  listFeeds: () => db.getFeeds(),
+  isKnownEntry: (feedId, entryId) => db.hasFeedEntry(feedId, entryId),
+  saveEntry: (feed, entry) => saveArticleUrl(entry.url, feed.default_tag),
+  markEntry: (feedId, entry, bookId) => db.addFeedEntry(feedId, entry, bookId),
+  recordPoll: (feedId, result) => db.recordFeedPoll(feedId, result)
+}, {
+  intervalMs: Math.max(0, parseInt(process.env.FEED_POLL_INTERVAL_MINUTES || '60', 10) || 0) * 60 * 1000
+});
+
+// Get feed subscriptions
+app.get('/api/feeds', (_req: Request, res: Response) => {
+  try {
+    res.json(db.getFeeds());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Subscribe to a feed; the first poll starts right away in the background
+app.post('/api/feeds', (req: Request, res: Response) => {
+  try {
+    const parsed = parseFeedInput(req.body || {});
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const feed = db.addFeed(parsed.feed);
+    if (feed.enabled) {
+      feedPoller.pollFeed(feed).catch(error => console.error('Feed poll error:', error));
+    }
+    res.json(feed);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Update feed subscription
+app.put('/api/feeds/:id', (req: Request, res: Response) => {
+  try {
+    const parsed = parseFeedInput(req.body || {});
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const feed = db.updateFeed(req.params.id, parsed.feed);
+    if (!feed) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+    res.json(feed);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Delete feed subscription (saved articles stay in the library)
+app.delete('/api/feeds/:id', (req: Request, res: Response) => {
+  try {
+    db.deleteFeed(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Poll a feed now and wait for the result
+app.post('/api/feeds/:id/poll', async (req: Request, res: Response) => {
+  try {
+    const feed = db.getFeed(req.params.id);
+    if (!feed) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+    const result = await feedPoller.pollFeed(feed);
+    res.json({ ...result, feed: db.getFeed(feed.id) });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// ===== FreshRSS Connector =====
+
+const freshRssSync = createFreshRssSync({
+  getSettings: () => db.getFreshRssSettings(),
+  isImportedItem: itemId => db.hasFreshRssItem(itemId),
+  saveItem: (settings, item) => saveArticleUrl(item.url, settings.default_tag),
+  markImportedItem: (item, bookId) => db.addFreshRssItem(item, bookId),
+  recordSync: error => db.recordFreshRssSync(error)
+}, {
+  intervalMs: Math.max(0, parseInt(process.env.FRESHRSS_SYNC_INTERVAL_MINUTES || '60', 10) || 0) * 60 * 1000
+});
+
+// Hide the API password, just show if it is set
+function publicFreshRssSettings(settings: FreshRssSettings) {
+  const { api_password, ...rest } = settings;
+  return { ...rest, has_password: !!api_password };
+}
+
+// Get FreshRSS connection settings (null when not configured)
+app.get('/api/freshrss/settings', (_req: Request, res: Response) => {
+  try {
+    const settings = db.getFreshRssSettings();
+    res.json(settings ? publicFreshRssSettings(settings) : null);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Save FreshRSS connection settings
+app.put('/api/freshrss/settings', (req: Request, res: Response) => {
+  try {
+    const parsed = parseFreshRssSettingsInput(req.body || {});
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    if (!parsed.settings.api_password && !db.getFreshRssSettings()) {
+      return res.status(400).json({ error: 'api_password is required' });
+    }
+    res.json(publicFreshRssSettings(db.saveFreshRssSettings(parsed.settings)));
   } catch (error) {
-    console.error('Save multipage URL error:', error);
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
-// Save website URL
-app.post('/api/save-url', async (req: Request, res: Response) => {
+// Delete FreshRSS connection settings (imported articles stay in the library)
+app.delete('/api/freshrss/settings', (_req: Request, res: Response) => {
   try {
-    const { url } = req.body;
+    db.deleteFreshRssSettings();
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-    if (!url || typeof url !== 'string') {
-      return res.status(400).json({ error: 'URL is required' });
+// Import starred / labelled items now and wait for the result
+app.post('/api/freshrss/sync', async (_req: Request, res: Response) => {
+  try {
+    if (!db.getFreshRssSettings()) {
+      return res.status(400).json({ error: 'FreshRSS is not configured' });
     }
+    const result = await freshRssSync.syncNow();
+    res.json({ ...result, settings: publicFreshRssSettings(db.getFreshRssSettings()!) });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-    // Validate URL
-    let parsedUrl: URL;
-    try {
-      parsedUrl = new URL(url);
-      if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-        throw new Error('Invalid protocol');
-      }
-    } catch {
-      return res.status(400).json({ error: 'Invalid URL format' });
-    }
+// ===== Website Revisions =====
 
-    // Fetch the page
-    console.log(`Fetching URL: ${url}`);
-    const response = await fetchWithTimeout(url);
+// Previous revisions of a refreshed web page (oldest first)
+function readRevisions(bookDir: string): RevisionInfo[] {
+  const revisionsPath = path.join(bookDir, 'revisions.json');
+  return fs.existsSync(revisionsPath) ? JSON.parse(fs.readFileSync(revisionsPath, 'utf8')) : [];
+}
 
-    if (!response.ok) {
-      return res.status(400).json({ error: `Failed to fetch URL: ${response.status} ${response.statusText}` });
+// Page HTML as fetched (the original of a translated page), or null if missing
+function readFetchedPage(pagesDir: string, pageNum: number): string | null {
+  for (const file of [`page-${pageNum}.original.html`, `page-${pageNum}.html`]) {
+    const pagePath = path.join(pagesDir, file);
+    if (fs.existsSync(pagePath)) return fs.readFileSync(pagePath, 'utf8');
+  }
+  return null;
+}
+
+// Whether a re-fetched page is identical to the current one
+function hasSamePages(bookDir: string, refreshedDir: string, totalPages: number, refreshedTotal: number): boolean {
+  if (totalPages !== refreshedTotal) return false;
+  for (let i = 1; i <= totalPages; i++) {
+    if (readFetchedPage(path.join(bookDir, 'pages'), i) !== readFetchedPage(path.join(refreshedDir, 'pages'), i)) {
+      return false;
     }
+  }
+  return true;
+}
 
-    const html = await response.text();
+// Carry translations over to refreshed pages whose fetched HTML is unchanged
+// Returns the old page numbers whose translation is now kept only in the archived revision
+function carryTranslations(bookDir: string, refreshedDir: string, pageMap: (number | null)[] | null): number[] {
+  const pagesDir = path.join(bookDir, 'pages');
+  const refreshedPagesDir = path.join(refreshedDir, 'pages');
+  if (!fs.existsSync(pagesDir)) return [];
 
-    // Extract metadata
-    const metadata = extractMetadata(html, url);
-    console.log(`Metadata: ${JSON.stringify(metadata)}`);
+  const dropped: number[] = [];
+  for (const file of fs.readdirSync(pagesDir)) {
+    const match = file.match(/^page-(\d+)\.original\.html$/);
+    if (!match) continue;
 
-    // Extract content and images
-    const { content, images } = extractArticleContent(html, url);
+    const oldPage = parseInt(match[1], 10);
+    const newPage = pageMap?.[oldPage - 1] ?? null;
+    const original = fs.readFileSync(path.join(pagesDir, file), 'utf8');
+    if (newPage === null || readFetchedPage(refreshedPagesDir, newPage) !== original) {
+      dropped.push(oldPage);
+      continue;
+    }
+    fs.copyFileSync(path.join(pagesDir, file), path.join(refreshedPagesDir, `page-${newPage}.original.html`));
+    fs.copyFileSync(path.join(pagesDir, `page-${oldPage}.html`), path.join(refreshedPagesDir, `page-${newPage}.html`));
+  }
+  return dropped.sort((a, b) => a - b);
+}
 
-    // Create book directory
-    const bookId = uuidv4();
-    const bookDir = path.join(convertedDir, bookId);
-    const mediaDir = path.join(bookDir, 'media');
-    const pagesDir = path.join(bookDir, 'pages');
+// Move the current pages into revisions/<id>/ and put the refreshed pages in their place
+function archiveRevision(bookDir: string, refreshedDir: string, info: Omit<RevisionInfo, 'id'>): RevisionInfo {
+  const revisions = readRevisions(bookDir);
+  const revision: RevisionInfo = { id: String(revisions.length + 1), ...info };
+  const revisionDir = path.join(bookDir, 'revisions', revision.id);
+  fs.mkdirSync(revisionDir, { recursive: true });
 
-    fs.mkdirSync(bookDir, { recursive: true });
-    fs.mkdirSync(mediaDir, { recursive: true });
-    fs.mkdirSync(pagesDir, { recursive: true });
+  // The cover is kept as it is (it may have been set by hand)
+  for (const entry of ['pages', 'media', 'pages.json', 'metadata.json']) {
+    const currentPath = path.join(bookDir, entry);
+    if (fs.existsSync(currentPath)) fs.renameSync(currentPath, path.join(revisionDir, entry));
+    const refreshedPath = path.join(refreshedDir, entry);
+    if (fs.existsSync(refreshedPath)) fs.renameSync(refreshedPath, currentPath);
+  }
 
-    // Download images
-    console.log(`Downloading ${images.length} images...`);
-    for (let i = 0; i < images.length; i++) {
-      const imgUrl = images[i];
-      const ext = path.extname(new URL(imgUrl).pathname) || '.jpg';
-      const imgPath = path.join(mediaDir, `${i}${ext}`);
-      await downloadImage(imgUrl, imgPath);
-    }
+  fs.writeFileSync(path.join(bookDir, 'revisions.json'), JSON.stringify([...revisions, revision]));
+  return revision;
+}
 
-    // Download OG image as cover
-    if (metadata.ogImage) {
-      const coverExt = path.extname(new URL(metadata.ogImage).pathname) || '.jpg';
-      const coverPath = path.join(bookDir, `custom-cover${coverExt}`);
-      await downloadImage(metadata.ogImage, coverPath);
+// Re-fetch a saved web page into a new revision, keeping the previous one for diffs
+app.post('/api/books/:bookId/refresh', async (req: Request, res: Response) => {
+  try {
+    const { bookId } = req.params;
+    const book = db.getBook(bookId);
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    if (book.book_type !== 'website' || !book.source_url) {
+      return res.status(400).json({ error: 'Only saved web pages can be refreshed' });
     }
 
-    // Fix image paths in content (update extensions)
-    let fixedContent = content;
-    for (let i = 0; i < images.length; i++) {
-      const imgUrl = images[i];
-      const ext = path.extname(new URL(imgUrl).pathname) || '.jpg';
-      fixedContent = fixedContent.replace(new RegExp(`media/${i}\\.img`, 'g'), `media/${i}${ext}`);
+    const bookDir = path.join(convertedDir, bookId);
+    const metadataPath = path.join(bookDir, 'metadata.json');
+    const savedMetadata = fs.existsSync(metadataPath) ? JSON.parse(fs.readFileSync(metadataPath, 'utf8')) : {};
+    if (Array.isArray(savedMetadata.crawledPages) && savedMetadata.crawledPages.length > 1) {
+      return res.status(400).json({ error: 'Multi-page books cannot be refreshed' });
     }
 
-    // Split content by h1/h2 headings
-    const contentSections = splitContentByHeadings(fixedContent, metadata.title);
-    const totalPages = contentSections.length;
-    console.log(`Split into ${totalPages} pages`);
+    console.log(`Refreshing URL: ${book.source_url}`);
+    const response = await fetchWithTimeout(book.source_url);
+    if (!response.ok) {
+      return res.status(400).json({ error: `Failed to fetch URL: ${response.status} ${response.statusText}` });
+    }
+    const html = await response.text();
 
-    // Create page HTML template with highlight.js
-    const customStyles = `
-      <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/styles/github.min.css">
-      <style>
-        body { 
-          font-family: 'Noto Sans JP', 'Hiragino Sans', sans-serif;
-          line-height: 1.8;
-          max-width: 800px;
-          margin: 0 auto;
-          padding: 20px;
-          background: #fafafa;
-          color: #333;
-        }
-        img { max-width: 100%; height: auto; display: block; margin: 1em auto; }
-        pre { 
-          padding: 0;
-          overflow-x: auto;
-          border-radius: 5px;
-          margin: 1em 0;
-        }
-        pre code { 
-          display: block;
-          padding: 15px;
-          font-family: 'Consolas', 'Monaco', monospace;
-          font-size: 0.9em;
-        }
-        code { 
-          background: #f4f4f4; 
-          padding: 2px 6px;
-          border-radius: 3px;
-          font-family: 'Consolas', 'Monaco', monospace;
-        }
-        h1, h2, h3 { color: #2c3e50; }
-        a { color: #3498db; }
-        blockquote { border-left: 4px solid #3498db; margin: 1em 0; padding-left: 1em; color: #666; }
-      </style>
-    `;
+    // Build beside the current pages; they are only swapped once the new ones are complete
+    const refreshedDir = path.join(convertedDir, `.refresh-${uuidv4()}`);
+    try {
+      const { metadata, totalPages } = await buildWebsitePages(refreshedDir, book.source_url, html);
 
-    const highlightScript = `
-      <script src="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/highlight.min.js"></script>
-      <script>
-        document.addEventListener('DOMContentLoaded', function() {
-          hljs.highlightAll();
-        });
-      </script>
-    `;
+      if (hasSamePages(bookDir, refreshedDir, book.total_pages, totalPages)) {
+        const unchanged: RefreshResponse = {
+          success: true, changed: false, totalPages, revision: null, remapped: 0, unmapped: [], droppedTranslations: []
+        };
+        return res.json(unchanged);
+      }
 
-    // Save each page
-    const pageFiles: string[] = [];
-    for (let i = 0; i < contentSections.length; i++) {
-      const pageNum = i + 1;
-      const isFirstPage = i === 0;
-      const sectionContent = contentSections[i];
+      const moves = planAnnotationMoves(bookId, readPageHeadings(bookDir), readPageHeadings(refreshedDir));
+      const droppedTranslations = carryTranslations(bookDir, refreshedDir, moves.pageMap);
+      const revision = archiveRevision(bookDir, refreshedDir, {
+        title: book.title,
+        totalPages: book.total_pages,
+        savedAt: savedMetadata.savedAt || null,
+        replacedAt: new Date().toISOString(),
+        pageMap: moves.pageMap || []
+      });
 
-      const pageHtml = `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${metadata.title}</title>
-  ${customStyles}
-</head>
-<body>
-  ${isFirstPage ? `<h1>${metadata.title}</h1>` : ''}
-  ${isFirstPage && metadata.siteName ? `<p style="color: #666; font-size: 0.9em;">Source: ${metadata.siteName}</p>` : ''}
-  ${isFirstPage ? '<hr>' : ''}
-  ${sectionContent}
-  ${pageNum === totalPages ? `<hr><p style="color: #666; font-size: 0.9em;">Original: <a href="${url}" target="_blank">${url}</a></p>` : ''}
-  ${highlightScript}
-</body>
-</html>`;
+      db.refreshWebsiteBook(bookId, {
+        totalPages,
+        metadata: { author: metadata.byline, published_date: metadata.publishedDate }
+      }, moves.mapPage);
 
-      const pageFile = `page-${pageNum}.html`;
-      fs.writeFileSync(path.join(pagesDir, pageFile), pageHtml);
-      pageFiles.push(pageFile);
+      const result: RefreshResponse = {
+        success: true,
+        changed: true,
+        totalPages,
+        revision,
+        remapped: moves.remapped,
+        unmapped: moves.unmapped,
+        droppedTranslations
+      };
+      res.json(result);
+    } finally {
+      fs.rmSync(refreshedDir, { recursive: true, force: true });
     }
+  } catch (error) {
+    console.error('Refresh error:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-    // Save pages index
-    fs.writeFileSync(
-      path.join(bookDir, 'pages.json'),
-      JSON.stringify({ total: totalPages, pages: pageFiles })
-    );
+// List previous revisions of a refreshed web page
+app.get('/api/books/:bookId/revisions', (req: Request, res: Response) => {
+  try {
+    res.json({ revisions: readRevisions(path.join(convertedDir, req.params.bookId)) });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-    // Save metadata
-    fs.writeFileSync(
-      path.join(bookDir, 'metadata.json'),
-      JSON.stringify({ ...metadata, sourceUrl: url, savedAt: new Date().toISOString() })
-    );
+// Diff of a page against a previous revision (?revision=<id>, latest by default)
+app.get('/api/books/:bookId/page/:pageNum/diff', (req: Request, res: Response) => {
+  try {
+    const { bookId } = req.params;
+    const pageNum = parseInt(req.params.pageNum, 10);
+    const bookDir = path.join(convertedDir, bookId);
+    const revisions = readRevisions(bookDir);
 
-    // Save to database
-    db.addWebsiteBook(bookId, metadata.title, url, totalPages);
+    const revisionIndex = req.query.revision === undefined
+      ? revisions.length - 1
+      : revisions.findIndex(r => r.id === req.query.revision);
+    if (revisionIndex < 0) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
 
-    // Auto-suggest tags based on content (async, don't wait)
-    // Add 'web' tag automatically for websites
-    const webTag = db.getAllTags().find(t => t.name === 'web');
-    if (webTag) {
-      db.addTagToBook(bookId, webTag.id);
+    const currentHtml = readFetchedPage(path.join(bookDir, 'pages'), pageNum);
+    if (currentHtml === null) {
+      return res.status(404).json({ error: 'Page not found' });
     }
-    suggestTags(metadata.title, fixedContent).then(tagIds => {
-      tagIds.forEach(tagId => db.addTagToBook(bookId, tagId));
-    }).catch(e => console.error('Auto-tag error:', e));
+
+    const revision = revisions[revisionIndex];
+    const oldPages = findRevisionPages(revisions, revisionIndex, pageNum);
+    const oldBlocks = oldPages.flatMap(oldPage => {
+      const oldHtml = readFetchedPage(path.join(bookDir, 'revisions', revision.id, 'pages'), oldPage);
+      return oldHtml === null ? [] : extractTextBlocks(oldHtml);
+    });
+    const blocks = diffTextBlocks(oldBlocks, extractTextBlocks(currentHtml));
 
     res.json({
-      success: true,
-      bookId,
-      title: metadata.title,
-      bookType: 'website',
-      totalPages,
-      metadata
+      revision,
+      oldPages,
+      blocks,
+      added: blocks.filter(b => b.type === 'added').length,
+      removed: blocks.filter(b => b.type === 'removed').length
     });
   } catch (error) {
-    console.error('Save URL error:', error);
     res.status(500).json({ error: (error as Error).message });
   }
 });
@@ -1548,6 +2735,30 @@ app.get('/api/books/:bookId/pdf', (req: Request, res: Response) => {
   res.sendFile(pdfPath);
 });
 
+// Get text extracted on the server (PDF), one page with ?page=N or all pages
+app.get('/api/books/:bookId/text', (req: Request, res: Response) => {
+  try {
+    const { bookId } = req.params;
+
+    if (req.query.page !== undefined) {
+      const pageNum = typeof req.query.page === 'string' ? parsePageNum(req.query.page) : null;
+      if (pageNum === null) {
+        return res.status(400).json({ error: 'page must be a positive integer' });
+      }
+      const pageText = db.getPageText(bookId, pageNum);
+      if (!pageText) {
+        return res.status(404).json({ error: 'Page text not found' });
+      }
+      return res.json({ page: pageText.page_num, text: pageText.text });
+    }
+
+    const pages = db.getPageTexts(bookId).map(p => ({ page: p.page_num, text: p.text }));
+    res.json({ pages, total: pages.length });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // Get all books
 app.get('/api/books', (_req: Request, res: Response) => {
   try {
@@ -1632,7 +2843,7 @@ app.post('/api/books/:bookId/page/:pageNum/save-translation', (req: Request, res
     }
 
     // 翻訳されたコンテンツを保存
-    fs.writeFileSync(pagePath, content);
+    writePageFile(pagePath, content);
 
     console.log(`Saved translated page: ${bookId}/page-${pageNum}`);
     res.json({ success: true, message: 'Translation saved' });
@@ -1657,7 +2868,7 @@ app.post('/api/books/:bookId/page/:pageNum/restore-original', (req: Request, res
 
     // バックアップから復元
     const originalContent = fs.readFileSync(backupPath, 'utf8');
-    fs.writeFileSync(pagePath, originalContent);
+    writePageFile(pagePath, originalContent);
 
     console.log(`Restored original page: ${bookId}/page-${pageNum}`);
     res.json({ success: true, message: 'Original restored' });
@@ -1719,7 +2930,7 @@ app.post('/api/books/:bookId/restore-all-translations', (req: Request, res: Resp
         const pagePath = path.join(pagesDir, `page-${pageNum}.html`);
 
         const originalContent = fs.readFileSync(backupPath, 'utf8');
-        fs.writeFileSync(pagePath, originalContent);
+        writePageFile(pagePath, originalContent);
         // バックアップファイルを削除
         fs.unlinkSync(backupPath);
         restoredCount++;
@@ -1766,6 +2977,53 @@ app.get('/api/books/:bookId/all-pages', (req: Request, res: Response) => {
   }
 });
 
+// Get comic page images (CBZ)
+app.get('/api/books/:bookId/comic', (req: Request, res: Response) => {
+  try {
+    const { bookId } = req.params;
+    const pagesPath = path.join(convertedDir, bookId, 'pages.json');
+
+    if (!fs.existsSync(pagesPath)) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const pagesInfo: PagesInfo = JSON.parse(fs.readFileSync(pagesPath, 'utf8'));
+    if (!pagesInfo.images) {
+      return res.status(400).json({ error: 'Not a comic book' });
+    }
+
+    res.json({
+      total: pagesInfo.images.length,
+      images: pagesInfo.images.map(image => `/api/books/${bookId}/media/${encodeURIComponent(image)}`),
+      rightToLeft: pagesInfo.rightToLeft ?? null
+    });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Get element id → page index and footnotes for in-reader links
+app.get('/api/books/:bookId/anchors', (req: Request, res: Response) => {
+  try {
+    const bookDir = path.join(convertedDir, req.params.bookId);
+    const pagesPath = path.join(bookDir, 'pages.json');
+
+    if (!fs.existsSync(pagesPath)) {
+      // PDFs have no HTML pages
+      return res.json({ anchors: {}, footnotes: {} });
+    }
+
+    // Books converted before the index existed are indexed on first request
+    const pagesInfo: PagesInfo = JSON.parse(fs.readFileSync(pagesPath, 'utf8'));
+    const index = pagesInfo.anchors
+      ? { anchors: pagesInfo.anchors, footnotes: pagesInfo.footnotes || {} }
+      : indexPageAnchors(bookDir);
+    res.json(index);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // Get book TOC - extract headings from all pages
 app.get('/api/books/:bookId/toc', (req: Request, res: Response) => {
   try {
@@ -1773,10 +3031,19 @@ app.get('/api/books/:bookId/toc', (req: Request, res: Response) => {
     const pagesPath = path.join(convertedDir, bookId, 'pages.json');
 
     if (!fs.existsSync(pagesPath)) {
-      return res.json({ toc: [] });
+      // PDFs use the outline (bookmarks) saved by the viewer
+      const outlinePath = path.join(convertedDir, bookId, 'outline.json');
+      const toc: TocItem[] = fs.existsSync(outlinePath) ? JSON.parse(fs.readFileSync(outlinePath, 'utf8')) : [];
+      return res.json({ toc });
     }
 
     const pagesInfo: PagesInfo = JSON.parse(fs.readFileSync(pagesPath, 'utf8'));
+
+    // Use the navigation document saved at conversion time when available
+    if (pagesInfo.toc && pagesInfo.toc.length > 0) {
+      return res.json({ toc: pagesInfo.toc });
+    }
+
     const toc: TocItem[] = [];
 
     // Extract headings from each page
@@ -1986,7 +3253,9 @@ ${headContent}
     }
 
     // 編集されたコンテンツを保存
-    fs.writeFileSync(pagePath, newHtml);
+    writePageFile(pagePath, newHtml);
+    // 編集でidや脚注が変わることがあるので索引を作り直す
+    indexPageAnchors(path.join(convertedDir, bookId));
 
     console.log(`Saved edited page: ${bookId}/page-${pageNum}`);
     res.json({ success: true, message: 'Edit saved' });
@@ -2036,8 +3305,12 @@ app.post('/api/ai/auto-tag-all', async (req: Request, res: Response) => {
       const bookDir = path.join(convertedDir, book.id);
       const pagesDir = path.join(bookDir, 'pages');
 
-      // Try to read first page content
-      if (fs.existsSync(path.join(pagesDir, 'page-1.html'))) {
+      // PDFs use the text extracted on the server
+      const pageTexts = book.book_type === 'pdf' ? db.getPageTexts(book.id) : [];
+      if (pageTexts.length > 0) {
+        content = pageTexts.map(p => p.text).join('\n').substring(0, 1000);
+      } else if (fs.existsSync(path.join(pagesDir, 'page-1.html'))) {
+        // Try to read first page content
         try {
           const pageContent = fs.readFileSync(path.join(pagesDir, 'page-1.html'), 'utf8');
           content = pageContent.substring(0, 1000);
@@ -2112,9 +3385,22 @@ app.delete('/api/books/:bookId', (req: Request, res: Response) => {
 app.patch('/api/books/:bookId', (req: Request, res: Response) => {
   try {
     const { bookId } = req.params;
-    const { title, language, ai_context } = req.body;
+    const {
+      title, language, ai_context,
+      author, publisher, identifier, description, series, series_index
+    } = req.body;
+
+    const seriesIndex = series_index === '' || series_index === null ? null
+      : series_index === undefined ? undefined : Number(series_index);
+    if (seriesIndex !== undefined && seriesIndex !== null && isNaN(seriesIndex)) {
+      return res.status(400).json({ error: 'series_index must be a number' });
+    }
 
-    const updated = db.updateBook(bookId, { title, language, ai_context });
+    const updated = db.updateBook(bookId, {
+      title, language, ai_context,
+      author, publisher, identifier, description, series,
+      series_index: seriesIndex
+    });
     if (!updated) {
       return res.status(404).json({ error: 'Book not found' });
     }
@@ -2142,6 +3428,33 @@ app.post('/api/books/:bookId/pdf-total-pages', (req: Request, res: Response) =>
   }
 });
 
+// Save PDF outline read by pdf.js (served as the TOC)
+app.post('/api/books/:bookId/pdf-outline', (req: Request, res: Response) => {
+  try {
+    const { bookId } = req.params;
+    const { toc } = req.body as { toc?: unknown };
+    const pdfPath = path.join(convertedDir, bookId, 'document.pdf');
+
+    if (!fs.existsSync(pdfPath)) {
+      return res.status(404).json({ error: 'PDF not found' });
+    }
+    if (!Array.isArray(toc)) {
+      return res.status(400).json({ error: 'toc must be an array' });
+    }
+
+    const isPositiveInt = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 1;
+    const outline: TocItem[] = toc
+      .filter((item): item is TocItem =>
+        typeof item?.title === 'string' && item.title.trim() !== '' && isPositiveInt(item.page) && isPositiveInt(item.level))
+      .map(item => ({ title: item.title.trim().slice(0, 500), page: item.page, level: item.level }));
+
+    fs.writeFileSync(path.join(convertedDir, bookId, 'outline.json'), JSON.stringify(outline));
+    res.json({ success: true, count: outline.length });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // ===== Tags API =====
 
 // Get all tags
@@ -2223,14 +3536,7 @@ app.delete('/api/books/:bookId/tags/:tagId', (req: Request, res: Response) => {
 });
 
 // Serve media files
-app.get('/api/books/:bookId/media/*', (req: Request, res: Response) => {
-  const mediaPath = path.join(convertedDir, req.params.bookId, 'media', req.params[0]);
-  if (fs.existsSync(mediaPath)) {
-    res.sendFile(mediaPath);
-  } else {
-    res.status(404).json({ error: 'Media not found' });
-  }
-});
+app.get('/api/books/:bookId/media/*', createMediaHandler(convertedDir));
 
 // Upload custom cover image for a book
 const coverStorage = multer.diskStorage({
@@ -2345,7 +3651,7 @@ app.get('/api/books/:bookId/cover', async (req: Request, res: Response) => {
     // pdftoppmでサムネイル生成を試みる
     try {
       const thumbPrefix = path.join(bookDir, 'pdf-thumb');
-      execSync(`pdftoppm -png -f 1 -l 1 -scale-to 400 "${pdfPath}" "${thumbPrefix}"`, { timeout: 30000 });
+      await renderPdfThumbnail(pdfPath, thumbPrefix);
 
       // pdftoppmは pdf-thumb-1.png または pdf-thumb-01.png を生成する
       const possibleFiles = [
@@ -2670,6 +3976,57 @@ app.post('/api/vocabularies/import', (req: Request, res: Response) => {
   }
 });
 
+// ==================== Extraction rules APIs (サイト別の抽出ルール) ====================
+
+// Get all extraction rules
+app.get('/api/extraction-rules', (_req: Request, res: Response) => {
+  try {
+    res.json(db.getExtractionRules());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Add extraction rule
+app.post('/api/extraction-rules', (req: Request, res: Response) => {
+  try {
+    const parsed = parseExtractionRuleInput(req.body || {});
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    res.json(db.addExtractionRule(parsed.rule));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Update extraction rule
+app.put('/api/extraction-rules/:id', (req: Request, res: Response) => {
+  try {
+    const parsed = parseExtractionRuleInput(req.body || {});
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const rule = db.updateExtractionRule(req.params.id, parsed.rule);
+    if (!rule) {
+      return res.status(404).json({ error: 'Extraction rule not found' });
+    }
+    res.json(rule);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Delete extraction rule
+app.delete('/api/extraction-rules/:id', (req: Request, res: Response) => {
+  try {
+    db.deleteExtractionRule(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // Serve React app for all other routes in production
 if (process.env.NODE_ENV === 'production') {
   app.get('*', (_req: Request, res: Response) => {
@@ -2679,6 +4036,8 @@ if (process.env.NODE_ENV === 'production') {
 
 app.listen(PORT, () => {
   console.log(`Server running on http://0.0.0.0:${PORT}`);
+  feedPoller.start();
+  freshRssSync.start();
 });
 
 export default app;
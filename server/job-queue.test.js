@@ -0,0 +1,182 @@
+/**
+ * Job Queue Tests
+ * t-wada TDD style: 同時実行数の制限と進捗・結果の記録
+ */
+import { describe, expect, it } from 'vitest'
+import { createJobQueue } from './job-queue'
+
+// 外部から解決できるPromise
+function deferred() {
+  let resolve
+  let reject
+  const promise = new Promise((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+// キューの処理開始（setImmediate）を待つ
+const tick = () => new Promise(resolve => setImmediate(resolve))
+
+describe('createJobQueue', () => {
+  it('should return a queued job immediately', () => {
+    const queue = createJobQueue()
+
+    const job = queue.enqueue('upload', async () => 'done')
+
+    expect(job.status).toBe('queued')
+    expect(job.progress).toBe(0)
+    expect(queue.getJob(job.id)).toBe(job)
+  })
+
+  it('should record result when the task completes', async () => {
+    const queue = createJobQueue()
+
+    const job = queue.enqueue('upload', async () => ({ bookId: 'b1' }))
+    await queue.idle()
+
+    expect(queue.getJob(job.id)).toMatchObject({
+      status: 'completed',
+      stage: 'completed',
+      progress: 100,
+      result: { bookId: 'b1' },
+      error: null
+    })
+  })
+
+  it('should record error message when the task fails', async () => {
+    const queue = createJobQueue()
+
+    const job = queue.enqueue('upload', async () => {
+      throw new Error('Failed to convert EPUB')
+    })
+    await queue.idle()
+
+    expect(queue.getJob(job.id).status).toBe('failed')
+    expect(queue.getJob(job.id).error).toBe('Failed to convert EPUB')
+  })
+
+  it('should expose stage and clamped progress reported by the task', async () => {
+    const queue = createJobQueue()
+    const gate = deferred()
+
+    const job = queue.enqueue('upload', async (report) => {
+      report('converting', 42.4)
+      await gate.promise
+      report('saving', 150)
+      await gate.promise
+    })
+    await tick()
+
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'running', stage: 'converting', progress: 42 })
+
+    gate.resolve()
+    await queue.idle()
+    expect(queue.getJob(job.id).progress).toBe(100)
+  })
+
+  it('should not run more tasks than the concurrency limit', async () => {
+    const queue = createJobQueue({ concurrency: 2 })
+    const gates = [deferred(), deferred(), deferred()]
+    let running = 0
+    let maxRunning = 0
+
+    const jobs = gates.map(gate => queue.enqueue('upload', async () => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await gate.promise
+      running--
+    }))
+    await tick()
+
+    expect(jobs.map(j => queue.getJob(j.id).status)).toEqual(['running', 'running', 'queued'])
+
+    gates.forEach(gate => gate.resolve())
+    await queue.idle()
+
+    expect(maxRunning).toBe(2)
+    expect(jobs.every(j => queue.getJob(j.id).status === 'completed')).toBe(true)
+  })
+
+  it('should drop finished jobs after the retention period', async () => {
+    const queue = createJobQueue({ retentionMs: -1 })
+
+    const job = queue.enqueue('upload', async () => 'done')
+    await queue.idle()
+    queue.enqueue('upload', async () => 'next')
+
+    expect(queue.getJob(job.id)).toBeNull()
+  })
+
+  it('should keep the latest detail reported by the task', async () => {
+    const queue = createJobQueue()
+    const gate = deferred()
+
+    const job = queue.enqueue('multipage', async (report) => {
+      report('fetching', 10, { fetched: 1 })
+      report('fetching', 20)
+      await gate.promise
+    })
+    await tick()
+
+    expect(queue.getJob(job.id)).toMatchObject({ stage: 'fetching', progress: 20, detail: { fetched: 1 } })
+    gate.resolve()
+    await queue.idle()
+  })
+
+  it('should cancel a queued job without running it', async () => {
+    const queue = createJobQueue()
+    const gate = deferred()
+    let ran = false
+
+    queue.enqueue('upload', () => gate.promise)
+    const job = queue.enqueue('upload', async () => {
+      ran = true
+    })
+
+    expect(queue.cancel(job.id)).toBe(true)
+    gate.resolve()
+    await queue.idle()
+
+    expect(ran).toBe(false)
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'cancelled', stage: 'cancelled' })
+  })
+
+  it('should abort the signal of a running job and mark it cancelled', async () => {
+    const queue = createJobQueue()
+
+    const job = queue.enqueue('multipage', (report, signal) => new Promise((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')))
+    }))
+    await tick()
+
+    expect(queue.cancel(job.id)).toBe(true)
+    await queue.idle()
+
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'cancelled', error: null })
+    expect(queue.cancel(job.id)).toBe(false)
+  })
+
+  it('should notify subscribers of every update until they unsubscribe', async () => {
+    const queue = createJobQueue()
+    const gate = deferred()
+    const stages = []
+
+    const job = queue.enqueue('upload', async (report) => {
+      report('converting', 50)
+      await gate.promise
+    })
+    const unsubscribe = queue.subscribe(job.id, j => stages.push(`${j.status}:${j.stage}`))
+    await tick()
+    unsubscribe()
+    gate.resolve()
+    await queue.idle()
+
+    expect(stages).toEqual(['running:starting', 'running:converting'])
+  })
+
+  it('should return null for unknown job ids', () => {
+    expect(createJobQueue().getJob('missing')).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Background job queue
+ * 変換などの重い処理をリクエスト外で同時実行数を制限して実行する
+ */
+import { v4 as uuidv4 } from 'uuid';
+import type { Job } from './types';
+
+/**
+ * 進捗報告用コールバック
+ * @param stage - 現在の処理段階
+ * @param progress - 進捗率（0-100）、省略時は据え置き
+ * @param detail - ジョブ固有の進捗情報、省略時は据え置き
+ */
+export type JobReporter = (stage: string, progress?: number, detail?: unknown) => void;
+
+// signal は cancel() で中止されたときに abort される
+export type JobTask<T> = (report: JobReporter, signal: AbortSignal) => Promise<T>;
+
+export type JobListener = (job: Job<unknown>) => void;
+
+export interface JobQueueOptions {
+  // 同時に実行するジョブ数
+  concurrency?: number;
+  // 完了・失敗したジョブを保持する時間（ミリ秒）
+  retentionMs?: number;
+}
+
+export interface JobQueue {
+  enqueue<T>(type: string, task: JobTask<T>): Job<T>;
+  getJob<T = unknown>(id: string): Job<T> | null;
+  // 待機中のジョブは取り除き、実行中のジョブには中止を伝える（終了済み・不明なジョブはfalse）
+  cancel(id: string): boolean;
+  // ジョブが更新されるたびに呼ばれるリスナーを登録し、解除関数を返す
+  subscribe(id: string, listener: JobListener): () => void;
+  // 全ジョブの完了を待つ（テスト・シャットダウン用）
+  idle(): Promise<void>;
+}
+
+/**
+ * ジョブキューを作成
+ * @param options - 同時実行数と保持期間
+ * @returns enqueue / getJob / cancel / subscribe を持つキュー
+ */
+export function createJobQueue({ concurrency = 1, retentionMs = 60 * 60 * 1000 }: JobQueueOptions = {}): JobQueue {
+  const jobs = new Map<string, Job<unknown>>();
+  const pending: { job: Job<unknown>; task: JobTask<unknown> }[] = [];
+  const idleWaiters: (() => void)[] = [];
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Map<string, Set<JobListener>>();
+  let running = 0;
+
+  function update(job: Job<unknown>, changes: Partial<Job<unknown>>): void {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    listeners.get(job.id)?.forEach(listener => listener(job));
+  }
+
+  function isFinished(job: Job<unknown>): boolean {
+    return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+  }
+
+  // 保持期間を過ぎた終了済みジョブを削除
+  function prune(): void {
+    const cutoff = Date.now() - retentionMs;
+    for (const [id, job] of jobs) {
+      if (isFinished(job) && new Date(job.updatedAt).getTime() < cutoff) {
+        jobs.delete(id);
+        listeners.delete(id);
+      }
+    }
+  }
+
+  function notifyIdle(): void {
+    if (running === 0 && pending.length === 0) {
+      idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+
+  function next(): void {
+    while (running < concurrency && pending.length > 0) {
+      const { job, task } = pending.shift()!;
+      running++;
+      update(job, { status: 'running', stage: 'starting' });
+
+      const controller = new AbortController();
+      controllers.set(job.id, controller);
+
+      const report: JobReporter = (stage, progress, detail) => {
+        const changes: Partial<Job<unknown>> = { stage };
+        if (progress !== undefined) changes.progress = Math.max(0, Math.min(100, Math.round(progress)));
+        if (detail !== undefined) changes.detail = detail;
+        update(job, changes);
+      };
+
+      task(report, controller.signal)
+        .then(result => update(job, { status: 'completed', stage: 'completed', progress: 100, result }))
+        .catch(error => update(job, controller.signal.aborted
+          ? { status: 'cancelled', stage: 'cancelled' }
+          : { status: 'failed', error: (error as Error).message || String(error) }))
+        .finally(() => {
+          controllers.delete(job.id);
+          running--;
+          next();
+        });
+    }
+
+    notifyIdle();
+  }
+
+  return {
+    enqueue<T>(type: string, task: JobTask<T>): Job<T> {
+      prune();
+      const now = new Date().toISOString();
+      const job: Job<unknown> = {
+        id: uuidv4(),
+        type,
+        status: 'queued',
+        stage: 'queued',
+        progress: 0,
+        result: null,
+        error: null,
+        detail: null,
+        createdAt: now,
+        updatedAt: now
+      };
+      jobs.set(job.id, job);
+      pending.push({ job, task: task as JobTask<unknown> });
+      // 呼び出し元がレスポンスを返してから処理を始める
+      setImmediate(next);
+      return job as Job<T>;
+    },
+
+    getJob<T = unknown>(id: string): Job<T> | null {
+      return (jobs.get(id) as Job<T> | undefined) || null;
+    },
+
+    cancel(id: string): boolean {
+      const index = pending.findIndex(entry => entry.job.id === id);
+      if (index >= 0) {
+        const [{ job }] = pending.splice(index, 1);
+        update(job, { status: 'cancelled', stage: 'cancelled' });
+        notifyIdle();
+        return true;
+      }
+
+      // 実行中のタスクは signal を見て中断し、reject した時点で cancelled になる
+      const controller = controllers.get(id);
+      if (!controller || controller.signal.aborted) return false;
+      controller.abort();
+      return true;
+    },
+
+    subscribe(id: string, listener: JobListener): () => void {
+      if (!listeners.has(id)) listeners.set(id, new Set());
+      listeners.get(id)!.add(listener);
+      return () => {
+        listeners.get(id)?.delete(listener);
+        if (listeners.get(id)?.size === 0) listeners.delete(id);
+      };
+    },
+
+    idle(): Promise<void> {
+      if (running === 0 && pending.length === 0) return Promise.resolve();
+      return new Promise(resolve => idleWaiters.push(resolve));
+    }
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Multi-page Crawler Tests
+ * t-wada TDD style: 次ページリンクの追跡・中止と再開
+ */
+import http from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { crawlPages, createCrawlState, findNextPageUrl, toCrawlProgress } from './multipage-crawler'
+
+// 「次へ」リンクでつながったページを返すHTTPサーバー
+let server
+let baseUrl
+let failing
+let requests
+
+const page = (n, next) => `<html><head><title>Page ${n}</title></head><body>
+  <p>Body ${n}</p><img src="/img/${n}.png">
+  ${next ? `<a class="next-page" href="${next}">次へ</a>` : ''}
+</body></html>`
+
+const pages = {
+  '/story/1': page(1, '/story/2'),
+  '/story/2': page(2, '/story/3'),
+  '/story/3': page(3, '/about'),
+  '/about': page('about', null),
+  '/loop/1': page('loop 1', '/loop/2'),
+  '/loop/2': page('loop 2', '/loop/1')
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests.push(req.url)
+    if (failing.includes(req.url) || !pages[req.url]) {
+      res.writeHead(failing.includes(req.url) ? 503 : 404)
+      res.end()
+      return
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+    res.end(pages[req.url])
+  })
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${server.address().port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  failing = []
+  requests = []
+})
+
+// index.ts の取得・解析の代わりに、タイトルと画像と次ページだけを取り出す
+function createDeps(overrides = {}) {
+  const progress = []
+  return {
+    progress,
+    fetchHtml: async (url, signal) => {
+      const response = await fetch(url, { signal })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      return response.text()
+    },
+    parsePage: (html, url) => ({
+      content: html,
+      images: [...html.matchAll(/src="([^"]+)"/g)].map(m => new URL(m[1], url).href),
+      title: html.match(/<title>(.*?)<\/title>/)[1],
+      byline: null,
+      publishedDate: null,
+      nextUrl: findNextPageUrl(html, url, { linkClass: 'next-page' })
+    }),
+    onProgress: state => progress.push(state.pages.length),
+    ...overrides
+  }
+}
+
+const state = (overrides = {}) => createCrawlState({ startUrl: `${baseUrl}/story/1`, maxPages: 50, ...overrides })
+
+describe('findNextPageUrl', () => {
+  const html = `<div class="pager"><a href="/by-rule">rule</a></div>
+    <a class="next-page" href="/by-class">class</a>
+    <a rel="next" href="/by-rel">rel</a>`
+
+  it('should prefer the site rule selector, then the link class', () => {
+    expect(findNextPageUrl(html, 'https://example.com/a', { linkClass: 'next-page', nextPageSelector: '.pager' }))
+      .toBe('https://example.com/by-rule')
+    expect(findNextPageUrl(html, 'https://example.com/a', { linkClass: '.next-page' }))
+      .toBe('https://example.com/by-class')
+  })
+
+  it('should fall back to rel="next"', () => {
+    expect(findNextPageUrl(html, 'https://example.com/a', { linkClass: 'missing' })).toBe('https://example.com/by-rel')
+    expect(findNextPageUrl('<p>last page</p>', 'https://example.com/a', { linkClass: 'next-page' })).toBeNull()
+  })
+})
+
+describe('crawlPages', () => {
+  it('should follow next links until there are none', async () => {
+    const deps = createDeps()
+
+    const result = await crawlPages(state(), deps, new AbortController().signal)
+
+    expect(result.pages.map(p => p.title)).toEqual(['Page 1', 'Page 2', 'Page 3', 'Page about'])
+    expect(result.nextUrl).toBeNull()
+    expect(deps.progress).toEqual([1, 2, 3, 4])
+  })
+
+  it('should stop at maxPages and ignored paths', async () => {
+    const limited = await crawlPages(state({ maxPages: 2 }), createDeps(), new AbortController().signal)
+    expect(limited.pages).toHaveLength(2)
+    expect(limited.nextUrl).toBe(`${baseUrl}/story/3`)
+
+    const ignored = await crawlPages(state({ ignorePaths: ['/about'] }), createDeps(), new AbortController().signal)
+    expect(ignored.pages).toHaveLength(3)
+    expect(requests).not.toContain('/about')
+  })
+
+  it('should stop when a page links back to a visited page', async () => {
+    const result = await crawlPages(state({ startUrl: `${baseUrl}/loop/1` }), createDeps(), new AbortController().signal)
+
+    expect(result.pages).toHaveLength(2)
+    expect(result.nextUrl).toBeNull()
+  })
+
+  it('should record a fetch error and resume from the failed page', async () => {
+    failing = ['/story/2']
+    const crawl = await crawlPages(state(), createDeps(), new AbortController().signal)
+
+    expect(crawl.pages).toHaveLength(1)
+    expect(crawl.errors).toEqual([{ url: `${baseUrl}/story/2`, message: 'HTTP 503' }])
+    expect(crawl.nextUrl).toBe(`${baseUrl}/story/2`)
+
+    failing = []
+    const resumed = await crawlPages(crawl, createDeps(), new AbortController().signal)
+
+    expect(resumed.pages.map(p => p.url)).toEqual(['/story/1', '/story/2', '/story/3', '/about'].map(p => `${baseUrl}${p}`))
+    expect(requests.filter(url => url === '/story/1')).toHaveLength(1)
+  })
+
+  it('should reject when aborted and keep the pages fetched so far', async () => {
+    const controller = new AbortController()
+    const deps = createDeps({
+      delayMs: 1000,
+      onProgress: () => controller.abort()
+    })
+    const crawl = state()
+
+    await expect(crawlPages(crawl, deps, controller.signal)).rejects.toThrow()
+
+    expect(crawl.pages).toHaveLength(1)
+    expect(crawl.nextUrl).toBe(`${baseUrl}/story/2`)
+  })
+})
+
+describe('toCrawlProgress', () => {
+  it('should summarise fetched pages without their content', async () => {
+    const crawl = await crawlPages(state({ maxPages: 2 }), createDeps(), new AbortController().signal)
+
+    const progress = toCrawlProgress(crawl)
+
+    expect(progress.fetched).toEqual([
+      { url: `${baseUrl}/story/1`, bytes: Buffer.byteLength(pages['/story/1']), images: 1 },
+      { url: `${baseUrl}/story/2`, bytes: Buffer.byteLength(pages['/story/2']), images: 1 }
+    ])
+    expect(progress).toMatchObject({ images: 2, errors: [], nextUrl: `${baseUrl}/story/3`, maxPages: 2 })
+    expect(progress).not.toHaveProperty('pages')
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Multi-page crawler
+ * 「次のページ」リンクを辿って複数ページを取得する。途中で中止しても、取得済みのページと次のURLから再開できる
+ */
+import * as cheerio from 'cheerio';
+import { setTimeout as sleep } from 'timers/promises';
+import { normalizeClassSelector, normalizeUrl, resolveUrl, shouldIgnorePath } from './multipage-utils';
+import { detectNextPage, type PaginationMethod } from './pagination-detector';
+import type { CrawlProgress } from './types';
+
+export interface CrawledPage {
+  url: string;
+  content: string;
+  images: string[];
+  title: string;
+  byline: string | null;
+  publishedDate: string | null;
+  bytes: number;
+}
+
+export interface CrawlState {
+  mode: 'next';
+  startUrl: string;
+  linkClass: string | null;
+  ignorePaths: string[];
+  maxPages: number;
+  pages: CrawledPage[];
+  visited: string[];
+  // 次に取得するURL（辿るリンクがなくなればnull）
+  nextUrl: string | null;
+  errors: { url: string; message: string }[];
+}
+
+// 取得したページから取り出した本文
+export type ParsedPage = Omit<CrawledPage, 'url' | 'bytes'>;
+
+// 本文と次ページのURL
+export type ParsedCrawlPage = ParsedPage & { nextUrl: string | null };
+
+export interface CrawlDeps {
+  // ページのHTMLを取得する（取得できなければ例外）
+  fetchHtml(url: string, signal: AbortSignal): Promise<string>;
+  // HTMLから本文と次ページのURLを取り出す
+  parsePage(html: string, url: string): ParsedCrawlPage;
+  // ページ取得の間隔（ミリ秒）
+  delayMs?: number;
+  // ページを取得するたび・エラーのたびに呼ばれる
+  onProgress?(state: CrawlState): void;
+}
+
+/**
+ * クロールの初期状態を作る
+ * @param options - 開始URL・次ページリンクのクラス・無視するパス・最大ページ数
+ * @returns まだ1ページも取得していない状態
+ */
+export function createCrawlState(options: {
+  startUrl: string;
+  linkClass?: string | null;
+  ignorePaths?: string[];
+  maxPages: number;
+}): CrawlState {
+  return {
+    mode: 'next',
+    startUrl: options.startUrl,
+    linkClass: options.linkClass || null,
+    ignorePaths: options.ignorePaths || [],
+    maxPages: options.maxPages,
+    pages: [],
+    visited: [],
+    nextUrl: options.startUrl,
+    errors: []
+  };
+}
+
+// 次のページを見つけた方法（サイト別ルール・指定クラス・自動検出）
+export type NextPageMethod = 'site-rule' | 'link-class' | PaginationMethod;
+
+/**
+ * 次のページを探す
+ * サイト別ルールの次ページセレクタ → 指定クラスのリンク → rel="next" の順に探す
+ * どちらも指定がなければ「次へ」の文言・番号付きのページ送り・URLのパターンからも自動で探す
+ * @param html - ページのHTML
+ * @param pageUrl - ページのURL（相対リンクの解決に使う）
+ * @param options - 次ページリンクのクラスとサイト別ルールのセレクタ
+ * @returns 次のページの絶対URLと見つけた方法（見つからなければnull）
+ */
+export function findNextPage(
+  html: string,
+  pageUrl: string,
+  { linkClass, nextPageSelector }: { linkClass?: string | null; nextPageSelector?: string | null }
+): { url: string; method: NextPageMethod } | null {
+  if (!linkClass && !nextPageSelector) {
+    return detectNextPage(html, pageUrl);
+  }
+
+  const $ = cheerio.load(html);
+  if (nextPageSelector) {
+    const $next = $(nextPageSelector).first();
+    const href = ($next.is('a') ? $next : $next.find('a[href]').first()).attr('href');
+    const url = href ? resolveUrl(href, pageUrl) : null;
+    if (url) return { url, method: 'site-rule' };
+  }
+  if (linkClass) {
+    const href = $(`a${normalizeClassSelector(linkClass)}`).first().attr('href');
+    const url = href ? resolveUrl(href, pageUrl) : null;
+    if (url) return { url, method: 'link-class' };
+  }
+
+  const relNext = $('a[rel="next"]').first().attr('href');
+  const url = relNext ? resolveUrl(relNext, pageUrl) : null;
+  return url ? { url, method: 'rel-next' } : null;
+}
+
+/**
+ * 次のページのURLを探す
+ * @param html - ページのHTML
+ * @param pageUrl - ページのURL（相対リンクの解決に使う）
+ * @param options - 次ページリンクのクラスとサイト別ルールのセレクタ
+ * @returns 次のページの絶対URL（見つからなければnull）
+ */
+export function findNextPageUrl(
+  html: string,
+  pageUrl: string,
+  options: { linkClass?: string | null; nextPageSelector?: string | null }
+): string | null {
+  return findNextPage(html, pageUrl, options)?.url ?? null;
+}
+
+/**
+ * クライアントに送る進捗（本文は含めない）
+ * @param state - クロールの状態
+ * @returns 取得したURL・バイト数・画像数・エラー・次のURL
+ */
+export function toCrawlProgress(
+  state: Pick<CrawlState, 'startUrl' | 'maxPages' | 'pages' | 'errors' | 'nextUrl'>
+): CrawlProgress {
+  return {
+    startUrl: state.startUrl,
+    maxPages: state.maxPages,
+    fetched: state.pages.map(page => ({ url: page.url, bytes: page.bytes, images: page.images.length })),
+    bytes: state.pages.reduce((sum, page) => sum + page.bytes, 0),
+    images: new Set(state.pages.flatMap(page => page.images)).size,
+    errors: state.errors,
+    nextUrl: state.nextUrl
+  };
+}
+
+/**
+ * 次のページがなくなるか最大ページ数に達するまでページを取得する
+ * 取得に失敗したURLは nextUrl に残るため、再開すると同じURLから取得し直す
+ * @param state - クロールの状態（取得したページを追加していく）
+ * @param deps - 取得・解析の処理
+ * @param signal - 中止用のシグナル（中止されたら AbortError で reject）
+ * @returns 更新したクロールの状態
+ */
+export async function crawlPages(state: CrawlState, deps: CrawlDeps, signal: AbortSignal): Promise<CrawlState> {
+  while (state.nextUrl && state.pages.length < state.maxPages) {
+    signal.throwIfAborted();
+    const url = normalizeUrl(state.nextUrl);
+
+    // 訪問済み・無視するパスに来たら終わり
+    if (state.visited.includes(url) || shouldIgnorePath(new URL(url).pathname, state.ignorePaths)) {
+      state.nextUrl = null;
+      break;
+    }
+
+    let html: string;
+    try {
+      html = await deps.fetchHtml(url, signal);
+    } catch (error) {
+      signal.throwIfAborted();
+      state.errors.push({ url, message: (error as Error).message || String(error) });
+      deps.onProgress?.(state);
+      break;
+    }
+
+    const { nextUrl, ...page } = deps.parsePage(html, url);
+    state.visited.push(url);
+    state.pages.push({ ...page, url, bytes: Buffer.byteLength(html) });
+    state.nextUrl = nextUrl;
+    deps.onProgress?.(state);
+
+    // Small delay to be polite to servers
+    if (state.nextUrl && state.pages.length < state.maxPages && deps.delayMs) {
+      await sleep(deps.delayMs, undefined, { signal });
+    }
+  }
+  return state;
+}
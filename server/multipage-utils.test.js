@@ -5,7 +5,9 @@
 import { describe, expect, it } from 'vitest'
 import {
   isValidHttpUrl,
+  isValidMaxPages,
   normalizeClassSelector,
+  normalizeSourceUrl,
   normalizeUrl,
   resolveUrl,
   shouldIgnorePath
@@ -144,6 +146,30 @@ describe('normalizeUrl', () => {
   })
 })
 
+describe('normalizeSourceUrl', () => {
+  it('should drop hash and trailing slash', () => {
+    expect(normalizeSourceUrl('https://Example.com/post/#comments')).toBe('https://example.com/post')
+  })
+
+  it('should keep root path slash', () => {
+    expect(normalizeSourceUrl('https://example.com')).toBe('https://example.com/')
+  })
+
+  it('should remove tracking params and sort the rest', () => {
+    expect(normalizeSourceUrl('https://example.com/a?utm_source=x&b=2&fbclid=y&a=1'))
+      .toBe('https://example.com/a?a=1&b=2')
+  })
+
+  it('should treat URLs differing only in tracking params as equal', () => {
+    expect(normalizeSourceUrl('https://example.com/a/?utm_medium=rss'))
+      .toBe(normalizeSourceUrl('https://example.com/a'))
+  })
+
+  it('should return original string for invalid URL', () => {
+    expect(normalizeSourceUrl('not-a-url')).toBe('not-a-url')
+  })
+})
+
 describe('resolveUrl', () => {
   const baseUrl = 'https://example.com/docs/page1.html'
 
@@ -220,6 +246,24 @@ describe('isValidHttpUrl', () => {
   })
 })
 
+describe('isValidMaxPages', () => {
+  it('should accept integers from 1 to 200', () => {
+    expect(isValidMaxPages(1)).toBe(true)
+    expect(isValidMaxPages(50)).toBe(true)
+    expect(isValidMaxPages(200)).toBe(true)
+  })
 
+  it('should reject values out of range', () => {
+    expect(isValidMaxPages(0)).toBe(false)
+    expect(isValidMaxPages(-1)).toBe(false)
+    expect(isValidMaxPages(201)).toBe(false)
+    expect(isValidMaxPages(Infinity)).toBe(false)
+  })
 
-
+  it('should reject non-integers', () => {
+    expect(isValidMaxPages(1.5)).toBe(false)
+    expect(isValidMaxPages('50')).toBe(false)
+    expect(isValidMaxPages(NaN)).toBe(false)
+    expect(isValidMaxPages(null)).toBe(false)
+  })
+})
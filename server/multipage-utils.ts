@@ -55,6 +55,32 @@ export function normalizeUrl(url: string): string {
   }
 }
 
+// 記事の同一性に関係しないトラッキング用パラメータ
+const TRACKING_PARAMS = /^(utm_[a-z]+|fbclid|gclid|yclid|mc_cid|mc_eid|ref_src)$/i;
+
+/**
+ * 保存済み記事の重複判定用にURLを正規化
+ * フラグメント・トラッキングパラメータ・末尾スラッシュを除き、クエリを並べ替える
+ * @param url - 正規化するURL
+ * @returns 正規化されたURL、無効なURLはそのまま
+ */
+export function normalizeSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    parsed.searchParams.sort();
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    }
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
 /**
  * 相対URLを絶対URLに変換
  * @param href - 変換するURL（相対または絶対）
@@ -83,6 +109,18 @@ export function isValidHttpUrl(url: string): boolean {
   }
 }
 
+// 1回のクロールで取得できるページ数の上限
+export const MAX_CRAWL_PAGES = 200;
+
+/**
+ * クロールの最大ページ数が1〜MAX_CRAWL_PAGESの整数かチェック
+ * @param maxPages - リクエストで指定された最大ページ数
+ * @returns 有効な場合true
+ */
+export function isValidMaxPages(maxPages: unknown): maxPages is number {
+  return Number.isInteger(maxPages) && (maxPages as number) >= 1 && (maxPages as number) <= MAX_CRAWL_PAGES;
+}
+
 
 
 
@@ -0,0 +1,42 @@
+/**
+ * Page Anchor Tests
+ * t-wada TDD style: ページをまたぐリンクと脚注の索引
+ */
+import { describe, expect, it } from 'vitest'
+import { buildAnchorIndex } from './page-anchors'
+
+describe('buildAnchorIndex', () => {
+  it('should map ids to the page that contains them', () => {
+    const { anchors } = buildAnchorIndex([
+      '<h1 id="intro">Intro</h1><p>See <a href="#chapter-2">2</a><a class="footnote-ref" id="fnref1" href="#fn1">1</a></p>',
+      '<h1 id="chapter-2">Chapter 2</h1><a name="legacy"></a>'
+    ])
+
+    expect(anchors).toEqual({ intro: 1, fnref1: 1, 'chapter-2': 2, legacy: 2 })
+  })
+
+  it('should keep the first page for duplicate ids', () => {
+    const { anchors } = buildAnchorIndex(['<h2 id="notes">A</h2>', '<h2 id="notes">B</h2>'])
+    expect(anchors.notes).toBe(1)
+  })
+
+  it('should collect pandoc footnotes without their back links', () => {
+    const { footnotes, anchors } = buildAnchorIndex([
+      '<p>Text<a href="#fn1" class="footnote-ref" id="fnref1" role="doc-noteref"><sup>1</sup></a></p>',
+      `<section id="footnotes" class="footnotes footnotes-end-of-document" role="doc-endnotes"><hr><ol>
+<li id="fn1"><p>The note.<a href="#fnref1" class="footnote-back" role="doc-backlink">↩︎</a></p></li>
+</ol></section>`
+    ])
+
+    expect(footnotes).toEqual({ fn1: '<p>The note.</p>' })
+    expect(anchors.fn1).toBe(2)
+  })
+
+  it('should collect EPUB footnotes', () => {
+    const { footnotes } = buildAnchorIndex([
+      '<aside epub:type="footnote" id="n1"><p>EPUB note</p></aside><aside id="side">Sidebar</aside>'
+    ])
+
+    expect(footnotes).toEqual({ n1: '<p>EPUB note</p>' })
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * Page anchor utility functions
+ * ページ分割後も本文内リンク（#chapter-2）と脚注（#fn3）を辿れるように、id → ページの索引を作る
+ */
+import * as cheerio from 'cheerio';
+
+export interface AnchorIndex {
+  // 要素id → ページ番号（1始まり）
+  anchors: Record<string, number>;
+  // 脚注id → 脚注本文のHTML（戻りリンクは除く）
+  footnotes: Record<string, string>;
+}
+
+// pandoc（section/aside.footnotes）、DPUB-ARIA、EPUB3 の脚注
+const FOOTNOTE_SELECTOR = [
+  '.footnotes li[id]',
+  '[role="doc-footnote"][id]',
+  '[role="doc-endnote"][id]',
+  '[epub\\:type~="footnote"][id]',
+  '[epub\\:type~="endnote"][id]',
+  '[epub\\:type~="rearnote"][id]'
+].join(', ');
+
+const BACKLINK_SELECTOR = '.footnote-back, [role="doc-backlink"]';
+
+/**
+ * ページごとのHTMLからid索引と脚注を作る
+ * 同じidが複数ページにある場合は最初のページを使う（EPUBの章ごとのidは変換時に c<章番号>- を付けて一意にしてある）
+ * @param pages - ページのHTML（ページ順）
+ * @returns id → ページ番号と、脚注id → 脚注HTML
+ */
+export function buildAnchorIndex(pages: string[]): AnchorIndex {
+  const anchors: Record<string, number> = {};
+  const footnotes: Record<string, string> = {};
+
+  pages.forEach((html, index) => {
+    const $ = cheerio.load(html);
+
+    $('[id], a[name]').each((_, el) => {
+      const id = $(el).attr('id') || $(el).attr('name');
+      if (id && !(id in anchors)) anchors[id] = index + 1;
+    });
+
+    $(FOOTNOTE_SELECTOR).each((_, el) => {
+      const id = $(el).attr('id')!;
+      if (id in footnotes) return;
+      const note = $(el).clone();
+      note.find(BACKLINK_SELECTOR).remove();
+      const content = (note.html() || '').trim();
+      if (content) footnotes[id] = content;
+    });
+  });
+
+  return { anchors, footnotes };
+}
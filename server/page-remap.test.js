@@ -0,0 +1,55 @@
+/**
+ * Page Remap Tests
+ * t-wada TDD style: ソース差し替え時のページ対応付け
+ */
+import { describe, expect, it } from 'vitest'
+import { buildPageMap, extractPageHeadings, normalizeHeading } from './page-remap'
+
+describe('normalizeHeading', () => {
+  it('should ignore case, width and extra whitespace', () => {
+    expect(normalizeHeading('  Chapter\n 1 ')).toBe('chapter 1')
+    expect(normalizeHeading('ＣＨＡＰＴＥＲ　１')).toBe('chapter 1')
+  })
+})
+
+describe('extractPageHeadings', () => {
+  it('should return headings in document order', () => {
+    const html = '<html><body><h1>Part <em>One</em></h1><p>text</p><h3>Notes</h3><h2> </h2></body></html>'
+    expect(extractPageHeadings(html)).toEqual(['part one', 'notes'])
+  })
+})
+
+describe('buildPageMap', () => {
+  it('should follow headings to their new pages', () => {
+    const oldPages = [['preface'], ['chapter 1'], ['chapter 2']]
+    const newPages = [['cover'], ['preface'], ['chapter 1'], ['chapter 2']]
+    expect(buildPageMap(oldPages, newPages)).toEqual([2, 3, 4])
+  })
+
+  it('should return null for pages whose headings disappeared', () => {
+    expect(buildPageMap([['intro'], ['errata']], [['intro']])).toEqual([1, null])
+  })
+
+  it('should prefer the next occurrence of repeated headings', () => {
+    const oldPages = [['part 1'], ['notes'], ['part 2'], ['notes']]
+    const newPages = [['part 1'], ['notes'], ['part 2'], ['notes']]
+    expect(buildPageMap(oldPages, newPages)).toEqual([1, 2, 3, 4])
+  })
+
+  it('should place heading-less pages between anchors with the same spacing', () => {
+    const oldPages = [['chapter 1'], [], [], ['chapter 2']]
+    const newPages = [['title'], ['chapter 1'], [], [], ['chapter 2']]
+    expect(buildPageMap(oldPages, newPages)).toEqual([2, 3, 4, 5])
+  })
+
+  it('should not guess heading-less pages when the spacing changed', () => {
+    const oldPages = [['chapter 1'], [], ['chapter 2']]
+    const newPages = [['chapter 1'], [], [], ['chapter 2']]
+    expect(buildPageMap(oldPages, newPages)).toEqual([1, null, 4])
+  })
+
+  it('should use the start and end of the book as anchors', () => {
+    expect(buildPageMap([[], ['chapter 1'], []], [[], ['chapter 1'], []])).toEqual([1, 2, 3])
+    expect(buildPageMap([[], []], [[]])).toEqual([null, null])
+  })
+})
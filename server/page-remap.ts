@@ -0,0 +1,80 @@
+/**
+ * Page remapping utility functions
+ * ソース差し替え時に旧ページ番号を新ページ番号へ対応付ける（テスト可能な純粋関数）
+ */
+import * as cheerio from 'cheerio';
+
+/**
+ * 見出しテキストを比較用に正規化
+ * @param text - 見出しテキスト
+ * @returns 全角半角・大文字小文字・空白の差を吸収した文字列
+ */
+export function normalizeHeading(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * ページHTMLから見出し（h1〜h6）を出現順に取得
+ * @param html - ページのHTML
+ * @returns 正規化済みの見出しテキスト（空の見出しは除外）
+ */
+export function extractPageHeadings(html: string): string[] {
+  const $ = cheerio.load(html);
+  return $('h1, h2, h3, h4, h5, h6')
+    .map((_, el) => normalizeHeading($(el).text()))
+    .get()
+    .filter((heading: string) => heading.length > 0);
+}
+
+/**
+ * 旧ページ→新ページの対応表を作成
+ * 見出しが一致するページを対応付け、見出しのないページは前後の対応が
+ * 同じ間隔で並んでいる場合に限り位置から推定する
+ * @param oldHeadings - 旧ページごとの見出し（ページ順）
+ * @param newHeadings - 新ページごとの見出し（ページ順）
+ * @returns 旧ページ番号-1 をインデックスとした新ページ番号（対応不明はnull）
+ */
+export function buildPageMap(oldHeadings: string[][], newHeadings: string[][]): (number | null)[] {
+  // 見出し → 新ページ番号（昇順）
+  const index = new Map<string, number[]>();
+  newHeadings.forEach((headings, i) => {
+    for (const heading of headings) {
+      const pages = index.get(heading) || [];
+      if (!pages.includes(i + 1)) pages.push(i + 1);
+      index.set(heading, pages);
+    }
+  });
+
+  // 見出しで対応付け（同じ見出しが複数あれば直前の対応より後ろを優先）
+  const map: (number | null)[] = [];
+  let lastMapped = 0;
+  for (const headings of oldHeadings) {
+    let target: number | null = null;
+    for (const heading of headings) {
+      const candidates = index.get(heading);
+      if (!candidates) continue;
+      target = candidates.find(page => page >= lastMapped) ?? candidates[0];
+      break;
+    }
+    if (target !== null) lastMapped = target;
+    map.push(target);
+  }
+
+  // 見出しのないページは前後の対応点（先頭・末尾を含む）の間隔が変わらなければ位置で推定
+  const anchorAt = (oldPage: number): number | null => {
+    if (oldPage === 0) return 0;
+    if (oldPage === oldHeadings.length + 1) return newHeadings.length + 1;
+    return map[oldPage - 1];
+  };
+  return map.map((target, i) => {
+    if (target !== null || oldHeadings[i].length > 0) return target;
+    const oldPage = i + 1;
+    let prev = oldPage - 1;
+    while (anchorAt(prev) === null) prev--;
+    let next = oldPage + 1;
+    while (anchorAt(next) === null) next++;
+    const prevTarget = anchorAt(prev) as number;
+    const nextTarget = anchorAt(next) as number;
+    return nextTarget - prevTarget === next - prev ? prevTarget + (oldPage - prev) : null;
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Page Splitter Tests
+ * t-wada TDD style: 長いセクションの文字数による分割
+ */
+import { describe, expect, it } from 'vitest'
+import { paginateSections, remapPageLinks, remapTocPages, splitSectionBySize } from './page-splitter'
+
+const paragraph = (label, length = 40) => `<p>${label}${'あ'.repeat(length - label.length)}</p>`
+
+describe('splitSectionBySize', () => {
+  it('should keep sections within the budget as they are', () => {
+    const html = `<h1>短い章</h1>${paragraph('a')}`
+    expect(splitSectionBySize(html, 1000)).toEqual([html])
+  })
+
+  it('should split at paragraph boundaries once the budget is exceeded', () => {
+    const html = `${paragraph('a')}${paragraph('b')}${paragraph('c')}`
+    const pages = splitSectionBySize(html, 90)
+
+    expect(pages).toEqual([`${paragraph('a')}${paragraph('b')}`, paragraph('c')])
+  })
+
+  it('should never split inside pre, tables or lists', () => {
+    const list = `<ul>${'<li>項目です</li>'.repeat(20)}</ul>`
+    const table = `<table><tbody><tr><td>${'x'.repeat(60)}</td></tr><tr><td>${'y'.repeat(60)}</td></tr></tbody></table>`
+    const pre = `<pre>${'line\n'.repeat(20)}</pre>`
+    const pages = splitSectionBySize(`${paragraph('a')}${list}${table}${pre}`, 50)
+
+    expect(pages).toEqual([paragraph('a'), list, table, pre])
+  })
+
+  it('should carry a trailing heading over to the next page', () => {
+    const html = `${paragraph('a', 60)}<h3>小見出し</h3>${paragraph('b', 60)}`
+    const pages = splitSectionBySize(html, 70)
+
+    expect(pages).toEqual([paragraph('a', 60), `<h3>小見出し</h3>${paragraph('b', 60)}`])
+  })
+
+  it('should re-wrap parts of a single wrapper element and keep its id on the first part', () => {
+    const html = `<section id="ch1" class="level1">${paragraph('a')}${paragraph('b')}</section>`
+    const pages = splitSectionBySize(html, 50)
+
+    expect(pages).toEqual([
+      `<section id="ch1" class="level1">${paragraph('a')}</section>`,
+      `<section class="level1">${paragraph('b')}</section>`
+    ])
+  })
+
+  it('should not split when the budget is disabled', () => {
+    const html = `${paragraph('a')}${paragraph('b')}`
+    expect(splitSectionBySize(html, 0)).toEqual([html])
+  })
+
+  it('should return body fragments for full documents both within and over the budget', () => {
+    const doc = body => `<html><head><title>記事</title></head><body>${body}</body></html>`
+
+    expect(splitSectionBySize(doc(paragraph('a')), 1000)).toEqual([paragraph('a')])
+    expect(splitSectionBySize(doc(`${paragraph('a')}${paragraph('b')}`), 50)).toEqual([paragraph('a'), paragraph('b')])
+  })
+})
+
+describe('paginateSections', () => {
+  it('should report the first page of each section', () => {
+    const result = paginateSections([paragraph('a'), `${paragraph('b')}${paragraph('c')}`, paragraph('d')], 50)
+
+    expect(result.pages).toHaveLength(4)
+    expect(result.sectionStarts).toEqual([1, 2, 4])
+  })
+})
+
+describe('remapTocPages', () => {
+  it('should point section entries to their first page and anchors to the page containing them', () => {
+    const pages = [paragraph('a'), paragraph('b'), '<h2 id="s2">節</h2>', paragraph('c')]
+    const toc = [
+      { page: 1, level: 1, title: '第1章' },
+      { page: 2, level: 1, title: '第2章' },
+      { page: 2, level: 2, title: '2.1', anchor: 's2' },
+      { page: 3, level: 1, title: '第3章' }
+    ]
+
+    expect(remapTocPages(toc, pages, [1, 2, 4])).toEqual([
+      { page: 1, level: 1, title: '第1章' },
+      { page: 2, level: 1, title: '第2章' },
+      { page: 3, level: 2, title: '2.1' },
+      { page: 4, level: 1, title: '第3章' }
+    ])
+  })
+})
+
+describe('remapPageLinks', () => {
+  it('should point section links to the split page containing the anchor', () => {
+    const pages = ['<a href="#s2" data-book-page="2">節へ</a><a href="#" data-book-page="3">第3章へ</a>', paragraph('b'), '<h2 id="s2">節</h2>', paragraph('c')]
+
+    expect(remapPageLinks(pages, [1, 2, 4])[0])
+      .toBe('<a href="#s2" data-book-page="3">節へ</a><a href="#" data-book-page="4">第3章へ</a>')
+  })
+
+  it('should resolve several links into the same split section', () => {
+    const pages = [
+      '<a href="#s3" data-book-page="2">3へ</a><a href="#s2" data-book-page="2">2へ</a><a href="#none" data-book-page="2">先頭へ</a>',
+      '<h2 id="s1">1</h2>',
+      '<h2 id="s2">2</h2>',
+      '<h2 id="s3">3</h2>'
+    ]
+
+    expect(remapPageLinks(pages, [1, 2])[0]).toBe(
+      '<a href="#s3" data-book-page="4">3へ</a><a href="#s2" data-book-page="3">2へ</a><a href="#none" data-book-page="2">先頭へ</a>'
+    )
+  })
+
+  it('should not lose content of pages split from full documents', () => {
+    const doc = `<html><head><title>記事</title></head><body><a href="#" data-book-page="1">先頭へ</a>${paragraph('a')}</body></html>`
+    const { pages, sectionStarts } = paginateSections([doc], 1000)
+
+    expect(pages[0]).not.toContain('<head>')
+    expect(remapPageLinks(pages, sectionStarts)).toEqual([`<a href="#" data-book-page="1">先頭へ</a>${paragraph('a')}`])
+  })
+
+  it('should leave pages without page links untouched', () => {
+    const pages = [paragraph('a'), paragraph('b')]
+
+    expect(remapPageLinks(pages, [1, 2])).toEqual(pages)
+  })
+})
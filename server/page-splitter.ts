@@ -0,0 +1,168 @@
+/**
+ * Page splitting utility functions
+ * 見出しで分けたセクションが長すぎる場合に、段落の境目で複数ページへ分割する
+ */
+import * as cheerio from 'cheerio';
+import type { TocItem } from './types';
+
+// 1ページあたりの本文文字数の目安
+export const DEFAULT_PAGE_CHAR_BUDGET = 20000;
+
+// 中身だけを分割する単独のラッパー要素（pandocの section.level1 など）
+const WRAPPER_SELECTOR = 'section, div, article, main';
+
+interface Block {
+  html: string;
+  length: number;
+  heading: boolean;
+}
+
+/**
+ * セクションのHTMLを文字数の上限ごとに分割
+ * 分割位置は子要素の境目のみで、pre・table・リストなどの途中では分けない
+ * @param html - セクションのHTML
+ * @param budget - 1ページあたりの本文文字数（0以下で分割しない）
+ * @returns 分割後のbody内のHTML（上限以内なら1件）。html・head付きの文書を渡してもbody内だけを返す
+ */
+export function splitSectionBySize(html: string, budget: number = DEFAULT_PAGE_CHAR_BUDGET): string[] {
+  const $ = cheerio.load(html);
+  if (budget <= 0 || $('body').text().length <= budget) return [$('body').html() || ''];
+
+  // 単独のラッパー要素は中へ降り、分割後の各ページを同じ要素で包み直す
+  let $container = $('body');
+  const wrappers: cheerio.Cheerio[] = [];
+  for (;;) {
+    const $children = $container.contents().filter((_, node) => node.type !== 'text' || $(node).text().trim() !== '');
+    if ($children.length !== 1 || !$children.first().is(WRAPPER_SELECTOR)) break;
+    $container = $children.first();
+    wrappers.push($container);
+  }
+
+  const blocks: Block[] = $container.contents().map((_, node) => ({
+    html: $.html(node),
+    length: $(node).text().length,
+    heading: $(node).is('h1, h2, h3, h4, h5, h6')
+  })).get();
+
+  const parts: Block[][] = [];
+  let current: Block[] = [];
+  let currentLength = 0;
+  for (const block of blocks) {
+    if (currentLength > 0 && currentLength + block.length > budget) {
+      // 見出しだけがページ末尾に残らないよう次のページへ送る
+      const carried: Block[] = [];
+      while (current.length > 0 && current[current.length - 1].heading) {
+        carried.unshift(current.pop() as Block);
+      }
+      if (current.length > 0) {
+        parts.push(current);
+        current = carried;
+        currentLength = carried.reduce((sum, b) => sum + b.length, 0);
+      } else {
+        current = carried;
+      }
+    }
+    current.push(block);
+    currentLength += block.length;
+  }
+  if (current.length > 0) parts.push(current);
+
+  return parts.map((part, index) => wrappers.reduceRight((content, $wrapper) => {
+    const $shell = $wrapper.clone().empty();
+    // id は最初のページにだけ残す（リンク先の重複を避ける）
+    if (index > 0) $shell.removeAttr('id');
+    $shell.append(content);
+    return $.html($shell);
+  }, part.map(b => b.html).join('')));
+}
+
+/**
+ * セクション（章）の一覧を文字数の上限でページに分割
+ * @param sections - 見出しや章で分けたセクションのHTML
+ * @param budget - 1ページあたりの本文文字数
+ * @returns ページのHTMLと、各セクションの先頭ページ番号（1始まり）
+ */
+export function paginateSections(
+  sections: string[],
+  budget: number = DEFAULT_PAGE_CHAR_BUDGET
+): { pages: string[]; sectionStarts: number[] } {
+  const pages: string[] = [];
+  const sectionStarts: number[] = [];
+  for (const section of sections) {
+    sectionStarts.push(pages.length + 1);
+    pages.push(...splitSectionBySize(section, budget));
+  }
+  return { pages, sectionStarts };
+}
+
+// セクション番号とアンカー（なければ先頭）から分割後のページ番号を引く関数を作る
+// アンカーの索引は分割されたセクションごとに初回だけ作り、各ページのパースは一度で済ませる
+function createSectionPageLocator(
+  pages: string[],
+  sectionStarts: number[]
+): (section: number, anchor?: string) => number {
+  const anchorIndexes = new Map<number, Map<string, number>>();
+
+  return (section, anchor) => {
+    const start = sectionStarts[section - 1] ?? section;
+    const end = section < sectionStarts.length ? sectionStarts[section] - 1 : pages.length;
+    if (!anchor || end <= start) return start;
+
+    let anchorIndex = anchorIndexes.get(section);
+    if (!anchorIndex) {
+      const index = new Map<string, number>();
+      for (let p = start; p <= end; p++) {
+        const $ = cheerio.load(pages[p - 1]);
+        $('[id]').each((_, el) => {
+          const id = $(el).attr('id');
+          if (id && !index.has(id)) index.set(id, p);
+        });
+      }
+      anchorIndexes.set(section, index);
+      anchorIndex = index;
+    }
+    return anchorIndex.get(anchor) ?? start;
+  };
+}
+
+/**
+ * セクション単位の目次を分割後のページ番号に付け替える
+ * アンカー付きの項目は、そのidを含む分割後のページを指す
+ * @param toc - セクション番号をpageに持つ目次（anchorはリンク先のid）
+ * @param pages - paginateSectionsで分割したページ
+ * @param sectionStarts - 各セクションの先頭ページ番号
+ * @returns 分割後のページ番号を指す目次
+ */
+export function remapTocPages(
+  toc: (TocItem & { anchor?: string })[],
+  pages: string[],
+  sectionStarts: number[]
+): TocItem[] {
+  const sectionPage = createSectionPageLocator(pages, sectionStarts);
+  return toc.map(({ page, level, title, anchor }) => ({
+    page: sectionPage(page, anchor),
+    level,
+    title
+  }));
+}
+
+/**
+ * セクション番号を指すページ移動リンク（data-book-page）を分割後のページ番号に付け替える
+ * @param pages - paginateSectionsで分割したページ
+ * @param sectionStarts - 各セクションの先頭ページ番号
+ * @returns リンクを書き換えたページ（リンクのないページはそのまま）
+ */
+export function remapPageLinks(pages: string[], sectionStarts: number[]): string[] {
+  const sectionPage = createSectionPageLocator(pages, sectionStarts);
+  return pages.map(html => {
+    if (!html.includes('data-book-page')) return html;
+    const $ = cheerio.load(html);
+    $('a[data-book-page]').each((_, el) => {
+      const section = parseInt($(el).attr('data-book-page') || '', 10);
+      if (!(section >= 1 && section <= sectionStarts.length)) return;
+      const anchor = ($(el).attr('href') || '').replace(/^#/, '');
+      $(el).attr('data-book-page', String(sectionPage(section, anchor || undefined)));
+    });
+    return ($('body').html() || '').trim();
+  });
+}
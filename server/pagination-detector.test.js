@@ -0,0 +1,116 @@
+/**
+ * Pagination Detector Tests
+ * t-wada TDD style: 次ページリンクの自動検出
+ */
+import { describe, expect, it } from 'vitest'
+import { detectNextPage, nextUrlCandidates, pageNumberFromUrl } from './pagination-detector'
+import { findNextPage } from './multipage-crawler'
+
+const PAGE = 'https://example.com/articles/story'
+
+describe('detectNextPage', () => {
+  it('should prefer rel="next" in <link> or <a>', () => {
+    const html = `<head><link rel="next" href="/articles/story?page=2"></head>
+      <body><a href="/articles/story/other">次へ</a></body>`
+
+    expect(detectNextPage(html, PAGE)).toEqual({ url: 'https://example.com/articles/story?page=2', method: 'rel-next' })
+  })
+
+  it('should find links labelled next in English or Japanese', () => {
+    expect(detectNextPage('<a href="/articles/story/2">次のページへ »</a>', PAGE))
+      .toEqual({ url: 'https://example.com/articles/story/2', method: 'next-link' })
+    expect(detectNextPage('<a href="?page=2">Next ›</a>', PAGE))
+      .toEqual({ url: 'https://example.com/articles/story?page=2', method: 'next-link' })
+    expect(detectNextPage('<a href="/p2" aria-label="Next page">›</a>', PAGE))
+      .toEqual({ url: 'https://example.com/p2', method: 'next-link' })
+    expect(detectNextPage('<li class="pager-next"><a href="/p2">›</a></li>', PAGE))
+      .toEqual({ url: 'https://example.com/p2', method: 'next-link' })
+  })
+
+  it('should ignore next links to other sites or the same page', () => {
+    expect(detectNextPage('<a href="https://other.example.com/2">Next</a><a href="#top">次へ</a>', PAGE)).toBeNull()
+  })
+
+  it('should not follow "next post" navigation between blog articles', () => {
+    const wordpress = `<article><p>本文</p></article>
+      <nav class="navigation post-navigation"><div class="nav-links">
+        <div class="nav-previous"><a href="/older-post/" rel="prev">前の記事</a></div>
+        <div class="nav-next"><a href="/newer-post/" rel="next">Next</a></div>
+      </div></nav>`
+    const themed = '<div class="post-navigation"><a class="next" href="/another-post/">別の記事 »</a></div>'
+
+    expect(detectNextPage(wordpress, PAGE)).toBeNull()
+    expect(detectNextPage(themed, PAGE)).toBeNull()
+    expect(detectNextPage('<div class="related"><a class="next" href="/another-post/">»</a></div>', PAGE)).toBeNull()
+  })
+
+  it('should use a next class only inside pagination, after numbered links', () => {
+    const html = `<div class="pagination"><a class="next page-numbers" href="/list/page/3/">»</a>
+      <a class="page-numbers" href="/list/page/1/">1</a><span class="current">2</span><a class="page-numbers" href="/list/page/3/">3</a></div>`
+
+    expect(detectNextPage(html, 'https://example.com/list/page/2/'))
+      .toEqual({ url: 'https://example.com/list/page/3/', method: 'pagination' })
+    expect(detectNextPage('<div class="pagination"><a class="next" href="/list/page/3/">»</a></div>', 'https://example.com/list/page/2/'))
+      .toEqual({ url: 'https://example.com/list/page/3/', method: 'next-link' })
+  })
+
+  it('should follow numbered pagination from the current page', () => {
+    const html = `<div class="pages">
+      <a href="/articles/story">1</a><span class="current">2</span>
+      <a href="/articles/story/3">3</a><a href="/articles/story/4">4</a>
+    </div>`
+
+    expect(detectNextPage(html, 'https://example.com/articles/story/2'))
+      .toEqual({ url: 'https://example.com/articles/story/3', method: 'pagination' })
+  })
+
+  it('should not treat a single numbered link as pagination', () => {
+    expect(detectNextPage('<p>See <a href="/articles/story/2">2</a> for details</p>', PAGE)?.method).not.toBe('pagination')
+  })
+
+  it('should match ?page=N and /N/ URL patterns against the links on the page', () => {
+    expect(detectNextPage('<a href="/list?page=4">続き</a>', 'https://example.com/list?page=3'))
+      .toEqual({ url: 'https://example.com/list?page=4', method: 'url-pattern' })
+    expect(detectNextPage('<a href="/articles/story/2/">続きを読む</a>', PAGE))
+      .toEqual({ url: 'https://example.com/articles/story/2/', method: 'url-pattern' })
+  })
+
+  it('should return null for a last page', () => {
+    expect(detectNextPage('<a href="/articles/story">1</a><p>おわり</p>', 'https://example.com/articles/story/2')).toBeNull()
+  })
+})
+
+describe('pageNumberFromUrl / nextUrlCandidates', () => {
+  it('should read the page number from the query or path', () => {
+    expect(pageNumberFromUrl('https://example.com/list?page=3')).toBe(3)
+    expect(pageNumberFromUrl('https://example.com/story/4/')).toBe(4)
+    expect(pageNumberFromUrl('https://example.com/story-5.html')).toBe(5)
+    expect(pageNumberFromUrl('https://example.com/story')).toBe(1)
+  })
+
+  it('should increment an existing page number', () => {
+    expect(nextUrlCandidates('https://example.com/list?page=3&sort=new')).toEqual(['https://example.com/list?page=4&sort=new'])
+    expect(nextUrlCandidates('https://example.com/story/4/')).toEqual(['https://example.com/story/5/'])
+    expect(nextUrlCandidates('https://example.com/story_2.html')).toEqual(['https://example.com/story_3.html'])
+  })
+
+  it('should guess the second page of an unnumbered URL', () => {
+    expect(nextUrlCandidates('https://example.com/story')).toEqual([
+      'https://example.com/story?page=2',
+      'https://example.com/story?p=2',
+      'https://example.com/story/2/',
+      'https://example.com/story/2',
+      'https://example.com/story/page/2/'
+    ])
+  })
+})
+
+describe('findNextPage', () => {
+  const html = '<a class="more" href="/by-class">more</a><a href="/auto">次へ</a>'
+
+  it('should only auto-detect when neither a link class nor a site rule is given', () => {
+    expect(findNextPage(html, PAGE, { linkClass: 'more' })).toEqual({ url: 'https://example.com/by-class', method: 'link-class' })
+    expect(findNextPage(html, PAGE, { linkClass: null })).toEqual({ url: 'https://example.com/auto', method: 'next-link' })
+    expect(findNextPage(html, PAGE, { linkClass: 'missing' })).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Pagination detector
+ * 次ページリンクのクラス名を指定しなくても、複数ページに分かれた記事の次のページを見つける
+ */
+import * as cheerio from 'cheerio';
+import { normalizeSourceUrl } from './multipage-utils';
+
+// 次のページを見つけた方法
+export type PaginationMethod = 'rel-next' | 'next-link' | 'pagination' | 'url-pattern';
+
+export interface NextPageGuess {
+  url: string;
+  method: PaginationMethod;
+}
+
+// 「次へ」を表すリンクの文言（空白と矢印を除いて小文字にしたもの）
+const NEXT_LINK_TEXTS = new Set(['next', 'nextpage', '次', '次へ', '次のページ', '次ページ', '次のページへ', '次へ進む']);
+const ARROWS = /[\s»›→>≫＞]+/g;
+
+// ページ番号を表すクエリパラメータ
+const PAGE_PARAMS = ['page', 'p', 'pg', 'paged'];
+
+// 記事間の「次の記事」ナビゲーション（WordPress の post-navigation など）。ページ送りではない
+const POST_NAVIGATION_SELECTOR = '.post-navigation, .post-nav, .posts-navigation, .nav-next, .nav-previous';
+
+// ページ送りの入れ物のクラス名（pagination・pager・page-numbers など）
+const PAGINATION_CLASS = /pag(ination|er|ing)|page-?num|(^|\s)pages(\s|$)/i;
+
+// 現在のページを表す目印
+const CURRENT_PAGE_SELECTOR = '[aria-current="page"], .current, .active, .is-current, .is-active, .selected';
+
+/**
+ * 次のページへのリンクとして扱えるURLにする
+ * @param href - リンク
+ * @param pageUrl - リンクのあるページのURL
+ * @returns 同じサイトの別のページのURL（対象外ならnull）
+ */
+function toCandidateUrl(href: string | undefined, pageUrl: string): string | null {
+  if (!href || href.startsWith('#') || /^javascript:/i.test(href)) return null;
+  try {
+    const url = new URL(href, pageUrl);
+    const page = new URL(pageUrl);
+    if (!['http:', 'https:'].includes(url.protocol) || url.origin !== page.origin) return null;
+    if (normalizeSourceUrl(url.href) === normalizeSourceUrl(pageUrl)) return null;
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URLから現在のページ番号を読み取る
+ * @param pageUrl - ページのURL
+ * @returns ?page=N・/page/N/・末尾の /N/ の番号（なければ1）
+ */
+export function pageNumberFromUrl(pageUrl: string): number {
+  const url = new URL(pageUrl);
+  for (const param of PAGE_PARAMS) {
+    const value = url.searchParams.get(param);
+    if (value && /^\d+$/.test(value)) return parseInt(value, 10);
+  }
+  const match = url.pathname.match(/\/(\d{1,3})\/?$/) || url.pathname.match(/[-_](\d{1,3})\.html?$/);
+  return match ? parseInt(match[1], 10) : 1;
+}
+
+/**
+ * URLのパターンから次のページのURLの候補を作る
+ * @param pageUrl - ページのURL
+ * @returns ?page=N+1・/N+1/ などの候補（ページ番号がなければ2ページ目の候補）
+ */
+export function nextUrlCandidates(pageUrl: string): string[] {
+  const url = new URL(pageUrl);
+  url.hash = '';
+  const candidates: string[] = [];
+  const withPath = (pathname: string): string => {
+    const next = new URL(url.href);
+    next.pathname = pathname;
+    return next.href;
+  };
+
+  const param = PAGE_PARAMS.find(name => /^\d+$/.test(url.searchParams.get(name) || ''));
+  if (param) {
+    const next = new URL(url.href);
+    next.searchParams.set(param, String(parseInt(url.searchParams.get(param)!, 10) + 1));
+    return [next.href];
+  }
+
+  const numbered = url.pathname.match(/^(.*\/)(\d{1,3})(\/?)$/) || url.pathname.match(/^(.*[-_])(\d{1,3})(\.html?)$/);
+  if (numbered) {
+    return [withPath(`${numbered[1]}${parseInt(numbered[2], 10) + 1}${numbered[3]}`)];
+  }
+
+  // 1ページ目: ?page=2・/2/・/page/2/
+  for (const name of PAGE_PARAMS.slice(0, 2)) {
+    const next = new URL(url.href);
+    next.searchParams.set(name, '2');
+    candidates.push(next.href);
+  }
+  const base = url.pathname.replace(/\/$/, '');
+  candidates.push(withPath(`${base}/2/`), withPath(`${base}/2`), withPath(`${base}/page/2/`));
+  return candidates;
+}
+
+/**
+ * 次のページを探す
+ * rel="next" → 「次へ」などのリンク → 番号付きのページ送り → ページ送り内の next クラス → URLのパターン の順に試す
+ * 「次の記事」へのナビゲーション内のリンクは使わない
+ * @param html - ページのHTML
+ * @param pageUrl - ページのURL
+ * @returns 次のページのURLと見つけた方法（見つからなければnull）
+ */
+export function detectNextPage(html: string, pageUrl: string): NextPageGuess | null {
+  const $ = cheerio.load(html);
+  const isPostNavigation = (el: cheerio.Element): boolean => $(el).closest(POST_NAVIGATION_SELECTOR).length > 0;
+  const links = $('a[href]').toArray()
+    .filter(el => !isPostNavigation(el))
+    .map(el => ({ el, url: toCandidateUrl($(el).attr('href'), pageUrl) }));
+
+  // rel="next"（<link> と <a> の両方）
+  for (const el of $('link[rel~="next"], a[rel~="next"]').toArray().filter(el => !isPostNavigation(el))) {
+    const url = toCandidateUrl($(el).attr('href'), pageUrl);
+    if (url) return { url, method: 'rel-next' };
+  }
+
+  // 「次へ」「Next」などの文言・aria-label
+  const isNextText = (text: string | undefined): boolean =>
+    Boolean(text) && NEXT_LINK_TEXTS.has(text!.replace(ARROWS, '').toLowerCase());
+  for (const { el, url } of links) {
+    if (!url) continue;
+    const $el = $(el);
+    if (isNextText($el.text()) || isNextText($el.attr('aria-label')) || isNextText($el.attr('title'))) {
+      return { url, method: 'next-link' };
+    }
+  }
+
+  // 番号付きのページ送り: 現在のページの次の番号のリンク
+  const numbered = links.filter(({ el, url }) => url && /^\d{1,4}$/.test($(el).text().trim()));
+  const currentText = $(CURRENT_PAGE_SELECTOR).filter((_, el) => /^\d{1,4}$/.test($(el).text().trim())).first().text().trim();
+  const current = currentText ? parseInt(currentText, 10) : pageNumberFromUrl(pageUrl);
+  for (const { el, url } of numbered) {
+    if (parseInt($(el).text().trim(), 10) !== current + 1) continue;
+    // 同じ入れ物に番号のリンクが2つ以上あるものだけをページ送りとみなす
+    const container = $(el).parents().filter((_, parent) =>
+      numbered.filter(link => $(link.el).parents().get().includes(parent)).length >= 2
+    ).first();
+    if (container.length > 0) return { url: url!, method: 'pagination' };
+  }
+
+  // next クラスのリンク: ページ送りの入れ物の中にあるものだけ
+  for (const { el, url } of links) {
+    if (!url) continue;
+    const classes = `${$(el).attr('class') || ''} ${$(el).parent().attr('class') || ''}`;
+    if (!/(^|[\s_-])next($|[\s_-])/i.test(classes)) continue;
+    const inPagination = $(el).add($(el).parents()).toArray().some(node => PAGINATION_CLASS.test($(node).attr('class') || ''));
+    if (inPagination) return { url, method: 'next-link' };
+  }
+
+  // URLのパターン: ページ内にリンクがある候補だけを採る
+  const linked = new Map(links.filter(link => link.url).map(link => [normalizeSourceUrl(link.url!), link.url!]));
+  for (const candidate of nextUrlCandidates(pageUrl)) {
+    const url = linked.get(normalizeSourceUrl(candidate));
+    if (url) return { url, method: 'url-pattern' };
+  }
+
+  return null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Revision Diff Tests
+ * t-wada TDD style: 再取得したWebページと旧版の比較
+ */
+import { describe, expect, it } from 'vitest'
+import { diffTextBlocks, extractTextBlocks, findRevisionPages } from './revision-diff'
+
+describe('extractTextBlocks', () => {
+  it('should return block texts in document order with whitespace collapsed', () => {
+    const html = `<html><head><title>T</title></head><body>
+      <h1>Title</h1>
+      <p>First   paragraph
+        continues.</p>
+      <ul><li>one</li><li><p>two</p></li></ul>
+      <p>   </p>
+    </body></html>`
+
+    expect(extractTextBlocks(html)).toEqual(['Title', 'First paragraph continues.', 'one', 'two'])
+  })
+
+  it('should use the innermost block when blocks are nested', () => {
+    const html = '<blockquote><p>quoted</p><p>twice</p></blockquote><table><tr><td>cell</td></tr></table>'
+    expect(extractTextBlocks(html)).toEqual(['quoted', 'twice', 'cell'])
+  })
+})
+
+describe('diffTextBlocks', () => {
+  it('should mark everything as the same when nothing changed', () => {
+    expect(diffTextBlocks(['a', 'b'], ['a', 'b'])).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' }
+    ])
+  })
+
+  it('should find added and removed blocks', () => {
+    expect(diffTextBlocks(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd'])).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'd' }
+    ])
+  })
+
+  it('should put the removed block before the added one for a replacement', () => {
+    expect(diffTextBlocks(['a', 'old', 'z'], ['a', 'new', 'z'])).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'old' },
+      { type: 'added', text: 'new' },
+      { type: 'same', text: 'z' }
+    ])
+  })
+
+  it('should treat a page without an old counterpart as all added', () => {
+    expect(diffTextBlocks([], ['a', 'b'])).toEqual([
+      { type: 'added', text: 'a' },
+      { type: 'added', text: 'b' }
+    ])
+  })
+
+  it('should keep a common prefix and suffix around very large changes', () => {
+    const oldBlocks = ['head', ...Array.from({ length: 2500 }, (_, i) => `old ${i}`), 'tail']
+    const newBlocks = ['head', ...Array.from({ length: 2500 }, (_, i) => `new ${i}`), 'tail']
+
+    const blocks = diffTextBlocks(oldBlocks, newBlocks)
+
+    expect(blocks[0]).toEqual({ type: 'same', text: 'head' })
+    expect(blocks[blocks.length - 1]).toEqual({ type: 'same', text: 'tail' })
+    expect(blocks.filter(b => b.type === 'removed')).toHaveLength(2500)
+    expect(blocks.filter(b => b.type === 'added')).toHaveLength(2500)
+  })
+})
+
+describe('findRevisionPages', () => {
+  const revision = (id, totalPages, pageMap) => ({
+    id, title: 't', totalPages, savedAt: null, replacedAt: '2026-01-01T00:00:00.000Z', pageMap
+  })
+
+  it('should find the old pages that moved to the current page', () => {
+    const revisions = [revision('1', 3, [1, 3, 2])]
+    expect(findRevisionPages(revisions, 0, 1)).toEqual([1])
+    expect(findRevisionPages(revisions, 0, 2)).toEqual([3])
+    expect(findRevisionPages(revisions, 0, 3)).toEqual([2])
+  })
+
+  it('should follow the page maps of later revisions', () => {
+    // 1版: 2ページ → 2版: 3ページ → 現在: 2ページ
+    const revisions = [revision('1', 2, [1, 3]), revision('2', 3, [1, null, 2])]
+    expect(findRevisionPages(revisions, 0, 2)).toEqual([2])
+    expect(findRevisionPages(revisions, 1, 2)).toEqual([3])
+  })
+
+  it('should return nothing for pages that did not exist before', () => {
+    const revisions = [revision('1', 2, [1, null])]
+    expect(findRevisionPages(revisions, 0, 2)).toEqual([])
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Revision diff utility functions
+ * 再取得したWebページと旧版のページを、段落などのブロック単位で比較する
+ */
+import * as cheerio from 'cheerio';
+import type { DiffBlock, RevisionInfo } from './types';
+
+// 比較の単位にするブロック要素（入れ子の場合は内側だけを使う）
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, pre, blockquote, td, th, dt, dd, figcaption, caption';
+
+// LCSの表がこれより大きくなる場合は、前後の一致部分以外をまとめて削除・追加として扱う
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * ページHTMLから比較用のテキストブロックを取り出す
+ * @param html - ページのHTML
+ * @returns 空白を詰めたブロックのテキスト（出現順、空のブロックは除外）
+ */
+export function extractTextBlocks(html: string): string[] {
+  const $ = cheerio.load(html);
+  return $('body').find(BLOCK_SELECTOR).toArray()
+    .filter(el => $(el).find(BLOCK_SELECTOR).length === 0)
+    .map(el => $(el).text().replace(/\s+/g, ' ').trim())
+    .filter(text => text.length > 0);
+}
+
+/**
+ * ブロック列の差分（最長共通部分列）
+ * @param oldBlocks - 旧版のブロック
+ * @param newBlocks - 新版のブロック
+ * @returns 新版の順に並べた same / removed / added のブロック
+ */
+export function diffTextBlocks(oldBlocks: string[], newBlocks: string[]): DiffBlock[] {
+  // 前後の一致部分は表を作らずに処理する
+  let start = 0;
+  while (start < oldBlocks.length && start < newBlocks.length && oldBlocks[start] === newBlocks[start]) start++;
+  let oldEnd = oldBlocks.length;
+  let newEnd = newBlocks.length;
+  while (oldEnd > start && newEnd > start && oldBlocks[oldEnd - 1] === newBlocks[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const head: DiffBlock[] = oldBlocks.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: DiffBlock[] = oldBlocks.slice(oldEnd).map(text => ({ type: 'same', text }));
+  const oldMiddle = oldBlocks.slice(start, oldEnd);
+  const newMiddle = newBlocks.slice(start, newEnd);
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...oldMiddle.map(text => ({ type: 'removed' as const, text })),
+      ...newMiddle.map(text => ({ type: 'added' as const, text })),
+      ...tail
+    ];
+  }
+
+  // lengths[i][j] = oldMiddle[i..] と newMiddle[j..] の共通部分列の長さ
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+  const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldMiddle[i] === newMiddle[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffBlock[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+      middle.push({ type: 'same', text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (i < rows && (j === cols || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // 置き換えは削除→追加の順に並べる
+      middle.push({ type: 'removed', text: oldMiddle[i] });
+      i++;
+    } else {
+      middle.push({ type: 'added', text: newMiddle[j] });
+      j++;
+    }
+  }
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * 旧版のうち、現在のページに対応するページを求める
+ * 旧版から現在までの各再取得の対応表を順にたどる
+ * @param revisions - 旧版の一覧（古い順）
+ * @param revisionIndex - 比較する旧版の位置
+ * @param currentPage - 現在のページ番号
+ * @returns 旧版のページ番号（昇順、対応するページがなければ空）
+ */
+export function findRevisionPages(revisions: RevisionInfo[], revisionIndex: number, currentPage: number): number[] {
+  const pages: number[] = [];
+  const { totalPages } = revisions[revisionIndex];
+  for (let page = 1; page <= totalPages; page++) {
+    let mapped: number | null = page;
+    for (let k = revisionIndex; k < revisions.length && mapped !== null; k++) {
+      mapped = revisions[k].pageMap[mapped - 1] ?? null;
+    }
+    if (mapped === currentPage) pages.push(page);
+  }
+  return pages;
+}
@@ -0,0 +1,176 @@
+/**
+ * Route Parameter Validation Tests
+ * t-wada TDD style: パストラバーサル対策
+ */
+import express from 'express'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import request from 'supertest'
+import { fileURLToPath } from 'url'
+import { afterAll, describe, expect, it } from 'vitest'
+import { createMediaHandler, isValidId, parsePageNum, registerParamValidation, resolveInside } from './route-params'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+
+const BOOK_ID = '3f2b8c1e-5d4a-4e6f-9a7b-1c2d3e4f5a6b'
+
+describe('isValidId', () => {
+  it('should accept uuids only', () => {
+    expect(isValidId(BOOK_ID)).toBe(true)
+    expect(isValidId(BOOK_ID.toUpperCase())).toBe(true)
+    expect(isValidId('..')).toBe(false)
+    expect(isValidId(`${BOOK_ID}/../x`)).toBe(false)
+    expect(isValidId('')).toBe(false)
+  })
+})
+
+describe('parsePageNum', () => {
+  it('should accept positive integers', () => {
+    expect(parsePageNum('1')).toBe(1)
+    expect(parsePageNum('120')).toBe(120)
+  })
+
+  it('should reject anything else', () => {
+    for (const value of ['0', '-1', '01', '1.5', '1e3', 'abc', '../1', '1/../../x', '']) {
+      expect(parsePageNum(value)).toBeNull()
+    }
+  })
+})
+
+describe('resolveInside', () => {
+  const base = path.join('/srv', 'converted', BOOK_ID, 'media')
+
+  it('should resolve paths under the base directory', () => {
+    expect(resolveInside(base, 'ch1/fig.png')).toBe(path.join(base, 'ch1', 'fig.png'))
+    expect(resolveInside(base, 'a/../b.png')).toBe(path.join(base, 'b.png'))
+    expect(resolveInside(base, '..cover.png')).toBe(path.join(base, '..cover.png'))
+  })
+
+  it('should reject escapes, absolute paths and the base itself', () => {
+    expect(resolveInside(base, '../pages/page-1.html')).toBeNull()
+    expect(resolveInside(base, '../../../data/epub-viewer.db')).toBeNull()
+    expect(resolveInside(base, '/etc/passwd')).toBeNull()
+    expect(resolveInside(base, '')).toBeNull()
+    expect(resolveInside(base, 'a.png\0.html')).toBeNull()
+  })
+})
+
+// ROOT_DIR の代わり。converted/<id>/media/ に画像とSVGを置く
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'route-params-'))
+const convertedDir = path.join(rootDir, 'converted')
+fs.mkdirSync(path.join(convertedDir, BOOK_ID, 'media'), { recursive: true })
+fs.writeFileSync(path.join(convertedDir, BOOK_ID, 'media', 'fig.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]))
+fs.writeFileSync(path.join(convertedDir, BOOK_ID, 'media', 'evil.svg'), '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>')
+
+afterAll(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true })
+})
+
+// index.ts に登録されている全ルートを、パラメータ検証だけを通すダミーハンドラで再現する
+// メディアだけは本物のハンドラを使う
+function collectRoutes() {
+  const source = fs.readFileSync(path.join(__dirname, 'index.ts'), 'utf8')
+  return [...source.matchAll(/app\.(get|post|put|patch|delete)\('([^']+)'/g)]
+    .map(([, method, route]) => ({ method, route }))
+    .filter(({ route }) => route !== '*')
+}
+
+// index.ts の express.static によるディレクトリ公開（app.use('/x', express.static(path.join(ROOT_DIR, 'x')))）
+function collectStaticMounts() {
+  const source = fs.readFileSync(path.join(__dirname, 'index.ts'), 'utf8')
+  return [...source.matchAll(/app\.use\('([^']+)', express\.static\(path\.join\(ROOT_DIR, '([^']+)'\)\)\)/g)]
+    .map(([, mountPath, dir]) => ({ mountPath, dir }))
+}
+
+function createTestApp() {
+  const app = express()
+  for (const { mountPath, dir } of collectStaticMounts()) {
+    app.use(mountPath, express.static(path.join(rootDir, dir)))
+  }
+  registerParamValidation(app)
+  for (const { method, route } of collectRoutes()) {
+    if (route.endsWith('/media/*')) {
+      app[method](route, createMediaHandler(convertedDir))
+      continue
+    }
+    app[method](route, (req, res) => {
+      res.status(200).json({ reached: true })
+    })
+  }
+  return app
+}
+
+const fill = (route, values) => route
+  .replace(':bookId', values.bookId ?? BOOK_ID)
+  .replace(':pageNum', values.pageNum ?? '1')
+  .replace(/:[A-Za-z]+/g, 'x')
+  .replace('*', values.rest ?? 'fig.png')
+
+describe('path traversal on every route', () => {
+  const app = createTestApp()
+  const routes = collectRoutes()
+  const bookRoutes = routes.filter(r => r.route.includes(':bookId'))
+  const pageRoutes = routes.filter(r => r.route.includes(':pageNum'))
+
+  it('should find the book and page routes in index.ts', () => {
+    expect(bookRoutes.length).toBeGreaterThan(20)
+    expect(pageRoutes.length).toBeGreaterThan(0)
+  })
+
+  const bookIdAttacks = ['..%2F..%2Fdata', '..%2F..%2F..%2Fetc%2Fpasswd', '%2E%2E%2Fdata', 'not-a-uuid', `${BOOK_ID}%2F..%2F..`]
+
+  it.each(bookRoutes.flatMap(r => bookIdAttacks.map(bookId => [r.method, r.route, bookId])))(
+    '%s %s should reject bookId %s', async (method, route, bookId) => {
+      const res = await request(app)[method](fill(route, { bookId }))
+      expect([400, 404]).toContain(res.status)
+      expect(res.body.reached).toBeUndefined()
+    }
+  )
+
+  const pageAttacks = ['..%2F..%2Fpages.json', '..%2Fpage-1', '0', '1.5', 'abc']
+
+  it.each(pageRoutes.flatMap(r => pageAttacks.map(pageNum => [r.method, r.route, pageNum])))(
+    '%s %s should reject pageNum %s', async (method, route, pageNum) => {
+      const res = await request(app)[method](fill(route, { pageNum }))
+      expect([400, 404]).toContain(res.status)
+      expect(res.body.reached).toBeUndefined()
+    }
+  )
+
+  it.each(['..%2Fpages%2Fpage-1.html', '..%2F..%2F..%2Fdata%2Fepub-viewer.db', 'a%2F..%2F..%2Fpages.json'])(
+    'media should reject %s', async (rest) => {
+      const mediaRoute = routes.find(r => r.route.endsWith('/media/*'))
+      const res = await request(app).get(fill(mediaRoute.route, { rest }))
+      expect(res.status).toBe(400)
+    }
+  )
+
+  it('media should serve files under media/ without letting SVG scripts run', async () => {
+    const mediaRoute = routes.find(r => r.route.endsWith('/media/*'))
+    const res = await request(app).get(fill(mediaRoute.route, { rest: 'evil.svg' }))
+
+    expect(res.status).toBe(200)
+    expect(res.headers['content-security-policy']).toContain('sandbox')
+    expect(res.headers['content-security-policy']).toContain("default-src 'none'")
+    expect(res.headers['x-content-type-options']).toBe('nosniff')
+    expect((await request(app).get(fill(mediaRoute.route, { rest: 'missing.png' }))).status).toBe(404)
+  })
+
+  it('should not serve converted files outside the media handler', async () => {
+    const res = await request(app).get(`/converted/${BOOK_ID}/media/evil.svg`)
+
+    if (res.status === 200) {
+      expect(res.headers['content-security-policy']).toContain('sandbox')
+    } else {
+      expect(res.status).toBe(404)
+    }
+  })
+
+  it('should still reach handlers with valid parameters', async () => {
+    for (const { method, route } of [...bookRoutes, ...pageRoutes]) {
+      const res = await request(app)[method](fill(route, {}))
+      expect(res.status).toBe(200)
+    }
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Route parameter validation
+ * ファイルパスに使うルートパラメータ（書籍ID・ページ番号・メディアパス）を検証し、
+ * converted/ の外を読み書きさせない
+ */
+import type { Express, NextFunction, Request, RequestHandler, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+
+// メディアはアップロードされたEPUB/ZIPのファイルそのもの: SVGを直接開いてもアプリのオリジンでスクリプトを実行させない
+const MEDIA_CSP = "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; media-src 'self'; sandbox";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 書籍IDとして正しいか（uuid形式）
+ * @param value - パラメータの値
+ * @returns uuidならtrue
+ */
+export function isValidId(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * ページ番号を解釈
+ * @param value - パラメータの値
+ * @returns 1以上の整数（"01" や "1.5"、"../" などはnull）
+ */
+export function parsePageNum(value: string): number | null {
+  if (!/^[1-9]\d{0,8}$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+/**
+ * ディレクトリ配下のパスに解決（配下から出る場合はnull）
+ * @param baseDir - 基準ディレクトリ
+ * @param segments - 連結するパス（利用者の入力を含む）
+ * @returns 解決後の絶対パス
+ */
+export function resolveInside(baseDir: string, ...segments: string[]): string | null {
+  if (segments.some(segment => segment.includes('\0'))) return null;
+
+  const base = path.resolve(baseDir);
+  const resolved = path.resolve(base, ...segments);
+  const relative = path.relative(base, resolved);
+  if (relative === '' || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) return null;
+  return resolved;
+}
+
+/**
+ * :bookId と :pageNum を使う全ルートに検証を登録
+ * 不正な値はハンドラに届く前に400で返す
+ * @param app - Expressアプリ
+ */
+export function registerParamValidation(app: Express): void {
+  app.param('bookId', (_req: Request, res: Response, next: NextFunction, value: string) => {
+    if (!isValidId(value)) {
+      res.status(400).json({ error: 'Invalid book id' });
+      return;
+    }
+    next();
+  });
+
+  app.param('pageNum', (_req: Request, res: Response, next: NextFunction, value: string) => {
+    if (parsePageNum(value) === null) {
+      res.status(400).json({ error: 'Invalid page number' });
+      return;
+    }
+    next();
+  });
+}
+
+/**
+ * /api/books/:bookId/media/* のハンドラ
+ * パスは書籍の media/ 配下に限り、スクリプトを実行させないヘッダーを付けて返す
+ * @param convertedDir - 変換済み書籍のディレクトリ
+ * @returns Expressのハンドラ
+ */
+export function createMediaHandler(convertedDir: string): RequestHandler {
+  return (req: Request, res: Response) => {
+    const mediaPath = resolveInside(path.join(convertedDir, req.params.bookId, 'media'), req.params[0]);
+    if (!mediaPath) {
+      res.status(400).json({ error: 'Invalid media path' });
+      return;
+    }
+    if (fs.existsSync(mediaPath) && fs.statSync(mediaPath).isFile()) {
+      res.setHeader('Content-Security-Policy', MEDIA_CSP);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.sendFile(mediaPath);
+    } else {
+      res.status(404).json({ error: 'Media not found' });
+    }
+  };
+}
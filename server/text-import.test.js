@@ -0,0 +1,97 @@
+/**
+ * Text Import Tests
+ * t-wada TDD style: 文字コード判定とテキストのHTML化
+ */
+import { describe, expect, it } from 'vitest'
+import { decodeText, detectEncoding, findHtmlCharset, splitPdfTextPages, textToHtml } from './text-import'
+
+const SAMPLE = '吾輩は猫である。名前はまだ無い。'
+const SHIFT_JIS = Buffer.from('8ce1947982cd944c82c582a082e9814296bc914f82cd82dc82be96b382a28142', 'hex')
+const EUC_JP = Buffer.from('b8e3c7daa4cfc7ada4c7a4a2a4eba1a3ccbec1b0a4cfa4dea4c0ccb5a4a4a1a3', 'hex')
+const CP1252 = Buffer.from('436166e9206372e86d65', 'hex')
+
+describe('detectEncoding', () => {
+  it('should detect UTF-8', () => {
+    expect(detectEncoding(Buffer.from(SAMPLE, 'utf8'))).toBe('utf-8')
+  })
+
+  it('should detect BOMs', () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x41]))).toBe('utf-8')
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le')
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x41]))).toBe('utf-16be')
+  })
+
+  it('should detect Shift_JIS', () => {
+    expect(detectEncoding(SHIFT_JIS)).toBe('shift_jis')
+  })
+
+  it('should detect EUC-JP', () => {
+    expect(detectEncoding(EUC_JP)).toBe('euc-jp')
+  })
+
+  it('should fall back to Windows-1252 for Latin text', () => {
+    expect(detectEncoding(CP1252)).toBe('windows-1252')
+  })
+})
+
+describe('decodeText', () => {
+  it('should decode Shift_JIS and EUC-JP text', () => {
+    expect(decodeText(SHIFT_JIS)).toBe(SAMPLE)
+    expect(decodeText(EUC_JP)).toBe(SAMPLE)
+  })
+
+  it('should strip UTF-8 BOM', () => {
+    expect(decodeText(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('abc')]))).toBe('abc')
+  })
+
+  it('should prefer a declared charset', () => {
+    expect(decodeText(SHIFT_JIS, 'shift_jis')).toBe(SAMPLE)
+  })
+
+  it('should ignore unknown charset labels', () => {
+    expect(decodeText(SHIFT_JIS, 'x-unknown')).toBe(SAMPLE)
+  })
+})
+
+describe('findHtmlCharset', () => {
+  it('should read <meta charset>', () => {
+    expect(findHtmlCharset(Buffer.from('<html><head><meta charset="Shift_JIS"></head>'))).toBe('shift_jis')
+  })
+
+  it('should read http-equiv Content-Type', () => {
+    const html = '<meta http-equiv="Content-Type" content="text/html; charset=EUC-JP">'
+    expect(findHtmlCharset(Buffer.from(html))).toBe('euc-jp')
+  })
+
+  it('should return null without declaration', () => {
+    expect(findHtmlCharset(Buffer.from('<html><body>x</body></html>'))).toBeNull()
+  })
+})
+
+describe('textToHtml', () => {
+  it('should split paragraphs on blank lines and keep line breaks', () => {
+    const html = textToHtml('一行目\r\n二行目\r\n\r\n次の段落', '議事録')
+
+    expect(html).toContain('<h1>議事録</h1>')
+    expect(html).toContain('<p>一行目<br>\n二行目</p>')
+    expect(html).toContain('<p>次の段落</p>')
+  })
+
+  it('should escape HTML in text and title', () => {
+    const html = textToHtml('<script>alert(1)</script> & more', '<b>t</b>')
+
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; &amp; more')
+    expect(html).toContain('<title>&lt;b&gt;t&lt;/b&gt;</title>')
+  })
+})
+
+describe('splitPdfTextPages', () => {
+  it('should split pages on form feeds and drop the trailing separator', () => {
+    expect(splitPdfTextPages('Page one\r\nline 2\n\fPage two\n\f')).toEqual(['Page one\nline 2', 'Page two'])
+  })
+
+  it('should keep empty pages in place', () => {
+    expect(splitPdfTextPages('first\f\fthird\f')).toEqual(['first', '', 'third'])
+  })
+})
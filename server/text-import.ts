@@ -0,0 +1,127 @@
+/**
+ * Plain text / HTML import utilities
+ * 文字コード判定（Shift_JIS / EUC-JP 含む）とテキストのHTML化
+ */
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'shift_jis' | 'euc-jp' | 'windows-1252';
+
+// ひらがな・カタカナ・CJK統合漢字・全角記号
+const JAPANESE_CHAR = /[\u3000-\u30ff\u4e00-\u9fff\uff01-\uff5e]/g;
+
+function tryDecode(buffer: Buffer, encoding: TextEncoding): string | null {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(buffer);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * バイト列の文字コードを推定
+ * @param buffer - ファイル内容
+ * @returns 推定した文字コード（BOM → UTF-8 → 日本語エンコーディング → Windows-1252 の順に判定）
+ */
+export function detectEncoding(buffer: Buffer): TextEncoding {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+
+  if (tryDecode(buffer, 'utf-8') !== null) return 'utf-8';
+
+  // Shift_JIS と EUC-JP はどちらでも読めてしまうことがあるため、日本語らしい文字の数で比べる
+  let best: { encoding: TextEncoding; score: number } | null = null;
+  for (const encoding of ['shift_jis', 'euc-jp'] as const) {
+    const text = tryDecode(buffer, encoding);
+    if (text === null) continue;
+    const score = (text.match(JAPANESE_CHAR) || []).length;
+    if (!best || score > best.score) {
+      best = { encoding, score };
+    }
+  }
+
+  // 半角カナしか出てこない場合は Latin-1 系の可能性が高い
+  return best && best.score > 0 ? best.encoding : 'windows-1252';
+}
+
+/**
+ * HTML内の <meta charset> 宣言を取得
+ * @param buffer - HTMLファイル内容
+ * @returns 宣言された文字コード名（小文字）、なければnull
+ */
+export function findHtmlCharset(buffer: Buffer): string | null {
+  const head = buffer.subarray(0, 2048).toString('latin1');
+  const match = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w-]+)/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * バイト列を文字列に変換
+ * @param buffer - ファイル内容
+ * @param declared - 宣言された文字コード（HTMLのmeta等）、未対応なら自動判定にフォールバック
+ * @returns デコードした文字列（BOMは除去）
+ */
+export function decodeText(buffer: Buffer, declared?: string | null): string {
+  let encoding: string = detectEncoding(buffer);
+  if (declared && encoding !== 'utf-16le' && encoding !== 'utf-16be') {
+    try {
+      new TextDecoder(declared);
+      encoding = declared;
+    } catch {
+      // Unknown label, keep detected encoding
+    }
+  }
+  return new TextDecoder(encoding).decode(buffer);
+}
+
+/**
+ * HTMLの特殊文字をエスケープ
+ * @param text - テキスト
+ * @returns エスケープ済みの文字列
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * プレーンテキストをHTMLに変換
+ * 空行で段落を分け、段落内の改行は <br> で保持する
+ * @param text - テキスト
+ * @param title - 見出しとして先頭に入れるタイトル
+ * @returns splitIntoPagesに渡せるHTML文書
+ */
+export function textToHtml(text: string, title: string): string {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t　]*\n/)
+    .map(p => p.replace(/^\n+|\n+$/g, ''))
+    .filter(p => p.trim().length > 0)
+    .map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>\n')}</p>`);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${paragraphs.join('\n')}
+</body>
+</html>`;
+}
+
+/**
+ * pdftotext の出力をページごとに分ける（ページ区切りはフォームフィード）
+ * @param output - pdftotext の標準出力
+ * @returns ページ順のテキスト（前後の空白は除去）
+ */
+export function splitPdfTextPages(output: string): string[] {
+  const pages = output.replace(/\r\n?/g, '\n').split('\f').map(page => page.trim());
+  // 出力は最終ページの後にも区切りが付く
+  if (pages.length > 1 && pages[pages.length - 1] === '') pages.pop();
+  return pages;
+}
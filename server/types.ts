@@ -7,9 +7,18 @@ export interface Book {
   pdf_total_pages: number | null;
   category: string | null;
   language: string;
-  book_type: 'epub' | 'pdf' | 'website';
+  book_type: 'epub' | 'pdf' | 'website' | 'markdown' | 'text' | 'html' | 'docx' | 'comic';
   source_url: string | null;
+  normalized_source_url: string | null;
   ai_context: string | null;
+  author: string | null;
+  publisher: string | null;
+  identifier: string | null;
+  description: string | null;
+  series: string | null;
+  series_index: number | null;
+  published_date: string | null;
+  content_hash: string | null;
   created_at: string;
   updated_at: string;
   current_page?: number;
@@ -23,7 +32,18 @@ export interface Tag {
   color: string;
 }
 
-export interface BookInput {
+// Bibliographic metadata (EPUB OPF dc:* etc.)
+export interface BookMetadata {
+  author?: string | null;
+  publisher?: string | null;
+  identifier?: string | null;
+  description?: string | null;
+  series?: string | null;
+  series_index?: number | null;
+  published_date?: string | null;
+}
+
+export interface BookInput extends BookMetadata {
   title?: string;
   language?: string;
   ai_context?: string;
@@ -36,6 +56,93 @@ export interface WebsiteMetadata {
   ogImage: string | null;
   favicon: string | null;
   siteName: string | null;
+  byline: string | null;
+  publishedDate: string | null;
+}
+
+// Per-site extraction rules (Web page saving)
+export interface ExtractionRuleInput {
+  host_pattern: string;
+  content_selector: string | null;
+  remove_selectors: string[];
+  next_page_selector: string | null;
+}
+
+export interface ExtractionRule extends ExtractionRuleInput {
+  id: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// RSS/Atom feed subscriptions
+export interface FeedInput {
+  url: string;
+  title: string | null;
+  // 保存した記事に付けるタグ名
+  default_tag: string | null;
+  // 1回の取得で保存する新着記事の上限
+  entry_limit: number;
+  enabled: boolean;
+}
+
+export interface Feed extends FeedInput {
+  id: string;
+  last_checked_at: string | null;
+  last_error: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// An entry parsed from a feed document
+export interface FeedEntry {
+  id: string;
+  url: string;
+  title: string;
+  published: string | null;
+}
+
+export interface FeedPollResult {
+  feedId: string;
+  saved: string[];
+  skipped: number;
+  errors: string[];
+}
+
+// FreshRSS connector (Google Reader compatible API)
+export interface FreshRssSettingsInput {
+  // 例: https://rss.example.com/api/greader.php
+  api_url: string;
+  username: string;
+  // FreshRSSの「APIパスワード」。nullなら保存済みのものを使う
+  api_password: string | null;
+  import_starred: boolean;
+  import_labels: string[];
+  // 取り込んだ記事にFreshRSS側で付けるラベル
+  saved_label: string;
+  default_tag: string | null;
+  // 1回の同期で取り込む記事の上限
+  item_limit: number;
+  enabled: boolean;
+}
+
+export interface FreshRssSettings extends FreshRssSettingsInput {
+  api_password: string;
+  last_synced_at: string | null;
+  last_error: string | null;
+}
+
+// A starred or labelled item returned by the Google Reader API
+export interface GReaderItem {
+  id: string;
+  title: string;
+  url: string;
+  categories: string[];
+}
+
+export interface FreshRssSyncResult {
+  saved: string[];
+  marked: number;
+  errors: string[];
 }
 
 // Bookmark types
@@ -80,13 +187,113 @@ export interface UploadResponse {
   success: boolean;
   bookId: string;
   title: string;
-  bookType: 'epub' | 'pdf' | 'website';
+  bookType: 'epub' | 'pdf' | 'website' | 'markdown' | 'text' | 'html' | 'docx' | 'comic';
   totalPages: number;
+  metadata?: BookMetadata;
+}
+
+// Annotation that could not be matched to a page of the replaced source
+export interface UnmappedAnnotation {
+  type: 'bookmark' | 'note' | 'clip' | 'progress';
+  id: string;
+  oldPage: number;
+  // Page it was left on (clamped to the new page count)
+  newPage: number;
+  text: string | null;
+}
+
+export interface ReplaceSourceResponse extends UploadResponse {
+  remapped: number;
+  unmapped: UnmappedAnnotation[];
+}
+
+// Previous revision of a refreshed web page (kept under revisions/<id>/)
+export interface RevisionInfo {
+  id: string;
+  title: string;
+  totalPages: number;
+  // When the revision was saved, and when a refresh replaced it
+  savedAt: string | null;
+  replacedAt: string;
+  // Page number - 1 → page number in the revision that replaced it (null when unknown)
+  pageMap: (number | null)[];
+}
+
+export interface RefreshResponse {
+  success: boolean;
+  changed: boolean;
+  totalPages: number;
+  revision: RevisionInfo | null;
+  remapped: number;
+  unmapped: UnmappedAnnotation[];
+  // Old pages whose translation no longer matches the re-fetched page (kept in the revision only)
+  droppedTranslations: number[];
+}
+
+// Block-level diff between a page and its previous revision
+export interface DiffBlock {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Multi-page crawl progress reported to the client (Job.detail of a multipage job)
+export interface CrawlProgress {
+  startUrl: string;
+  maxPages: number;
+  fetched: { url: string; bytes: number; images: number }[];
+  bytes: number;
+  images: number;
+  errors: { url: string; message: string }[];
+  // Where a resumed crawl continues (null when there is no next page)
+  nextUrl: string | null;
+}
+
+// Dry-run result of a next-page crawl (nothing is saved)
+export interface CrawlPreview {
+  // method: how the link to this page was found (null for the start page)
+  pages: { url: string; title: string; method: string | null }[];
+  // Set when the preview stopped at its page limit or on an error
+  nextUrl: string | null;
+  truncated: boolean;
+  errors: { url: string; message: string }[];
+}
+
+export interface MultipageSaveResponse {
+  success: boolean;
+  bookId: string;
+  title: string;
+  bookType: 'website';
+  totalPages: number;
+  crawledUrls: string[];
+}
+
+// Background job types (upload conversion etc.)
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job<T = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  stage: string;
+  progress: number;
+  result: T | null;
+  error: string | null;
+  // Job-specific progress (e.g. CrawlProgress for multi-page crawls)
+  detail: unknown;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface PagesInfo {
   total: number;
   pages: string[];
+  toc?: TocItem[];
+  // Comic books: page images under media/ and reading direction
+  images?: string[];
+  rightToLeft?: boolean;
+  // Element id → page and footnote HTML, so links still work after splitting
+  anchors?: Record<string, number>;
+  footnotes?: Record<string, string>;
 }
 
 export interface PageContent {